@@ -1,13 +1,43 @@
+import { useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { Auth } from './components/Auth';
+import { AuthCallback } from './components/AuthCallback';
+import { ForgotPassword } from './components/ForgotPassword';
+import { ResetPassword } from './components/ResetPassword';
 import { Header } from './components/Header';
 import { UserDashboard } from './components/UserDashboard';
 import { AdminDashboard } from './components/AdminDashboard';
+import { PublicCatalog } from './components/PublicCatalog';
+import { PublicOfferPage } from './components/PublicOfferPage';
+import { getRouteRedirect, navigateTo, navigateToRoute, setReturnTo, takeReturnTo, useRoute } from './lib/routes';
 
 function AppContent() {
   const { user, profile, loading } = useAuth();
+  const route = useRoute();
+  // A signed-in user whose profile is still loading has no role to guard with yet
+  const ready = !loading && (!user || !!profile);
+  const redirect = ready ? getRouteRedirect(route, profile) : null;
 
-  if (loading) {
+  useEffect(() => {
+    if (!ready) return;
+
+    // Back to the page that asked for signing in, or the offer a visitor signed up from.
+    // A password reset link signs in too, but the new password comes first
+    const returnTo = profile && route.name !== 'resetPassword' ? takeReturnTo() : null;
+    if (returnTo) {
+      navigateTo(returnTo, { replace: true });
+      return;
+    }
+
+    const target = getRouteRedirect(route, profile);
+    if (!target) return;
+    if (!profile && target.name === 'signIn' && route.name !== 'notFound') {
+      setReturnTo(`${window.location.pathname}${window.location.search}`);
+    }
+    navigateToRoute(target, { replace: true });
+  }, [ready, route, profile]);
+
+  if (!ready || redirect) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -15,10 +45,33 @@ function AppContent() {
     );
   }
 
-  if (!user || !profile) {
-    return <Auth />;
+  if (route.name === 'signIn' || route.name === 'signUp') {
+    return <Auth signUp={route.name === 'signUp'} />;
+  }
+
+  if (route.name === 'forgotPassword') {
+    return <ForgotPassword />;
+  }
+
+  if (route.name === 'resetPassword') {
+    return <ResetPassword />;
   }
 
+  if (route.name === 'authCallback') {
+    return <AuthCallback />;
+  }
+
+  if (route.name === 'catalog') {
+    return <PublicCatalog />;
+  }
+
+  // Customers see offers in their dashboard; everyone else gets the offer's public page
+  if (route.name === 'offer' && (!profile || profile.is_admin)) {
+    return <PublicOfferPage slug={route.slug} />;
+  }
+
+  if (!profile) return null;
+
   return (
     <div className="min-h-screen bg-slate-50">
       <Header />
@@ -1,44 +1,149 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Plus, Edit2, Trash2, Users, Package, CheckCircle, Clock, XCircle, ExternalLink, Image as ImageIcon, Video, Play } from 'lucide-react';
+import { Plus, Edit2, Trash2, Users, Package, CheckCircle, Clock, XCircle, ExternalLink, Image as ImageIcon, Play, AlertCircle, PauseCircle, Hourglass, History, X, FileText, Receipt, Download, Gauge, GitCompare, Boxes } from 'lucide-react';
 import type { Database } from '../lib/database.types';
 import { OfferModal } from './OfferModal';
+import { OfferDraftList } from './OfferDraftList';
 import { MediaManager } from './MediaManager';
+import { BundleManager } from './BundleManager';
+import { CategoryManager } from './CategoryManager';
+import { CategoryBadge } from './CategoryBadge';
+import { Markdown } from './Markdown';
+import { CouponManager } from './CouponManager';
+import { TaxRateManager } from './TaxRateManager';
+import { UsageModal } from './UsageModal';
+import { OfferVersionsModal } from './OfferVersionsModal';
 import { VideoModal } from './VideoModal';
+import { SubscriptionHistory } from './SubscriptionHistory';
+import { InvoiceList } from './InvoiceList';
+import { InvoiceDocuments } from './InvoiceDocuments';
+import { Link } from './Link';
+import { StaffManager } from './StaffManager';
+import { useAuth } from '../contexts/AuthContext';
+import { runBilling } from '../lib/billing';
+import { formatMoney } from '../lib/currency';
+import { getMeterUnitPrice, type PricedMeter } from '../lib/usage';
+import { sortTiers, type PricedTier } from '../lib/tiers';
+import { getCategoryPath } from '../lib/categories';
+import { getRelatedOfferIds } from '../lib/offer-relations';
+import { getOfferScheduleStatus } from '../lib/offer-schedule';
+import { countFeatures } from '../lib/offer-features';
+import { getOfferPath } from '../lib/public-catalog';
+import { getAdminTab, navigateToRoute, useRoute } from '../lib/routes';
+import { hasStaffPermission } from '../lib/staff';
+import { loadOfferDrafts, saveOfferDraft, toOfferForm, type OfferDraft } from '../lib/offer-drafts';
+import {
+  changeSubscriptionStatus,
+  getNextStatuses,
+  getStatusLabel,
+  setSubscriptionNotes,
+  type SubscriptionStatus,
+} from '../lib/subscription-lifecycle';
 
 type ServiceOffer = Database['public']['Tables']['service_offers']['Row'] & {
   service_categories: Database['public']['Tables']['service_categories']['Row'] | null;
+  offer_prices: Database['public']['Tables']['offer_prices']['Row'][];
+  offer_meters: (PricedMeter & { offer_meter_prices: Database['public']['Tables']['offer_meter_prices']['Row'][] })[];
+  offer_tiers: PricedTier[];
+  offer_relations: Database['public']['Tables']['offer_relations']['Row'][];
+  current_version: Pick<Database['public']['Tables']['offer_versions']['Row'], 'version'> | null;
 };
 type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'] & {
-  service_offers: Database['public']['Tables']['service_offers']['Row'] | null;
+  service_offers: (Database['public']['Tables']['service_offers']['Row'] & { offer_meters: PricedMeter[] }) | null;
   profiles: Database['public']['Tables']['profiles']['Row'] | null;
+  organizations: Organization | null;
+  coupons: Pick<Database['public']['Tables']['coupons']['Row'], 'code'> | null;
+  offer_versions: Pick<Database['public']['Tables']['offer_versions']['Row'], 'version'> | null;
+  offer_tiers: Pick<Database['public']['Tables']['offer_tiers']['Row'], 'name'> | null;
+  subscription_bundles: { service_bundles: Pick<Database['public']['Tables']['service_bundles']['Row'], 'title'> | null } | null;
 };
 type Category = Database['public']['Tables']['service_categories']['Row'];
+type Organization = Database['public']['Tables']['organizations']['Row'];
 
 export function AdminDashboard() {
+  const route = useRoute();
+  const activeTab = getAdminTab(route);
+  const { profile } = useAuth();
+  const canEditCatalog = hasStaffPermission(profile, 'catalog');
+  const canBill = hasStaffPermission(profile, 'billing');
+  const canManageSubscriptions = hasStaffPermission(profile, 'subscriptions');
+  const canManageStaff = hasStaffPermission(profile, 'staff');
   const [offers, setOffers] = useState<ServiceOffer[]>([]);
   const [subscriptions, setSubscriptions] = useState<UserSubscription[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingOffer, setEditingOffer] = useState<ServiceOffer | null>(null);
-  const [activeTab, setActiveTab] = useState<'offers' | 'subscriptions' | 'media'>('offers');
+  const [editingDraft, setEditingDraft] = useState<OfferDraft | null>(null);
+  const [drafts, setDrafts] = useState<OfferDraft[]>([]);
   const [playingVideo, setPlayingVideo] = useState<{ url: string; title: string } | null>(null);
+  const [historySubscription, setHistorySubscription] = useState<UserSubscription | null>(null);
+  const [invoiceOrganization, setInvoiceOrganization] = useState<Organization | null>(null);
+  const [documentsSubscription, setDocumentsSubscription] = useState<UserSubscription | null>(null);
+  const [usageSubscription, setUsageSubscription] = useState<UserSubscription | null>(null);
+  const [versionsOffer, setVersionsOffer] = useState<ServiceOffer | null>(null);
+  const [billing, setBilling] = useState(false);
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Offers and subscriptions have their own addresses, which open their form or
+  // history, so a refresh keeps them open and a colleague can be sent a link
+  useEffect(() => {
+    if (route.name === 'adminOffer') {
+      if (!canEditCatalog) return;
+      const offer = offers.find((o) => o.id === route.offerId) ?? null;
+      if (route.offerId !== 'new' && !offer) return;
+      // An offer with pending changes is edited through its draft
+      setEditingOffer(offer);
+      setEditingDraft(offer ? drafts.find((draft) => draft.offer_id === offer.id) ?? null : null);
+      setShowModal(true);
+    } else if (route.name === 'adminSubscription') {
+      setHistorySubscription(subscriptions.find((sub) => sub.id === route.subscriptionId) ?? null);
+    }
+  }, [route, offers, drafts, subscriptions, canEditCatalog]);
+
+  // Going back from an offer or a subscription closes it
+  useEffect(() => {
+    if (route.name !== 'adminOffer') {
+      setShowModal(false);
+      setEditingOffer(null);
+      setEditingDraft(null);
+    }
+    if (route.name !== 'adminSubscription') {
+      setHistorySubscription(null);
+    }
+  }, [route]);
+
+  const visibleSubscriptions =
+    route.name === 'adminCustomer'
+      ? subscriptions.filter((sub) => sub.user_id === route.customerId)
+      : subscriptions;
+  const customerProfile = visibleSubscriptions[0]?.profiles ?? null;
+
+  const closeOfferModal = () => {
+    if (route.name === 'adminOffer') {
+      navigateToRoute({ name: 'admin', tab: 'offers' });
+    } else {
+      setShowModal(false);
+      setEditingOffer(null);
+      setEditingDraft(null);
+    }
+  };
+
   const fetchData = async () => {
-    const [offersResult, subsResult, catsResult] = await Promise.all([
-      supabase.from('service_offers').select('*, service_categories(*)').order('created_at', { ascending: false }),
-      supabase.from('user_subscriptions').select('*, service_offers(*), profiles(*)').order('created_at', { ascending: false }),
-      supabase.from('service_categories').select('*').order('name'),
+    const [offersResult, subsResult, catsResult, offerDrafts] = await Promise.all([
+      supabase.from('service_offers').select('*, service_categories(*), offer_prices(*), offer_meters(*, offer_meter_prices(*)), offer_tiers(*, offer_tier_prices(*)), offer_relations!offer_relations_offer_id_fkey(*), current_version:offer_versions!service_offers_current_version_id_fkey(version)').order('created_at', { ascending: false }),
+      supabase.from('user_subscriptions').select('*, service_offers(*, offer_meters(*, offer_meter_prices(*))), profiles(*), organizations(*), coupons(code), offer_versions(version), offer_tiers(name), subscription_bundles(service_bundles(title))').order('created_at', { ascending: false }),
+      supabase.from('service_categories').select('*').order('sort_order').order('name'),
+      loadOfferDrafts().catch(() => []),
     ]);
 
     if (offersResult.data) setOffers(offersResult.data as ServiceOffer[]);
     if (subsResult.data) setSubscriptions(subsResult.data as UserSubscription[]);
     if (catsResult.data) setCategories(catsResult.data);
+    setDrafts(offerDrafts);
     setLoading(false);
   };
 
@@ -49,18 +154,86 @@ export function AdminDashboard() {
     await fetchData();
   };
 
-  const handleToggleActive = async (id: string, currentStatus: boolean) => {
-    await supabase.from('service_offers').update({ is_active: !currentStatus }).eq('id', id);
+  /** Live offers only change through a reviewed draft, so this stages the change in the offer's draft */
+  const handleToggleActive = async (offer: ServiceOffer) => {
+    const draft = drafts.find((existing) => existing.offer_id === offer.id);
+
+    try {
+      await saveOfferDraft(
+        draft?.id ?? null,
+        offer.id,
+        { ...(draft?.form ?? toOfferForm(offer)), is_active: !offer.is_active },
+        draft?.move_subscribers ?? false
+      );
+      alert(`${offer.title} will be ${offer.is_active ? 'deactivated' : 'activated'} once its draft is approved and published.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save draft');
+    }
     await fetchData();
   };
 
-  const handleUpdateSubscriptionStatus = async (id: string, status: 'active' | 'pending' | 'cancelled') => {
-    await supabase.from('user_subscriptions').update({ status }).eq('id', id);
+  const renderScheduleBadge = (offer: ServiceOffer) => {
+    switch (getOfferScheduleStatus(offer)) {
+      case 'published':
+        return (
+          <span
+            className="px-3 py-1 bg-green-100 text-green-800 text-xs font-medium rounded-full"
+            title={offer.unpublish_at ? `Unpublishes ${new Date(offer.unpublish_at).toLocaleString()}` : undefined}
+          >
+            Active
+          </span>
+        );
+      case 'scheduled':
+        return (
+          <span className="flex items-center gap-1 px-3 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
+            <Clock className="w-3 h-3" />
+            Scheduled for {new Date(offer.publish_at!).toLocaleString()}
+          </span>
+        );
+      case 'expired':
+        return (
+          <span className="px-3 py-1 bg-amber-100 text-amber-800 text-xs font-medium rounded-full">
+            Expired {new Date(offer.unpublish_at!).toLocaleDateString()}
+          </span>
+        );
+      case 'inactive':
+        return <span className="px-3 py-1 bg-slate-100 text-slate-800 text-xs font-medium rounded-full">Inactive</span>;
+    }
+  };
+
+  const handleUpdateSubscriptionStatus = async (id: string, status: SubscriptionStatus) => {
+    const note = prompt(`Reason for moving this subscription to ${getStatusLabel(status)} (optional):`, '');
+    if (note === null) return;
+
+    try {
+      await changeSubscriptionStatus(id, status, note.trim());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to change subscription status');
+    }
     await fetchData();
   };
 
   const handleUpdateSubscriptionNotes = async (id: string, notes: string) => {
-    await supabase.from('user_subscriptions').update({ notes }).eq('id', id);
+    try {
+      await setSubscriptionNotes(id, notes);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save subscription notes');
+    }
+    await fetchData();
+  };
+
+  const handleRunBilling = async () => {
+    setBilling(true);
+
+    try {
+      const result = await runBilling();
+      const summary = `Ended ${result.trialsEnded} trial(s), billed ${result.subscriptionsBilled} subscription(s), created ${result.invoicesCreated} invoice(s).`;
+      alert(result.errors.length > 0 ? `${summary}\n\nErrors:\n${result.errors.join('\n')}` : summary);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Billing run failed');
+    }
+
+    setBilling(false);
     await fetchData();
   };
 
@@ -70,8 +243,16 @@ export function AdminDashboard() {
         return <CheckCircle className="w-4 h-4 text-green-600" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-amber-600" />;
+      case 'trialing':
+        return <Hourglass className="w-4 h-4 text-blue-600" />;
+      case 'past_due':
+        return <AlertCircle className="w-4 h-4 text-orange-600" />;
+      case 'paused':
+        return <PauseCircle className="w-4 h-4 text-slate-500" />;
       case 'cancelled':
         return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'expired':
+        return <XCircle className="w-4 h-4 text-slate-400" />;
       default:
         return null;
     }
@@ -141,7 +322,7 @@ export function AdminDashboard() {
 
         <div className="flex gap-2 mb-6">
           <button
-            onClick={() => setActiveTab('offers')}
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'offers' })}
             className={`px-6 py-3 rounded-lg font-medium transition-colors ${
               activeTab === 'offers'
                 ? 'bg-blue-600 text-white'
@@ -151,7 +332,17 @@ export function AdminDashboard() {
             Service Offers
           </button>
           <button
-            onClick={() => setActiveTab('subscriptions')}
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'bundles' })}
+            className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'bundles'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-slate-700 border border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            Bundles
+          </button>
+          <button
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'subscriptions' })}
             className={`px-6 py-3 rounded-lg font-medium transition-colors ${
               activeTab === 'subscriptions'
                 ? 'bg-blue-600 text-white'
@@ -161,7 +352,37 @@ export function AdminDashboard() {
             User Subscriptions
           </button>
           <button
-            onClick={() => setActiveTab('media')}
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'categories' })}
+            className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'categories'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-slate-700 border border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            Categories
+          </button>
+          <button
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'coupons' })}
+            className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'coupons'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-slate-700 border border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            Coupons
+          </button>
+          <button
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'taxes' })}
+            className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'taxes'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-slate-700 border border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            Tax Rates
+          </button>
+          <button
+            onClick={() => navigateToRoute({ name: 'admin', tab: 'media' })}
             className={`px-6 py-3 rounded-lg font-medium transition-colors ${
               activeTab === 'media'
                 ? 'bg-blue-600 text-white'
@@ -170,6 +391,18 @@ export function AdminDashboard() {
           >
             Media Files
           </button>
+          {canManageStaff && (
+            <button
+              onClick={() => navigateToRoute({ name: 'admin', tab: 'staff' })}
+              className={`px-6 py-3 rounded-lg font-medium transition-colors ${
+                activeTab === 'staff'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-slate-700 border border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              Staff
+            </button>
+          )}
         </div>
       </div>
 
@@ -177,18 +410,35 @@ export function AdminDashboard() {
         <div>
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold text-slate-900">Service Offers</h2>
-            <button
-              onClick={() => {
-                setEditingOffer(null);
-                setShowModal(true);
-              }}
-              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-            >
-              <Plus className="w-5 h-5" />
-              Add Offer
-            </button>
+            {canEditCatalog && (
+              <button
+                onClick={() => navigateToRoute({ name: 'adminOffer', offerId: 'new' })}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+                Add Offer
+              </button>
+            )}
           </div>
 
+          <OfferDraftList
+            drafts={drafts}
+            offers={offers}
+            categories={categories}
+            onEdit={(draft) => {
+              if (draft.offer_id) {
+                navigateToRoute({ name: 'adminOffer', offerId: draft.offer_id });
+                return;
+              }
+              // Drafts of new offers have no address of their own
+              setEditingOffer(null);
+              setEditingDraft(draft);
+              setShowModal(true);
+            }}
+            onChange={fetchData}
+            canManage={canEditCatalog}
+          />
+
           <div className="grid gap-4">
             {offers.map((offer) => (
               <div key={offer.id} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -197,28 +447,80 @@ export function AdminDashboard() {
                     <div className="flex items-center gap-3 mb-2">
                       <h3 className="text-xl font-bold text-slate-900">{offer.title}</h3>
                       {offer.service_categories && (
-                        <span className="px-3 py-1 bg-blue-50 text-blue-700 text-xs font-medium rounded-full">
-                          {offer.service_categories.name}
+                        <CategoryBadge
+                          name={getCategoryPath(categories, offer.service_categories.id)}
+                          icon={offer.service_categories.icon}
+                          color={offer.service_categories.color}
+                        />
+                      )}
+                      {renderScheduleBadge(offer)}
+                      {drafts.some((draft) => draft.offer_id === offer.id) && (
+                        <span className="px-3 py-1 bg-amber-50 text-amber-700 text-xs font-medium rounded-full">
+                          Unpublished changes
+                        </span>
+                      )}
+                      {offer.current_version && (
+                        <span className="px-3 py-1 bg-slate-100 text-slate-700 text-xs font-medium rounded-full">
+                          v{offer.current_version.version}
                         </span>
                       )}
-                      <span className={`px-3 py-1 text-xs font-medium rounded-full ${
-                        offer.is_active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-800'
-                      }`}>
-                        {offer.is_active ? 'Active' : 'Inactive'}
-                      </span>
                     </div>
-                    <p className="text-slate-600 mb-4">{offer.description}</p>
+                    <Markdown source={offer.description} className="text-slate-600 mb-4" />
                     <div className="flex items-center gap-6 text-sm mb-3">
-                      <span className="text-slate-700">
-                        <strong>Monthly:</strong> ${offer.price_monthly}
-                      </span>
-                      <span className="text-slate-700">
-                        <strong>Yearly:</strong> ${offer.price_yearly}
-                      </span>
-                      {Array.isArray(offer.features) && offer.features.length > 0 && (
-                        <span className="text-slate-500">{offer.features.length} features</span>
+                      {offer.offer_tiers.length > 0 ? (
+                        sortTiers(offer.offer_tiers).map((tier) => (
+                          <span key={tier.id} className="text-slate-700">
+                            <strong>{tier.name}:</strong> {formatMoney(tier.price_monthly, offer.currency)} / month
+                          </span>
+                        ))
+                      ) : (
+                        <>
+                          <span className="text-slate-700">
+                            <strong>Monthly:</strong> {formatMoney(offer.price_monthly, offer.currency)}
+                          </span>
+                          <span className="text-slate-700">
+                            <strong>Yearly:</strong> {formatMoney(offer.price_yearly, offer.currency)}
+                          </span>
+                        </>
+                      )}
+                      {offer.offer_prices.length > 0 && (
+                        <span className="text-slate-500">
+                          Also in {offer.offer_prices.map((price) => price.currency).join(', ')}
+                        </span>
+                      )}
+                      {Array.isArray(offer.features) && countFeatures(offer.features) > 0 && (
+                        <span className="text-slate-500">{countFeatures(offer.features)} features</span>
                       )}
                     </div>
+                    {offer.offer_meters.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm mb-3">
+                        {offer.offer_meters.map((meter) => (
+                          <span key={meter.id} className="text-slate-700">
+                            <strong>{meter.name}:</strong>{' '}
+                            {formatMoney(getMeterUnitPrice(meter, offer.currency, offer.currency) ?? 0, offer.currency)} / {meter.unit}
+                            {Number(meter.included_units) > 0 && (
+                              <span className="text-slate-500"> ({Number(meter.included_units)} included monthly)</span>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {offer.offer_relations.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-x-6 gap-y-1 text-sm mb-3">
+                        {(['prerequisite', 'addon'] as const).map((kind) => {
+                          const titles = getRelatedOfferIds(offer, kind)
+                            .map((id) => offers.find((o) => o.id === id)?.title)
+                            .filter(Boolean);
+                          return (
+                            titles.length > 0 && (
+                              <span key={kind} className="text-slate-700">
+                                <strong>{kind === 'prerequisite' ? 'Requires' : 'Add-ons'}:</strong> {titles.join(', ')}
+                              </span>
+                            )
+                          );
+                        })}
+                      </div>
+                    )}
                     {(offer.product_image || offer.product_link || offer.product_video) && (
                       <div className="flex items-center gap-4 text-xs text-slate-500">
                         {offer.product_image && (
@@ -252,28 +554,47 @@ export function AdminDashboard() {
                   </div>
 
                   <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => handleToggleActive(offer.id, offer.is_active)}
+                    {canEditCatalog && (
+                      <button
+                        onClick={() => handleToggleActive(offer)}
+                        className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        title={offer.is_active ? 'Deactivate' : 'Activate'}
+                      >
+                        {offer.is_active ? <XCircle className="w-5 h-5" /> : <CheckCircle className="w-5 h-5" />}
+                      </button>
+                    )}
+                    <a
+                      href={getOfferPath(offer)}
+                      target="_blank"
+                      rel="noopener noreferrer"
                       className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
-                      title={offer.is_active ? 'Deactivate' : 'Activate'}
-                    >
-                      {offer.is_active ? <XCircle className="w-5 h-5" /> : <CheckCircle className="w-5 h-5" />}
-                    </button>
-                    <button
-                      onClick={() => {
-                        setEditingOffer(offer);
-                        setShowModal(true);
-                      }}
-                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                      title="Public page"
                     >
-                      <Edit2 className="w-5 h-5" />
-                    </button>
+                      <ExternalLink className="w-5 h-5" />
+                    </a>
                     <button
-                      onClick={() => handleDeleteOffer(offer.id)}
-                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      onClick={() => setVersionsOffer(offer)}
+                      className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                      title="Version history"
                     >
-                      <Trash2 className="w-5 h-5" />
+                      <GitCompare className="w-5 h-5" />
                     </button>
+                    {canEditCatalog && (
+                      <>
+                        <button
+                          onClick={() => navigateToRoute({ name: 'adminOffer', offerId: offer.id })}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteOffer(offer.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -284,7 +605,33 @@ export function AdminDashboard() {
 
       {activeTab === 'subscriptions' && (
         <div>
-          <h2 className="text-2xl font-bold text-slate-900 mb-6">User Subscriptions</h2>
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-slate-900">User Subscriptions</h2>
+            {canBill && (
+              <button
+                onClick={handleRunBilling}
+                disabled={billing}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Receipt className="w-5 h-5" />
+                {billing ? 'Running Billing...' : 'Run Billing'}
+              </button>
+            )}
+          </div>
+          {route.name === 'adminCustomer' && (
+            <div className="flex items-center justify-between bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm mb-4">
+              <span>
+                Subscriptions of{' '}
+                <span className="font-medium">
+                  {customerProfile ? customerProfile.full_name || customerProfile.email : 'this customer'}
+                </span>
+                {customerProfile?.full_name && <> &middot; {customerProfile.email}</>}
+              </span>
+              <Link to={{ name: 'admin', tab: 'subscriptions' }} className="font-medium hover:underline">
+                Show all subscriptions
+              </Link>
+            </div>
+          )}
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
             <div className="overflow-x-auto">
               <table className="w-full">
@@ -299,41 +646,134 @@ export function AdminDashboard() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-200">
-                  {subscriptions.map((sub) => (
+                  {visibleSubscriptions.map((sub) => (
                     <tr key={sub.id} className="hover:bg-slate-50 transition-colors">
                       <td className="px-6 py-4">
                         <div className="text-sm">
-                          <p className="font-medium text-slate-900">{sub.profiles?.full_name}</p>
+                          <Link
+                            to={{ name: 'adminCustomer', customerId: sub.user_id }}
+                            className="font-medium text-slate-900 hover:text-blue-600"
+                          >
+                            {sub.profiles?.full_name || 'Unnamed customer'}
+                          </Link>
                           <p className="text-slate-500">{sub.profiles?.email}</p>
-                          <p className="text-slate-500">{sub.profiles?.company_name}</p>
+                          <p className="text-slate-500">{sub.organizations?.name}</p>
                         </div>
                       </td>
-                      <td className="px-6 py-4 text-sm text-slate-900">{sub.service_offers?.title}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="text-slate-900">
+                          {sub.service_offers?.title}
+                          {sub.offer_tiers && <span className="text-slate-500"> &middot; {sub.offer_tiers.name}</span>}
+                        </p>
+                        {sub.subscription_bundles?.service_bundles && (
+                          <span className="inline-flex items-center gap-1 mt-1 mr-1 px-2 py-0.5 bg-purple-100 text-purple-800 text-xs font-medium rounded-full">
+                            <Boxes className="w-3 h-3" />
+                            {sub.subscription_bundles.service_bundles.title}
+                          </span>
+                        )}
+                        {sub.cancel_at_period_end ? (
+                          <span className="inline-block mt-1 px-2 py-0.5 bg-amber-100 text-amber-800 text-xs font-medium rounded-full">
+                            {sub.status === 'trialing' ? 'Cancels at trial end' : 'Cancels at period end'}
+                          </span>
+                        ) : sub.cancel_requested_at && sub.status !== 'cancelled' && (
+                          <span className="inline-block mt-1 px-2 py-0.5 bg-amber-100 text-amber-800 text-xs font-medium rounded-full">
+                            Cancellation requested {new Date(sub.cancel_requested_at).toLocaleDateString()}
+                          </span>
+                        )}
+                        {sub.customer_notes && (
+                          <p className="mt-1 text-xs text-slate-500" title={sub.customer_notes}>
+                            Customer note: {sub.customer_notes}
+                          </p>
+                        )}
+                      </td>
                       <td className="px-6 py-4">
-                        <select
-                          value={sub.status}
-                          onChange={(e) => handleUpdateSubscriptionStatus(sub.id, e.target.value as any)}
-                          className="text-sm border border-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        >
-                          <option value="pending">Pending</option>
-                          <option value="active">Active</option>
-                          <option value="cancelled">Cancelled</option>
-                        </select>
+                        <div className="flex items-center gap-2">
+                          {getStatusIcon(sub.status)}
+                          <select
+                            value={sub.status}
+                            onChange={(e) => handleUpdateSubscriptionStatus(sub.id, e.target.value as SubscriptionStatus)}
+                            disabled={!canManageSubscriptions || getNextStatuses(sub.status).length === 0}
+                            className="text-sm border border-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-500"
+                          >
+                            {[sub.status, ...getNextStatuses(sub.status)].map((status) => (
+                              <option key={status} value={status}>
+                                {getStatusLabel(status)}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="text-slate-900">
+                          <span className="capitalize">{sub.billing_cycle}</span> &middot; {sub.currency}
+                          {sub.offer_versions && <> &middot; v{sub.offer_versions.version}</>}
+                        </p>
+                        {sub.pending_billing_cycle && (
+                          <p className="text-xs text-blue-700 capitalize">Switching to {sub.pending_billing_cycle}</p>
+                        )}
+                        {sub.coupons && (
+                          <p className="text-xs text-green-700">
+                            {sub.coupons.code}: {formatMoney(Number(sub.discounted_price), sub.currency)}
+                            {sub.discount_periods_remaining !== null && ` (${sub.discount_periods_remaining} left)`}
+                          </p>
+                        )}
+                        {sub.status === 'trialing' && sub.trial_ends_at && (
+                          <p className="text-xs text-blue-700">
+                            Trial ends {new Date(sub.trial_ends_at).toLocaleDateString()}
+                            {sub.service_offers?.trial_end_behavior === 'expire' && ', then expires'}
+                          </p>
+                        )}
+                        {sub.next_billing_date && (
+                          <p className="text-xs text-slate-500">Next: {new Date(sub.next_billing_date).toLocaleDateString()}</p>
+                        )}
                       </td>
-                      <td className="px-6 py-4 text-sm text-slate-900 capitalize">{sub.billing_cycle}</td>
                       <td className="px-6 py-4 text-sm text-slate-900">{new Date(sub.started_at).toLocaleDateString()}</td>
                       <td className="px-6 py-4">
-                        <button
-                          onClick={() => {
-                            const notes = prompt('Enter notes for this subscription:', sub.notes);
-                            if (notes !== null) {
-                              handleUpdateSubscriptionNotes(sub.id, notes);
-                            }
-                          }}
-                          className="text-sm text-blue-600 hover:text-blue-700 font-medium"
-                        >
-                          {sub.notes ? 'Edit Notes' : 'Add Notes'}
-                        </button>
+                        <div className="flex items-center gap-4">
+                          {canManageSubscriptions && (
+                            <button
+                              onClick={() => {
+                                const notes = prompt('Enter notes for this subscription:', sub.notes);
+                                if (notes !== null) {
+                                  handleUpdateSubscriptionNotes(sub.id, notes);
+                                }
+                              }}
+                              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                              {sub.notes ? 'Edit Notes' : 'Add Notes'}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => navigateToRoute({ name: 'adminSubscription', subscriptionId: sub.id })}
+                            className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                          >
+                            <History className="w-4 h-4" />
+                            History
+                          </button>
+                          <button
+                            onClick={() => setInvoiceOrganization(sub.organizations)}
+                            className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                          >
+                            <FileText className="w-4 h-4" />
+                            Invoices
+                          </button>
+                          {(sub.service_offers?.offer_meters.length ?? 0) > 0 && (
+                            <button
+                              onClick={() => setUsageSubscription(sub)}
+                              className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                            >
+                              <Gauge className="w-4 h-4" />
+                              Usage
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setDocumentsSubscription(sub)}
+                            className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                          >
+                            <Download className="w-4 h-4" />
+                            PDFs
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -344,22 +784,40 @@ export function AdminDashboard() {
         </div>
       )}
 
+      {activeTab === 'bundles' && (
+        <BundleManager offers={offers} canManage={canEditCatalog} />
+      )}
+
+      {activeTab === 'categories' && (
+        <CategoryManager categories={categories} offers={offers} onChange={fetchData} canManage={canEditCatalog} />
+      )}
+
+      {activeTab === 'coupons' && (
+        <CouponManager offers={offers} canManage={canEditCatalog} />
+      )}
+
+      {activeTab === 'taxes' && (
+        <TaxRateManager canManage={canBill} />
+      )}
+
       {activeTab === 'media' && (
-        <MediaManager />
+        <MediaManager canManage={canEditCatalog} />
+      )}
+
+      {activeTab === 'staff' && canManageStaff && (
+        <StaffManager />
       )}
 
       {showModal && (
         <OfferModal
           offer={editingOffer}
+          draft={editingDraft}
           categories={categories}
-          onClose={() => {
-            setShowModal(false);
-            setEditingOffer(null);
-          }}
+          offers={offers}
+          onClose={closeOfferModal}
           onSave={async () => {
             await fetchData();
-            setShowModal(false);
-            setEditingOffer(null);
+            closeOfferModal();
           }}
         />
       )}
@@ -371,6 +829,84 @@ export function AdminDashboard() {
           onClose={() => setPlayingVideo(null)}
         />
       )}
+
+      {historySubscription && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-slate-900">Subscription History</h2>
+                <p className="text-sm text-slate-500">
+                  {historySubscription.service_offers?.title} &middot; {historySubscription.profiles?.full_name || historySubscription.profiles?.email}
+                </p>
+              </div>
+              <button
+                onClick={() => navigateToRoute({ name: 'admin', tab: 'subscriptions' })}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6">
+              <SubscriptionHistory subscriptionId={historySubscription.id} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {versionsOffer && (
+        <OfferVersionsModal offer={versionsOffer} onClose={() => setVersionsOffer(null)} canManage={canEditCatalog} />
+      )}
+
+      {usageSubscription && (
+        <UsageModal subscription={usageSubscription} onClose={() => setUsageSubscription(null)} canManage={canBill} />
+      )}
+
+      {documentsSubscription && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-slate-900">Invoices &amp; Receipts</h2>
+                <p className="text-sm text-slate-500">
+                  {documentsSubscription.service_offers?.title} &middot; {documentsSubscription.organizations?.name || documentsSubscription.profiles?.email}
+                </p>
+              </div>
+              <button
+                onClick={() => setDocumentsSubscription(null)}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6">
+              <InvoiceDocuments subscriptionId={documentsSubscription.id} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {invoiceOrganization && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-slate-900">Client Invoices</h2>
+                <p className="text-sm text-slate-500">{invoiceOrganization.name}</p>
+              </div>
+              <button
+                onClick={() => setInvoiceOrganization(null)}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6">
+              <InvoiceList organizationId={invoiceOrganization.id} canManage={canBill} />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
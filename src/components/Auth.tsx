@@ -1,27 +1,46 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Building2, Mail, Lock, User } from 'lucide-react';
+import { Building2, Mail, Lock, User, Send } from 'lucide-react';
+import { isEmailNotConfirmed, isUnknownAccount } from '../lib/auth-links';
+import { AuthLayout } from './AuthLayout';
+import { Link } from './Link';
 
-export function Auth() {
-  const [isLogin, setIsLogin] = useState(true);
+interface AuthProps {
+  /** Open on the sign-up form, as visitors coming from the catalog do */
+  signUp?: boolean;
+}
+
+export function Auth({ signUp: startOnSignUp = false }: AuthProps) {
+  const [isLogin, setIsLogin] = useState(!startOnSignUp);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
   const [companyName, setCompanyName] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  // The address that still has to be confirmed, after signing up or trying to sign in
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
+  const [confirmationSent, setConfirmationSent] = useState(false);
+  const { signIn, signUp, sendMagicLink, resendConfirmation } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
+    setUnconfirmedEmail(null);
     setLoading(true);
 
     try {
       if (isLogin) {
         const { error } = await signIn(email, password);
         if (error) {
-          setError(error.message);
+          if (isEmailNotConfirmed(error)) {
+            setUnconfirmedEmail(email);
+            setError('Confirm your email address before signing in. The link is in the email we sent when you signed up.');
+          } else {
+            setError(error.message);
+          }
           setLoading(false);
         }
       } else {
@@ -30,10 +49,14 @@ export function Auth() {
           setLoading(false);
           return;
         }
-        const { error } = await signUp(email, password, fullName, companyName);
+        const { error, confirmEmail } = await signUp(email, password, fullName, companyName);
         if (error) {
           setError(error.message);
           setLoading(false);
+        } else if (confirmEmail) {
+          setUnconfirmedEmail(email);
+          setConfirmationSent(true);
+          setLoading(false);
         }
       }
     } catch (err) {
@@ -42,71 +65,100 @@ export function Auth() {
     }
   };
 
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
-      <div className="w-full max-w-md">
-        <div className="text-center mb-8">
-          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-2xl mb-4">
-            <Building2 className="w-8 h-8 text-white" />
+  const handleMagicLink = async () => {
+    setError('');
+    setNotice('');
+    setUnconfirmedEmail(null);
+    if (!email.trim()) {
+      setError('Enter your email address to get a sign-in link');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await sendMagicLink(email.trim());
+    // An address without an account gets the same notice, so the form does not
+    // reveal which addresses have one
+    if (error && !isUnknownAccount(error)) {
+      setError(error.message);
+    } else {
+      setNotice(`If an account uses ${email.trim()}, we sent it a sign-in link. It works once and expires after an hour.`);
+    }
+    setLoading(false);
+  };
+
+  const handleResend = async () => {
+    if (!unconfirmedEmail) return;
+    setError('');
+    setLoading(true);
+    const { error } = await resendConfirmation(unconfirmedEmail);
+    if (error) {
+      setError(error.message);
+    } else {
+      setNotice(`We sent a new confirmation link to ${unconfirmedEmail}.`);
+    }
+    setLoading(false);
+  };
+
+  if (confirmationSent && unconfirmedEmail) {
+    return (
+      <AuthLayout subtitle="Confirm your email address">
+        <div className="text-center space-y-4">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-50 rounded-full">
+            <Mail className="w-6 h-6 text-blue-600" />
           </div>
-          <h1 className="text-3xl font-bold text-white mb-2">Business Services Portal</h1>
-          <p className="text-slate-400">
-            {isLogin ? 'Sign in to manage your services' : 'Create your account to get started'}
+          <p className="text-slate-700">
+            We sent a confirmation link to <span className="font-medium">{unconfirmedEmail}</span>. Open it to finish
+            creating your account.
           </p>
+          {notice && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">{notice}</div>
+          )}
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+          )}
+          <button
+            type="button"
+            onClick={handleResend}
+            disabled={loading}
+            className="w-full px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Sending...' : 'Resend confirmation email'}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setConfirmationSent(false);
+              setIsLogin(true);
+              setPassword('');
+              setNotice('');
+              setError('');
+            }}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            Back to sign in
+          </button>
         </div>
+      </AuthLayout>
+    );
+  }
 
-        <div className="bg-white rounded-2xl shadow-xl p-8">
-          <form onSubmit={handleSubmit} className="space-y-5">
-            {!isLogin && (
-              <>
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Full Name
-                  </label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                    <input
-                      type="text"
-                      value={fullName}
-                      onChange={(e) => setFullName(e.target.value)}
-                      className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                      placeholder="John Doe"
-                      required
-                    />
-                  </div>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Company Name
-                  </label>
-                  <div className="relative">
-                    <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                    <input
-                      type="text"
-                      value={companyName}
-                      onChange={(e) => setCompanyName(e.target.value)}
-                      className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                      placeholder="Acme Inc."
-                      required
-                    />
-                  </div>
-                </div>
-              </>
-            )}
-
+  return (
+    <AuthLayout subtitle={isLogin ? 'Sign in to manage your services' : 'Create your account to get started'}>
+      <form onSubmit={handleSubmit} className="space-y-5">
+        {!isLogin && (
+          <>
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
-                Email Address
+                Full Name
               </label>
               <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
                 <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
+                  type="text"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
                   className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                  placeholder="you@company.com"
+                  placeholder="John Doe"
                   required
                 />
               </div>
@@ -114,51 +166,122 @@ export function Auth() {
 
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-2">
-                Password
+                Company Name
               </label>
               <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
                 <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  type="text"
+                  value={companyName}
+                  onChange={(e) => setCompanyName(e.target.value)}
                   className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                  placeholder="••••••••"
+                  placeholder="Acme Inc."
                   required
-                  minLength={6}
                 />
               </div>
             </div>
+          </>
+        )}
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
-                {error}
-              </div>
-            )}
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Email Address
+          </label>
+          <div className="relative">
+            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              placeholder="you@company.com"
+              required
+            />
+          </div>
+        </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? 'Loading...' : isLogin ? 'Sign In' : 'Create Account'}
-            </button>
-          </form>
-
-          <div className="mt-6 text-center">
-            <button
-              type="button"
-              onClick={() => {
-                setIsLogin(!isLogin);
-                setError('');
-              }}
-              className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
-            >
-              {isLogin ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
-            </button>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-slate-700">
+              Password
+            </label>
+            {isLogin && (
+              <Link to={{ name: 'forgotPassword' }} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                Forgot password?
+              </Link>
+            )}
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              placeholder="••••••••"
+              required
+              minLength={6}
+            />
           </div>
         </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+            {unconfirmedEmail && (
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={loading}
+                className="block mt-2 font-medium underline hover:no-underline disabled:opacity-50"
+              >
+                Resend confirmation email
+              </button>
+            )}
+          </div>
+        )}
+
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+            {notice}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Loading...' : isLogin ? 'Sign In' : 'Create Account'}
+        </button>
+
+        {isLogin && (
+          <button
+            type="button"
+            onClick={handleMagicLink}
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send className="w-4 h-4" />
+            Email me a sign-in link instead
+          </button>
+        )}
+      </form>
+
+      <div className="mt-6 text-center">
+        <button
+          type="button"
+          onClick={() => {
+            setIsLogin(!isLogin);
+            setError('');
+            setNotice('');
+            setUnconfirmedEmail(null);
+          }}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+        >
+          {isLogin ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+        </button>
       </div>
-    </div>
+    </AuthLayout>
   );
 }
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { getAuthLinkError } from '../lib/auth-links';
+import { AuthLayout } from './AuthLayout';
+import { Link } from './Link';
+
+/**
+ * Opened by the links that confirm an email address and sign in by email.
+ * A working link signs the customer in and the route guard moves them on,
+ * so this page only shows when the link could not be used.
+ */
+export function AuthCallback() {
+  const [linkError] = useState(getAuthLinkError);
+
+  return (
+    <AuthLayout subtitle="This link did not work">
+      <div className="space-y-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {linkError?.message ?? 'This link is invalid or has expired.'} Sign in to request a new one: a sign-in link,
+          or a new confirmation email if your address is not confirmed yet.
+        </div>
+        <Link
+          to={{ name: 'signIn' }}
+          className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors"
+        >
+          Go to Sign In
+        </Link>
+        <div className="text-center">
+          <Link
+            to={{ name: 'forgotPassword' }}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            Forgot your password?
+          </Link>
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
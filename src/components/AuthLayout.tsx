@@ -0,0 +1,36 @@
+import { Building2, ArrowRight } from 'lucide-react';
+import { Link } from './Link';
+
+interface AuthLayoutProps {
+  subtitle: string;
+  children: React.ReactNode;
+}
+
+/** The page around signing in and the pages that links in auth emails open */
+export function AuthLayout({ subtitle, children }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-2xl mb-4">
+            <Building2 className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">Business Services Portal</h1>
+          <p className="text-slate-400">{subtitle}</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">{children}</div>
+
+        <div className="mt-6 text-center">
+          <Link
+            to={{ name: 'catalog' }}
+            className="inline-flex items-center gap-1 text-sm text-slate-300 hover:text-white font-medium transition-colors"
+          >
+            Browse our services
+            <ArrowRight className="w-4 h-4" />
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { CURRENCIES } from '../lib/currency';
+import { COUNTRIES } from '../lib/tax';
+
+interface BillingProfileModalProps {
+  onClose: () => void;
+  onSave: () => void;
+}
+
+export function BillingProfileModal({ onClose, onSave }: BillingProfileModalProps) {
+  const { profile, refreshProfile } = useAuth();
+  const [formData, setFormData] = useState({
+    country: profile?.country ?? '',
+    region: profile?.region ?? '',
+    currency: profile?.currency ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    setSaving(true);
+    setError('');
+
+    const { error: saveError } = await supabase
+      .from('profiles')
+      .update({
+        country: formData.country || null,
+        region: formData.region.trim().toUpperCase() || null,
+        currency: formData.currency || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', profile.id);
+
+    if (saveError) {
+      setError(saveError.message);
+      setSaving(false);
+      return;
+    }
+
+    await refreshProfile();
+    setSaving(false);
+    onSave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-900">Billing Preferences</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Country</label>
+              <select
+                value={formData.country}
+                onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Not set</option>
+                {COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">State / Province</label>
+              <input
+                type="text"
+                value={formData.region}
+                onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg uppercase placeholder:normal-case focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g. ON"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 -mt-2">Your billing address decides the tax on your invoices.</p>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Currency</label>
+            <select
+              value={formData.currency}
+              onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Each service's default</option>
+              {CURRENCIES.map((currency) => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code} – {currency.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              Applies to new subscriptions. Existing services keep billing in the currency you subscribed in.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Preferences'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
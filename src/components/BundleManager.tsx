@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Loader2, Boxes } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatMoney } from '../lib/currency';
+import {
+  BUNDLE_SELECT,
+  getBundleItemTitle,
+  getBundleListPrice,
+  getBundlePrice,
+  sortBundleItems,
+  type BundleOfferOption,
+  type PricedBundle,
+} from '../lib/bundles';
+import { BundleModal } from './BundleModal';
+
+interface BundleManagerProps {
+  offers: BundleOfferOption[];
+  canManage?: boolean;
+}
+
+export function BundleManager({ offers, canManage = false }: BundleManagerProps) {
+  const [bundles, setBundles] = useState<PricedBundle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingBundle, setEditingBundle] = useState<PricedBundle | null>(null);
+
+  const loadBundles = async () => {
+    const { data, error } = await supabase
+      .from('service_bundles')
+      .select(BUNDLE_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      setError(error.message);
+    } else if (data) {
+      setBundles(data);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadBundles();
+  }, []);
+
+  const handleToggleActive = async (bundle: PricedBundle) => {
+    const { error } = await supabase
+      .from('service_bundles')
+      .update({ is_active: !bundle.is_active, updated_at: new Date().toISOString() })
+      .eq('id', bundle.id);
+
+    if (error) {
+      setError(error.message);
+    }
+    await loadBundles();
+  };
+
+  const handleDelete = async (bundle: PricedBundle) => {
+    if (!confirm(`Delete the ${bundle.title} bundle?`)) return;
+
+    setError('');
+    const { error } = await supabase.from('service_bundles').delete().eq('id', bundle.id);
+    if (error) {
+      // Bundles that have been sold are kept for their subscriptions
+      setError(error.code === '23503' ? `${bundle.title} has been sold. Deactivate it instead.` : error.message);
+    }
+    await loadBundles();
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+        <div className="flex items-center justify-center gap-3">
+          <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          <p className="text-slate-600">Loading bundles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-slate-900">Bundles</h2>
+        {canManage && (
+          <button
+            onClick={() => {
+              setEditingBundle(null);
+              setShowModal(true);
+            }}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Bundle
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {bundles.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+          <Boxes className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600">No bundles yet.</p>
+          <p className="text-sm text-slate-500 mt-1">Package several services together at a combined price.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Bundle</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Services</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Price</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {bundles.map((bundle) => {
+                  const listMonthly = getBundleListPrice(bundle, 'monthly');
+
+                  return (
+                    <tr key={bundle.id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-slate-900">{bundle.title}</p>
+                        {bundle.description && <p className="text-slate-500">{bundle.description}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-600">
+                        {sortBundleItems(bundle.bundle_offers).map(getBundleItemTitle).join(', ')}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="text-slate-900">
+                          {formatMoney(getBundlePrice(bundle, 'monthly'), bundle.currency)}/mo
+                          {getBundlePrice(bundle, 'yearly') > 0 &&
+                            ` · ${formatMoney(getBundlePrice(bundle, 'yearly'), bundle.currency)}/yr`}
+                        </p>
+                        {listMonthly === null ? (
+                          <p className="text-xs text-red-600">A service is not priced in {bundle.currency}</p>
+                        ) : (
+                          <p className="text-xs text-slate-500">
+                            {formatMoney(listMonthly, bundle.currency)}/mo separately
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <button
+                          onClick={() => handleToggleActive(bundle)}
+                          disabled={!canManage}
+                          className={`px-3 py-1 rounded-full text-xs font-medium ${
+                            bundle.is_active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {bundle.is_active ? 'Active' : 'Inactive'}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-2">
+                          {canManage && (
+                            <>
+                              <button
+                                onClick={() => {
+                                  setEditingBundle(bundle);
+                                  setShowModal(true);
+                                }}
+                                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(bundle)}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <BundleModal
+          bundle={editingBundle}
+          offers={offers}
+          onClose={() => {
+            setShowModal(false);
+            setEditingBundle(null);
+          }}
+          onSave={async () => {
+            await loadBundles();
+            setShowModal(false);
+            setEditingBundle(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
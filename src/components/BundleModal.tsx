@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CURRENCIES, formatMoney } from '../lib/currency';
+import { sortTiers } from '../lib/tiers';
+import { getBundleListPrice, sortBundleItems, type BundleOfferOption, type PricedBundle } from '../lib/bundles';
+
+interface BundleModalProps {
+  bundle: PricedBundle | null;
+  offers: BundleOfferOption[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+interface SelectedItem {
+  offer_id: string;
+  tier_id: string | null;
+}
+
+export function BundleModal({ bundle, offers, onClose, onSave }: BundleModalProps) {
+  const [formData, setFormData] = useState({
+    title: bundle?.title ?? '',
+    description: bundle?.description ?? '',
+    currency: bundle?.currency ?? CURRENCIES[0].code,
+    price_monthly: bundle ? Number(bundle.price_monthly) : 0,
+    price_yearly: bundle ? Number(bundle.price_yearly) : 0,
+    is_active: bundle?.is_active ?? true,
+  });
+  const [items, setItems] = useState<SelectedItem[]>(
+    bundle ? sortBundleItems(bundle.bundle_offers).map(({ offer_id, tier_id }) => ({ offer_id, tier_id })) : []
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleOffer = (offer: BundleOfferOption) => {
+    if (items.some((item) => item.offer_id === offer.id)) {
+      setItems(items.filter((item) => item.offer_id !== offer.id));
+    } else {
+      // Tiered offers are bundled in one of their tiers
+      setItems([...items, { offer_id: offer.id, tier_id: sortTiers(offer.offer_tiers)[0]?.id ?? null }]);
+    }
+  };
+
+  const setItemTier = (offerId: string, tierId: string) => {
+    setItems(items.map((item) => (item.offer_id === offerId ? { ...item, tier_id: tierId } : item)));
+  };
+
+  const pricedItems = items.map((item) => {
+    const offer = offers.find((o) => o.id === item.offer_id) ?? null;
+    return {
+      service_offers: offer,
+      offer_tiers: offer?.offer_tiers.find((tier) => tier.id === item.tier_id) ?? null,
+    };
+  });
+  const listMonthly = getBundleListPrice({ currency: formData.currency, bundle_offers: pricedItems }, 'monthly');
+  const listYearly = getBundleListPrice({ currency: formData.currency, bundle_offers: pricedItems }, 'yearly');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (items.length < 2) {
+      setError('A bundle needs at least two services');
+      return;
+    }
+    if (listMonthly === null || listYearly === null) {
+      setError(`Every service in the bundle needs a ${formData.currency} price`);
+      return;
+    }
+    if (formData.price_monthly > listMonthly || formData.price_yearly > listYearly) {
+      setError('The bundle cannot cost more than its services do separately');
+      return;
+    }
+
+    setSaving(true);
+
+    const data = {
+      title: formData.title.trim(),
+      description: formData.description.trim(),
+      currency: formData.currency,
+      price_monthly: formData.price_monthly,
+      price_yearly: formData.price_yearly,
+      is_active: formData.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: saved, error: saveError } = bundle
+      ? await supabase.from('service_bundles').update(data).eq('id', bundle.id).select().single()
+      : await supabase.from('service_bundles').insert(data).select().single();
+
+    if (saveError || !saved) {
+      setError(saveError?.message || 'Failed to save bundle');
+      setSaving(false);
+      return;
+    }
+
+    const { error: clearError } = await supabase.from('bundle_offers').delete().eq('bundle_id', saved.id);
+    const { error: offersError } = await supabase
+      .from('bundle_offers')
+      .insert(items.map((item, index) => ({ bundle_id: saved.id, offer_id: item.offer_id, tier_id: item.tier_id, sort_order: index })));
+
+    if (clearError || offersError) {
+      setError((clearError || offersError)?.message || 'Failed to save bundle services');
+      setSaving(false);
+      return;
+    }
+
+    setSaving(false);
+    onSave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">{bundle ? 'Edit Bundle' : 'Create New Bundle'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Title</label>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Launch package"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Services</label>
+            <div className="space-y-2 max-h-64 overflow-y-auto border border-slate-200 rounded-lg p-3">
+              {offers.map((offer) => {
+                const item = items.find((i) => i.offer_id === offer.id);
+                return (
+                  <div key={offer.id} className="flex items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={!!item}
+                        onChange={() => toggleOffer(offer)}
+                        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                      />
+                      {offer.title}
+                      {!offer.is_active && <span className="text-xs text-slate-400">(inactive)</span>}
+                    </label>
+                    {item && offer.offer_tiers.length > 0 && (
+                      <select
+                        value={item.tier_id ?? ''}
+                        onChange={(e) => setItemTier(offer.id, e.target.value)}
+                        className="text-sm border border-slate-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {sortTiers(offer.offer_tiers).map((tier) => (
+                          <option key={tier.id} value={tier.id}>
+                            {tier.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Currency</label>
+              <select
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Monthly Price</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.price_monthly}
+                onChange={(e) => setFormData({ ...formData, price_monthly: parseFloat(e.target.value) || 0 })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              {listMonthly !== null && items.length > 0 && (
+                <p className="text-xs text-slate-500 mt-1">Separately {formatMoney(listMonthly, formData.currency)}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Yearly Price</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.price_yearly}
+                onChange={(e) => setFormData({ ...formData, price_yearly: parseFloat(e.target.value) || 0 })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {listYearly !== null && items.length > 0 && (
+                <p className="text-xs text-slate-500 mt-1">Separately {formatMoney(listYearly, formData.currency)}</p>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 -mt-4">Leave the yearly price at 0 to sell the bundle monthly only.</p>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="bundle_is_active"
+              checked={formData.is_active}
+              onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="bundle_is_active" className="text-sm font-medium text-slate-700">
+              Active (visible to customers)
+            </label>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : bundle ? 'Update Bundle' : 'Create Bundle'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Search, X } from 'lucide-react';
+import {
+  CATALOG_SORTS,
+  DEFAULT_CATALOG_FILTERS,
+  hasCatalogFilters,
+  type CatalogFilters,
+  type CatalogSort,
+} from '../lib/catalog';
+
+// Wait for a pause in typing before filtering and updating the URL
+const SEARCH_DELAY_MS = 200;
+
+interface CatalogToolbarProps {
+  filters: CatalogFilters;
+  categories: { id: string; name: string }[];
+  /** Matches per category id under the other filters */
+  categoryCounts: Record<string, number>;
+  resultCount: number;
+  totalCount: number;
+  /** Currency the price range is entered in */
+  currency: string;
+  onChange: (filters: CatalogFilters) => void;
+}
+
+const parsePriceInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+export function CatalogToolbar({
+  filters,
+  categories,
+  categoryCounts,
+  resultCount,
+  totalCount,
+  currency,
+  onChange,
+}: CatalogToolbarProps) {
+  const [query, setQuery] = useState(filters.query);
+
+  useEffect(() => {
+    if (query === filters.query) return;
+    const timer = setTimeout(() => onChange({ ...filters, query }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, filters, onChange]);
+
+  const toggleCategory = (categoryId: string) => {
+    const categoryIds = filters.categoryIds.includes(categoryId)
+      ? filters.categoryIds.filter((id) => id !== categoryId)
+      : [...filters.categoryIds, categoryId];
+    onChange({ ...filters, categoryIds });
+  };
+
+  const clearFilters = () => {
+    setQuery('');
+    onChange({ ...DEFAULT_CATALOG_FILTERS, sort: filters.sort });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 mb-6 space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search services and features"
+            className="w-full pl-9 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.minPrice ?? ''}
+            onChange={(e) => onChange({ ...filters, minPrice: parsePriceInput(e.target.value) })}
+            placeholder={`Min ${currency}`}
+            aria-label="Minimum monthly price"
+            className="w-28 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+          <span className="text-slate-400">&ndash;</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.maxPrice ?? ''}
+            onChange={(e) => onChange({ ...filters, maxPrice: parsePriceInput(e.target.value) })}
+            placeholder={`Max ${currency}`}
+            aria-label="Maximum monthly price"
+            className="w-28 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <select
+          value={filters.sort}
+          onChange={(e) => onChange({ ...filters, sort: e.target.value as CatalogSort })}
+          aria-label="Sort services"
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        >
+          {CATALOG_SORTS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {categories.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {categories.map((category) => {
+            const selected = filters.categoryIds.includes(category.id);
+            return (
+              <button
+                key={category.id}
+                type="button"
+                onClick={() => toggleCategory(category.id)}
+                className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+                  selected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'
+                }`}
+              >
+                {category.name} ({categoryCounts[category.id] ?? 0})
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-slate-600">
+        <span>
+          {hasCatalogFilters(filters) ? `${resultCount} of ${totalCount} services` : `${totalCount} services`}
+          {(filters.minPrice !== null || filters.maxPrice !== null) && ', by monthly price'}
+        </span>
+        {hasCatalogFilters(filters) && (
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <X className="w-4 h-4" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import {
+  Briefcase,
+  Cloud,
+  Code,
+  GraduationCap,
+  Headphones,
+  Heart,
+  LineChart,
+  Megaphone,
+  Palette,
+  Shield,
+  ShoppingCart,
+  Tag,
+  Wrench,
+  type LucideIcon,
+} from 'lucide-react';
+import type { CategoryIconName } from '../lib/categories';
+
+const CATEGORY_ICONS: Record<CategoryIconName, LucideIcon> = {
+  tag: Tag,
+  briefcase: Briefcase,
+  cloud: Cloud,
+  code: Code,
+  'graduation-cap': GraduationCap,
+  headphones: Headphones,
+  heart: Heart,
+  'line-chart': LineChart,
+  megaphone: Megaphone,
+  palette: Palette,
+  shield: Shield,
+  'shopping-cart': ShoppingCart,
+  wrench: Wrench,
+};
+
+interface CategoryIconProps {
+  icon: string | null;
+  className?: string;
+}
+
+/** The icon stored in service_categories.icon, or nothing for unknown names */
+export function CategoryIcon({ icon, className = 'w-3 h-3' }: CategoryIconProps) {
+  const Icon = icon ? CATEGORY_ICONS[icon as CategoryIconName] : undefined;
+  return Icon ? <Icon className={className} /> : null;
+}
+
+interface CategoryBadgeProps {
+  name: string;
+  icon: string | null;
+  color: string | null;
+  className?: string;
+}
+
+export function CategoryBadge({ name, icon, color, className = '' }: CategoryBadgeProps) {
+  if (!color) {
+    return (
+      <span className={`inline-flex items-center gap-1 px-3 py-1 bg-blue-50 text-blue-700 text-xs font-medium rounded-full ${className}`}>
+        <CategoryIcon icon={icon} />
+        {name}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-3 py-1 text-xs font-medium rounded-full ${className}`}
+      style={{ backgroundColor: `${color}1a`, color }}
+    >
+      <CategoryIcon icon={icon} />
+      {name}
+    </span>
+  );
+}
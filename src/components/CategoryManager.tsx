@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Plus, Edit2, Trash2, FolderTree, GripVertical, CornerDownRight } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  getCategoryDescendantIds,
+  reorderCategories,
+} from '../lib/categories';
+import { CategoryBadge } from './CategoryBadge';
+import { CategoryModal } from './CategoryModal';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+
+interface CategoryManagerProps {
+  categories: Category[];
+  offers: Pick<ServiceOffer, 'category_id'>[];
+  onChange: () => Promise<void>;
+  canManage?: boolean;
+}
+
+export function CategoryManager({ categories, offers, onChange, canManage = false }: CategoryManagerProps) {
+  const [error, setError] = useState('');
+  const [modal, setModal] = useState<{ category: Category | null; parentId: string | null } | null>(null);
+  const [dragging, setDragging] = useState<Category | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+  const countOffers = (categoryId: string) => offers.filter((offer) => offer.category_id === categoryId).length;
+
+  const handleDelete = async (category: Category) => {
+    const offerCount = countOffers(category.id);
+    const childCount = categories.filter((c) => c.parent_id === category.id).length;
+    const warnings = [
+      offerCount > 0 &&
+        `${offerCount} offer${offerCount === 1 ? ' uses' : 's use'} this category and will be left without one.`,
+      childCount > 0 &&
+        `Its ${childCount} sub-categor${childCount === 1 ? 'y' : 'ies'} will move up to the top level.`,
+    ].filter(Boolean);
+
+    if (!confirm([`Delete the ${category.name} category?`, ...warnings].join('\n\n'))) return;
+
+    setError('');
+    const { error } = await supabase.from('service_categories').delete().eq('id', category.id);
+    if (error) {
+      setError(error.message);
+    }
+    await onChange();
+  };
+
+  // Categories can only be dragged among siblings; nesting is changed in the form
+  const canDrop = (target: Category) => !!dragging && dragging.id !== target.id && dragging.parent_id === target.parent_id;
+
+  const handleDrop = async (target: Category) => {
+    const moved = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!moved || !canDrop(target)) return;
+
+    // Dropping moves the category into the target's place
+    const siblings = rows.map((row) => row.category).filter((c) => c.parent_id === moved.parent_id);
+    const to = siblings.findIndex((c) => c.id === target.id);
+    siblings.splice(siblings.findIndex((c) => c.id === moved.id), 1);
+    siblings.splice(to, 0, moved);
+
+    setError('');
+    try {
+      await reorderCategories(siblings.map((c) => c.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reorder categories');
+    }
+    await onChange();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Categories</h2>
+          {canManage && (
+            <p className="text-sm text-slate-500 mt-1">Drag categories to change the order customers see them in.</p>
+          )}
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setModal({ category: null, parentId: null })}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Category
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+          <FolderTree className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600">No categories yet.</p>
+          <p className="text-sm text-slate-500 mt-1">Add categories to group your offers in the catalog.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-200">
+          {rows.map(({ category, depth }) => {
+            const offerCount = countOffers(category.id);
+            const descendants = getCategoryDescendantIds(categories, category.id).length;
+
+            return (
+              <div
+                key={category.id}
+                draggable={canManage}
+                onDragStart={() => setDragging(category)}
+                onDragEnd={() => {
+                  setDragging(null);
+                  setDropTarget(null);
+                }}
+                onDragOver={(e) => {
+                  if (!canDrop(category)) return;
+                  e.preventDefault();
+                  setDropTarget(category.id);
+                }}
+                onDragLeave={() => setDropTarget((current) => (current === category.id ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(category);
+                }}
+                className={`flex items-center gap-3 px-4 py-3 transition-colors ${
+                  dropTarget === category.id ? 'bg-blue-50' : 'hover:bg-slate-50'
+                } ${dragging?.id === category.id ? 'opacity-50' : ''}`}
+                style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+              >
+                {canManage && <GripVertical className="w-4 h-4 text-slate-400 cursor-grab flex-shrink-0" />}
+                {depth > 0 && <CornerDownRight className="w-4 h-4 text-slate-300 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <CategoryBadge name={category.name} icon={category.icon} color={category.color} />
+                    <span className="text-xs text-slate-500">
+                      {offerCount} offer{offerCount === 1 ? '' : 's'}
+                      {descendants > 0 && ` · ${descendants} sub-categor${descendants === 1 ? 'y' : 'ies'}`}
+                    </span>
+                  </div>
+                  {category.description && <p className="text-sm text-slate-600 mt-1 truncate">{category.description}</p>}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setModal({ category: null, parentId: category.id })}
+                      title="Add sub-category"
+                      className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setModal({ category, parentId: category.parent_id })}
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(category)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {modal && (
+        <CategoryModal
+          category={modal.category}
+          categories={categories}
+          parentId={modal.parentId}
+          onClose={() => setModal(null)}
+          onSave={async () => {
+            await onChange();
+            setModal(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
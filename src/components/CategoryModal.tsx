@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICON_NAMES,
+  buildCategoryTree,
+  flattenCategoryTree,
+  getCategoryDescendantIds,
+} from '../lib/categories';
+import { CategoryBadge, CategoryIcon } from './CategoryBadge';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+interface CategoryModalProps {
+  category: Category | null;
+  categories: Category[];
+  /** Parent for a new category */
+  parentId?: string | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+export function CategoryModal({ category, categories, parentId = null, onClose, onSave }: CategoryModalProps) {
+  const [formData, setFormData] = useState({
+    name: category?.name ?? '',
+    description: category?.description ?? '',
+    parent_id: category ? category.parent_id ?? '' : parentId ?? '',
+    icon: category?.icon ?? '',
+    color: category?.color ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // A category cannot move inside itself or one of its sub-categories
+  const excludedIds = category ? [category.id, ...getCategoryDescendantIds(categories, category.id)] : [];
+  const parentOptions = flattenCategoryTree(buildCategoryTree(categories)).filter(
+    (node) => !excludedIds.includes(node.category.id)
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const data = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      parent_id: formData.parent_id || null,
+      icon: formData.icon || null,
+      color: formData.color || null,
+    };
+
+    let saveError;
+    if (category) {
+      ({ error: saveError } = await supabase.from('service_categories').update(data).eq('id', category.id));
+    } else {
+      // New categories go to the end of their parent's list
+      const siblings = categories.filter((c) => c.parent_id === data.parent_id);
+      const sortOrder = Math.max(0, ...siblings.map((c) => c.sort_order)) + 1;
+      ({ error: saveError } = await supabase.from('service_categories').insert({ ...data, sort_order: sortOrder }));
+    }
+
+    if (saveError) {
+      setError(saveError.message || 'Failed to save category');
+      setSaving(false);
+      return;
+    }
+
+    setSaving(false);
+    onSave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">{category ? 'Edit Category' : 'Add Category'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Name</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Parent Category</label>
+            <select
+              value={formData.parent_id}
+              onChange={(e) => setFormData({ ...formData, parent_id: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">None (top level)</option>
+              {parentOptions.map((node) => (
+                <option key={node.category.id} value={node.category.id}>
+                  {`${'— '.repeat(node.depth)}${node.category.name}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Icon</label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, icon: '' })}
+                className={`px-3 h-9 rounded-lg border text-xs transition-colors ${
+                  formData.icon === '' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                None
+              </button>
+              {CATEGORY_ICON_NAMES.map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  title={name}
+                  onClick={() => setFormData({ ...formData, icon: name })}
+                  className={`w-9 h-9 flex items-center justify-center rounded-lg border transition-colors ${
+                    formData.icon === name ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <CategoryIcon icon={name} className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Colour</label>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, color: '' })}
+                className={`px-3 h-8 rounded-full border text-xs transition-colors ${
+                  formData.color === '' ? 'border-blue-600 bg-blue-50 text-blue-700' : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                Default
+              </button>
+              {CATEGORY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  title={color}
+                  onClick={() => setFormData({ ...formData, color })}
+                  className={`w-8 h-8 rounded-full border-2 transition-transform ${
+                    formData.color === color ? 'border-slate-900 scale-110' : 'border-white'
+                  }`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Preview</label>
+            <CategoryBadge name={formData.name || 'Category'} icon={formData.icon || null} color={formData.color || null} />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : category ? 'Update Category' : 'Add Category'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
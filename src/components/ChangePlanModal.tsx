@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { getCyclePrice } from '../lib/billing';
+import { calculateProration } from '../lib/proration';
+import { changeSubscriptionPlan, type BillingCycle } from '../lib/subscription-lifecycle';
+import { formatMoney, getCustomerPricePoint, getPricePoint, type PricedOffer } from '../lib/currency';
+import { getSubscribedPricing, type PricedOfferVersion } from '../lib/offer-versions';
+import { getTierPricing, sortTiers, type PricedTier } from '../lib/tiers';
+import type { TaxSettings } from '../lib/business';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'] & {
+  offer_prices: Database['public']['Tables']['offer_prices']['Row'][];
+  offer_tiers: PricedTier[];
+};
+type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'] & {
+  service_offers: ServiceOffer | null;
+  offer_versions: PricedOfferVersion | null;
+};
+
+interface ChangePlanModalProps {
+  subscription: UserSubscription;
+  tax: TaxSettings;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+export function ChangePlanModal({ subscription, tax, onClose, onComplete }: ChangePlanModalProps) {
+  const [offers, setOffers] = useState<ServiceOffer[]>([]);
+  const [currentDiscount, setCurrentDiscount] = useState(0);
+  const [offerId, setOfferId] = useState(subscription.offer_id);
+  const [tierId, setTierId] = useState(subscription.tier_id);
+  const [cycle, setCycle] = useState<BillingCycle>(subscription.billing_cycle);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadOffers = async () => {
+      const now = new Date().toISOString();
+      const [offersResult, invoiceResult] = await Promise.all([
+        supabase.from('service_offers').select('*, offer_prices(*), offer_tiers(*, offer_tier_prices(*))').eq('is_active', true).order('title'),
+        // The credit is for what was charged this period, after any coupon discount
+        supabase
+          .from('invoices')
+          .select('discount_amount')
+          .eq('subscription_id', subscription.id)
+          .neq('status', 'void')
+          .lte('period_start', now)
+          .gt('period_end', now)
+          .order('period_start', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (offersResult.error) {
+        setError(offersResult.error.message);
+      } else if (offersResult.data) {
+        // The subscription keeps its currency, so only offers priced in it can be switched to
+        setOffers(offersResult.data.filter((offer) => getPricePoint(offer, subscription.currency) !== null));
+      }
+      setCurrentDiscount(Number(invoiceResult.data?.discount_amount ?? 0));
+      setLoading(false);
+    };
+
+    loadOffers();
+  }, [subscription.id, subscription.currency]);
+
+  const currency = subscription.currency;
+  const subscribedPricing = getSubscribedPricing(subscription);
+  const currentPrices = useMemo(
+    () => (subscribedPricing ? getCustomerPricePoint(subscribedPricing, currency) : null),
+    [subscribedPricing, currency]
+  );
+  // Staying on the same offer and tier keeps the version the subscription was sold under
+  const getPlanPricing = (offer: ServiceOffer, planTierId: string | null): PricedOffer => {
+    if (offer.id === subscription.offer_id && planTierId === subscription.tier_id) {
+      return subscribedPricing ?? offer;
+    }
+    const tier = offer.offer_tiers.find((t) => t.id === planTierId);
+    return tier ? getTierPricing(offer.currency, tier) : offer;
+  };
+  const selectedOffer = offers.find((offer) => offer.id === offerId) ?? null;
+  const selectedTiers = sortTiers(selectedOffer?.offer_tiers ?? []);
+  const selectedTier = selectedTiers.find((tier) => tier.id === tierId) ?? null;
+  const selectedPricing = selectedOffer ? getPlanPricing(selectedOffer, tierId) : null;
+  const selectedPrices = useMemo(
+    () => (selectedPricing ? getPricePoint(selectedPricing, currency) : null),
+    [selectedPricing, currency]
+  );
+  const yearlyAvailable = !!selectedPrices && selectedPrices.price_yearly > 0;
+  const formatAmount = (amount: number) => formatMoney(amount, currency);
+  const isCurrentPlan =
+    offerId === subscription.offer_id && tierId === subscription.tier_id && cycle === subscription.billing_cycle;
+  const periodInvoiced =
+    !!subscription.next_billing_date && new Date(subscription.next_billing_date) > new Date();
+
+  const preview = useMemo(() => {
+    if (!currentPrices || !selectedPrices || isCurrentPlan || !periodInvoiced) return null;
+
+    return calculateProration({
+      currentPrice: getCyclePrice(currentPrices, subscription.billing_cycle) - currentDiscount,
+      currentCycle: subscription.billing_cycle,
+      anchor: new Date(subscription.billing_anchor_at ?? subscription.started_at),
+      newPrice: getCyclePrice(selectedPrices, cycle),
+      newCycle: cycle,
+    });
+  }, [currentPrices, selectedPrices, isCurrentPlan, periodInvoiced, subscription, cycle, currentDiscount]);
+
+  const selectPlan = (id: string, planTierId: string | null) => {
+    setOfferId(id);
+    setTierId(planTierId);
+    const offer = offers.find((o) => o.id === id);
+    const prices = offer ? getPricePoint(getPlanPricing(offer, planTierId), currency) : null;
+    if (prices && prices.price_yearly <= 0) {
+      setCycle('monthly');
+    }
+  };
+
+  const handleOfferChange = (id: string) => {
+    const offer = offers.find((o) => o.id === id);
+    // Start from the current tier on the current offer, or the first tier elsewhere
+    selectPlan(
+      id,
+      id === subscription.offer_id ? subscription.tier_id : sortTiers(offer?.offer_tiers ?? [])[0]?.id ?? null
+    );
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await changeSubscriptionPlan(subscription.id, offerId, cycle, tierId);
+      onComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change plan');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-900">Change Plan</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <div className="p-6 space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Service</label>
+              <select
+                value={offerId}
+                onChange={(e) => handleOfferChange(e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {offers.map((offer) => (
+                  <option key={offer.id} value={offer.id}>
+                    {offer.title}
+                    {offer.id === subscription.offer_id ? ' (current)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedTiers.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Tier</label>
+                <select
+                  value={tierId ?? ''}
+                  onChange={(e) => selectPlan(offerId, e.target.value)}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {selectedTiers.map((tier) => (
+                    <option key={tier.id} value={tier.id}>
+                      {tier.name}
+                      {offerId === subscription.offer_id && tier.id === subscription.tier_id ? ' (current)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Billing</label>
+              <div className="grid grid-cols-2 gap-3">
+                {(['monthly', 'yearly'] as BillingCycle[]).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setCycle(option)}
+                    disabled={option === 'yearly' && !yearlyAvailable}
+                    className={`px-4 py-3 border rounded-lg text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      cycle === option ? 'border-blue-600 bg-blue-50' : 'border-slate-300 hover:bg-slate-50'
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-slate-900 capitalize">{option}</p>
+                    {selectedPrices && (option === 'monthly' || yearlyAvailable) && (
+                      <p className="text-xs text-slate-500">
+                        {formatAmount(getCyclePrice(selectedPrices, option))} / {option === 'monthly' ? 'month' : 'year'}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {!periodInvoiced ? (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                Your current billing period has not been invoiced yet. Please try again later.
+              </div>
+            ) : isCurrentPlan ? (
+              <p className="text-sm text-slate-500">Choose a different service, tier or billing cycle to see the cost of switching.</p>
+            ) : preview && (
+              <div className="bg-slate-50 rounded-lg p-4 space-y-2 text-sm">
+                <div className="flex justify-between text-slate-600">
+                  <span>
+                    Credit for unused time ({preview.unusedDays} of {preview.periodDays} days)
+                  </span>
+                  <span>-{formatAmount(preview.credit)}</span>
+                </div>
+                <div className="flex justify-between text-slate-600">
+                  <span>
+                    {selectedOffer?.title}
+                    {selectedTier && ` - ${selectedTier.name}`} ({cycle}) until {preview.newPeriodEnd.toLocaleDateString()}
+                  </span>
+                  <span>{formatAmount(preview.charge)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t border-slate-200 font-semibold text-slate-900">
+                  {preview.creditCarried > 0 ? (
+                    <>
+                      <span>Credit toward future invoices</span>
+                      <span>{formatAmount(preview.creditCarried)}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span>Due now</span>
+                      <span>{formatAmount(preview.amountDue)}</span>
+                    </>
+                  )}
+                </div>
+                {tax.rate > 0 && preview.amountDue > 0 && (
+                  <p className="text-xs text-slate-500">Plus {tax.label} ({tax.rate}%).</p>
+                )}
+                <p className="text-xs text-slate-500">
+                  Your plan renews on {preview.newPeriodEnd.toLocaleDateString()}.
+                </p>
+                {subscription.coupon_id && (
+                  <p className="text-xs text-amber-700">
+                    Your promo code discount applies to your current plan only and ends when you switch.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                disabled={submitting}
+                className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+              >
+                Go Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={submitting || !preview}
+                className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {submitting && <Loader2 className="w-5 h-5 animate-spin" />}
+                Confirm Change
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, CreditCard, Loader2, CheckCircle } from 'lucide-react';
+import { loadStripe, type Stripe, type StripeCardElement } from '@stripe/stripe-js';
+import {
+  checkoutSubscription,
+  paymentProvider,
+  stripePublishableKey,
+  MOCK_PAYMENT_METHODS,
+} from '../lib/payments';
+import type { TaxSettings } from '../lib/business';
+import { formatMoney } from '../lib/currency';
+
+interface CheckoutModalProps {
+  subscriptionId: string;
+  title: string;
+  amount: number;
+  currency: string;
+  tax: TaxSettings;
+  billingCycle: 'monthly' | 'yearly';
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+export function CheckoutModal({
+  subscriptionId,
+  title,
+  amount,
+  currency,
+  tax,
+  billingCycle,
+  onClose,
+  onComplete,
+}: CheckoutModalProps) {
+  const [mockPaymentMethod, setMockPaymentMethod] = useState(MOCK_PAYMENT_METHODS[0].id);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [succeeded, setSucceeded] = useState(false);
+  const cardContainerRef = useRef<HTMLDivElement>(null);
+  const stripeRef = useRef<Stripe | null>(null);
+  const cardRef = useRef<StripeCardElement | null>(null);
+
+  useEffect(() => {
+    if (paymentProvider !== 'stripe') return;
+
+    let card: StripeCardElement | null = null;
+    loadStripe(stripePublishableKey).then((stripe) => {
+      if (!stripe || !cardContainerRef.current) {
+        setError('Card payments are not available right now. Please try again later.');
+        return;
+      }
+      stripeRef.current = stripe;
+      card = stripe.elements().create('card');
+      card.mount(cardContainerRef.current);
+      cardRef.current = card;
+    });
+
+    return () => card?.destroy();
+  }, []);
+
+  const getPaymentMethodId = async (): Promise<string> => {
+    if (paymentProvider === 'mock') return mockPaymentMethod;
+    if (!paymentProvider) throw new Error('Card payments are not available right now');
+
+    if (!stripeRef.current || !cardRef.current) {
+      throw new Error('Card form is still loading');
+    }
+    const { paymentMethod, error } = await stripeRef.current.createPaymentMethod({
+      type: 'card',
+      card: cardRef.current,
+    });
+    if (error || !paymentMethod) {
+      throw new Error(error?.message || 'Please check your card details');
+    }
+    return paymentMethod.id;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProcessing(true);
+    setError('');
+
+    try {
+      const result = await checkoutSubscription(subscriptionId, await getPaymentMethodId());
+      if (result.status === 'succeeded') {
+        setSucceeded(true);
+      } else {
+        setError(result.failureReason || 'The payment could not be processed');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Checkout failed');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (succeeded) {
+      onComplete();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full">
+        <div className="border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-900">Complete Payment</h2>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {succeeded ? (
+          <div className="p-6 text-center">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+            <p className="text-lg font-semibold text-slate-900">Payment successful</p>
+            <p className="text-sm text-slate-600 mt-1">Your {title} subscription is now active.</p>
+            <button
+              onClick={onComplete}
+              className="w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-5">
+            <div className="bg-slate-50 rounded-lg p-4">
+              <p className="text-sm text-slate-600">{title}</p>
+              <p className="text-2xl font-bold text-slate-900">
+                {formatMoney(amount, currency)}
+                <span className="text-sm font-normal text-slate-500"> / {billingCycle === 'monthly' ? 'month' : 'year'}</span>
+              </p>
+              {tax.rate > 0 && (
+                <p className="text-xs text-slate-500 mt-1">
+                  Plus {tax.rate}% {tax.label}: {formatMoney(Math.round(amount * tax.rate) / 100, currency)}
+                </p>
+              )}
+            </div>
+
+            {paymentProvider === 'mock' ? (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Test Card</label>
+                <select
+                  value={mockPaymentMethod}
+                  onChange={(e) => setMockPaymentMethod(e.target.value)}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {MOCK_PAYMENT_METHODS.map((method) => (
+                    <option key={method.id} value={method.id}>
+                      {method.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-1">Development mode: no real payment is taken.</p>
+              </div>
+            ) : paymentProvider === 'stripe' ? (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Card Details</label>
+                <div ref={cardContainerRef} className="px-4 py-3 border border-slate-300 rounded-lg" />
+              </div>
+            ) : (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                Card payments are not available right now. Please try again later.
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={processing || !paymentProvider}
+              className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {processing ? <Loader2 className="w-5 h-5 animate-spin" /> : <CreditCard className="w-5 h-5" />}
+              {processing ? 'Processing...' : 'Pay Now'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
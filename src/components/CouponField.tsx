@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from 'react';
+import { Tag, Loader2, CheckCircle } from 'lucide-react';
+import { validateCoupon, describeCoupon, normalizeCouponCode, type CouponDiscount } from '../lib/coupons';
+
+interface CouponFieldProps {
+  offerId: string;
+  onChange: (coupon: CouponDiscount | null) => void;
+}
+
+const VALIDATION_DELAY_MS = 400;
+
+export function CouponField({ offerId, onChange }: CouponFieldProps) {
+  const [code, setCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponDiscount | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+  // onChange is a fresh closure on every parent render; validate only when the code changes
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    setCoupon(null);
+    setError('');
+    onChangeRef.current(null);
+
+    if (!normalizeCouponCode(code)) {
+      setChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    setChecking(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await validateCoupon(code, offerId);
+        if (cancelled) return;
+        setCoupon(result);
+        onChangeRef.current(result);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'This code is not valid');
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    }, VALIDATION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, offerId]);
+
+  return (
+    <div>
+      <div className="relative">
+        <Tag className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Promo code"
+          className="w-full pl-9 pr-9 py-2 border border-slate-300 rounded-lg text-sm uppercase placeholder:normal-case focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {checking && (
+          <Loader2 className="w-4 h-4 text-slate-400 animate-spin absolute right-3 top-1/2 -translate-y-1/2" />
+        )}
+        {coupon && !checking && (
+          <CheckCircle className="w-4 h-4 text-green-600 absolute right-3 top-1/2 -translate-y-1/2" />
+        )}
+      </div>
+      {coupon && <p className="text-xs text-green-700 mt-1">{describeCoupon(coupon)}</p>}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
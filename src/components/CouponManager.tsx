@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Loader2, Tag } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { describeCoupon } from '../lib/coupons';
+import { CouponModal } from './CouponModal';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type Coupon = Database['public']['Tables']['coupons']['Row'] & {
+  coupon_offers: { offer_id: string }[];
+};
+
+interface CouponManagerProps {
+  offers: ServiceOffer[];
+  canManage?: boolean;
+}
+
+export function CouponManager({ offers, canManage = false }: CouponManagerProps) {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+
+  const loadCoupons = async () => {
+    const { data, error } = await supabase
+      .from('coupons')
+      .select('*, coupon_offers(offer_id)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      setError(error.message);
+    } else if (data) {
+      setCoupons(data as Coupon[]);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    const { error } = await supabase
+      .from('coupons')
+      .update({ is_active: !coupon.is_active, updated_at: new Date().toISOString() })
+      .eq('id', coupon.id);
+
+    if (error) {
+      setError(error.message);
+    }
+    await loadCoupons();
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+
+    const { error } = await supabase.from('coupons').delete().eq('id', coupon.id);
+    if (error) {
+      setError(error.message);
+    }
+    await loadCoupons();
+  };
+
+  const getOfferNames = (coupon: Coupon) => {
+    if (coupon.coupon_offers.length === 0) return 'All services';
+    return coupon.coupon_offers
+      .map((row) => offers.find((offer) => offer.id === row.offer_id)?.title)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  const isExpired = (coupon: Coupon) => !!coupon.expires_at && new Date(coupon.expires_at) <= new Date();
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+        <div className="flex items-center justify-center gap-3">
+          <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          <p className="text-slate-600">Loading coupons...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-slate-900">Coupons</h2>
+        {canManage && (
+          <button
+            onClick={() => {
+              setEditingCoupon(null);
+              setShowModal(true);
+            }}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Coupon
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {coupons.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+          <Tag className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600">No coupons yet.</p>
+          <p className="text-sm text-slate-500 mt-1">Create a promo code to offer discounts at subscribe time.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Services</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Redemptions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {coupons.map((coupon) => (
+                  <tr key={coupon.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm">
+                      <p className="font-mono font-medium text-slate-900">{coupon.code}</p>
+                      {coupon.description && <p className="text-slate-500">{coupon.description}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-900">{describeCoupon(coupon)}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{getOfferNames(coupon)}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <p className="text-slate-900">
+                        {coupon.times_redeemed}
+                        {coupon.max_redemptions ? ` / ${coupon.max_redemptions}` : ''}
+                      </p>
+                      {coupon.expires_at && (
+                        <p className={`text-xs ${isExpired(coupon) ? 'text-red-600' : 'text-slate-500'}`}>
+                          {isExpired(coupon) ? 'Expired' : 'Expires'} {new Date(coupon.expires_at).toLocaleDateString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <button
+                        onClick={() => handleToggleActive(coupon)}
+                        disabled={!canManage}
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${
+                          coupon.is_active ? 'bg-green-100 text-green-800' : 'bg-slate-100 text-slate-600'
+                        }`}
+                      >
+                        {coupon.is_active ? 'Active' : 'Inactive'}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        {canManage && (
+                          <button
+                            onClick={() => {
+                              setEditingCoupon(coupon);
+                              setShowModal(true);
+                            }}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canManage && coupon.times_redeemed === 0 && (
+                          <button
+                            onClick={() => handleDelete(coupon)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <CouponModal
+          coupon={editingCoupon}
+          offers={offers}
+          onClose={() => {
+            setShowModal(false);
+            setEditingCoupon(null);
+          }}
+          onSave={async () => {
+            await loadCoupons();
+            setShowModal(false);
+            setEditingCoupon(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { normalizeCouponCode } from '../lib/coupons';
+import { CURRENCIES } from '../lib/currency';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type Coupon = Database['public']['Tables']['coupons']['Row'] & {
+  coupon_offers: { offer_id: string }[];
+};
+
+interface CouponModalProps {
+  coupon: Coupon | null;
+  offers: ServiceOffer[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+export function CouponModal({ coupon, offers, onClose, onSave }: CouponModalProps) {
+  const [formData, setFormData] = useState({
+    code: coupon?.code ?? '',
+    description: coupon?.description ?? '',
+    discount_type: coupon?.discount_type ?? ('percent' as Coupon['discount_type']),
+    discount_value: coupon ? Number(coupon.discount_value) : 10,
+    currency: coupon?.currency ?? CURRENCIES[0].code,
+    duration: coupon?.duration ?? ('once' as Coupon['duration']),
+    duration_months: coupon?.duration_months ?? 3,
+    expires_at: coupon?.expires_at ? coupon.expires_at.slice(0, 10) : '',
+    max_redemptions: coupon?.max_redemptions ? String(coupon.max_redemptions) : '',
+    is_active: coupon?.is_active ?? true,
+    offer_ids: coupon?.coupon_offers.map((row) => row.offer_id) ?? [],
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleOffer = (offerId: string) => {
+    const offerIds = formData.offer_ids.includes(offerId)
+      ? formData.offer_ids.filter((id) => id !== offerId)
+      : [...formData.offer_ids, offerId];
+    setFormData({ ...formData, offer_ids: offerIds });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const data = {
+      code: normalizeCouponCode(formData.code),
+      description: formData.description,
+      discount_type: formData.discount_type,
+      discount_value: formData.discount_value,
+      currency: formData.discount_type === 'fixed' ? formData.currency : null,
+      duration: formData.duration,
+      duration_months: formData.duration === 'repeating' ? formData.duration_months : null,
+      // Redeemable through the end of the chosen day
+      expires_at: formData.expires_at ? new Date(`${formData.expires_at}T23:59:59`).toISOString() : null,
+      max_redemptions: formData.max_redemptions ? parseInt(formData.max_redemptions, 10) : null,
+      is_active: formData.is_active,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: saved, error: saveError } = coupon
+      ? await supabase.from('coupons').update(data).eq('id', coupon.id).select().single()
+      : await supabase.from('coupons').insert(data).select().single();
+
+    if (saveError || !saved) {
+      setError(saveError?.code === '23505' ? 'A coupon with this code already exists' : saveError?.message || 'Failed to save coupon');
+      setSaving(false);
+      return;
+    }
+
+    const { error: clearError } = await supabase.from('coupon_offers').delete().eq('coupon_id', saved.id);
+    const { error: offersError } = formData.offer_ids.length > 0
+      ? await supabase
+          .from('coupon_offers')
+          .insert(formData.offer_ids.map((offerId) => ({ coupon_id: saved.id, offer_id: offerId })))
+      : { error: null };
+
+    if (clearError || offersError) {
+      setError((clearError || offersError)?.message || 'Failed to save coupon offers');
+      setSaving(false);
+      return;
+    }
+
+    setSaving(false);
+    onSave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">{coupon ? 'Edit Coupon' : 'Create New Coupon'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Code</label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="LAUNCH20"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Internal Description</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Spring funding campaign"
+              />
+            </div>
+          </div>
+
+          <div className={`grid gap-4 ${formData.discount_type === 'fixed' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Discount Type</label>
+              <select
+                value={formData.discount_type}
+                onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as Coupon['discount_type'] })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="percent">Percent off</option>
+                <option value="fixed">Fixed amount off</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">
+                {formData.discount_type === 'percent' ? 'Percent' : `Amount (${formData.currency})`}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={formData.discount_type === 'percent' ? 100 : undefined}
+                value={formData.discount_value}
+                onChange={(e) => setFormData({ ...formData, discount_value: parseFloat(e.target.value) })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            {formData.discount_type === 'fixed' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Currency</label>
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency.code} value={currency.code}>
+                      {currency.code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          {formData.discount_type === 'fixed' && (
+            <p className="text-xs text-slate-500 -mt-4">Only subscriptions billed in {formData.currency} can redeem this coupon.</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Duration</label>
+              <select
+                value={formData.duration}
+                onChange={(e) => setFormData({ ...formData, duration: e.target.value as Coupon['duration'] })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="once">First billing period</option>
+                <option value="repeating">Number of months</option>
+                <option value="forever">Forever</option>
+              </select>
+            </div>
+            {formData.duration === 'repeating' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Months</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.duration_months}
+                  onChange={(e) => setFormData({ ...formData, duration_months: parseInt(e.target.value, 10) })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Expires On</label>
+              <input
+                type="date"
+                value={formData.expires_at}
+                onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Max Redemptions</label>
+              <input
+                type="number"
+                min="1"
+                value={formData.max_redemptions}
+                onChange={(e) => setFormData({ ...formData, max_redemptions: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Unlimited"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Applies To</label>
+            <p className="text-xs text-slate-500 mb-2">Leave all unchecked to allow the code on every service.</p>
+            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto border border-slate-200 rounded-lg p-3">
+              {offers.map((offer) => (
+                <label key={offer.id} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.offer_ids.includes(offer.id)}
+                    onChange={() => toggleOffer(offer.id)}
+                    className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                  />
+                  {offer.title}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="coupon_is_active"
+              checked={formData.is_active}
+              onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="coupon_is_active" className="text-sm font-medium text-slate-700">
+              Active (customers can redeem this code)
+            </label>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : coupon ? 'Update Coupon' : 'Create Coupon'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
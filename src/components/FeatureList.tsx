@@ -0,0 +1,47 @@
+import { CheckCircle, Info } from 'lucide-react';
+import { groupFeatures } from '../lib/offer-features';
+import { InlineMarkdown } from './Markdown';
+
+interface FeatureListProps {
+  features: string[];
+  className?: string;
+}
+
+/** An offer's features under their group headings, with tooltips */
+export function FeatureList({ features, className = '' }: FeatureListProps) {
+  const groups = groupFeatures(features);
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {groups.map((group, groupIndex) => (
+        <div key={groupIndex}>
+          {group.name && (
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">{group.name}</p>
+          )}
+          <ul className="space-y-2">
+            {group.features.map((feature, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm text-slate-700">
+                <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                <span>
+                  <InlineMarkdown source={feature.text} />
+                  {feature.tooltip && (
+                    <span className="relative inline-block align-middle ml-1 group" tabIndex={0} aria-label={feature.tooltip}>
+                      <Info className="w-3.5 h-3.5 text-slate-400 group-hover:text-slate-600" />
+                      <span
+                        role="tooltip"
+                        className="hidden group-hover:block group-focus:block absolute z-20 bottom-full left-1/2 -translate-x-1/2 mb-2 w-56 rounded-lg bg-slate-900 px-3 py-2 text-xs text-white shadow-lg"
+                      >
+                        {feature.tooltip}
+                      </span>
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
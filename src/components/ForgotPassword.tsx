@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Mail } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthLayout } from './AuthLayout';
+import { Link } from './Link';
+
+export function ForgotPassword() {
+  const { sendPasswordReset } = useAuth();
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    const { error } = await sendPasswordReset(email.trim());
+    if (error) {
+      setError(error.message);
+    } else {
+      setSentTo(email.trim());
+    }
+    setLoading(false);
+  };
+
+  return (
+    <AuthLayout subtitle="Reset your password">
+      {sentTo ? (
+        <div className="text-center space-y-4">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-50 rounded-full">
+            <Mail className="w-6 h-6 text-blue-600" />
+          </div>
+          <p className="text-slate-700">
+            If an account uses <span className="font-medium">{sentTo}</span>, we sent it a link to choose a new
+            password. The link works once and expires after an hour.
+          </p>
+          <button
+            type="button"
+            onClick={() => setSentTo(null)}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            Use a different email address
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <p className="text-sm text-slate-600">
+            Enter the email address you signed up with and we will send you a link to choose a new password.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Email Address</label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                placeholder="you@company.com"
+                required
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Sending...' : 'Send Reset Link'}
+          </button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link to={{ name: 'signIn' }} className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors">
+          Back to sign in
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -1,8 +1,9 @@
 import { LogOut, Building2, User, Shield } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { STAFF_ROLE_LABELS } from '../lib/staff';
 
 export function Header() {
-  const { profile, signOut } = useAuth();
+  const { profile, membership, signOut } = useAuth();
 
   if (!profile) return null;
 
@@ -16,10 +17,10 @@ export function Header() {
             </div>
             <div>
               <h1 className="text-lg font-bold text-slate-900">Business Services Portal</h1>
-              {profile.is_admin && (
+              {profile.staff_role && (
                 <div className="flex items-center gap-1 text-xs text-blue-600">
                   <Shield className="w-3 h-3" />
-                  <span>Admin Access</span>
+                  <span>Staff: {STAFF_ROLE_LABELS[profile.staff_role]}</span>
                 </div>
               )}
             </div>
@@ -31,8 +32,8 @@ export function Header() {
                 <User className="w-4 h-4" />
                 {profile.full_name || profile.email}
               </div>
-              {profile.company_name && (
-                <p className="text-xs text-slate-500">{profile.company_name}</p>
+              {membership?.organizations && (
+                <p className="text-xs text-slate-500">{membership.organizations.name}</p>
               )}
             </div>
             <button
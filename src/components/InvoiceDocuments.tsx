@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { downloadInvoiceDocument, type InvoiceDocumentKind } from '../lib/invoice-documents';
+import { formatMoney } from '../lib/currency';
+import type { Database } from '../lib/database.types';
+
+type Invoice = Database['public']['Tables']['invoices']['Row'];
+
+interface InvoiceDocumentsProps {
+  subscriptionId: string;
+}
+
+export function InvoiceDocuments({ subscriptionId }: InvoiceDocumentsProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadInvoices = async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('subscription_id', subscriptionId)
+        .neq('status', 'void')
+        .order('period_start', { ascending: false });
+
+      if (error) {
+        setError(error.message);
+      } else if (data) {
+        setInvoices(data);
+      }
+      setLoading(false);
+    };
+
+    loadInvoices();
+  }, [subscriptionId]);
+
+  const handleDownload = async (invoiceId: string, kind: InvoiceDocumentKind) => {
+    setDownloading(`${invoiceId}-${kind}`);
+    setError('');
+
+    try {
+      await downloadInvoiceDocument(invoiceId, kind);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate document');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm mb-3">
+          {error}
+        </div>
+      )}
+
+      {invoices.length === 0 ? (
+        <p className="text-sm text-slate-500">No invoices for this service yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {invoices.map((invoice) => (
+            <li key={invoice.id} className="flex items-center justify-between gap-3 text-sm">
+              <div>
+                <p className="font-medium text-slate-900">{invoice.invoice_number}</p>
+                <p className="text-xs text-slate-500">
+                  {new Date(invoice.period_start).toLocaleDateString()} &middot; {formatMoney(invoice.total, invoice.currency)}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => handleDownload(invoice.id, 'invoice')}
+                  disabled={downloading !== null}
+                  className="flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                >
+                  {downloading === `${invoice.id}-invoice` ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4" />
+                  )}
+                  Invoice
+                </button>
+                {invoice.status === 'paid' && (
+                  <button
+                    onClick={() => handleDownload(invoice.id, 'receipt')}
+                    disabled={downloading !== null}
+                    className="flex items-center gap-1 text-green-700 hover:text-green-800 font-medium disabled:opacity-50"
+                  >
+                    {downloading === `${invoice.id}-receipt` ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Download className="w-4 h-4" />
+                    )}
+                    Receipt
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FileText, Loader2, RotateCcw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { refundPayment } from '../lib/payments';
+import { formatMoney } from '../lib/currency';
+import type { Database } from '../lib/database.types';
+
+type InvoiceStatus = Database['public']['Tables']['invoices']['Row']['status'];
+type Payment = Database['public']['Tables']['payments']['Row'];
+type Invoice = Database['public']['Tables']['invoices']['Row'] & {
+  invoice_line_items: Database['public']['Tables']['invoice_line_items']['Row'][];
+  payments: Payment[];
+  user_subscriptions: {
+    service_offers: Pick<Database['public']['Tables']['service_offers']['Row'], 'title'> | null;
+  } | null;
+};
+
+interface InvoiceListProps {
+  organizationId: string;
+  canManage?: boolean;
+}
+
+const statusClasses: Record<InvoiceStatus, string> = {
+  open: 'bg-amber-100 text-amber-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-slate-100 text-slate-500',
+};
+
+export function InvoiceList({ organizationId, canManage = false }: InvoiceListProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadInvoices = useCallback(async () => {
+    setError('');
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*, invoice_line_items(*), payments(*), user_subscriptions(service_offers(title))')
+      .eq('organization_id', organizationId)
+      .order('period_start', { ascending: false });
+
+    if (error) {
+      setError(error.message);
+    } else if (data) {
+      setInvoices(data as Invoice[]);
+    }
+    setLoading(false);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  const handleUpdateStatus = async (id: string, status: InvoiceStatus) => {
+    const { error } = await supabase
+      .from('invoices')
+      .update({ status, paid_at: status === 'paid' ? new Date().toISOString() : null })
+      .eq('id', id);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    await loadInvoices();
+  };
+
+  const handleRefund = async (payment: Payment) => {
+    const remaining = Number(payment.amount) - Number(payment.refunded_amount);
+    const input = prompt(`Amount to refund (up to ${formatMoney(remaining, payment.currency)}):`, remaining.toFixed(2));
+    if (input === null) return;
+
+    const amount = parseFloat(input);
+    if (!(amount > 0) || amount > remaining) {
+      setError(`Enter a refund amount between ${formatMoney(0.01, payment.currency)} and ${formatMoney(remaining, payment.currency)}`);
+      return;
+    }
+
+    setError('');
+    try {
+      await refundPayment(payment.id, amount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Refund failed');
+    }
+    await loadInvoices();
+  };
+
+  const formatPeriod = (invoice: Invoice) => {
+    // period_end is exclusive, so show the last day actually covered
+    const lastDay = new Date(new Date(invoice.period_end).getTime() - 24 * 60 * 60 * 1000);
+    return `${new Date(invoice.period_start).toLocaleDateString()} – ${lastDay.toLocaleDateString()}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {invoices.length === 0 ? (
+        <div className="text-center py-6">
+          <FileText className="w-10 h-10 text-slate-400 mx-auto mb-2" />
+          <p className="text-sm text-slate-600">No invoices yet.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Service</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Period</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Due</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-slate-600 uppercase tracking-wider">Amount</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {invoices.map((invoice) => (
+                <tr key={invoice.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-4 py-3 text-sm">
+                    <p className="font-medium text-slate-900">{invoice.user_subscriptions?.service_offers?.title}</p>
+                    <p className="text-xs text-slate-500">{invoice.invoice_number}</p>
+                    {invoice.invoice_line_items.map((item) => (
+                      <p key={item.id} className="text-xs text-slate-500">
+                        {item.description} &times; {Number(item.quantity)}
+                      </p>
+                    ))}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-700 whitespace-nowrap">{formatPeriod(invoice)}</td>
+                  <td className="px-4 py-3 text-sm text-slate-700 whitespace-nowrap">
+                    {invoice.due_at ? new Date(invoice.due_at).toLocaleDateString() : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-semibold text-slate-900 text-right">
+                    {formatMoney(invoice.total, invoice.currency)}
+                    {invoice.payments.map((payment) => (
+                      <div key={payment.id} className="text-xs font-normal text-slate-500">
+                        {Number(payment.refunded_amount) > 0 && (
+                          <p>Refunded {formatMoney(payment.refunded_amount, payment.currency)}</p>
+                        )}
+                        {canManage && (payment.status === 'succeeded' || payment.status === 'partially_refunded') && (
+                          <button
+                            onClick={() => handleRefund(payment)}
+                            className="inline-flex items-center gap-1 text-red-600 hover:text-red-700 font-medium"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Refund
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-4 py-3">
+                    {canManage ? (
+                      <select
+                        value={invoice.status}
+                        onChange={(e) => handleUpdateStatus(invoice.id, e.target.value as InvoiceStatus)}
+                        className="text-sm border border-slate-300 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="open">Open</option>
+                        <option value="paid">Paid</option>
+                        <option value="void">Void</option>
+                      </select>
+                    ) : (
+                      <span className={`px-3 py-1 text-xs font-medium rounded-full capitalize ${statusClasses[invoice.status]}`}>
+                        {invoice.status}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { getRoutePath, navigateTo, type Route } from '../lib/routes';
+
+interface LinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: Route;
+}
+
+/**
+ * A link to a page of the portal. Plain clicks navigate without reloading;
+ * modified clicks keep the browser's behaviour, like opening a new tab.
+ */
+export function Link({ to, onClick, children, ...props }: LinkProps) {
+  const href = getRoutePath(to);
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    if (props.target && props.target !== '_self') return;
+    e.preventDefault();
+    navigateTo(href);
+  };
+
+  return (
+    <a href={href} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+}
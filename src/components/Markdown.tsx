@@ -0,0 +1,81 @@
+import { parseInlineMarkdown, parseMarkdown, stripHtml, type MarkdownBlock, type MarkdownInline } from '../lib/markdown';
+
+const HEADING_STYLES: Record<1 | 2 | 3, string> = {
+  1: 'text-base font-semibold text-slate-900',
+  2: 'text-sm font-semibold text-slate-900',
+  3: 'text-sm font-medium text-slate-800',
+};
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 bg-slate-100 rounded text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold text-slate-900">
+            {renderInline(node.children)}
+          </strong>
+        );
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 hover:text-blue-700 underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, index: number) => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = (['h4', 'h5', 'h6'] as const)[block.level - 1];
+      return (
+        <Heading key={index} className={HEADING_STYLES[block.level]}>
+          {renderInline(block.children)}
+        </Heading>
+      );
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+  }
+};
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+/** Renders an offer description, on the admin and the customer side alike */
+export function Markdown({ source, className = '' }: MarkdownProps) {
+  return <div className={`space-y-2 ${className}`}>{parseMarkdown(source).map(renderBlock)}</div>;
+}
+
+/** Renders a single line, such as a feature, with inline formatting only */
+export function InlineMarkdown({ source }: { source: string }) {
+  return <>{renderInline(parseInlineMarkdown(stripHtml(source)))}</>;
+}
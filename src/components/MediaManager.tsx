@@ -3,7 +3,11 @@ import { Image, Video, ExternalLink, Trash2, Loader2, RefreshCw, Play } from 'lu
 import { listFilesInSupabase, deleteFileFromSupabase } from '../lib/supabase-storage';
 import { VideoModal } from './VideoModal';
 
-export function MediaManager() {
+interface MediaManagerProps {
+  canManage?: boolean;
+}
+
+export function MediaManager({ canManage = false }: MediaManagerProps) {
   const [images, setImages] = useState<string[]>([]);
   const [videos, setVideos] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
@@ -131,17 +135,19 @@ export function MediaManager() {
                       <ExternalLink className="w-3 h-3" />
                       Copy URL
                     </button>
-                    <button
-                      onClick={() => handleDelete(imageUrl, 'image')}
-                      disabled={deleting === imageUrl}
-                      className="px-3 py-2 text-xs text-red-600 hover:bg-red-50 rounded border border-red-200 transition-colors disabled:opacity-50"
-                    >
-                      {deleting === imageUrl ? (
-                        <Loader2 className="w-3 h-3 animate-spin" />
-                      ) : (
-                        <Trash2 className="w-3 h-3" />
-                      )}
-                    </button>
+                    {canManage && (
+                      <button
+                        onClick={() => handleDelete(imageUrl, 'image')}
+                        disabled={deleting === imageUrl}
+                        className="px-3 py-2 text-xs text-red-600 hover:bg-red-50 rounded border border-red-200 transition-colors disabled:opacity-50"
+                      >
+                        {deleting === imageUrl ? (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-3 h-3" />
+                        )}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -194,17 +200,19 @@ export function MediaManager() {
                         <ExternalLink className="w-3 h-3" />
                         Copy URL
                       </button>
-                      <button
-                        onClick={() => handleDelete(videoUrl, 'video')}
-                        disabled={deleting === videoUrl}
-                        className="px-3 py-1.5 text-xs text-red-600 hover:bg-red-50 rounded border border-red-200 transition-colors disabled:opacity-50"
-                      >
-                        {deleting === videoUrl ? (
-                          <Loader2 className="w-3 h-3 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-3 h-3" />
-                        )}
-                      </button>
+                      {canManage && (
+                        <button
+                          onClick={() => handleDelete(videoUrl, 'video')}
+                          disabled={deleting === videoUrl}
+                          className="px-3 py-1.5 text-xs text-red-600 hover:bg-red-50 rounded border border-red-200 transition-colors disabled:opacity-50"
+                        >
+                          {deleting === videoUrl ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <Trash2 className="w-3 h-3" />
+                          )}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,92 @@
+import { ExternalLink, Play, Gift } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+import { CategoryBadge } from './CategoryBadge';
+import { FeatureList } from './FeatureList';
+import { Markdown } from './Markdown';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+interface OfferCardProps {
+  offer: Pick<
+    ServiceOffer,
+    'id' | 'title' | 'description' | 'features' | 'trial_days' | 'product_image' | 'product_link' | 'product_video'
+  >;
+  category: Pick<Category, 'icon' | 'color'> & { name: string } | null;
+  /** Tiered offers span the whole row to fit their comparison table */
+  wide?: boolean;
+  onPlayVideo: (video: { url: string; title: string }) => void;
+  /** Prices and subscribe buttons */
+  children: React.ReactNode;
+}
+
+/** An offer as customers see it in the catalog */
+export function OfferCard({ offer, category, wide = false, onPlayVideo, children }: OfferCardProps) {
+  return (
+    <div
+      id={`offer-${offer.id}`}
+      className={`bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden hover:shadow-lg transition-all ${
+        wide ? 'md:col-span-2 lg:col-span-3' : ''
+      }`}
+    >
+      {offer.product_image && (
+        <div className="h-48 w-full overflow-hidden bg-slate-100">
+          <img
+            src={offer.product_image}
+            alt={offer.title}
+            className="w-full h-full object-cover"
+          />
+        </div>
+      )}
+      <div className="p-6">
+        <div className="mb-4">
+          {category && (
+            <CategoryBadge
+              name={category.name}
+              icon={category.icon}
+              color={category.color}
+              className="mb-3"
+            />
+          )}
+          {offer.trial_days > 0 && (
+            <span className="inline-flex items-center gap-1 px-3 py-1 bg-green-50 text-green-700 text-xs font-medium rounded-full mb-3 ml-2 first:ml-0">
+              <Gift className="w-3 h-3" />
+              {offer.trial_days}-day free trial
+            </span>
+          )}
+          <h3 className="text-xl font-bold text-slate-900 mb-2">{offer.title}</h3>
+          <Markdown source={offer.description} className="text-slate-600 text-sm" />
+        </div>
+
+        {Array.isArray(offer.features) && <FeatureList features={offer.features} className="mb-4" />}
+
+        {(offer.product_link || offer.product_video) && (
+          <div className="flex gap-3 mb-4 pb-4 border-b border-slate-200">
+            {offer.product_link && (
+              <a
+                href={offer.product_link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <ExternalLink className="w-4 h-4" />
+                Learn More
+              </a>
+            )}
+            {offer.product_video && (
+              <button
+                onClick={() => onPlayVideo({ url: offer.product_video!, title: offer.title })}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Play className="w-4 h-4" />
+                Watch Demo
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-4 border-t border-slate-200">{children}</div>
+      </div>
+    </div>
+  );
+}
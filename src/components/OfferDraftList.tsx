@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { Eye, Edit2, Trash2, Send, CheckCircle, XCircle, Rocket } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Database } from '../lib/database.types';
+import {
+  DRAFT_STATUS_LABELS,
+  approveOfferDraft,
+  deleteOfferDraft,
+  publishOfferDraft,
+  rejectOfferDraft,
+  submitOfferDraft,
+  type EditableOffer,
+  type OfferDraft,
+  type OfferDraftStatus,
+} from '../lib/offer-drafts';
+import { OfferPreviewModal } from './OfferPreviewModal';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+interface OfferDraftListProps {
+  drafts: OfferDraft[];
+  offers: EditableOffer[];
+  categories: Category[];
+  onEdit: (draft: OfferDraft) => void;
+  onChange: () => Promise<void>;
+  canManage?: boolean;
+}
+
+const STATUS_STYLES: Record<OfferDraftStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  in_review: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+};
+
+/** New offers and changes to published ones, on their way through review */
+export function OfferDraftList({ drafts, offers, categories, onEdit, onChange, canManage = false }: OfferDraftListProps) {
+  const { profile } = useAuth();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [previewing, setPreviewing] = useState<OfferDraft | null>(null);
+
+  if (drafts.length === 0) return null;
+
+  const run = async (draft: OfferDraft, action: () => Promise<unknown>) => {
+    setBusy(draft.id);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+    await onChange();
+    setBusy(null);
+  };
+
+  const handleReject = (draft: OfferDraft) => {
+    const note = prompt('What needs to change before this can be published?', '');
+    if (note === null) return;
+    run(draft, () => rejectOfferDraft(draft.id, note.trim()));
+  };
+
+  const handleDiscard = (draft: OfferDraft) => {
+    if (!confirm(`Discard the draft of ${draft.form.title || 'this offer'}?`)) return;
+    run(draft, () => deleteOfferDraft(draft.id));
+  };
+
+  const getLiveOffer = (draft: OfferDraft) => offers.find((offer) => offer.id === draft.offer_id) ?? null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 mb-6">
+      <div className="px-6 py-4 border-b border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">Drafts &amp; Reviews</h3>
+        <p className="text-sm text-slate-500">Drafts are published once a second administrator approves them.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm m-4">
+          {error}
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-200">
+        {drafts.map((draft) => {
+          const liveOffer = getLiveOffer(draft);
+          const isAuthor = draft.author_id === profile?.id;
+
+          return (
+            <div key={draft.id} className="px-6 py-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-slate-900 truncate">{draft.form.title || 'Untitled offer'}</p>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[draft.status]}`}>
+                    {DRAFT_STATUS_LABELS[draft.status]}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-500">
+                  {liveOffer ? `Changes to ${liveOffer.title}` : 'New offer'}
+                  {draft.author && ` · ${draft.status === 'draft' ? 'Saved' : 'Submitted'} by ${draft.author.full_name}`}
+                  {` · ${new Date(draft.updated_at).toLocaleDateString()}`}
+                </p>
+                {draft.status === 'approved' && draft.reviewer && (
+                  <p className="text-sm text-green-700">Approved by {draft.reviewer.full_name}</p>
+                )}
+                {draft.status === 'draft' && draft.review_note && (
+                  <p className="text-sm text-amber-700">
+                    Sent back{draft.reviewer && ` by ${draft.reviewer.full_name}`}: {draft.review_note}
+                  </p>
+                )}
+                {draft.status === 'in_review' && isAuthor && (
+                  <p className="text-sm text-slate-500">Waiting for another administrator to review</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => setPreviewing(draft)}
+                  className="p-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                  title="Preview as customer"
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+                {canManage && (
+                  <button
+                    onClick={() => onEdit(draft)}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    title="Edit draft"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                )}
+                {canManage && draft.status === 'draft' && (
+                  <button
+                    onClick={() => run(draft, () => submitOfferDraft(draft.id))}
+                    disabled={busy === draft.id}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <Send className="w-4 h-4" />
+                    Submit
+                  </button>
+                )}
+                {canManage && draft.status === 'in_review' && !isAuthor && (
+                  <>
+                    <button
+                      onClick={() => run(draft, () => approveOfferDraft(draft.id))}
+                      disabled={busy === draft.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-green-700 bg-green-50 hover:bg-green-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReject(draft)}
+                      disabled={busy === draft.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Send Back
+                    </button>
+                  </>
+                )}
+                {canManage && draft.status === 'approved' && (
+                  <button
+                    onClick={() => run(draft, () => publishOfferDraft(draft.id))}
+                    disabled={busy === draft.id}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <Rocket className="w-4 h-4" />
+                    {busy === draft.id ? 'Publishing...' : 'Publish'}
+                  </button>
+                )}
+                {canManage && (
+                  <button
+                    onClick={() => handleDiscard(draft)}
+                    disabled={busy === draft.id}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    title="Discard draft"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {previewing && (
+        <OfferPreviewModal
+          form={previewing.form}
+          offerId={previewing.offer_id}
+          categories={categories}
+          onClose={() => setPreviewing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,86 +1,188 @@
-import { useState, useEffect } from 'react';
-import { X, Plus, Trash2, Play } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import type { Database } from '../lib/database.types';
+import { useState } from 'react';
+import { X, Plus, Trash2, Play, Eye, FolderPlus } from 'lucide-react';
+import type { Database, OfferForm, OfferFormMeter, OfferFormTier } from '../lib/database.types';
 import { FileUpload } from './FileUpload';
 import { VideoPlayer } from './VideoPlayer';
+import { OfferPreviewModal } from './OfferPreviewModal';
+import { Markdown } from './Markdown';
 import { parseVideoUrl } from '../lib/video-utils';
+import { CURRENCIES, type PricePoint } from '../lib/currency';
+import { buildCategoryTree, flattenCategoryTree } from '../lib/categories';
+import { type OfferRelationKind } from '../lib/offer-relations';
+import { fromDateTimeInput, toDateTimeInput } from '../lib/offer-schedule';
+import { slugify } from '../lib/public-catalog';
+import {
+  formatFeature,
+  formatFeatureGroup,
+  getFeatureGroupName,
+  isFeatureGroup,
+  parseFeature,
+  type OfferFeature,
+} from '../lib/offer-features';
+import {
+  EMPTY_OFFER_FORM,
+  getTierFormPrice,
+  saveOfferDraft,
+  submitOfferDraft,
+  toOfferForm,
+  type EditableOffer,
+  type OfferDraft,
+} from '../lib/offer-drafts';
 
-type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
 type Category = Database['public']['Tables']['service_categories']['Row'];
 
 interface OfferModalProps {
-  offer: ServiceOffer | null;
+  /** The published offer being changed, if any */
+  offer: EditableOffer | null;
+  /** The offer's existing draft, which is edited instead of the published offer */
+  draft: OfferDraft | null;
   categories: Category[];
+  /** Offers this one can require or suggest as add-ons */
+  offers: Pick<EditableOffer, 'id' | 'title'>[];
   onClose: () => void;
   onSave: () => void;
 }
 
-export function OfferModal({ offer, categories, onClose, onSave }: OfferModalProps) {
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    category_id: '',
-    price_monthly: 0,
-    price_yearly: 0,
-    is_active: true,
-    features: [''],
-    product_link: '',
-    product_image: '',
-    product_video: '',
-  });
+/**
+ * Edits an offer as a draft. Nothing reaches the live catalog until the draft
+ * is reviewed, approved and published from the offers list.
+ */
+export function OfferModal({ offer, draft, categories, offers, onClose, onSave }: OfferModalProps) {
+  const [formData, setFormData] = useState<OfferForm>(
+    () => draft?.form ?? (offer ? toOfferForm(offer) : { ...EMPTY_OFFER_FORM, currency: CURRENCIES[0].code })
+  );
+  // Whether existing subscribers move to the version this draft publishes
+  const [moveSubscribers, setMoveSubscribers] = useState(draft?.move_subscribers ?? false);
   const [saving, setSaving] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewDescription, setPreviewDescription] = useState(false);
+  const [error, setError] = useState('');
 
-  useEffect(() => {
-    if (offer) {
-      setFormData({
-        title: offer.title,
-        description: offer.description,
-        category_id: offer.category_id || '',
-        price_monthly: Number(offer.price_monthly),
-        price_yearly: Number(offer.price_yearly),
-        is_active: offer.is_active,
-        features: Array.isArray(offer.features) && offer.features.length > 0 ? offer.features : [''],
-        product_link: offer.product_link || '',
-        product_image: offer.product_image || '',
-        product_video: offer.product_video || '',
-      });
-    }
-  }, [offer]);
+  // A tiered offer's own price is its first tier's
+  const firstTier = formData.tiers[0];
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    setError('');
+
+    if (formData.publish_at && formData.unpublish_at && formData.unpublish_at <= formData.publish_at) {
+      setError('The offer must be unpublished after it is published');
+      return;
+    }
+
+    // The submit button that was pressed decides whether the draft goes for review
+    const submitter = (e.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | null;
+    const forReview = submitter?.value === 'review';
+
     setSaving(true);
 
-    const features = formData.features.filter((f) => f.trim() !== '');
-
-    const data = {
-      title: formData.title,
-      description: formData.description,
-      category_id: formData.category_id || null,
-      price_monthly: formData.price_monthly,
-      price_yearly: formData.price_yearly,
-      is_active: formData.is_active,
-      features,
-      product_link: formData.product_link.trim() || null,
-      product_image: formData.product_image.trim() || null,
-      product_video: formData.product_video.trim() || null,
-    };
-
-    if (offer) {
-      await supabase.from('service_offers').update(data).eq('id', offer.id);
-    } else {
-      await supabase.from('service_offers').insert(data);
+    try {
+      const saved = await saveOfferDraft(draft?.id ?? null, offer?.id ?? null, formData, moveSubscribers);
+      if (forReview) {
+        await submitOfferDraft(saved.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save draft');
+      setSaving(false);
+      return;
     }
 
     setSaving(false);
     onSave();
   };
 
+  // An offer is either required by this one or suggested as an add-on, not both
+  const toggleRelation = (offerId: string, kind: OfferRelationKind) => {
+    const key = kind === 'prerequisite' ? 'prerequisites' : 'addons';
+    const other = kind === 'prerequisite' ? 'addons' : 'prerequisites';
+    setFormData({
+      ...formData,
+      [key]: formData[key].includes(offerId) ? formData[key].filter((id) => id !== offerId) : [...formData[key], offerId],
+      [other]: formData[other].filter((id) => id !== offerId),
+    });
+  };
+
+  const relatableOffers = offers.filter((o) => o.id !== offer?.id);
+
+  const usedCurrencies = [formData.currency, ...formData.prices.map((price) => price.currency)];
+  const availableCurrencies = CURRENCIES.filter((currency) => !usedCurrencies.includes(currency.code));
+
+  const addPrice = () => {
+    if (availableCurrencies.length === 0) return;
+    setFormData({
+      ...formData,
+      prices: [...formData.prices, { currency: availableCurrencies[0].code, price_monthly: 0, price_yearly: 0 }],
+    });
+  };
+
+  const removePrice = (index: number) => {
+    setFormData({ ...formData, prices: formData.prices.filter((_, i) => i !== index) });
+  };
+
+  const updatePrice = (index: number, changes: Partial<PricePoint>) => {
+    const newPrices = [...formData.prices];
+    newPrices[index] = { ...newPrices[index], ...changes };
+    setFormData({ ...formData, prices: newPrices });
+  };
+
+  const addMeter = () => {
+    setFormData({
+      ...formData,
+      meters: [...formData.meters, { name: '', unit: '', included_units: 0, unit_price: 0, prices: {} }],
+    });
+  };
+
+  const removeMeter = (index: number) => {
+    setFormData({ ...formData, meters: formData.meters.filter((_, i) => i !== index) });
+  };
+
+  const updateMeter = (index: number, changes: Partial<OfferFormMeter>) => {
+    const newMeters = [...formData.meters];
+    newMeters[index] = { ...newMeters[index], ...changes };
+    setFormData({ ...formData, meters: newMeters });
+  };
+
+  const getTierPrice = (tier: OfferFormTier, currency: string): Omit<PricePoint, 'currency'> => {
+    return getTierFormPrice(formData, tier, currency);
+  };
+
+  const addTier = () => {
+    setFormData({
+      ...formData,
+      tiers: [
+        ...formData.tiers,
+        { name: '', description: '', features: '', limits: '', price_monthly: 0, price_yearly: 0, prices: {} },
+      ],
+    });
+  };
+
+  const removeTier = (index: number) => {
+    setFormData({ ...formData, tiers: formData.tiers.filter((_, i) => i !== index) });
+  };
+
+  const updateTier = (index: number, changes: Partial<OfferFormTier>) => {
+    const newTiers = [...formData.tiers];
+    newTiers[index] = { ...newTiers[index], ...changes };
+    setFormData({ ...formData, tiers: newTiers });
+  };
+
+  const updateTierPrice = (index: number, currency: string, changes: Partial<Omit<PricePoint, 'currency'>>) => {
+    const tier = formData.tiers[index];
+    const price = { ...getTierPrice(tier, currency), ...changes };
+    updateTier(
+      index,
+      currency === formData.currency ? price : { prices: { ...tier.prices, [currency]: price } }
+    );
+  };
+
   const addFeature = () => {
     setFormData({ ...formData, features: [...formData.features, ''] });
   };
 
+  const addFeatureGroup = () => {
+    setFormData({ ...formData, features: [...formData.features, formatFeatureGroup('')] });
+  };
+
   const removeFeature = (index: number) => {
     const newFeatures = formData.features.filter((_, i) => i !== index);
     setFormData({ ...formData, features: newFeatures.length > 0 ? newFeatures : [''] });
@@ -92,11 +194,20 @@ export function OfferModal({ offer, categories, onClose, onSave }: OfferModalPro
     setFormData({ ...formData, features: newFeatures });
   };
 
+  const updateFeatureParts = (index: number, changes: Partial<OfferFeature>) => {
+    updateFeature(index, formatFeature({ ...parseFeature(formData.features[index]), ...changes }));
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
-          <h2 className="text-2xl font-bold text-slate-900">{offer ? 'Edit Offer' : 'Create New Offer'}</h2>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">{offer ? 'Edit Offer' : 'Create New Offer'}</h2>
+            {draft?.review_note && (
+              <p className="text-sm text-amber-700 mt-1">Sent back: {draft.review_note}</p>
+            )}
+          </div>
           <button
             onClick={onClose}
             className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
@@ -117,6 +228,25 @@ export function OfferModal({ offer, categories, onClose, onSave }: OfferModalPro
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Page Address</label>
+            <div className="flex items-center">
+              <span className="px-3 py-2 bg-slate-50 border border-r-0 border-slate-300 rounded-l-lg text-sm text-slate-500">
+                /offers/
+              </span>
+              <input
+                type="text"
+                value={formData.slug ?? ''}
+                onChange={(e) => setFormData({ ...formData, slug: e.target.value.toLowerCase().replace(/[^a-z0-9-]+/g, '-') })}
+                className="flex-1 px-4 py-2 border border-slate-300 rounded-r-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={slugify(formData.title) || 'generated-from-the-title'}
+              />
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              The offer's public page. Changing it breaks links that have already been shared.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-2">Category</label>
             <select
@@ -125,71 +255,430 @@ export function OfferModal({ offer, categories, onClose, onSave }: OfferModalPro
               className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
               <option value="">No Category</option>
-              {categories.map((cat) => (
+              {flattenCategoryTree(buildCategoryTree(categories)).map(({ category: cat, depth }) => (
                 <option key={cat.id} value={cat.id}>
-                  {cat.name}
+                  {`${'— '.repeat(depth)}${cat.name}`}
                 </option>
               ))}
             </select>
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-slate-700 mb-2">Description</label>
-            <textarea
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              rows={3}
-            />
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Description</label>
+              <button
+                type="button"
+                onClick={() => setPreviewDescription(!previewDescription)}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                {previewDescription ? 'Edit' : 'Preview'}
+              </button>
+            </div>
+            {previewDescription ? (
+              <Markdown
+                source={formData.description}
+                className="min-h-[9rem] px-4 py-2 border border-slate-200 rounded-lg bg-slate-50 text-sm text-slate-600"
+              />
+            ) : (
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                rows={6}
+              />
+            )}
+            <p className="text-xs text-slate-500 mt-1">
+              Supports # headings, - lists, **bold**, _italic_ and [links](https://example.com). HTML is removed.
+            </p>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Currency</label>
+              <select
+                value={formData.currency}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    currency: e.target.value,
+                    prices: formData.prices.filter((price) => price.currency !== e.target.value),
+                  })
+                }
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">Monthly Price ($)</label>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Monthly Price</label>
               <input
                 type="number"
                 step="0.01"
-                value={formData.price_monthly}
+                value={firstTier ? firstTier.price_monthly : formData.price_monthly}
                 onChange={(e) => setFormData({ ...formData, price_monthly: parseFloat(e.target.value) || 0 })}
-                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={!!firstTier}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-500"
                 required
               />
             </div>
 
             <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">Yearly Price ($)</label>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Yearly Price</label>
               <input
                 type="number"
                 step="0.01"
-                value={formData.price_yearly}
+                value={firstTier ? firstTier.price_yearly : formData.price_yearly}
                 onChange={(e) => setFormData({ ...formData, price_yearly: parseFloat(e.target.value) || 0 })}
+                disabled={!!firstTier}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Other Currencies</label>
+              {availableCurrencies.length > 0 && (
+                <button
+                  type="button"
+                  onClick={addPrice}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Currency
+                </button>
+              )}
+            </div>
+            {formData.prices.length === 0 ? (
+              <p className="text-sm text-slate-500">Only offered in {formData.currency}.</p>
+            ) : (
+              <div className="space-y-2">
+                {formData.prices.map((price, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-4 items-center">
+                    <select
+                      value={price.currency}
+                      onChange={(e) => updatePrice(index, { currency: e.target.value })}
+                      className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {CURRENCIES.filter(
+                        (currency) => currency.code === price.currency || !usedCurrencies.includes(currency.code)
+                      ).map((currency) => (
+                        <option key={currency.code} value={currency.code}>
+                          {currency.code}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={firstTier ? getTierPrice(firstTier, price.currency).price_monthly : price.price_monthly}
+                      onChange={(e) => updatePrice(index, { price_monthly: parseFloat(e.target.value) || 0 })}
+                      disabled={!!firstTier}
+                      className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-500"
+                      aria-label={`Monthly price in ${price.currency}`}
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={firstTier ? getTierPrice(firstTier, price.currency).price_yearly : price.price_yearly}
+                        onChange={(e) => updatePrice(index, { price_yearly: parseFloat(e.target.value) || 0 })}
+                        disabled={!!firstTier}
+                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-500"
+                        aria-label={`Yearly price in ${price.currency}`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removePrice(index)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Tiers</label>
+              <button
+                type="button"
+                onClick={addTier}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                Add Tier
+              </button>
+            </div>
+            {formData.tiers.length === 0 ? (
+              <p className="text-sm text-slate-500">Sold as a single plan at the price above.</p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-xs text-slate-500">
+                  Customers choose a tier when subscribing. The offer&apos;s own price is its first tier&apos;s.
+                </p>
+                {formData.tiers.map((tier, index) => (
+                  <div key={tier.id ?? index} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={tier.name}
+                        onChange={(e) => updateTier(index, { name: e.target.value })}
+                        className="w-40 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Pro"
+                        aria-label="Tier name"
+                        required
+                      />
+                      <input
+                        type="text"
+                        value={tier.description}
+                        onChange={(e) => updateTier(index, { description: e.target.value })}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="For growing teams"
+                        aria-label="Tier description"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeTier(index)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      {usedCurrencies.map((currency) => (
+                        <div key={currency} className="grid grid-cols-3 gap-3 items-center">
+                          <span className="text-sm text-slate-600">{currency}</span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={getTierPrice(tier, currency).price_monthly}
+                            onChange={(e) => updateTierPrice(index, currency, { price_monthly: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            aria-label={`${tier.name || 'Tier'} monthly price in ${currency}`}
+                            placeholder="Monthly"
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={getTierPrice(tier, currency).price_yearly}
+                            onChange={(e) => updateTierPrice(index, currency, { price_yearly: parseFloat(e.target.value) || 0 })}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            aria-label={`${tier.name || 'Tier'} yearly price in ${currency}`}
+                            placeholder="Yearly"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Features, one per line</label>
+                        <textarea
+                          value={tier.features}
+                          onChange={(e) => updateTier(index, { features: e.target.value })}
+                          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                          rows={4}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Limits, one per line</label>
+                        <textarea
+                          value={tier.limits}
+                          onChange={(e) => updateTier(index, { limits: e.target.value })}
+                          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                          rows={4}
+                          placeholder={'Seats: 5\nProjects: Unlimited'}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Free Trial (days)</label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={formData.trial_days}
+                onChange={(e) => setFormData({ ...formData, trial_days: parseInt(e.target.value, 10) || 0 })}
                 className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">When the Trial Ends</label>
+              <select
+                value={formData.trial_end_behavior}
+                onChange={(e) =>
+                  setFormData({ ...formData, trial_end_behavior: e.target.value as OfferForm['trial_end_behavior'] })
+                }
+                disabled={formData.trial_days === 0}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-slate-50 disabled:text-slate-500"
+              >
+                <option value="convert">Start paid subscription</option>
+                <option value="expire">End access</option>
+              </select>
+            </div>
           </div>
 
           <div>
             <div className="flex items-center justify-between mb-2">
-              <label className="block text-sm font-medium text-slate-700">Features</label>
+              <label className="block text-sm font-medium text-slate-700">Metered Usage</label>
               <button
                 type="button"
-                onClick={addFeature}
+                onClick={addMeter}
                 className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
               >
                 <Plus className="w-4 h-4" />
-                Add Feature
+                Add Meter
               </button>
             </div>
+            {formData.meters.length === 0 ? (
+              <p className="text-sm text-slate-500">No usage charges. Customers pay the flat price only.</p>
+            ) : (
+              <div className="space-y-3">
+                {formData.meters.map((meter, index) => (
+                  <div key={meter.id ?? index} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={meter.name}
+                        onChange={(e) => updateMeter(index, { name: e.target.value })}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Qualified leads"
+                        aria-label="Meter name"
+                        required
+                      />
+                      <input
+                        type="text"
+                        value={meter.unit}
+                        onChange={(e) => updateMeter(index, { unit: e.target.value })}
+                        className="w-32 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="lead"
+                        aria-label="Unit"
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeMeter(index)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Included / month</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={meter.included_units}
+                          onChange={(e) => updateMeter(index, { included_units: parseFloat(e.target.value) || 0 })}
+                          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                      {[formData.currency, ...formData.prices.map((price) => price.currency)].map((currency) => (
+                        <div key={currency}>
+                          <label className="block text-xs font-medium text-slate-600 mb-1">
+                            {currency} per {meter.unit || 'unit'}
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={currency === formData.currency ? meter.unit_price : meter.prices[currency] ?? 0}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value) || 0;
+                              updateMeter(
+                                index,
+                                currency === formData.currency
+                                  ? { unit_price: value }
+                                  : { prices: { ...meter.prices, [currency]: value } }
+                              );
+                            }}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Features</label>
+              <div className="flex items-center gap-4">
+                <button
+                  type="button"
+                  onClick={addFeatureGroup}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <FolderPlus className="w-4 h-4" />
+                  Add Group
+                </button>
+                <button
+                  type="button"
+                  onClick={addFeature}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Feature
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 mb-2">
+              Groups head the features below them. Features support **bold**, _italic_ and [links](https://example.com).
+            </p>
             <div className="space-y-2">
               {formData.features.map((feature, index) => (
                 <div key={index} className="flex gap-2">
-                  <input
-                    type="text"
-                    value={feature}
-                    onChange={(e) => updateFeature(index, e.target.value)}
-                    className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter a feature"
-                  />
+                  {isFeatureGroup(feature) ? (
+                    <input
+                      type="text"
+                      value={getFeatureGroupName(feature)}
+                      onChange={(e) => updateFeature(index, formatFeatureGroup(e.target.value))}
+                      className="flex-1 px-4 py-2 border border-slate-300 rounded-lg bg-slate-50 font-semibold focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Group name, e.g. Support"
+                    />
+                  ) : (
+                    <>
+                      <input
+                        type="text"
+                        value={parseFeature(feature).text}
+                        onChange={(e) => updateFeatureParts(index, { text: e.target.value })}
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Enter a feature"
+                      />
+                      <input
+                        type="text"
+                        value={parseFeature(feature).tooltip}
+                        onChange={(e) => updateFeatureParts(index, { tooltip: e.target.value })}
+                        className="w-48 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Tooltip (optional)"
+                      />
+                    </>
+                  )}
                   {formData.features.length > 1 && (
                     <button
                       type="button"
@@ -303,6 +792,70 @@ export function OfferModal({ offer, categories, onClose, onSave }: OfferModalPro
             </div>
           </div>
 
+          {relatableOffers.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Related Services</label>
+              <p className="text-xs text-slate-500 mb-3">
+                Customers must already subscribe to required services. Add-ons are suggested alongside this one.
+              </p>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-200 max-h-64 overflow-y-auto">
+                {relatableOffers.map((related) => (
+                  <div key={related.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <span className="text-slate-700">{related.title}</span>
+                    <div className="flex items-center gap-4">
+                      <label className="flex items-center gap-2 text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={formData.prerequisites.includes(related.id)}
+                          onChange={() => toggleRelation(related.id, 'prerequisite')}
+                          className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                        />
+                        Required
+                      </label>
+                      <label className="flex items-center gap-2 text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={formData.addons.includes(related.id)}
+                          onChange={() => toggleRelation(related.id, 'addon')}
+                          className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                        />
+                        Add-on
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Publishing Window</label>
+            <p className="text-xs text-slate-500 mb-3">
+              Leave blank to publish straight away and keep the offer up until it is deactivated.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Publish at</label>
+                <input
+                  type="datetime-local"
+                  value={toDateTimeInput(formData.publish_at)}
+                  onChange={(e) => setFormData({ ...formData, publish_at: fromDateTimeInput(e.target.value) })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Unpublish at</label>
+                <input
+                  type="datetime-local"
+                  value={toDateTimeInput(formData.unpublish_at)}
+                  min={toDateTimeInput(formData.publish_at) || undefined}
+                  onChange={(e) => setFormData({ ...formData, unpublish_at: fromDateTimeInput(e.target.value) })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </div>
+
           <div className="flex items-center gap-3">
             <input
               type="checkbox"
@@ -316,24 +869,91 @@ export function OfferModal({ offer, categories, onClose, onSave }: OfferModalPro
             </label>
           </div>
 
-          <div className="flex gap-3 pt-4">
+          {offer && (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+              <h3 className="text-sm font-medium text-slate-700 mb-1">Existing Subscribers</h3>
+              <p className="text-xs text-slate-500 mb-3">
+                Once published, changes to the title, description, features or prices are saved as a new version of this offer.
+              </p>
+              <div className="space-y-2">
+                <label className="flex items-start gap-3 text-sm text-slate-700">
+                  <input
+                    type="radio"
+                    name="subscriber_pricing"
+                    checked={!moveSubscribers}
+                    onChange={() => setMoveSubscribers(false)}
+                    className="mt-0.5 w-4 h-4 text-blue-600 border-slate-300 focus:ring-blue-500"
+                  />
+                  <span>Keep their current version and price; only new subscribers get this one</span>
+                </label>
+                <label className="flex items-start gap-3 text-sm text-slate-700">
+                  <input
+                    type="radio"
+                    name="subscriber_pricing"
+                    checked={moveSubscribers}
+                    onChange={() => setMoveSubscribers(true)}
+                    className="mt-0.5 w-4 h-4 text-blue-600 border-slate-300 focus:ring-blue-500"
+                  />
+                  <span>Move them to the latest version, billed at its price from their next invoice</span>
+                </label>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500">
+            Changes are saved as a draft. A second administrator approves them before they are published.
+          </p>
+
+          <div className="flex gap-3">
             <button
               type="button"
               onClick={onClose}
-              className="flex-1 px-6 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+              className="px-6 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
             >
               Cancel
             </button>
+            <button
+              type="button"
+              onClick={() => setShowPreview(true)}
+              className="flex items-center justify-center gap-2 px-6 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              <Eye className="w-4 h-4" />
+              Preview
+            </button>
             <button
               type="submit"
+              value="draft"
+              disabled={saving}
+              className="flex-1 px-6 py-3 border border-blue-600 text-blue-700 font-medium rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Draft'}
+            </button>
+            <button
+              type="submit"
+              value="review"
               disabled={saving}
               className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
             >
-              {saving ? 'Saving...' : offer ? 'Update Offer' : 'Create Offer'}
+              {saving ? 'Saving...' : 'Submit for Review'}
             </button>
           </div>
         </form>
       </div>
+
+      {showPreview && (
+        <OfferPreviewModal
+          form={formData}
+          offerId={offer?.id ?? null}
+          categories={categories}
+          onClose={() => setShowPreview(false)}
+        />
+      )}
     </div>
   );
 }
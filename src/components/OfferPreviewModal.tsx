@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { X, Eye } from 'lucide-react';
+import type { Database, OfferForm } from '../lib/database.types';
+import { formatMoney, getCustomerPricePoint } from '../lib/currency';
+import { getCategoryPath } from '../lib/categories';
+import { toPreviewOffer } from '../lib/offer-drafts';
+import { OfferCard } from './OfferCard';
+import { TierComparison } from './TierComparison';
+import { VideoModal } from './VideoModal';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+interface OfferPreviewModalProps {
+  form: OfferForm;
+  /** The published offer the form changes, if any */
+  offerId: string | null;
+  categories: Category[];
+  onClose: () => void;
+}
+
+/** Shows an offer form as the catalog card customers will see once it is published */
+export function OfferPreviewModal({ form, offerId, categories, onClose }: OfferPreviewModalProps) {
+  const [currency, setCurrency] = useState(form.currency);
+  const [playingVideo, setPlayingVideo] = useState<{ url: string; title: string } | null>(null);
+
+  const offer = toPreviewOffer(form, offerId);
+  const category = categories.find((c) => c.id === form.category_id) ?? null;
+  const prices = getCustomerPricePoint(offer, currency);
+  const currencies = [form.currency, ...offer.offer_prices.map((price) => price.currency)];
+
+  const getMeterPrice = (meter: OfferForm['meters'][number]) =>
+    currency === form.currency ? meter.unit_price : meter.prices[currency] ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-50 rounded-2xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 z-10 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Eye className="w-5 h-5 text-slate-500" />
+            <h2 className="text-2xl font-bold text-slate-900">Customer Preview</h2>
+          </div>
+          <div className="flex items-center gap-3">
+            {currencies.length > 1 && (
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="text-sm border border-slate-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {currencies.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <p className="text-sm text-slate-500 mb-4">
+            This is how the offer appears in the catalog. Subscribing is disabled in the preview.
+          </p>
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            <OfferCard
+              offer={offer}
+              category={category && { ...category, name: getCategoryPath(categories, category.id) }}
+              wide={offer.offer_tiers.length > 0}
+              onPlayVideo={setPlayingVideo}
+            >
+              {offer.offer_tiers.length > 0 ? (
+                <TierComparison
+                  currency={offer.currency}
+                  tiers={offer.offer_tiers}
+                  customerCurrency={currency}
+                  coupon={null}
+                  trialDays={offer.trial_days}
+                  subscribing={false}
+                  onSubscribe={() => {}}
+                />
+              ) : (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-slate-600">Monthly</span>
+                    <span className="text-lg font-bold text-slate-900">{formatMoney(prices.price_monthly, prices.currency)}</span>
+                  </div>
+                  <button
+                    disabled
+                    className="w-full bg-blue-600 text-white font-medium py-2 px-4 rounded-lg cursor-not-allowed"
+                  >
+                    {offer.trial_days > 0 ? 'Start Free Trial, Monthly' : 'Subscribe Monthly'}
+                  </button>
+
+                  {prices.price_yearly > 0 && (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-slate-600">Yearly</span>
+                        <span className="text-lg font-bold text-slate-900">{formatMoney(prices.price_yearly, prices.currency)}</span>
+                      </div>
+                      <button
+                        disabled
+                        className="w-full bg-slate-600 text-white font-medium py-2 px-4 rounded-lg cursor-not-allowed"
+                      >
+                        {offer.trial_days > 0 ? 'Start Free Trial, Yearly' : 'Subscribe Yearly'}
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+              {form.meters.length > 0 && (
+                <div className="text-xs text-slate-600 space-y-1">
+                  {form.meters.map((meter, index) => (
+                    <p key={meter.id ?? index}>
+                      Plus {meter.name.toLowerCase()} at {formatMoney(getMeterPrice(meter), prices.currency)} / {meter.unit}
+                      {meter.included_units > 0 && `, ${meter.included_units} included each month`}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </OfferCard>
+          </div>
+        </div>
+      </div>
+
+      {playingVideo && (
+        <VideoModal
+          url={playingVideo.url}
+          title={playingVideo.title}
+          onClose={() => setPlayingVideo(null)}
+        />
+      )}
+    </div>
+  );
+}
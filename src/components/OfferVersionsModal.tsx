@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { formatMoney } from '../lib/currency';
+import {
+  diffOfferVersions,
+  loadOfferVersions,
+  moveSubscribersToVersion,
+  type PricedOfferVersion,
+} from '../lib/offer-versions';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+
+interface OfferVersionsModalProps {
+  offer: ServiceOffer;
+  onClose: () => void;
+  canManage?: boolean;
+}
+
+export function OfferVersionsModal({ offer, onClose, canManage = false }: OfferVersionsModalProps) {
+  const [versions, setVersions] = useState<PricedOfferVersion[]>([]);
+  const [subscriberCounts, setSubscriberCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [moving, setMoving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchVersions = async (offerId: string) => {
+    try {
+      const [loaded, { data: subscriptions, error: subscriptionsError }] = await Promise.all([
+        loadOfferVersions(offerId),
+        supabase
+          .from('user_subscriptions')
+          .select('offer_version_id')
+          .eq('offer_id', offerId)
+          .not('status', 'in', '(cancelled,expired)'),
+      ]);
+      if (subscriptionsError) throw new Error(subscriptionsError.message);
+
+      const counts: Record<string, number> = {};
+      for (const sub of subscriptions || []) {
+        if (sub.offer_version_id) {
+          counts[sub.offer_version_id] = (counts[sub.offer_version_id] ?? 0) + 1;
+        }
+      }
+      setVersions(loaded);
+      setSubscriberCounts(counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchVersions(offer.id);
+  }, [offer.id]);
+
+  const handleMoveSubscribers = async (version: PricedOfferVersion) => {
+    if (!confirm(`Move every live subscriber of ${offer.title} to version ${version.version}? They will be billed at its price from their next invoice.`)) {
+      return;
+    }
+
+    setMoving(version.id);
+    setError('');
+    try {
+      const moved = await moveSubscribersToVersion(version.id);
+      alert(`${moved} subscription${moved === 1 ? '' : 's'} moved to version ${version.version}.`);
+      await fetchVersions(offer.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move subscribers');
+    }
+    setMoving(null);
+  };
+
+  const liveSubscribers = Object.values(subscriberCounts).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Version History</h2>
+            <p className="text-sm text-slate-500">{offer.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading versions...
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-slate-600">This offer has no versions yet.</p>
+          ) : (
+            versions.map((version, index) => {
+              // Versions are newest first, so the one before is next in the list
+              const previous = versions[index + 1];
+              const changes = previous ? diffOfferVersions(previous, version) : [];
+              const subscribers = subscriberCounts[version.id] ?? 0;
+              const isCurrent = version.id === offer.current_version_id;
+
+              return (
+                <div key={version.id} className="border border-slate-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between gap-4 mb-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-slate-900">Version {version.version}</h3>
+                        {isCurrent && (
+                          <span className="px-2 py-0.5 bg-green-100 text-green-800 text-xs font-medium rounded-full">
+                            Current
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        {version.created_at && new Date(version.created_at).toLocaleString()} &middot;{' '}
+                        {formatMoney(version.price_monthly, version.currency)} / month &middot;{' '}
+                        {subscribers} live subscriber{subscribers === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    {canManage && isCurrent && liveSubscribers > subscribers && (
+                      <button
+                        onClick={() => handleMoveSubscribers(version)}
+                        disabled={moving !== null}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap disabled:opacity-50"
+                      >
+                        {moving === version.id ? 'Moving...' : 'Move all subscribers here'}
+                      </button>
+                    )}
+                  </div>
+
+                  {!previous ? (
+                    <p className="text-sm text-slate-500">First version</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-sm text-slate-500">No changes from version {previous.version}</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-slate-500">
+                          <th className="py-1 pr-4 font-medium">Changed from version {previous.version}</th>
+                          <th className="py-1 pr-4 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {changes.map((change, changeIndex) => (
+                          <tr key={changeIndex} className="align-top">
+                            <td className="py-1 pr-4 text-slate-700">{change.label}</td>
+                            <td className="py-1 pr-4 text-red-700 line-through">{change.before}</td>
+                            <td className="py-1 text-green-700">{change.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
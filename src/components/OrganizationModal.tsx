@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Mail, Trash2, LogOut } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ORGANIZATION_ROLES,
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+  cancelInvitation,
+  canManageMembers,
+  changeMemberRole,
+  inviteMember,
+  loadOrganizationInvitations,
+  loadOrganizationMembers,
+  removeMember,
+  renameOrganization,
+  type OrganizationInvitation,
+  type OrganizationMember,
+  type OrganizationRole,
+} from '../lib/organizations';
+
+interface OrganizationModalProps {
+  onClose: () => void;
+}
+
+export function OrganizationModal({ onClose }: OrganizationModalProps) {
+  const { profile, membership, refreshProfile } = useAuth();
+  const organization = membership?.organizations ?? null;
+  const isOwner = canManageMembers(membership?.role);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [name, setName] = useState(organization?.name ?? '');
+  const [invite, setInvite] = useState<{ email: string; role: OrganizationRole }>({ email: '', role: 'member' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const organizationId = organization?.id;
+
+  const loadTeam = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      const [teamMembers, pendingInvitations] = await Promise.all([
+        loadOrganizationMembers(organizationId),
+        isOwner ? loadOrganizationInvitations(organizationId) : Promise.resolve([]),
+      ]);
+      setMembers(teamMembers);
+      setInvitations(pendingInvitations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your team');
+    }
+    setLoading(false);
+  }, [organizationId, isOwner]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError('');
+    try {
+      await action();
+      await loadTeam();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+    setSaving(false);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !name.trim()) return;
+    run(async () => {
+      await renameOrganization(organizationId, name);
+      await refreshProfile();
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !invite.email.trim()) return;
+    run(async () => {
+      await inviteMember(organizationId, invite.email, invite.role);
+      setInvite({ email: '', role: invite.role });
+    });
+  };
+
+  const handleRoleChange = (member: OrganizationMember, role: OrganizationRole) => {
+    if (!organizationId) return;
+    run(async () => {
+      await changeMemberRole(organizationId, member.user_id, role);
+      // Owners who hand over ownership lose the owner's controls
+      if (member.user_id === profile?.id) {
+        await refreshProfile();
+      }
+    });
+  };
+
+  const handleRemove = (member: OrganizationMember) => {
+    if (!organizationId) return;
+    const leaving = member.user_id === profile?.id;
+    const confirmation = leaving
+      ? `Leave ${organization?.name}? You will no longer see its services.`
+      : `Remove ${member.profiles?.full_name || member.profiles?.email} from ${organization?.name}?`;
+    if (!confirm(confirmation)) return;
+
+    run(async () => {
+      await removeMember(organizationId, member.user_id);
+      if (leaving) {
+        await refreshProfile();
+        onClose();
+      }
+    });
+  };
+
+  if (!organization) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">{organization.name}</h2>
+            <p className="text-sm text-slate-500">
+              Your role: {membership ? ORGANIZATION_ROLE_LABELS[membership.role] : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {isOwner && (
+            <form onSubmit={handleRename}>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Organization Name</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !name.trim() || name.trim() === organization.name}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Rename
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-slate-900 mb-3">Members</h3>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                {members.map((member) => (
+                  <li key={member.user_id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-900 truncate">
+                        {member.profiles?.full_name || member.profiles?.email}
+                        {member.user_id === profile?.id && <span className="text-slate-500 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-slate-500 truncate">{member.profiles?.email}</p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as OrganizationRole)}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {ORGANIZATION_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {ORGANIZATION_ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-slate-600">{ORGANIZATION_ROLE_LABELS[member.role]}</span>
+                      )}
+                      {member.user_id === profile?.id ? (
+                        members.length > 1 && (
+                          <button
+                            onClick={() => handleRemove(member)}
+                            disabled={saving}
+                            title="Leave organization"
+                            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <LogOut className="w-4 h-4" />
+                          </button>
+                        )
+                      ) : (
+                        isOwner && (
+                          <button
+                            onClick={() => handleRemove(member)}
+                            disabled={saving}
+                            title="Remove member"
+                            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {isOwner && (
+            <div>
+              <h3 className="text-sm font-semibold text-slate-900 mb-3">Invite a Colleague</h3>
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                  className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="colleague@company.com"
+                  required
+                />
+                <select
+                  value={invite.role}
+                  onChange={(e) => setInvite({ ...invite, role: e.target.value as OrganizationRole })}
+                  className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {ORGANIZATION_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {ORGANIZATION_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Mail className="w-4 h-4" />
+                  Invite
+                </button>
+              </form>
+              <p className="text-xs text-slate-500 mt-2">
+                {ORGANIZATION_ROLE_LABELS[invite.role]}: {ORGANIZATION_ROLE_DESCRIPTIONS[invite.role]}. They join after
+                signing in with this email address and accepting the invitation on their dashboard.
+              </p>
+
+              {invitations.length > 0 && (
+                <ul className="mt-4 divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                  {invitations.map((invitation) => (
+                    <li key={invitation.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="text-sm text-slate-900 truncate">{invitation.email}</p>
+                        <p className="text-xs text-slate-500">
+                          Invited as {ORGANIZATION_ROLE_LABELS[invitation.role].toLowerCase()} on{' '}
+                          {new Date(invitation.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => run(() => cancelInvitation(invitation.id))}
+                        disabled={saving}
+                        className="text-sm text-slate-600 hover:text-red-600 font-medium disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
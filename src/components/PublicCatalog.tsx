@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+import { buildCatalogIndex, parseCatalogFilters, searchCatalog, toCatalogSearch } from '../lib/catalog';
+import { buildCategoryTree, flattenCategoryTree, getCategoryAncestorIds, getCategoryPath, loadCategories } from '../lib/categories';
+import { formatMoney, getCustomerPricePoint } from '../lib/currency';
+import { loadPublicOffers, type PublicOffer } from '../lib/public-catalog';
+import { CatalogToolbar } from './CatalogToolbar';
+import { Link } from './Link';
+import { OfferCard } from './OfferCard';
+import { PublicHeader } from './PublicHeader';
+import { VideoModal } from './VideoModal';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+/** The catalog as visitors who have not signed in see it */
+export function PublicCatalog() {
+  const [offers, setOffers] = useState<PublicOffer[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filters, setFilters] = useState(() => parseCatalogFilters(window.location.search));
+  const [playingVideo, setPlayingVideo] = useState<{ url: string; title: string } | null>(null);
+
+  useEffect(() => {
+    Promise.all([loadPublicOffers(), loadCategories().catch(() => [])])
+      .then(([publicOffers, allCategories]) => {
+        setOffers(publicOffers);
+        setCategories(allCategories);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load the catalog'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const url = `${window.location.pathname}${toCatalogSearch(filters)}${window.location.hash}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, [filters]);
+
+  const catalogIndex = useMemo(
+    () =>
+      buildCatalogIndex(
+        offers,
+        (offer) => getCustomerPricePoint(offer, null).price_monthly,
+        (offer) => (offer.category_id ? getCategoryAncestorIds(categories, offer.category_id) : [''])
+      ),
+    [offers, categories]
+  );
+  const catalog = useMemo(() => searchCatalog(catalogIndex, filters), [catalogIndex, filters]);
+  const catalogCategories = useMemo(() => {
+    const used = new Set(catalogIndex.flatMap((entry) => entry.categoryIds));
+    return flattenCategoryTree(buildCategoryTree(categories))
+      .filter(({ category }) => used.has(category.id))
+      .map(({ category }) => ({ id: category.id, name: getCategoryPath(categories, category.id) }));
+  }, [catalogIndex, categories]);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <PublicHeader />
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-slate-900 mb-2">Our Services</h2>
+          <p className="text-slate-600">Browse what we offer, then create an account to subscribe.</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">{error}</div>
+        ) : offers.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+            <p className="text-slate-600">No services available at this time.</p>
+          </div>
+        ) : (
+          <>
+            <CatalogToolbar
+              filters={filters}
+              categories={catalogCategories}
+              categoryCounts={catalog.categoryCounts}
+              resultCount={catalog.entries.length}
+              totalCount={offers.length}
+              currency={offers[0].currency}
+              onChange={setFilters}
+            />
+            {catalog.entries.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+                <p className="text-slate-600">No services match these filters.</p>
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {catalog.entries.map(({ offer }) => {
+                  const prices = getCustomerPricePoint(offer, null);
+                  return (
+                    <OfferCard
+                      key={offer.id}
+                      offer={offer}
+                      category={
+                        offer.service_categories && {
+                          ...offer.service_categories,
+                          name: getCategoryPath(categories, offer.service_categories.id),
+                        }
+                      }
+                      onPlayVideo={setPlayingVideo}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-slate-600">{offer.offer_tiers.length > 0 ? 'From' : 'Monthly'}</span>
+                        <span className="text-lg font-bold text-slate-900">
+                          {formatMoney(prices.price_monthly, prices.currency)}
+                          <span className="text-sm font-normal text-slate-500"> / month</span>
+                        </span>
+                      </div>
+                      <Link
+                        to={{ name: 'offer', slug: offer.slug }}
+                        className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                      >
+                        View Details
+                        <ArrowRight className="w-4 h-4" />
+                      </Link>
+                    </OfferCard>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {playingVideo && (
+        <VideoModal url={playingVideo.url} title={playingVideo.title} onClose={() => setPlayingVideo(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Building2, LogIn, LayoutDashboard } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getHomeRoute, navigateToRoute } from '../lib/routes';
+import { Link } from './Link';
+
+/** Header of the public catalog, which admins can also open */
+export function PublicHeader() {
+  const { profile } = useAuth();
+
+  return (
+    <header className="bg-white border-b border-slate-200 sticky top-0 z-40">
+      <div className="max-w-7xl mx-auto px-4">
+        <div className="flex items-center justify-between h-16">
+          <Link to={{ name: 'catalog' }} className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-10 h-10 bg-blue-600 rounded-lg">
+              <Building2 className="w-6 h-6 text-white" />
+            </div>
+            <h1 className="text-lg font-bold text-slate-900">Business Services Portal</h1>
+          </Link>
+
+          {profile ? (
+            <button
+              onClick={() => navigateToRoute(getHomeRoute(profile))}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              <LayoutDashboard className="w-4 h-4" />
+              Back to Dashboard
+            </button>
+          ) : (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => navigateToRoute({ name: 'signIn' })}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <LogIn className="w-4 h-4" />
+                Sign In
+              </button>
+              <button
+                onClick={() => navigateToRoute({ name: 'signUp' })}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              >
+                Create Account
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </header>
+  );
+}
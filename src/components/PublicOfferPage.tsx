@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, ExternalLink, Gift } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { Database } from '../lib/database.types';
+import { getCategoryPath, loadCategories } from '../lib/categories';
+import { formatMoney, getCustomerPricePoint } from '../lib/currency';
+import { getMeterUnitPrice } from '../lib/usage';
+import { toPlainText } from '../lib/markdown';
+import { getOfferPath, loadPublicOffer, type PublicOffer } from '../lib/public-catalog';
+import { getHomeRoute, navigateToRoute, setReturnTo } from '../lib/routes';
+import { CategoryBadge } from './CategoryBadge';
+import { FeatureList } from './FeatureList';
+import { Link } from './Link';
+import { Markdown } from './Markdown';
+import { PublicHeader } from './PublicHeader';
+import { TierComparison } from './TierComparison';
+import { VideoPlayer } from './VideoPlayer';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+const SITE_NAME = 'Business Services Portal';
+
+// Search engines and link previews read the description meta tag
+const setMetaDescription = (content: string) => {
+  let meta = document.querySelector<HTMLMetaElement>('meta[name="description"]');
+  if (!meta) {
+    meta = document.createElement('meta');
+    meta.name = 'description';
+    document.head.appendChild(meta);
+  }
+  meta.content = content;
+};
+
+interface PublicOfferPageProps {
+  slug: string;
+}
+
+/** An offer's landing page, which can be shared with people who have no account */
+export function PublicOfferPage({ slug }: PublicOfferPageProps) {
+  const { profile } = useAuth();
+  const [offer, setOffer] = useState<PublicOffer | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [currency, setCurrency] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([loadPublicOffer(slug), loadCategories().catch(() => [])])
+      .then(([publicOffer, allCategories]) => {
+        setOffer(publicOffer);
+        setCategories(allCategories);
+        setCurrency(publicOffer?.currency ?? '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load the offer'))
+      .finally(() => setLoading(false));
+  }, [slug]);
+
+  useEffect(() => {
+    if (!offer) return;
+    const previousTitle = document.title;
+    document.title = `${offer.title} | ${SITE_NAME}`;
+    setMetaDescription(toPlainText(offer.description).slice(0, 160));
+
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [offer]);
+
+  // Subscribing needs an account, so visitors sign up and come back here
+  const handleSubscribe = () => {
+    if (!offer) return;
+    if (profile) {
+      navigateToRoute(getHomeRoute(profile));
+      return;
+    }
+    setReturnTo(getOfferPath(offer));
+    navigateToRoute({ name: 'signUp' });
+  };
+
+  const backToCatalog = (
+    <Link
+      to={{ name: 'catalog' }}
+      className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium mb-6"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      All services
+    </Link>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <PublicHeader />
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!offer) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <PublicHeader />
+        <main className="max-w-3xl mx-auto px-4 py-8">
+          {backToCatalog}
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+            <p className="text-slate-600">{error || 'This service is not available.'}</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const prices = getCustomerPricePoint(offer, currency);
+  const currencies = [offer.currency, ...offer.offer_prices.map((price) => price.currency)];
+  const category = offer.service_categories;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <PublicHeader />
+      <main className="max-w-5xl mx-auto px-4 py-8">
+        {backToCatalog}
+
+        <article className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          {offer.product_image && (
+            <div className="h-64 md:h-80 w-full overflow-hidden bg-slate-100">
+              <img src={offer.product_image} alt={offer.title} className="w-full h-full object-cover" />
+            </div>
+          )}
+
+          <div className="p-6 md:p-10 space-y-8">
+            <header>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                {category && (
+                  <CategoryBadge
+                    name={getCategoryPath(categories, category.id)}
+                    icon={category.icon}
+                    color={category.color}
+                  />
+                )}
+                {offer.trial_days > 0 && (
+                  <span className="inline-flex items-center gap-1 px-3 py-1 bg-green-50 text-green-700 text-xs font-medium rounded-full">
+                    <Gift className="w-3 h-3" />
+                    {offer.trial_days}-day free trial
+                  </span>
+                )}
+              </div>
+              <h2 className="text-3xl md:text-4xl font-bold text-slate-900 mb-4">{offer.title}</h2>
+              <Markdown source={offer.description} className="text-slate-600" />
+              {offer.product_link && (
+                <a
+                  href={offer.product_link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 mt-4 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                  Learn More
+                </a>
+              )}
+            </header>
+
+            {offer.product_video && <VideoPlayer url={offer.product_video} title={offer.title} />}
+
+            {Array.isArray(offer.features) && offer.features.length > 0 && (
+              <section>
+                <h3 className="text-xl font-semibold text-slate-900 mb-4">What's included</h3>
+                <FeatureList features={offer.features} />
+              </section>
+            )}
+
+            <section className="border-t border-slate-200 pt-8">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-semibold text-slate-900">Pricing</h3>
+                {currencies.length > 1 && (
+                  <select
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className="text-sm border border-slate-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {currencies.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {offer.offer_tiers.length > 0 ? (
+                <TierComparison
+                  currency={offer.currency}
+                  tiers={offer.offer_tiers}
+                  customerCurrency={currency}
+                  coupon={null}
+                  trialDays={offer.trial_days}
+                  subscribing={false}
+                  onSubscribe={handleSubscribe}
+                />
+              ) : (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="border border-slate-200 rounded-xl p-6">
+                    <p className="text-sm text-slate-600 mb-1">Monthly</p>
+                    <p className="text-3xl font-bold text-slate-900 mb-4">{formatMoney(prices.price_monthly, prices.currency)}</p>
+                    <button
+                      onClick={handleSubscribe}
+                      className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                    >
+                      {offer.trial_days > 0 ? 'Start Free Trial' : 'Subscribe'}
+                    </button>
+                  </div>
+                  {prices.price_yearly > 0 && (
+                    <div className="border border-slate-200 rounded-xl p-6">
+                      <p className="text-sm text-slate-600 mb-1">Yearly</p>
+                      <p className="text-3xl font-bold text-slate-900 mb-4">{formatMoney(prices.price_yearly, prices.currency)}</p>
+                      <button
+                        onClick={handleSubscribe}
+                        className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                      >
+                        {offer.trial_days > 0 ? 'Start Free Trial' : 'Subscribe'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {offer.offer_meters.length > 0 && (
+                <div className="text-sm text-slate-600 space-y-1 mt-4">
+                  {offer.offer_meters.map((meter) => (
+                    <p key={meter.id}>
+                      Plus {meter.name.toLowerCase()} at{' '}
+                      {formatMoney(getMeterUnitPrice(meter, offer.currency, prices.currency) ?? 0, prices.currency)} / {meter.unit}
+                      {Number(meter.included_units) > 0 && `, ${Number(meter.included_units)} included each month`}
+                    </p>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-500 mt-4">Prices exclude applicable taxes.</p>
+            </section>
+          </div>
+        </article>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Lock, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getAuthLinkError } from '../lib/auth-links';
+import { AuthLayout } from './AuthLayout';
+import { Link } from './Link';
+
+/** Opened by the link in a password reset email, which signs the customer in */
+export function ResetPassword() {
+  const { user, passwordRecovery, updatePassword } = useAuth();
+  const [linkError] = useState(getAuthLinkError);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [changed, setChanged] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmation) {
+      setError('The passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await updatePassword(password);
+    if (error) {
+      setError(error.message);
+    } else {
+      setChanged(true);
+    }
+    setLoading(false);
+  };
+
+  if (!user) {
+    return (
+      <AuthLayout subtitle="Reset your password">
+        <div className="space-y-4">
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {linkError?.message ?? 'This password reset link is invalid or has expired.'} Request a new one to choose a
+            password.
+          </div>
+          <Link
+            to={{ name: 'forgotPassword' }}
+            className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors"
+          >
+            Request a New Link
+          </Link>
+          <div className="text-center">
+            <Link to={{ name: 'signIn' }} className="text-sm text-blue-600 hover:text-blue-700 font-medium transition-colors">
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  if (changed) {
+    return (
+      <AuthLayout subtitle="Password changed">
+        <div className="text-center space-y-4">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-green-50 rounded-full">
+            <CheckCircle className="w-6 h-6 text-green-600" />
+          </div>
+          <p className="text-slate-700">Your password has been changed. Use it the next time you sign in.</p>
+          <Link
+            to={{ name: 'dashboard' }}
+            className="block w-full text-center bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors"
+          >
+            Continue
+          </Link>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout subtitle={passwordRecovery ? 'Choose a new password' : 'Change your password'}>
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <p className="text-sm text-slate-600">
+          Signed in as <span className="font-medium">{user.email}</span>
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">New Password</label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              placeholder="••••••••"
+              autoComplete="new-password"
+              required
+              minLength={6}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Confirm New Password</label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="w-full pl-11 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              placeholder="••••••••"
+              autoComplete="new-password"
+              required
+              minLength={6}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Saving...' : 'Change Password'}
+        </button>
+      </form>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  STAFF_ROLES,
+  STAFF_ROLE_DESCRIPTIONS,
+  STAFF_ROLE_LABELS,
+  findProfileByEmail,
+  loadStaff,
+  setStaffRole,
+  type StaffMember,
+  type StaffRole,
+} from '../lib/staff';
+
+export function StaffManager() {
+  const { profile, refreshProfile } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [invite, setInvite] = useState<{ email: string; role: StaffRole }>({ email: '', role: 'read_only' });
+
+  const fetchStaff = async () => {
+    try {
+      setStaff(await loadStaff());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load staff');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const changeRole = async (member: StaffMember, role: StaffRole | null): Promise<boolean> => {
+    setSaving(true);
+    setError('');
+    let changed = false;
+    try {
+      await setStaffRole(member.id, role);
+      // Owners who give up the role lose this tab
+      if (member.id === profile?.id) {
+        await refreshProfile();
+      }
+      await fetchStaff();
+      changed = true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change staff role');
+    }
+    setSaving(false);
+    return changed;
+  };
+
+  const handleRemove = (member: StaffMember) => {
+    if (!confirm(`Remove ${member.full_name || member.email} from the staff? They keep their customer account.`)) return;
+    changeRole(member, null);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const member = await findProfileByEmail(invite.email);
+      if (!member) {
+        setError(`Nobody has signed up with ${invite.email.trim()} yet. Ask them to create an account first.`);
+        return;
+      }
+      if (await changeRole(member, invite.role)) {
+        setInvite({ email: '', role: invite.role });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add staff member');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+        <div className="flex items-center justify-center gap-3">
+          <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          <p className="text-slate-600">Loading staff...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-slate-900">Staff</h2>
+        <p className="text-sm text-slate-500 mt-1">Every role can view the whole portal; the role decides what they can change.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="email"
+            value={invite.email}
+            onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+            className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="colleague@company.com"
+            required
+          />
+          <select
+            value={invite.role}
+            onChange={(e) => setInvite({ ...invite, role: e.target.value as StaffRole })}
+            className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {STAFF_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {STAFF_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <UserPlus className="w-5 h-5" />
+            Add Staff
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          {STAFF_ROLE_LABELS[invite.role]}: {STAFF_ROLE_DESCRIPTIONS[invite.role]}.
+        </p>
+      </form>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Can Change</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {staff.map((member) => (
+                <tr key={member.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-slate-900">
+                      {member.full_name || member.email}
+                      {member.id === profile?.id && <span className="text-slate-500 font-normal"> (you)</span>}
+                    </div>
+                    <div className="text-sm text-slate-500">{member.email}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <select
+                      value={member.staff_role ?? ''}
+                      onChange={(e) => changeRole(member, e.target.value as StaffRole)}
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {STAFF_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {STAFF_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-600">
+                    {member.staff_role && STAFF_ROLE_DESCRIPTIONS[member.staff_role]}
+                  </td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => handleRemove(member)}
+                      disabled={saving}
+                      title="Remove from staff"
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
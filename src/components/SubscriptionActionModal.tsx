@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+import { getCyclePrice } from '../lib/billing';
+import { formatMoney, getCustomerPricePoint, type PricedOffer } from '../lib/currency';
+import { getSubscribedPricing, type PricedOfferVersion } from '../lib/offer-versions';
+import {
+  cancelSubscription,
+  undoSubscriptionCancellation,
+  changeSubscriptionBillingCycle,
+  reactivateSubscription,
+  type BillingCycle,
+  type CustomerAction,
+} from '../lib/subscription-lifecycle';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'] & PricedOffer;
+type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'] & {
+  service_offers: ServiceOffer | null;
+  offer_versions?: PricedOfferVersion | null;
+};
+
+interface SubscriptionActionModalProps {
+  subscription: UserSubscription;
+  action: Exclude<CustomerAction, 'change_plan'>;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+const CYCLE_UNITS: Record<BillingCycle, string> = {
+  monthly: 'month',
+  yearly: 'year',
+};
+
+export function SubscriptionActionModal({ subscription, action, onClose, onComplete }: SubscriptionActionModalProps) {
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const offer = subscription.service_offers;
+  const pricing = getSubscribedPricing(subscription);
+  const formatPrice = (pricing: PricedOffer, cycle: BillingCycle) => {
+    const prices = getCustomerPricePoint(pricing, subscription.currency);
+    return `${formatMoney(getCyclePrice(prices, cycle), subscription.currency)} / ${CYCLE_UNITS[cycle]}`;
+  };
+  const title = offer?.title ?? 'this service';
+  const isPending = subscription.status === 'pending';
+  const isTrialing = subscription.status === 'trialing';
+  const otherCycle: BillingCycle = subscription.billing_cycle === 'monthly' ? 'yearly' : 'monthly';
+  const periodEnd = subscription.next_billing_date
+    ? new Date(subscription.next_billing_date).toLocaleDateString()
+    : null;
+  const periodEndText = periodEnd ? `on ${periodEnd}` : 'at the end of the current billing period';
+
+  const getContent = () => {
+    switch (action) {
+      case 'cancel':
+        return {
+          heading: isPending ? 'Cancel Request' : isTrialing ? 'Cancel Trial' : 'Cancel Subscription',
+          description: isPending
+            ? `Your request for ${title} will be cancelled right away. You have not been charged.`
+            : isTrialing
+            ? `You can keep using ${title} until your trial ends${periodEnd ? ` on ${periodEnd}` : ''}. You will not be charged.`
+            : `${title} stays available until ${periodEnd ?? 'the end of the current billing period'}. It will not renew and you will not be billed again.`,
+          confirmLabel: isPending ? 'Cancel Request' : isTrialing ? 'Cancel at Trial End' : 'Cancel at Period End',
+          destructive: true,
+          run: () => cancelSubscription(subscription.id),
+        };
+      case 'undo_cancel':
+        return {
+          heading: 'Keep Subscription',
+          description: pricing
+            ? `${title} will keep renewing at ${formatPrice(pricing, subscription.billing_cycle)}, with the next bill ${periodEndText}.`
+            : `${title} will keep renewing as before.`,
+          confirmLabel: 'Keep Subscription',
+          destructive: false,
+          run: () => undoSubscriptionCancellation(subscription.id),
+        };
+      case 'switch_cycle':
+        return {
+          heading: `Switch to ${otherCycle === 'yearly' ? 'Yearly' : 'Monthly'} Billing`,
+          description: !pricing
+            ? `Your billing will switch to ${otherCycle}.`
+            : isPending
+              ? `You will pay ${formatPrice(pricing, otherCycle)} instead of ${formatPrice(pricing, subscription.billing_cycle)} when you complete payment.`
+              : isTrialing
+              ? `You will pay ${formatPrice(pricing, otherCycle)} instead of ${formatPrice(pricing, subscription.billing_cycle)} once your trial ends.`
+              : `You will keep paying ${formatPrice(pricing, subscription.billing_cycle)} until ${periodEnd ?? 'the end of the current billing period'}, then ${formatPrice(pricing, otherCycle)} from then on.`,
+          confirmLabel: 'Switch Billing',
+          destructive: false,
+          run: () => changeSubscriptionBillingCycle(subscription.id, otherCycle),
+        };
+      case 'undo_switch':
+        return {
+          heading: `Keep ${subscription.billing_cycle === 'monthly' ? 'Monthly' : 'Yearly'} Billing`,
+          description: pricing
+            ? `The scheduled switch will be withdrawn and you will keep paying ${formatPrice(pricing, subscription.billing_cycle)}.`
+            : 'The scheduled billing switch will be withdrawn.',
+          confirmLabel: 'Keep Current Billing',
+          destructive: false,
+          run: () => changeSubscriptionBillingCycle(subscription.id, subscription.billing_cycle),
+        };
+      case 'reactivate':
+        return {
+          heading: 'Reactivate Subscription',
+          description: offer
+            ? `${title} will be set up again at ${formatPrice(offer, subscription.billing_cycle)}. You will be taken to checkout to complete payment.`
+            : `${title} will be set up again. You will be taken to checkout to complete payment.`,
+          confirmLabel: 'Reactivate',
+          destructive: false,
+          run: () => reactivateSubscription(subscription.id),
+        };
+    }
+  };
+
+  const content = getContent();
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await content.run();
+      onComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-md w-full">
+        <div className="border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-900">{content.heading}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-slate-700">{content.description}</p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={submitting}
+              className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              Go Back
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={submitting}
+              className={`flex-1 flex items-center justify-center gap-2 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50 ${
+                content.destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {submitting && <Loader2 className="w-5 h-5 animate-spin" />}
+              {content.confirmLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
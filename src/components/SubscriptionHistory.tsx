@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getStatusLabel } from '../lib/subscription-lifecycle';
+import type { Database } from '../lib/database.types';
+
+type SubscriptionEvent = Database['public']['Tables']['subscription_events']['Row'] & {
+  profiles: Pick<Database['public']['Tables']['profiles']['Row'], 'full_name' | 'email'> | null;
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  cancel_scheduled: 'Cancellation scheduled',
+  cancel_undone: 'Cancellation withdrawn',
+  billing_cycle_change_scheduled: 'Billing change scheduled',
+  billing_cycle_changed: 'Billing changed',
+  plan_changed: 'Plan changed',
+  version_changed: 'Moved to a new price version',
+};
+
+interface SubscriptionHistoryProps {
+  subscriptionId: string;
+  currentUserId?: string;
+}
+
+export function SubscriptionHistory({ subscriptionId, currentUserId }: SubscriptionHistoryProps) {
+  const [events, setEvents] = useState<SubscriptionEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      setLoading(true);
+      setError('');
+
+      const { data, error } = await supabase
+        .from('subscription_events')
+        .select('*, profiles(full_name, email)')
+        .eq('subscription_id', subscriptionId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        setError(error.message);
+      } else if (data) {
+        setEvents(data as SubscriptionEvent[]);
+      }
+      setLoading(false);
+    };
+
+    loadEvents();
+  }, [subscriptionId]);
+
+  const getActor = (event: SubscriptionEvent) => {
+    if (!event.changed_by) return 'System';
+    if (event.changed_by === currentUserId) return 'You';
+    if (event.profiles) return event.profiles.full_name || event.profiles.email;
+    return 'Our team';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-slate-500">No history recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {events.map((event) => (
+        <li key={event.id} className="border-l-2 border-slate-200 pl-3">
+          <div className="flex items-center gap-1.5 text-sm font-medium text-slate-900">
+            {EVENT_LABELS[event.event_type] ? (
+              <span>{EVENT_LABELS[event.event_type]}</span>
+            ) : event.from_status ? (
+              <>
+                <span>{getStatusLabel(event.from_status)}</span>
+                <ArrowRight className="w-3.5 h-3.5 text-slate-400" />
+                <span>{getStatusLabel(event.to_status)}</span>
+              </>
+            ) : (
+              <span>Created as {getStatusLabel(event.to_status)}</span>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            {new Date(event.created_at).toLocaleString()} &middot; {getActor(event)}
+          </p>
+          {event.note && <p className="text-sm text-slate-600 mt-1">{event.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, Loader2, Percent } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { defaultTax } from '../lib/business';
+import { loadTaxRates, getCountryName } from '../lib/tax';
+import { TaxRateModal } from './TaxRateModal';
+
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+
+interface TaxRateManagerProps {
+  canManage?: boolean;
+}
+
+export function TaxRateManager({ canManage = false }: TaxRateManagerProps) {
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingTaxRate, setEditingTaxRate] = useState<TaxRate | null>(null);
+
+  const fetchTaxRates = async () => {
+    try {
+      setTaxRates(await loadTaxRates());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tax rates');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchTaxRates();
+  }, []);
+
+  const handleDelete = async (taxRate: TaxRate) => {
+    const place = [taxRate.region, getCountryName(taxRate.country)].filter(Boolean).join(', ');
+    if (!confirm(`Delete the ${taxRate.label} rate for ${place}?`)) return;
+
+    const { error } = await supabase.from('tax_rates').delete().eq('id', taxRate.id);
+    if (error) {
+      setError(error.message);
+    }
+    await fetchTaxRates();
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8">
+        <div className="flex items-center justify-center gap-3">
+          <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+          <p className="text-slate-600">Loading tax rates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Tax Rates</h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Customers without a matching rate are charged {defaultTax.label} at {defaultTax.rate}%.
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => {
+              setEditingTaxRate(null);
+              setShowModal(true);
+            }}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            Add Tax Rate
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {taxRates.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+          <Percent className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-600">No tax rates yet.</p>
+          <p className="text-sm text-slate-500 mt-1">Add a rate for each country or region you bill customers in.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Country</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Region</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Label</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-600 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {taxRates.map((taxRate) => (
+                  <tr key={taxRate.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 text-sm text-slate-900">{getCountryName(taxRate.country)}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{taxRate.region ?? 'Whole country'}</td>
+                    <td className="px-6 py-4 text-sm text-slate-900">{taxRate.label}</td>
+                    <td className="px-6 py-4 text-sm text-slate-900">{Number(taxRate.rate)}%</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-2">
+                        {canManage && (
+                          <>
+                            <button
+                              onClick={() => {
+                                setEditingTaxRate(taxRate);
+                                setShowModal(true);
+                              }}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(taxRate)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <TaxRateModal
+          taxRate={editingTaxRate}
+          onClose={() => {
+            setShowModal(false);
+            setEditingTaxRate(null);
+          }}
+          onSave={async () => {
+            await fetchTaxRates();
+            setShowModal(false);
+            setEditingTaxRate(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
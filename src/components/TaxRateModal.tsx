@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { COUNTRIES } from '../lib/tax';
+
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+
+interface TaxRateModalProps {
+  taxRate: TaxRate | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+export function TaxRateModal({ taxRate, onClose, onSave }: TaxRateModalProps) {
+  const [formData, setFormData] = useState({
+    country: taxRate?.country ?? COUNTRIES[0].code,
+    region: taxRate?.region ?? '',
+    label: taxRate?.label ?? 'Tax',
+    rate: taxRate ? Number(taxRate.rate) : 0,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const data = {
+      country: formData.country,
+      region: formData.region.trim().toUpperCase() || null,
+      label: formData.label.trim() || 'Tax',
+      rate: formData.rate,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error: saveError } = taxRate
+      ? await supabase.from('tax_rates').update(data).eq('id', taxRate.id)
+      : await supabase.from('tax_rates').insert(data);
+
+    if (saveError) {
+      setError(
+        saveError.code === '23505'
+          ? 'A tax rate for this country and region already exists'
+          : saveError.message || 'Failed to save tax rate'
+      );
+      setSaving(false);
+      return;
+    }
+
+    setSaving(false);
+    onSave();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">{taxRate ? 'Edit Tax Rate' : 'Add Tax Rate'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Country</label>
+              <select
+                value={formData.country}
+                onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">State / Province</label>
+              <input
+                type="text"
+                value={formData.region}
+                onChange={(e) => setFormData({ ...formData, region: e.target.value.toUpperCase() })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg uppercase placeholder:normal-case focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Whole country"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Label</label>
+              <input
+                type="text"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="VAT"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-2">Rate (%)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: parseFloat(e.target.value) || 0 })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : taxRate ? 'Update Tax Rate' : 'Add Tax Rate'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { CheckCircle, Minus } from 'lucide-react';
+import { formatMoney, getCustomerPricePoint } from '../lib/currency';
+import { getDiscountedPrice, type CouponDiscount } from '../lib/coupons';
+import { compareTiers, getTierPricing, sortTiers, type PricedTier } from '../lib/tiers';
+import type { BillingCycle } from '../lib/subscription-lifecycle';
+
+interface TierComparisonProps {
+  currency: string;
+  tiers: PricedTier[];
+  /** The customer's preferred currency */
+  customerCurrency: string | null | undefined;
+  coupon: CouponDiscount | null;
+  trialDays: number;
+  subscribing: boolean;
+  onSubscribe: (tierId: string, cycle: BillingCycle) => void;
+}
+
+export function TierComparison({
+  currency,
+  tiers,
+  customerCurrency,
+  coupon,
+  trialDays,
+  subscribing,
+  onSubscribe,
+}: TierComparisonProps) {
+  const [cycle, setCycle] = useState<BillingCycle>('monthly');
+  const sorted = sortTiers(tiers);
+  const { limits, features } = compareTiers(sorted);
+  const prices = sorted.map((tier) => getCustomerPricePoint(getTierPricing(currency, tier), customerCurrency));
+  const yearlyAvailable = prices.some((price) => price.price_yearly > 0);
+
+  return (
+    <div className="space-y-3">
+      {yearlyAvailable && (
+        <div className="inline-flex rounded-lg border border-slate-300 p-0.5 text-sm">
+          {(['monthly', 'yearly'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setCycle(option)}
+              className={`px-3 py-1 rounded-md font-medium transition-colors ${
+                cycle === option ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {option === 'monthly' ? 'Monthly' : 'Yearly'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="py-2 pr-4" />
+              {sorted.map((tier) => (
+                <th key={tier.id} className="py-2 px-3 text-left align-top">
+                  <span className="block text-base font-bold text-slate-900">{tier.name}</span>
+                  {tier.description && <span className="block text-xs font-normal text-slate-500">{tier.description}</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            <tr>
+              <td className="py-2 pr-4 text-slate-600">Price</td>
+              {sorted.map((tier, index) => {
+                const price = cycle === 'monthly' ? prices[index].price_monthly : prices[index].price_yearly;
+                if (cycle === 'yearly' && price <= 0) {
+                  return (
+                    <td key={tier.id} className="py-2 px-3 text-slate-500">
+                      Monthly only
+                    </td>
+                  );
+                }
+
+                return (
+                  <td key={tier.id} className="py-2 px-3">
+                    {coupon ? (
+                      <span className="flex items-baseline gap-2">
+                        <span className="text-xs text-slate-400 line-through">
+                          {formatMoney(price, prices[index].currency)}
+                        </span>
+                        <span className="font-bold text-green-700">
+                          {formatMoney(getDiscountedPrice(coupon, price), prices[index].currency)}
+                        </span>
+                      </span>
+                    ) : (
+                      <span className="font-bold text-slate-900">{formatMoney(price, prices[index].currency)}</span>
+                    )}
+                    <span className="text-xs text-slate-500"> / {cycle === 'monthly' ? 'month' : 'year'}</span>
+                  </td>
+                );
+              })}
+            </tr>
+            {limits.map((name) => (
+              <tr key={`limit-${name}`}>
+                <td className="py-2 pr-4 text-slate-600">{name}</td>
+                {sorted.map((tier) => {
+                  const limit = tier.limits.find((l) => l.name === name);
+                  return (
+                    <td key={tier.id} className="py-2 px-3 text-slate-900">
+                      {limit ? limit.value || <CheckCircle className="w-4 h-4 text-green-600" /> : <Minus className="w-4 h-4 text-slate-300" />}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {features.map((feature) => (
+              <tr key={`feature-${feature}`}>
+                <td className="py-2 pr-4 text-slate-600">{feature}</td>
+                {sorted.map((tier) => (
+                  <td key={tier.id} className="py-2 px-3">
+                    {tier.features.includes(feature) ? (
+                      <CheckCircle className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <Minus className="w-4 h-4 text-slate-300" />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td className="py-2 pr-4" />
+              {sorted.map((tier, index) => (
+                <td key={tier.id} className="py-2 px-3">
+                  <button
+                    onClick={() => onSubscribe(tier.id, cycle)}
+                    disabled={subscribing || (cycle === 'yearly' && prices[index].price_yearly <= 0)}
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {subscribing ? 'Subscribing...' : trialDays > 0 ? 'Start Free Trial' : `Choose ${tier.name}`}
+                  </button>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
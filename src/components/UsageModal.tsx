@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { Database } from '../lib/database.types';
+import { formatMoney } from '../lib/currency';
+import { loadUnbilledUsage, recordUsage, summarizeUsage, type PricedMeter } from '../lib/usage';
+
+type UsageRecord = Database['public']['Tables']['usage_records']['Row'];
+type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'] & {
+  service_offers: (Database['public']['Tables']['service_offers']['Row'] & { offer_meters: PricedMeter[] }) | null;
+};
+
+interface UsageModalProps {
+  subscription: UserSubscription;
+  onClose: () => void;
+  canManage?: boolean;
+}
+
+export function UsageModal({ subscription, onClose, canManage = false }: UsageModalProps) {
+  const offer = subscription.service_offers;
+  const meters = offer?.offer_meters ?? [];
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    meter_id: meters[0]?.id ?? '',
+    quantity: 1,
+    recorded_at: new Date().toISOString().slice(0, 10),
+    note: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchUsage = async (subscriptionId: string) => {
+    try {
+      setRecords(await loadUnbilledUsage([subscriptionId]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchUsage(subscription.id);
+  }, [subscription.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      await recordUsage({
+        subscriptionId: subscription.id,
+        meterId: formData.meter_id,
+        quantity: formData.quantity,
+        // Earlier days are recorded at midday so the time zone cannot move them
+        recordedAt: formData.recorded_at === today ? undefined : new Date(`${formData.recorded_at}T12:00:00`).toISOString(),
+        note: formData.note.trim(),
+      });
+      setFormData({ ...formData, quantity: 1, note: '' });
+      await fetchUsage(subscription.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record usage');
+    }
+
+    setSaving(false);
+  };
+
+  const usage = offer
+    ? summarizeUsage(meters, records, offer.currency, subscription.currency, subscription.billing_cycle)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Usage</h2>
+            <p className="text-sm text-slate-500">{offer?.title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-2">Not yet invoiced</h3>
+            {loading ? (
+              <div className="flex items-center gap-2 text-sm text-slate-600">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading usage...
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {usage.map((item) => (
+                  <div key={item.meter.id} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-700">
+                      {item.meter.name}: {item.quantity}
+                      {item.included > 0 && <span className="text-slate-500"> of {item.included} included</span>}
+                    </span>
+                    <span className="text-slate-900">{formatMoney(item.amount, subscription.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {canManage && (
+            <form onSubmit={handleSubmit} className="space-y-4 border-t border-slate-200 pt-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Meter</label>
+                  <select
+                    value={formData.meter_id}
+                    onChange={(e) => setFormData({ ...formData, meter_id: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  >
+                    {meters.map((meter) => (
+                      <option key={meter.id} value={meter.id}>
+                        {meter.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Quantity</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={formData.quantity}
+                    onChange={(e) => setFormData({ ...formData, quantity: parseFloat(e.target.value) })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Date</label>
+                  <input
+                    type="date"
+                    value={formData.recorded_at}
+                    max={new Date().toISOString().slice(0, 10)}
+                    onChange={(e) => setFormData({ ...formData, recorded_at: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Note</label>
+                  <input
+                    type="text"
+                    value={formData.note}
+                    onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-3 border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+                >
+                  Close
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !formData.meter_id}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {saving ? 'Recording...' : 'Record Usage'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,83 +1,432 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
-import { Calendar, DollarSign, CheckCircle, Clock, XCircle, Package, ExternalLink, Image, Video, Play } from 'lucide-react';
+import { Calendar, DollarSign, CheckCircle, Clock, XCircle, Package, ExternalLink, Play, AlertCircle, PauseCircle, Hourglass, History, FileText, CreditCard, Settings, Gauge, Boxes, Plus, Users, Mail } from 'lucide-react';
 import type { Database } from '../lib/database.types';
 import { VideoModal } from './VideoModal';
+import { SubscriptionHistory } from './SubscriptionHistory';
+import { InvoiceList } from './InvoiceList';
+import { InvoiceDocuments } from './InvoiceDocuments';
+import { CheckoutModal } from './CheckoutModal';
+import { SubscriptionActionModal } from './SubscriptionActionModal';
+import { ChangePlanModal } from './ChangePlanModal';
+import { CouponField } from './CouponField';
+import { BillingProfileModal } from './BillingProfileModal';
+import { OrganizationModal } from './OrganizationModal';
+import { TierComparison } from './TierComparison';
+import { CatalogToolbar } from './CatalogToolbar';
+import { OfferCard } from './OfferCard';
+import { Markdown } from './Markdown';
+import { getSubscriptionPrice, hasActiveDiscount } from '../lib/billing';
+import { getDiscountedPrice, type CouponDiscount } from '../lib/coupons';
+import { getStatusLabel, getCustomerActions, type CustomerAction } from '../lib/subscription-lifecycle';
+import { formatMoney, getCustomerPricePoint } from '../lib/currency';
+import { getSubscribedPricing, type PricedOfferVersion } from '../lib/offer-versions';
+import { getSubscriptionTitle, type PricedTier } from '../lib/tiers';
+import { getMeterUnitPrice, loadUnbilledUsage, summarizeUsage, type PricedMeter } from '../lib/usage';
+import { buildCatalogIndex, parseCatalogFilters, searchCatalog, toCatalogSearch } from '../lib/catalog';
+import { buildCategoryTree, flattenCategoryTree, getCategoryAncestorIds, getCategoryPath, loadCategories } from '../lib/categories';
+import { loadTaxRates, resolveTaxRate, getCountryName } from '../lib/tax';
+import { isOfferPublished } from '../lib/offer-schedule';
+import {
+  ORGANIZATION_ROLE_LABELS,
+  acceptInvitation,
+  canManageBilling,
+  declineInvitation,
+  loadReceivedInvitations,
+  type ReceivedInvitation,
+} from '../lib/organizations';
+import { useRoute } from '../lib/routes';
+import { Link } from './Link';
+import { getMissingPrerequisites, getRelatedOfferIds, PREREQUISITE_STATUSES } from '../lib/offer-relations';
+import {
+  BUNDLE_SELECT,
+  getBundleItemTitle,
+  getBundleListPrice,
+  getBundlePrice,
+  sortBundleItems,
+  subscribeToBundle,
+  type PricedBundle,
+} from '../lib/bundles';
+import type { TaxSettings } from '../lib/business';
 
-type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'] & {
+  offer_prices: Database['public']['Tables']['offer_prices']['Row'][];
+  offer_meters: PricedMeter[];
+  offer_tiers: PricedTier[];
+  offer_relations: Database['public']['Tables']['offer_relations']['Row'][];
+};
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+type UsageRecord = Database['public']['Tables']['usage_records']['Row'];
 type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'] & {
   service_offers: ServiceOffer | null;
+  offer_versions: PricedOfferVersion | null;
+  subscription_bundles: { service_bundles: { title: string } | null } | null;
+  profiles: Pick<Database['public']['Tables']['profiles']['Row'], 'full_name' | 'email'> | null;
 };
 type Category = Database['public']['Tables']['service_categories']['Row'];
 
+const SUBSCRIPTION_SELECT =
+  '*, service_offers(*, offer_prices(*), offer_meters(*, offer_meter_prices(*)), offer_tiers(*, offer_tier_prices(*)), offer_relations!offer_relations_offer_id_fkey(*)), offer_versions(*, offer_prices:offer_version_prices(*)), subscription_bundles(service_bundles(title)), profiles(full_name, email)';
+
 export function UserDashboard() {
-  const { profile } = useAuth();
+  const { profile, membership, refreshProfile } = useAuth();
+  const route = useRoute();
+  // Members see the organization's services; owners and billing contacts manage them
+  const canBill = canManageBilling(membership?.role);
+  const organizationName = membership?.organizations?.name ?? 'your organization';
   const [subscriptions, setSubscriptions] = useState<UserSubscription[]>([]);
   const [availableOffers, setAvailableOffers] = useState<(ServiceOffer & { service_categories: Category | null })[]>([]);
+  const [availableBundles, setAvailableBundles] = useState<PricedBundle[]>([]);
   const [loading, setLoading] = useState(true);
   const [subscribing, setSubscribing] = useState<string | null>(null);
   const [playingVideo, setPlayingVideo] = useState<{ url: string; title: string } | null>(null);
+  const [historyOpenFor, setHistoryOpenFor] = useState<string | null>(null);
+  const [documentsOpenFor, setDocumentsOpenFor] = useState<string | null>(null);
+  const [checkout, setCheckout] = useState<{
+    subscriptionId: string;
+    title: string;
+    amount: number;
+    currency: string;
+    billingCycle: 'monthly' | 'yearly';
+  } | null>(null);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [showBillingProfile, setShowBillingProfile] = useState(false);
+  const [showOrganization, setShowOrganization] = useState(false);
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
+  const [invitationError, setInvitationError] = useState('');
+  const [appliedCoupons, setAppliedCoupons] = useState<Record<string, CouponDiscount | null>>({});
+  const [pendingAction, setPendingAction] = useState<{
+    subscription: UserSubscription;
+    action: CustomerAction;
+  } | null>(null);
+  const [filters, setFilters] = useState(() => parseCatalogFilters(window.location.search));
 
   useEffect(() => {
     fetchData();
-  }, [profile]);
+  }, [profile, membership]);
+
+  // An offer's or a subscription's page is the dashboard scrolled to its card.
+  // Customers who signed up from an offer's public page land on that offer.
+  const linkedSubscriptionId =
+    route.name === 'subscription'
+      ? route.subscriptionId
+      : route.name === 'offer'
+        ? subscriptions.find((sub) => sub.service_offers?.slug === route.slug)?.id
+        : undefined;
+  const linkedOfferId =
+    route.name === 'offer' ? availableOffers.find((offer) => offer.slug === route.slug)?.id : undefined;
+  const linkedElementId = linkedSubscriptionId
+    ? `subscription-${linkedSubscriptionId}`
+    : linkedOfferId
+      ? `offer-${linkedOfferId}`
+      : null;
+
+  useEffect(() => {
+    if (loading || !linkedElementId) return;
+    document.getElementById(linkedElementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, linkedElementId]);
+
+  // Keep the filters in the URL so a filtered catalog can be bookmarked or shared
+  useEffect(() => {
+    const url = `${window.location.pathname}${toCatalogSearch(filters)}${window.location.hash}`;
+    window.history.replaceState(window.history.state, '', url);
+  }, [filters]);
+
+  const catalogIndex = useMemo(
+    () =>
+      buildCatalogIndex(
+        availableOffers,
+        (offer) => getCustomerPricePoint(offer, profile?.currency).price_monthly,
+        (offer) => (offer.category_id ? getCategoryAncestorIds(categories, offer.category_id) : [''])
+      ),
+    [availableOffers, categories, profile?.currency]
+  );
+  const catalog = useMemo(() => searchCatalog(catalogIndex, filters), [catalogIndex, filters]);
+  // Facets for the categories that hold an available offer, directly or in a sub-category
+  const catalogCategories = useMemo(() => {
+    const used = new Set(catalogIndex.flatMap((entry) => entry.categoryIds));
+    return flattenCategoryTree(buildCategoryTree(categories))
+      .filter(({ category }) => used.has(category.id))
+      .map(({ category }) => ({ id: category.id, name: getCategoryPath(categories, category.id) }));
+  }, [catalogIndex, categories]);
 
   const fetchData = async () => {
     if (!profile) return;
 
-    const [subsResult, offersResult] = await Promise.all([
-      supabase
-        .from('user_subscriptions')
-        .select('*, service_offers(*)')
-        .eq('user_id', profile.id),
+    const subscriptionsQuery = supabase.from('user_subscriptions').select(SUBSCRIPTION_SELECT);
+    const [subsResult, offersResult, bundlesResult, rates, allCategories, receivedInvitations] = await Promise.all([
+      membership
+        ? subscriptionsQuery.eq('organization_id', membership.organization_id)
+        : subscriptionsQuery.eq('user_id', profile.id),
       supabase
         .from('service_offers')
-        .select('*, service_categories(*)')
+        .select('*, service_categories(*), offer_prices(*), offer_meters(*, offer_meter_prices(*)), offer_tiers(*, offer_tier_prices(*)), offer_relations!offer_relations_offer_id_fkey(*)')
         .eq('is_active', true),
+      supabase.from('service_bundles').select(BUNDLE_SELECT).eq('is_active', true).order('created_at'),
+      loadTaxRates().catch(() => []),
+      loadCategories().catch(() => []),
+      loadReceivedInvitations().catch(() => []),
     ]);
 
+    setTaxRates(rates);
+    setInvitations(receivedInvitations.filter((invitation) => invitation.organization_id !== membership?.organization_id));
+    setCategories(allCategories);
+
     if (subsResult.data) {
       setSubscriptions(subsResult.data as UserSubscription[]);
+      setUsageRecords(await loadUnbilledUsage(subsResult.data.map((s) => s.id)).catch(() => []));
     }
 
     if (offersResult.data) {
       const subscribedOfferIds = subsResult.data?.map((s) => s.offer_id) || [];
       const available = offersResult.data.filter(
-        (offer) => !subscribedOfferIds.includes(offer.id)
+        (offer) => !subscribedOfferIds.includes(offer.id) && isOfferPublished(offer)
       );
       setAvailableOffers(available as (ServiceOffer & { service_categories: Category | null })[]);
     }
 
+    if (bundlesResult.data) {
+      // Bundles are only sold whole, so one that overlaps an existing service is hidden;
+      // cancelled services are reactivated by the bundle
+      const subscribedOfferIds = subsResult.data?.filter((s) => s.status !== 'cancelled').map((s) => s.offer_id) || [];
+      const available = bundlesResult.data.filter((bundle) =>
+        bundle.bundle_offers.every(
+          (item) => item.service_offers?.is_active && !subscribedOfferIds.includes(item.offer_id)
+        )
+      );
+      setAvailableBundles(available);
+    }
+
     setLoading(false);
   };
 
-  const handleSubscribe = async (offerId: string, billingCycle: 'monthly' | 'yearly') => {
+  const handleSubscribe = async (offerId: string, billingCycle: 'monthly' | 'yearly', tierId: string | null = null) => {
     if (!profile) return;
     setSubscribing(offerId);
 
-    const { error } = await supabase.from('user_subscriptions').insert({
-      user_id: profile.id,
-      offer_id: offerId,
-      billing_cycle: billingCycle,
-      status: 'pending',
+    const { data, error } = await supabase
+      .from('user_subscriptions')
+      .insert({
+        user_id: profile.id,
+        offer_id: offerId,
+        billing_cycle: billingCycle,
+        status: 'pending',
+        tier_id: tierId,
+        coupon_id: appliedCoupons[offerId]?.id ?? null,
+      })
+      .select('*, service_offers(*), offer_versions(*, offer_prices:offer_version_prices(*))')
+      .single();
+
+    if (error) {
+      alert(error.message);
+    } else if (data) {
+      await fetchData();
+      // A free trial starts straight away; payment is only taken once it converts
+      if (data.status === 'pending') {
+        openCheckout(data as UserSubscription);
+      }
+    }
+
+    setSubscribing(null);
+  };
+
+  const customerTax: TaxSettings = resolveTaxRate(taxRates, profile?.country ?? null, profile?.region ?? null);
+
+  const getBilledPrice = (sub: UserSubscription) => {
+    const pricing = getSubscribedPricing(sub);
+    return pricing ? getSubscriptionPrice(sub, getCustomerPricePoint(pricing, sub.currency)) : 0;
+  };
+
+  const openCheckout = (sub: UserSubscription, allSubscriptions: UserSubscription[] = subscriptions) => {
+    if (!sub.service_offers) return;
+
+    // The services in a bundle are paid for together
+    const bundled = sub.subscription_bundle_id
+      ? allSubscriptions.filter((s) => s.subscription_bundle_id === sub.subscription_bundle_id && s.status === 'pending')
+      : [sub];
+
+    setCheckout({
+      subscriptionId: sub.id,
+      title: sub.subscription_bundles?.service_bundles?.title ?? getSubscriptionTitle(sub),
+      amount: bundled.reduce((sum, s) => sum + getBilledPrice(s), 0),
+      currency: sub.currency,
+      billingCycle: sub.billing_cycle,
     });
+  };
 
-    if (!error) {
+  const handleSubscribeToBundle = async (bundle: PricedBundle, billingCycle: 'monthly' | 'yearly') => {
+    if (!profile) return;
+    setSubscribing(bundle.id);
+
+    try {
+      const subscriptionBundle = await subscribeToBundle(bundle.id, billingCycle);
+      const { data } = await supabase
+        .from('user_subscriptions')
+        .select(SUBSCRIPTION_SELECT)
+        .eq('subscription_bundle_id', subscriptionBundle.id);
       await fetchData();
+
+      const bundled = (data ?? []) as UserSubscription[];
+      if (bundled.length > 0) {
+        openCheckout(bundled[0], bundled);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to subscribe to bundle');
     }
 
     setSubscribing(null);
   };
 
+  const handleActionComplete = async () => {
+    if (!pendingAction) return;
+
+    const { subscription, action } = pendingAction;
+    setPendingAction(null);
+    await fetchData();
+
+    // A reactivated service goes back through checkout before it is active again
+    if (action === 'reactivate') {
+      openCheckout(subscription);
+    }
+  };
+
+  const getActionLabel = (sub: UserSubscription, action: CustomerAction) => {
+    switch (action) {
+      case 'cancel':
+        if (sub.status === 'pending') return 'Cancel Request';
+        return sub.status === 'trialing' ? 'Cancel Trial' : 'Cancel Subscription';
+      case 'undo_cancel':
+        return 'Keep Subscription';
+      case 'switch_cycle':
+        return sub.billing_cycle === 'monthly' ? 'Switch to Yearly' : 'Switch to Monthly';
+      case 'undo_switch':
+        return `Keep ${sub.billing_cycle === 'monthly' ? 'Monthly' : 'Yearly'} Billing`;
+      case 'change_plan':
+        return 'Change Plan';
+      case 'reactivate':
+        return 'Reactivate';
+    }
+  };
+
+  const getAvailableActions = (sub: UserSubscription) => {
+    const pricing = getSubscribedPricing(sub);
+    return getCustomerActions(sub).filter(
+      (action) =>
+        action !== 'switch_cycle' ||
+        sub.billing_cycle === 'yearly' ||
+        (!!pricing && getCustomerPricePoint(pricing, sub.currency).price_yearly > 0)
+    );
+  };
+
+  const handleUpdateCustomerNotes = async (sub: UserSubscription) => {
+    const customerNotes = prompt('Add a note for our team about this service:', sub.customer_notes);
+    if (customerNotes === null) return;
+
+    const { error } = await supabase
+      .from('user_subscriptions')
+      .update({ customer_notes: customerNotes })
+      .eq('id', sub.id);
+
+    if (error) {
+      alert(error.message);
+    }
+    await fetchData();
+  };
+
+  const handleInvitation = async (invitation: ReceivedInvitation, accept: boolean) => {
+    if (accept && !confirm(`Join ${invitation.organizations?.name}? You will leave ${organizationName} and see ${invitation.organizations?.name}'s services instead.`)) {
+      return;
+    }
+
+    setInvitationError('');
+    try {
+      if (accept) {
+        await acceptInvitation(invitation.id);
+        // The new membership reloads the dashboard
+        await refreshProfile();
+      } else {
+        await declineInvitation(invitation.id);
+        await fetchData();
+      }
+    } catch (err) {
+      setInvitationError(err instanceof Error ? err.message : 'Failed to answer the invitation');
+    }
+  };
+
+  const renderSubscribeRestriction = () => (
+    <p className="text-sm text-slate-500 text-center">
+      Ask an owner or billing contact at {organizationName} to subscribe.
+    </p>
+  );
+
+  const getOfferTitle = (offerId: string) =>
+    availableOffers.find((offer) => offer.id === offerId)?.title ??
+    subscriptions.find((sub) => sub.offer_id === offerId)?.service_offers?.title ??
+    'another service';
+
+  // Related offers are shown in the catalog below
+  const showOffer = (offerId: string) => {
+    document.getElementById(`offer-${offerId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const getAvailableAddons = (offer: ServiceOffer) =>
+    availableOffers.filter((available) => getRelatedOfferIds(offer, 'addon').includes(available.id));
+
+  const renderPrerequisites = (offerIds: string[]) => (
+    <div className="bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-lg text-sm">
+      <p className="flex items-start gap-2">
+        <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>Requires an active subscription to {offerIds.map(getOfferTitle).join(' and ')}.</span>
+      </p>
+      {offerIds
+        .filter((offerId) => availableOffers.some((offer) => offer.id === offerId))
+        .map((offerId) => (
+          <button
+            key={offerId}
+            onClick={() => showOffer(offerId)}
+            className="mt-2 mr-3 text-sm font-medium text-amber-900 underline hover:no-underline"
+          >
+            View {getOfferTitle(offerId)}
+          </button>
+        ))}
+    </div>
+  );
+
+  const renderPrice = (offer: ServiceOffer, cycle: 'monthly' | 'yearly') => {
+    const { currency, ...prices } = getCustomerPricePoint(offer, profile?.currency);
+    const price = cycle === 'monthly' ? prices.price_monthly : prices.price_yearly;
+    const coupon = appliedCoupons[offer.id];
+    if (!coupon) {
+      return <span className="text-lg font-bold text-slate-900">{formatMoney(price, currency)}</span>;
+    }
+
+    return (
+      <span className="flex items-baseline gap-2">
+        <span className="text-sm text-slate-400 line-through">{formatMoney(price, currency)}</span>
+        <span className="text-lg font-bold text-green-700">{formatMoney(getDiscountedPrice(coupon, price), currency)}</span>
+      </span>
+    );
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'active':
         return <CheckCircle className="w-5 h-5 text-green-600" />;
       case 'pending':
         return <Clock className="w-5 h-5 text-amber-600" />;
+      case 'trialing':
+        return <Hourglass className="w-5 h-5 text-blue-600" />;
+      case 'past_due':
+        return <AlertCircle className="w-5 h-5 text-orange-600" />;
+      case 'paused':
+        return <PauseCircle className="w-5 h-5 text-slate-500" />;
       case 'cancelled':
         return <XCircle className="w-5 h-5 text-red-600" />;
+      case 'expired':
+        return <XCircle className="w-5 h-5 text-slate-400" />;
       default:
         return null;
     }
@@ -87,13 +436,17 @@ export function UserDashboard() {
     const classes = {
       active: 'bg-green-100 text-green-800',
       pending: 'bg-amber-100 text-amber-800',
+      trialing: 'bg-blue-100 text-blue-800',
+      past_due: 'bg-orange-100 text-orange-800',
+      paused: 'bg-slate-100 text-slate-700',
       cancelled: 'bg-red-100 text-red-800',
+      expired: 'bg-slate-100 text-slate-500',
     };
 
     return (
       <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium ${classes[status as keyof typeof classes]}`}>
         {getStatusIcon(status)}
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {getStatusLabel(status)}
       </span>
     );
   };
@@ -109,22 +462,104 @@ export function UserDashboard() {
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-slate-900 mb-2">Welcome back, {profile?.full_name}!</h1>
-        <p className="text-slate-600">{profile?.company_name}</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 mb-2">Welcome back, {profile?.full_name}!</h1>
+            {membership?.organizations && (
+              <p className="text-slate-600">
+                {membership.organizations.name} &middot; {ORGANIZATION_ROLE_LABELS[membership.role]}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            {membership?.organizations && (
+              <button
+                onClick={() => setShowOrganization(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 border border-slate-300 hover:bg-slate-50 rounded-lg transition-colors"
+              >
+                <Users className="w-4 h-4" />
+                Team
+              </button>
+            )}
+            {canBill && (
+              <button
+                onClick={() => setShowBillingProfile(true)}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 border border-slate-300 hover:bg-slate-50 rounded-lg transition-colors"
+              >
+                <Settings className="w-4 h-4" />
+                Billing Preferences
+              </button>
+            )}
+          </div>
+        </div>
+        {canBill && profile?.country && (
+          <p className="text-sm text-slate-500 mt-2">
+            Billing to {[profile.region, getCountryName(profile.country)].filter(Boolean).join(', ')}
+            {profile.currency && ` in ${profile.currency}`}
+          </p>
+        )}
       </div>
 
+      {invitations.length > 0 && (
+        <div className="mb-8 space-y-3">
+          {invitationError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {invitationError}
+            </div>
+          )}
+          {invitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-blue-50 border border-blue-200 px-4 py-3 rounded-lg"
+            >
+              <p className="flex items-center gap-2 text-sm text-blue-900">
+                <Mail className="w-4 h-4 flex-shrink-0" />
+                <span>
+                  You're invited to join <span className="font-medium">{invitation.organizations?.name}</span> as{' '}
+                  {ORGANIZATION_ROLE_LABELS[invitation.role].toLowerCase()}.
+                </span>
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleInvitation(invitation, false)}
+                  className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 bg-white hover:bg-slate-50 rounded-lg transition-colors"
+                >
+                  Decline
+                </button>
+                <button
+                  onClick={() => handleInvitation(invitation, true)}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+                >
+                  Join
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="mb-12">
         <h2 className="text-2xl font-bold text-slate-900 mb-6">Your Services</h2>
         {subscriptions.length === 0 ? (
           <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
             <Package className="w-12 h-12 text-slate-400 mx-auto mb-3" />
-            <p className="text-slate-600">You don't have any active services yet.</p>
-            <p className="text-sm text-slate-500 mt-1">Browse available services below to get started.</p>
+            <p className="text-slate-600">
+              {membership?.organizations ? `${organizationName} doesn't` : "You don't"} have any active services yet.
+            </p>
+            <p className="text-sm text-slate-500 mt-1">
+              {canBill ? 'Browse available services below to get started.' : 'Ask an owner or billing contact to subscribe to a service.'}
+            </p>
           </div>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
             {subscriptions.map((sub) => (
-              <div key={sub.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden hover:shadow-md transition-shadow">
+              <div
+                key={sub.id}
+                id={`subscription-${sub.id}`}
+                className={`bg-white rounded-xl shadow-sm border overflow-hidden hover:shadow-md transition-shadow ${
+                  sub.id === linkedSubscriptionId ? 'border-blue-500 ring-2 ring-blue-500' : 'border-slate-200'
+                }`}
+              >
                 {sub.service_offers?.product_image && (
                   <div className="h-48 w-full overflow-hidden bg-slate-100">
                     <img
@@ -136,22 +571,142 @@ export function UserDashboard() {
                 )}
                 <div className="p-6">
                   <div className="flex items-start justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-slate-900">{sub.service_offers?.title}</h3>
+                    <div>
+                      <h3 className="text-lg font-semibold text-slate-900">
+                        <Link to={{ name: 'subscription', subscriptionId: sub.id }} className="hover:text-blue-600">
+                          {getSubscriptionTitle(sub)}
+                        </Link>
+                      </h3>
+                      {sub.subscription_bundles?.service_bundles && (
+                        <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 bg-purple-50 text-purple-700 text-xs font-medium rounded-full">
+                          <Boxes className="w-3 h-3" />
+                          Part of {sub.subscription_bundles.service_bundles.title}
+                        </span>
+                      )}
+                    </div>
                     {getStatusBadge(sub.status)}
                   </div>
-                  <p className="text-slate-600 text-sm mb-4 line-clamp-2">{sub.service_offers?.description}</p>
+                  <Markdown
+                    source={(sub.offer_versions ?? sub.service_offers)?.description ?? ''}
+                    className="text-slate-600 text-sm mb-4 line-clamp-2"
+                  />
+                  {sub.status === 'pending' && (
+                    <div className="mb-4">
+                      {sub.payment_error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm mb-3">
+                          Payment failed: {sub.payment_error}
+                        </div>
+                      )}
+                      {canBill ? (
+                        <button
+                          onClick={() => openCheckout(sub)}
+                          className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                        >
+                          <CreditCard className="w-4 h-4" />
+                          {sub.payment_error ? 'Retry Payment' : 'Complete Payment'}
+                        </button>
+                      ) : (
+                        <p className="text-sm text-slate-500">Waiting for payment by an owner or billing contact.</p>
+                      )}
+                    </div>
+                  )}
                 <div className="space-y-2 text-sm">
                   <div className="flex items-center gap-2 text-slate-600">
                     <DollarSign className="w-4 h-4" />
                     <span>
-                      ${sub.billing_cycle === 'monthly' ? sub.service_offers?.price_monthly : sub.service_offers?.price_yearly} / {sub.billing_cycle}
+                      {formatMoney(getBilledPrice(sub), sub.currency)}{' '}
+                      / {sub.billing_cycle}
+                      {hasActiveDiscount(sub) && <span className="text-green-700"> (promo applied)</span>}
                     </span>
                   </div>
                   <div className="flex items-center gap-2 text-slate-600">
                     <Calendar className="w-4 h-4" />
-                    <span>Started {new Date(sub.started_at).toLocaleDateString()}</span>
+                    <span>
+                      Started {new Date(sub.started_at).toLocaleDateString()}
+                      {sub.user_id !== profile?.id && sub.profiles && ` by ${sub.profiles.full_name || sub.profiles.email}`}
+                    </span>
                   </div>
+                  {sub.next_billing_date && (sub.status === 'active' || sub.status === 'past_due') && (
+                    <div className="flex items-center gap-2 text-slate-600">
+                      <Calendar className="w-4 h-4" />
+                      <span>Next billing {new Date(sub.next_billing_date).toLocaleDateString()}</span>
+                    </div>
+                  )}
+                  {sub.status === 'trialing' && sub.trial_ends_at && (
+                    <div className="flex items-center gap-2 text-blue-700">
+                      <Hourglass className="w-4 h-4" />
+                      <span>
+                        Free trial ends {new Date(sub.trial_ends_at).toLocaleDateString()}
+                        {sub.cancel_at_period_end || sub.service_offers?.trial_end_behavior === 'expire'
+                          ? ', then access ends'
+                          : ', then billing starts'}
+                      </span>
+                    </div>
+                  )}
+                  {Number(sub.credit_balance) > 0 && (
+                    <div className="flex items-center gap-2 text-green-700">
+                      <DollarSign className="w-4 h-4" />
+                      <span>{formatMoney(sub.credit_balance, sub.currency)} credit toward your next invoice</span>
+                    </div>
+                  )}
                 </div>
+                  {sub.service_offers && sub.service_offers.offer_meters.length > 0 &&
+                    (sub.status === 'active' || sub.status === 'past_due') && (
+                    <div className="mt-4 pt-4 border-t border-slate-200 space-y-3">
+                      <p className="flex items-center gap-2 text-xs text-slate-500 font-medium">
+                        <Gauge className="w-4 h-4" />
+                        Usage this period
+                      </p>
+                      {summarizeUsage(
+                        sub.service_offers.offer_meters,
+                        usageRecords.filter((record) => record.subscription_id === sub.id),
+                        sub.service_offers.currency,
+                        sub.currency,
+                        sub.billing_cycle
+                      ).map((item) => (
+                        <div key={item.meter.id} className="text-sm">
+                          <div className="flex items-center justify-between text-slate-700">
+                            <span>{item.meter.name}</span>
+                            <span>
+                              {item.quantity}
+                              {item.included > 0 && <span className="text-slate-500"> / {item.included} included</span>}
+                            </span>
+                          </div>
+                          {item.included > 0 && (
+                            <div className="mt-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full rounded-full ${item.billable > 0 ? 'bg-amber-500' : 'bg-blue-600'}`}
+                                style={{ width: `${Math.min(100, (item.quantity / item.included) * 100)}%` }}
+                              />
+                            </div>
+                          )}
+                          {item.amount > 0 && (
+                            <p className="text-xs text-amber-700 mt-1">
+                              {formatMoney(item.amount, sub.currency)} for {item.billable} extra on your next invoice
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {sub.service_offers && PREREQUISITE_STATUSES.includes(sub.status) &&
+                    getAvailableAddons(sub.service_offers).length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-slate-200">
+                      <p className="text-xs text-slate-500 font-medium mb-2">Available add-ons</p>
+                      <div className="flex flex-wrap gap-2">
+                        {getAvailableAddons(sub.service_offers).map((addon) => (
+                          <button
+                            key={addon.id}
+                            onClick={() => showOffer(addon.id)}
+                            className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-full transition-colors"
+                          >
+                            <Plus className="w-3 h-3" />
+                            {addon.title}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   {(sub.service_offers?.product_link || sub.service_offers?.product_video) && (
                     <div className="flex gap-2 mt-4">
                       {sub.service_offers?.product_link && (
@@ -182,6 +737,82 @@ export function UserDashboard() {
                       <p className="text-sm text-slate-600">{sub.notes}</p>
                     </div>
                   )}
+                  {sub.customer_notes && (
+                    <div className="mt-4 pt-4 border-t border-slate-200">
+                      <p className="text-xs text-slate-500 font-medium mb-1">Your Notes:</p>
+                      <p className="text-sm text-slate-600">{sub.customer_notes}</p>
+                    </div>
+                  )}
+                  {sub.cancel_at_period_end ? (
+                    <div className="mt-4 bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-lg text-sm">
+                      {sub.status === 'trialing' && sub.trial_ends_at
+                        ? `Cancels when your trial ends on ${new Date(sub.trial_ends_at).toLocaleDateString()}`
+                        : sub.next_billing_date
+                        ? `Cancels on ${new Date(sub.next_billing_date).toLocaleDateString()}`
+                        : 'Cancels at the end of the current billing period'}
+                    </div>
+                  ) : sub.cancel_requested_at && sub.status !== 'cancelled' && (
+                    <div className="mt-4 bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-lg text-sm">
+                      Cancellation requested on {new Date(sub.cancel_requested_at).toLocaleDateString()}
+                    </div>
+                  )}
+                  {sub.pending_billing_cycle && (
+                    <div className="mt-4 bg-blue-50 border border-blue-200 text-blue-800 px-3 py-2 rounded-lg text-sm">
+                      Switches to {sub.pending_billing_cycle} billing
+                      {sub.next_billing_date ? ` on ${new Date(sub.next_billing_date).toLocaleDateString()}` : ' at the next billing date'}
+                    </div>
+                  )}
+                  {canBill && (
+                    <div className="flex flex-wrap gap-4 mt-4 pt-4 border-t border-slate-200">
+                      <button
+                        onClick={() => handleUpdateCustomerNotes(sub)}
+                        className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        {sub.customer_notes ? 'Edit Your Note' : 'Add a Note'}
+                      </button>
+                      {getAvailableActions(sub).map((action) => (
+                        <button
+                          key={action}
+                          onClick={() => setPendingAction({ subscription: sub, action })}
+                          className={`text-sm font-medium ${
+                            action === 'cancel' ? 'text-red-600 hover:text-red-700' : 'text-blue-600 hover:text-blue-700'
+                          }`}
+                        >
+                          {getActionLabel(sub, action)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="mt-4 pt-4 border-t border-slate-200">
+                    <div className="flex flex-wrap gap-4">
+                      <button
+                        onClick={() => setHistoryOpenFor(historyOpenFor === sub.id ? null : sub.id)}
+                        className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                      >
+                        <History className="w-4 h-4" />
+                        {historyOpenFor === sub.id ? 'Hide History' : 'View History'}
+                      </button>
+                      {canBill && (
+                        <button
+                          onClick={() => setDocumentsOpenFor(documentsOpenFor === sub.id ? null : sub.id)}
+                          className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 font-medium"
+                        >
+                          <FileText className="w-4 h-4" />
+                          {documentsOpenFor === sub.id ? 'Hide Invoices' : 'Invoices & Receipts'}
+                        </button>
+                      )}
+                    </div>
+                    {documentsOpenFor === sub.id && (
+                      <div className="mt-3">
+                        <InvoiceDocuments subscriptionId={sub.id} />
+                      </div>
+                    )}
+                    {historyOpenFor === sub.id && (
+                      <div className="mt-3">
+                        <SubscriptionHistory subscriptionId={sub.id} currentUserId={profile?.id} />
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
             ))}
@@ -189,108 +820,274 @@ export function UserDashboard() {
         )}
       </div>
 
-      <div>
-        <h2 className="text-2xl font-bold text-slate-900 mb-6">Available Services</h2>
-        {availableOffers.length === 0 ? (
-          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
-            <p className="text-slate-600">No new services available at this time.</p>
+      {membership && canBill && subscriptions.length > 0 && (
+        <div className="mb-12">
+          <h2 className="text-2xl font-bold text-slate-900 mb-6">Invoices</h2>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <InvoiceList organizationId={membership.organization_id} />
           </div>
-        ) : (
+        </div>
+      )}
+
+      {availableBundles.length > 0 && (
+        <div className="mb-12">
+          <h2 className="text-2xl font-bold text-slate-900 mb-6">Bundles</h2>
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {availableOffers.map((offer) => (
-              <div key={offer.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden hover:shadow-lg transition-all">
-                {offer.product_image && (
-                  <div className="h-48 w-full overflow-hidden bg-slate-100">
-                    <img
-                      src={offer.product_image}
-                      alt={offer.title}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                )}
-                <div className="p-6">
-                  <div className="mb-4">
-                    {offer.service_categories && (
-                      <span className="inline-block px-3 py-1 bg-blue-50 text-blue-700 text-xs font-medium rounded-full mb-3">
-                        {offer.service_categories.name}
+            {availableBundles.map((bundle) => {
+              const listMonthly = getBundleListPrice(bundle, 'monthly');
+              const listYearly = getBundleListPrice(bundle, 'yearly');
+              const renderBundlePrice = (price: number, listPrice: number | null) => (
+                <span className="flex items-baseline gap-2">
+                  {listPrice !== null && listPrice > price && (
+                    <span className="text-sm text-slate-400 line-through">{formatMoney(listPrice, bundle.currency)}</span>
+                  )}
+                  <span className="text-lg font-bold text-slate-900">{formatMoney(price, bundle.currency)}</span>
+                </span>
+              );
+
+              return (
+                <div
+                  key={bundle.id}
+                  className="bg-white rounded-xl shadow-sm border border-purple-200 overflow-hidden hover:shadow-lg transition-all"
+                >
+                  <div className="p-6">
+                    <div className="mb-4">
+                      <span className="inline-flex items-center gap-1 px-3 py-1 bg-purple-50 text-purple-700 text-xs font-medium rounded-full mb-3">
+                        <Boxes className="w-3 h-3" />
+                        Bundle
                       </span>
-                    )}
-                    <h3 className="text-xl font-bold text-slate-900 mb-2">{offer.title}</h3>
-                    <p className="text-slate-600 text-sm">{offer.description}</p>
-                  </div>
+                      <h3 className="text-xl font-bold text-slate-900 mb-2">{bundle.title}</h3>
+                      <p className="text-slate-600 text-sm">{bundle.description}</p>
+                    </div>
 
-                  {Array.isArray(offer.features) && offer.features.length > 0 && (
                     <ul className="space-y-2 mb-4">
-                      {offer.features.map((feature, idx) => (
-                        <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
+                      {sortBundleItems(bundle.bundle_offers).map((item) => (
+                        <li key={item.id} className="flex items-start gap-2 text-sm text-slate-700">
                           <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
-                          <span>{feature}</span>
+                          <span>{getBundleItemTitle(item)}</span>
                         </li>
                       ))}
                     </ul>
-                  )}
 
-                  {(offer.product_link || offer.product_video) && (
-                    <div className="flex gap-3 mb-4 pb-4 border-b border-slate-200">
-                      {offer.product_link && (
-                        <a
-                          href={offer.product_link}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
-                        >
-                          <ExternalLink className="w-4 h-4" />
-                          Learn More
-                        </a>
-                      )}
-                      {offer.product_video && (
+                    <div className="space-y-3 pt-4 border-t border-slate-200">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-slate-600">Monthly</span>
+                        {renderBundlePrice(getBundlePrice(bundle, 'monthly'), listMonthly)}
+                      </div>
+                      {canBill && (
                         <button
-                          onClick={() => setPlayingVideo({ url: offer.product_video!, title: offer.title })}
-                          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                          onClick={() => handleSubscribeToBundle(bundle, 'monthly')}
+                          disabled={subscribing === bundle.id}
+                          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
                         >
-                          <Play className="w-4 h-4" />
-                          Watch Demo
+                          {subscribing === bundle.id ? 'Subscribing...' : 'Subscribe Monthly'}
                         </button>
                       )}
-                    </div>
-                  )}
 
-                  <div className="space-y-3 pt-4 border-t border-slate-200">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-slate-600">Monthly</span>
-                      <span className="text-lg font-bold text-slate-900">${offer.price_monthly}</span>
+                      {getBundlePrice(bundle, 'yearly') > 0 && (
+                        <>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-slate-600">Yearly</span>
+                            {renderBundlePrice(getBundlePrice(bundle, 'yearly'), listYearly)}
+                          </div>
+                          {canBill && (
+                            <button
+                              onClick={() => handleSubscribeToBundle(bundle, 'yearly')}
+                              disabled={subscribing === bundle.id}
+                              className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              {subscribing === bundle.id ? 'Subscribing...' : 'Subscribe Yearly'}
+                            </button>
+                          )}
+                        </>
+                      )}
+                      {!canBill && renderSubscribeRestriction()}
+                      {customerTax.rate > 0 && (
+                        <p className="text-xs text-slate-500 text-center">
+                          Prices exclude {customerTax.label} ({customerTax.rate}%)
+                        </p>
+                      )}
                     </div>
-                    <button
-                      onClick={() => handleSubscribe(offer.id, 'monthly')}
-                      disabled={subscribing === offer.id}
-                      className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
-                    >
-                      {subscribing === offer.id ? 'Subscribing...' : 'Subscribe Monthly'}
-                    </button>
-
-                    {offer.price_yearly > 0 && (
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 mb-6">Available Services</h2>
+        {availableOffers.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+            <p className="text-slate-600">No new services available at this time.</p>
+          </div>
+        ) : (
+          <>
+            <CatalogToolbar
+              filters={filters}
+              categories={catalogCategories}
+              categoryCounts={catalog.categoryCounts}
+              resultCount={catalog.entries.length}
+              totalCount={availableOffers.length}
+              currency={getCustomerPricePoint(availableOffers[0], profile?.currency).currency}
+              onChange={setFilters}
+            />
+            {catalog.entries.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center">
+                <p className="text-slate-600">No services match these filters.</p>
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                {catalog.entries.map(({ offer }) => (
+                  <OfferCard
+                    key={offer.id}
+                    offer={offer}
+                    category={
+                      offer.service_categories && {
+                        ...offer.service_categories,
+                        name: getCategoryPath(categories, offer.service_categories.id),
+                      }
+                    }
+                    wide={offer.offer_tiers.length > 0}
+                    onPlayVideo={setPlayingVideo}
+                  >
+                    {getMissingPrerequisites(offer, subscriptions).length > 0 ? (
+                      renderPrerequisites(getMissingPrerequisites(offer, subscriptions))
+                    ) : !canBill ? (
+                      renderSubscribeRestriction()
+                    ) : (
                       <>
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-slate-600">Yearly</span>
-                          <span className="text-lg font-bold text-slate-900">${offer.price_yearly}</span>
-                        </div>
-                        <button
-                          onClick={() => handleSubscribe(offer.id, 'yearly')}
-                          disabled={subscribing === offer.id}
-                          className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
-                        >
-                          {subscribing === offer.id ? 'Subscribing...' : 'Subscribe Yearly'}
-                        </button>
+                        <CouponField
+                          offerId={offer.id}
+                          onChange={(coupon) => setAppliedCoupons((prev) => ({ ...prev, [offer.id]: coupon }))}
+                        />
+                        {offer.offer_tiers.length > 0 ? (
+                          <TierComparison
+                            currency={offer.currency}
+                            tiers={offer.offer_tiers}
+                            customerCurrency={profile?.currency}
+                            coupon={appliedCoupons[offer.id] ?? null}
+                            trialDays={offer.trial_days}
+                            subscribing={subscribing === offer.id}
+                            onSubscribe={(tierId, cycle) => handleSubscribe(offer.id, cycle, tierId)}
+                          />
+                        ) : (
+                          <>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-slate-600">Monthly</span>
+                              {renderPrice(offer, 'monthly')}
+                            </div>
+                            <button
+                              onClick={() => handleSubscribe(offer.id, 'monthly')}
+                              disabled={subscribing === offer.id}
+                              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              {subscribing === offer.id ? 'Subscribing...' : offer.trial_days > 0 ? 'Start Free Trial, Monthly' : 'Subscribe Monthly'}
+                            </button>
+
+                            {getCustomerPricePoint(offer, profile?.currency).price_yearly > 0 && (
+                              <>
+                                <div className="flex items-center justify-between">
+                                  <span className="text-sm text-slate-600">Yearly</span>
+                                  {renderPrice(offer, 'yearly')}
+                                </div>
+                                <button
+                                  onClick={() => handleSubscribe(offer.id, 'yearly')}
+                                  disabled={subscribing === offer.id}
+                                  className="w-full bg-slate-600 hover:bg-slate-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+                                >
+                                  {subscribing === offer.id ? 'Subscribing...' : offer.trial_days > 0 ? 'Start Free Trial, Yearly' : 'Subscribe Yearly'}
+                                </button>
+                              </>
+                            )}
+                          </>
+                        )}
                       </>
                     )}
-                  </div>
-                </div>
+                    {getAvailableAddons(offer).length > 0 && (
+                      <p className="text-xs text-slate-600">
+                        Add-ons available: {getAvailableAddons(offer).map((addon) => addon.title).join(', ')}
+                      </p>
+                    )}
+                    {offer.offer_meters.length > 0 && (
+                      <div className="text-xs text-slate-600 space-y-1">
+                        {offer.offer_meters.map((meter) => {
+                          const { currency } = getCustomerPricePoint(offer, profile?.currency);
+                          return (
+                            <p key={meter.id}>
+                              Plus {meter.name.toLowerCase()} at{' '}
+                              {formatMoney(getMeterUnitPrice(meter, offer.currency, currency) ?? 0, currency)} / {meter.unit}
+                              {Number(meter.included_units) > 0 && `, ${Number(meter.included_units)} included each month`}
+                            </p>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {customerTax.rate > 0 && (
+                      <p className="text-xs text-slate-500 text-center">
+                        Prices exclude {customerTax.label} ({customerTax.rate}%)
+                      </p>
+                    )}
+                  </OfferCard>
+                ))}
               </div>
-            ))}
-          </div>
+            )}
+          </>
         )}
       </div>
 
+      {checkout && (
+        <CheckoutModal
+          subscriptionId={checkout.subscriptionId}
+          title={checkout.title}
+          amount={checkout.amount}
+          currency={checkout.currency}
+          tax={customerTax}
+          billingCycle={checkout.billingCycle}
+          onClose={async () => {
+            setCheckout(null);
+            await fetchData();
+          }}
+          onComplete={async () => {
+            setCheckout(null);
+            await fetchData();
+          }}
+        />
+      )}
+
+      {pendingAction && pendingAction.action === 'change_plan' && (
+        <ChangePlanModal
+          subscription={pendingAction.subscription}
+          tax={customerTax}
+          onClose={() => setPendingAction(null)}
+          onComplete={handleActionComplete}
+        />
+      )}
+
+      {pendingAction && pendingAction.action !== 'change_plan' && (
+        <SubscriptionActionModal
+          subscription={pendingAction.subscription}
+          action={pendingAction.action}
+          onClose={() => setPendingAction(null)}
+          onComplete={handleActionComplete}
+        />
+      )}
+
+      {showOrganization && (
+        <OrganizationModal onClose={() => setShowOrganization(false)} />
+      )}
+
+      {showBillingProfile && (
+        <BillingProfileModal
+          onClose={() => setShowBillingProfile(false)}
+          onSave={async () => {
+            setShowBillingProfile(false);
+            await fetchData();
+          }}
+        />
+      )}
+
       {playingVideo && (
         <VideoModal
           url={playingVideo.url}
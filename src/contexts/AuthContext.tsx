@@ -2,16 +2,32 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import type { Database } from '../lib/database.types';
+import { loadMembership, type OrganizationMembership } from '../lib/organizations';
+import { getRouteUrl } from '../lib/routes';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
+  /** The customer's organization and role; null for admins without one */
+  membership: OrganizationMembership | null;
   session: Session | null;
   loading: boolean;
+  /** Signed in through a password reset link, so the next step is choosing a new password */
+  passwordRecovery: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName: string, companyName: string) => Promise<{ error: Error | null }>;
+  /** `confirmEmail` is set when the address must be confirmed before signing in */
+  signUp: (
+    email: string,
+    password: string,
+    fullName: string,
+    companyName: string
+  ) => Promise<{ error: Error | null; confirmEmail: boolean }>;
+  sendMagicLink: (email: string) => Promise<{ error: Error | null }>;
+  sendPasswordReset: (email: string) => Promise<{ error: Error | null }>;
+  resendConfirmation: (email: string) => Promise<{ error: Error | null }>;
+  updatePassword: (password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
@@ -21,8 +37,10 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [membership, setMembership] = useState<OrganizationMembership | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
 
   const fetchProfile = async (userId: string) => {
     const { data, error } = await supabase
@@ -32,6 +50,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       .maybeSingle();
 
     if (!error && data) {
+      setMembership(await loadMembership(userId).catch(() => null));
       setProfile(data);
       return data;
     }
@@ -56,12 +75,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       (async () => {
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        } else if (event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+          setPasswordRecovery(false);
+        }
         setSession(session);
         setUser(session?.user ?? null);
         if (session?.user) {
           await fetchProfile(session.user.id);
         } else {
           setProfile(null);
+          setMembership(null);
         }
         setLoading(false);
       })();
@@ -90,22 +115,74 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         options: {
           data: {
             full_name: fullName,
+            // Names the organization created for the new customer
+            company_name: companyName,
           },
+          emailRedirectTo: getRouteUrl({ name: 'authCallback' }),
         },
       });
 
-      if (error) return { error };
+      if (error) return { error, confirmEmail: false };
 
-      if (data.user) {
-        await supabase
-          .from('profiles')
-          .update({ company_name: companyName, full_name: fullName })
-          .eq('id', data.user.id);
+      // Without a session the project requires confirming the address first
+      if (!data.session) {
+        return { error: null, confirmEmail: true };
+      }
 
+      if (data.user) {
         await fetchProfile(data.user.id);
       }
 
-      return { error: null };
+      return { error: null, confirmEmail: false };
+    } catch (error) {
+      return { error: error as Error, confirmEmail: false };
+    }
+  };
+
+  const sendMagicLink = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          // Accounts are created by signing up, which asks for the name and company
+          shouldCreateUser: false,
+          emailRedirectTo: getRouteUrl({ name: 'authCallback' }),
+        },
+      });
+      return { error };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: getRouteUrl({ name: 'resetPassword' }),
+      });
+      return { error };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const resendConfirmation = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email,
+        options: { emailRedirectTo: getRouteUrl({ name: 'authCallback' }) },
+      });
+      return { error };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      return { error };
     } catch (error) {
       return { error: error as Error };
     }
@@ -114,15 +191,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     await supabase.auth.signOut();
     setProfile(null);
+    setMembership(null);
   };
 
   const value = {
     user,
     profile,
+    membership,
     session,
     loading,
+    passwordRecovery,
     signIn,
     signUp,
+    sendMagicLink,
+    sendPasswordReset,
+    resendConfirmation,
+    updatePassword,
     signOut,
     refreshProfile,
   };
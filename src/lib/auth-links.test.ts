@@ -0,0 +1,48 @@
+import { AuthApiError } from '@supabase/supabase-js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAuthLinkError, isEmailNotConfirmed, isUnknownAccount } from './auth-links';
+
+const stubLocation = (location: Partial<Location>) => {
+  vi.stubGlobal('window', { location: { hash: '', search: '', ...location } });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getAuthLinkError', () => {
+  it('reads the error from the hash', () => {
+    stubLocation({ hash: '#error=access_denied&error_code=otp_expired&error_description=Email+link+is+invalid' });
+    expect(getAuthLinkError()).toEqual({
+      code: 'otp_expired',
+      message: 'This link has expired or has already been used.',
+    });
+  });
+
+  it('reads the error from the query string', () => {
+    stubLocation({ search: '?error=server_error&error_description=Something+broke' });
+    expect(getAuthLinkError()).toEqual({ code: 'server_error', message: 'Something broke' });
+  });
+
+  it('returns null without an error', () => {
+    stubLocation({ hash: '#access_token=abc' });
+    expect(getAuthLinkError()).toBeNull();
+  });
+});
+
+describe('isEmailNotConfirmed', () => {
+  it('matches only the unconfirmed email error', () => {
+    expect(isEmailNotConfirmed(new AuthApiError('Email not confirmed', 400, 'email_not_confirmed'))).toBe(true);
+    expect(isEmailNotConfirmed(new AuthApiError('Invalid login credentials', 400, 'invalid_credentials'))).toBe(false);
+    expect(isEmailNotConfirmed(new Error('email_not_confirmed'))).toBe(false);
+    expect(isEmailNotConfirmed(null)).toBe(false);
+  });
+});
+
+describe('isUnknownAccount', () => {
+  it('matches sign-in links asked for an address without an account', () => {
+    expect(isUnknownAccount(new AuthApiError('Signups not allowed for otp', 422, 'otp_disabled'))).toBe(true);
+    expect(isUnknownAccount(new AuthApiError('User not found', 404, 'user_not_found'))).toBe(true);
+    expect(isUnknownAccount(new AuthApiError('Rate limited', 429, 'over_email_send_rate_limit'))).toBe(false);
+  });
+});
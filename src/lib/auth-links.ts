@@ -0,0 +1,45 @@
+import { isAuthError } from '@supabase/supabase-js';
+
+/**
+ * Links in auth emails (confirming an address, magic links and password
+ * resets) open the portal signed in. When a link has expired or was already
+ * used, Supabase Auth opens it with the error in the address instead.
+ */
+export interface AuthLinkError {
+  code: string;
+  message: string;
+}
+
+const LINK_ERROR_MESSAGES: Record<string, string> = {
+  otp_expired: 'This link has expired or has already been used.',
+  access_denied: 'This link is no longer valid.',
+  flow_state_expired: 'This link has expired.',
+};
+
+/** The error in the current address, from the hash or the query string */
+export const getAuthLinkError = (): AuthLinkError | null => {
+  const hash = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const query = new URLSearchParams(window.location.search);
+  const read = (key: string) => hash.get(key) ?? query.get(key);
+
+  const code = read('error_code') ?? read('error');
+  if (!code) return null;
+
+  return {
+    code,
+    message: LINK_ERROR_MESSAGES[code] ?? read('error_description') ?? 'This link could not be used.',
+  };
+};
+
+/** Whether signing in failed because the email address is not confirmed yet */
+export const isEmailNotConfirmed = (error: unknown): boolean => {
+  return isAuthError(error) && error.code === 'email_not_confirmed';
+};
+
+/**
+ * Whether a sign-in link was asked for an address without an account; links
+ * never create one. Shown like a sent link, so addresses cannot be probed.
+ */
+export const isUnknownAccount = (error: unknown): boolean => {
+  return isAuthError(error) && (error.code === 'otp_disabled' || error.code === 'user_not_found');
+};
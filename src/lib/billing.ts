@@ -0,0 +1,382 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import type { TaxSettings } from './business';
+import { changeSubscriptionStatus } from './subscription-lifecycle';
+import { getPricePoint, type PricedOffer } from './currency';
+import { loadTaxRates, resolveTaxRate } from './tax';
+import { getSubscribedPricing } from './offer-versions';
+import { getSubscriptionTitle } from './tiers';
+import { summarizeUsage, type MeterUsage, type PricedMeter } from './usage';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+/** The offer, or the version and tier of it a subscription was sold under */
+type BilledPricing = PricedOffer & Pick<ServiceOffer, 'title'>;
+type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'];
+type BillableSubscription = UserSubscription & {
+  coupons: Pick<Database['public']['Tables']['coupons']['Row'], 'code'> | null;
+  subscription_bundles: { service_bundles: Pick<Database['public']['Tables']['service_bundles']['Row'], 'title'> | null } | null;
+};
+
+export type BillingCycle = UserSubscription['billing_cycle'];
+
+export interface BillingPeriod {
+  index: number;
+  start: Date;
+  end: Date;
+}
+
+export interface BillingRunResult {
+  subscriptionsBilled: number;
+  invoicesCreated: number;
+  trialsEnded: number;
+  errors: string[];
+}
+
+const CYCLE_MONTHS: Record<BillingCycle, number> = {
+  monthly: 1,
+  yearly: 12,
+};
+
+export const roundCurrency = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+export const getCyclePrice = (
+  offer: Pick<ServiceOffer, 'price_monthly' | 'price_yearly'>,
+  cycle: BillingCycle
+): number => {
+  return Number(cycle === 'monthly' ? offer.price_monthly : offer.price_yearly);
+};
+
+/**
+ * Whether the subscription's coupon still discounts the next billing period.
+ */
+export const hasActiveDiscount = (
+  subscription: Pick<UserSubscription, 'coupon_id' | 'discounted_price' | 'discount_periods_remaining'>
+): boolean => {
+  return (
+    subscription.coupon_id !== null &&
+    subscription.discounted_price !== null &&
+    (subscription.discount_periods_remaining === null || subscription.discount_periods_remaining > 0)
+  );
+};
+
+/**
+ * The price charged for the subscription's next billing period, after any
+ * coupon discount. Services in a bundle are charged their share of the
+ * bundle price.
+ */
+export const getSubscriptionPrice = (
+  subscription: Pick<
+    UserSubscription,
+    'billing_cycle' | 'coupon_id' | 'discounted_price' | 'discount_periods_remaining' | 'bundle_price'
+  >,
+  offer: Pick<ServiceOffer, 'price_monthly' | 'price_yearly'>
+): number => {
+  if (hasActiveDiscount(subscription)) {
+    return Number(subscription.discounted_price);
+  }
+  if (subscription.bundle_price !== null) {
+    return Number(subscription.bundle_price);
+  }
+  return getCyclePrice(offer, subscription.billing_cycle);
+};
+
+/**
+ * Adds whole months in UTC, clamping to the last day of shorter months so an
+ * anchor on the 31st bills on Feb 28/29 and returns to the 31st afterwards.
+ */
+export const addMonthsClamped = (anchor: Date, months: number): Date => {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(anchor.getUTCDate(), lastDayOfMonth),
+    anchor.getUTCHours(),
+    anchor.getUTCMinutes(),
+    anchor.getUTCSeconds(),
+    anchor.getUTCMilliseconds()
+  ));
+};
+
+export const getPeriodStart = (anchor: Date, cycle: BillingCycle, index: number): Date => {
+  return addMonthsClamped(anchor, index * CYCLE_MONTHS[cycle]);
+};
+
+/**
+ * Returns the billing period containing `at`, counting periods from the
+ * subscription anchor. Dates before the anchor fall in the first period.
+ */
+export const getBillingPeriodAt = (anchor: Date, cycle: BillingCycle, at: Date): BillingPeriod => {
+  const monthsElapsed =
+    (at.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (at.getUTCMonth() - anchor.getUTCMonth());
+  let index = Math.max(0, Math.floor(monthsElapsed / CYCLE_MONTHS[cycle]));
+
+  while (index > 0 && getPeriodStart(anchor, cycle, index) > at) {
+    index--;
+  }
+  while (getPeriodStart(anchor, cycle, index + 1) <= at) {
+    index++;
+  }
+
+  return {
+    index,
+    start: getPeriodStart(anchor, cycle, index),
+    end: getPeriodStart(anchor, cycle, index + 1),
+  };
+};
+
+/**
+ * Totals the subscription's usage recorded before `periodStart` that has not
+ * been invoiced yet, so usage is billed in arrears on the next invoice. Usage
+ * can span a plan change, so each meter is priced from its own offer.
+ */
+const loadUsageCharges = async (
+  subscription: BillableSubscription,
+  periodStart: Date
+): Promise<{ recordIds: string[]; usage: MeterUsage[] }> => {
+  const { data: records, error } = await supabase
+    .from('usage_records')
+    .select('*, offer_meters(*, offer_meter_prices(*), service_offers(currency))')
+    .eq('subscription_id', subscription.id)
+    .is('invoice_id', null)
+    .lt('recorded_at', periodStart.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  const meters = new Map<string, { meter: PricedMeter; offerCurrency: string }>();
+  for (const record of records || []) {
+    if (record.offer_meters && !meters.has(record.meter_id)) {
+      meters.set(record.meter_id, {
+        meter: record.offer_meters,
+        offerCurrency: record.offer_meters.service_offers?.currency ?? subscription.currency,
+      });
+    }
+  }
+
+  const usage = [...meters.values()].flatMap(({ meter, offerCurrency }) =>
+    summarizeUsage([meter], records || [], offerCurrency, subscription.currency, subscription.billing_cycle)
+  );
+  const unpriced = usage.find((item) => item.billable > 0 && item.unitPrice === null);
+  if (unpriced) {
+    throw new Error(`${unpriced.meter.name} has no ${subscription.currency} price for subscription ${subscription.id}`);
+  }
+
+  return { recordIds: (records || []).map((record) => record.id), usage };
+};
+
+/**
+ * Invoices one period in the subscription's currency, applying the coupon or
+ * bundle discount, usage charges from the previous period, any account credit
+ * left over from a prorated downgrade and the customer's tax rate. The period
+ * is priced here and written by `create_invoice` in one transaction. Returns
+ * the subscription with its remaining discount and credit, or null when the
+ * period was already invoiced.
+ */
+const createInvoice = async (
+  subscription: BillableSubscription,
+  pricing: BilledPricing,
+  tax: TaxSettings,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<BillableSubscription | null> => {
+  const prices = getPricePoint(pricing, subscription.currency);
+  if (!prices) {
+    throw new Error(`${pricing.title} has no ${subscription.currency} price for subscription ${subscription.id}`);
+  }
+
+  const price = roundCurrency(getSubscriptionPrice(subscription, prices));
+  // A bundle share can exceed the offer's price after the offer gets cheaper
+  const listPrice = roundCurrency(Math.max(getCyclePrice(prices, subscription.billing_cycle), price));
+  const { recordIds, usage } = await loadUsageCharges(subscription, periodStart);
+  const cycleLabel = subscription.billing_cycle === 'monthly' ? 'Monthly' : 'Yearly';
+  const bundle = subscription.subscription_bundles?.service_bundles;
+
+  const { data: invoice, error } = await supabase.rpc('create_invoice', {
+    subscription_id: subscription.id,
+    period_start: periodStart.toISOString(),
+    period_end: periodEnd.toISOString(),
+    description: `${pricing.title} (${cycleLabel})`,
+    list_price: listPrice,
+    price,
+    discount_description: bundle ? `Bundle discount (${bundle.title})` : `Discount (${subscription.coupons?.code ?? 'coupon'})`,
+    usage_lines: usage.map((item) => ({
+      description: item.included > 0
+        ? `${item.meter.name}: ${item.quantity} used, ${item.included} included`
+        : `${item.meter.name} (per ${item.meter.unit})`,
+      quantity: item.billable,
+      unit_price: item.unitPrice ?? 0,
+      amount: item.amount,
+    })),
+    usage_record_ids: recordIds,
+    tax_label: tax.label,
+    tax_rate: tax.rate,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create invoice: ${error.message}`);
+  }
+
+  // Already invoiced by an earlier run; composite results come back as a row
+  // of nulls when nothing is returned
+  if (!invoice?.id) return null;
+
+  // Read back the row for the credit and discount periods the invoice used up
+  const { data, error: reloadError } = await supabase
+    .from('user_subscriptions')
+    .select()
+    .eq('id', subscription.id)
+    .single();
+
+  if (reloadError) {
+    throw new Error(`Failed to reload subscription: ${reloadError.message}`);
+  }
+
+  return { ...subscription, ...data };
+};
+
+/**
+ * Applies a scheduled billing cycle switch from `periodStart`, which becomes
+ * the new anchor that billing periods are counted from.
+ */
+const switchBillingCycle = async (
+  subscription: BillableSubscription,
+  cycle: BillingCycle,
+  periodStart: Date
+): Promise<BillableSubscription> => {
+  // Read back the row so the coupon discount re-priced for the new cycle is used
+  const { data, error } = await supabase
+    .from('user_subscriptions')
+    .update({
+      billing_cycle: cycle,
+      pending_billing_cycle: null,
+      billing_anchor_at: periodStart.toISOString(),
+    })
+    .eq('id', subscription.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to switch billing cycle: ${error.message}`);
+  }
+
+  return { ...subscription, ...data };
+};
+
+/**
+ * Ends every trial that has run out. Depending on the offer the subscription
+ * becomes active, with its first period starting at the trial end, or expires.
+ * A cancellation scheduled during the trial takes effect instead.
+ */
+const endTrials = async (asOf: Date, result: BillingRunResult) => {
+  const { data: trials, error } = await supabase
+    .from('user_subscriptions')
+    .select('*, service_offers(*)')
+    .eq('status', 'trialing')
+    .lte('trial_ends_at', asOf.toISOString());
+
+  if (error) {
+    console.error('Billing Run Error:', error);
+    throw new Error(`Failed to load ending trials: ${error.message}`);
+  }
+
+  for (const trial of trials || []) {
+    try {
+      if (trial.cancel_at_period_end) {
+        await changeSubscriptionStatus(trial.id, 'cancelled', 'Cancelled at the end of the trial');
+      } else if (trial.service_offers?.trial_end_behavior === 'expire') {
+        await changeSubscriptionStatus(trial.id, 'expired', 'Trial ended');
+      } else {
+        await changeSubscriptionStatus(trial.id, 'active', 'Trial ended, billing started');
+      }
+      result.trialsEnded++;
+    } catch (err) {
+      result.errors.push(err instanceof Error ? err.message : `Failed to end trial ${trial.id}`);
+    }
+  }
+};
+
+/**
+ * Invoices every active or past-due subscription whose next billing date has
+ * passed, one invoice per elapsed period, and advances `next_billing_date`.
+ * Scheduled cancellations and billing cycle switches take effect at the first
+ * period boundary reached. Safe to re-run: a period that already has an
+ * invoice is skipped.
+ *
+ * Trials that have ended are converted or expired first, so a converted
+ * trial is invoiced in the same run.
+ */
+export const runBilling = async (asOf: Date = new Date()): Promise<BillingRunResult> => {
+  const result: BillingRunResult = { subscriptionsBilled: 0, invoicesCreated: 0, trialsEnded: 0, errors: [] };
+
+  await endTrials(asOf, result);
+
+  const taxRates = await loadTaxRates();
+  const { data: subscriptions, error } = await supabase
+    .from('user_subscriptions')
+    .select('*, service_offers(*, offer_prices(*)), offer_versions(*, offer_prices:offer_version_prices(*)), coupons(code), subscription_bundles(service_bundles(title)), profiles(country, region)')
+    .in('status', ['active', 'past_due'])
+    .lte('next_billing_date', asOf.toISOString());
+
+  if (error) {
+    console.error('Billing Run Error:', error);
+    throw new Error(`Failed to load subscriptions for billing: ${error.message}`);
+  }
+
+  for (const subscription of subscriptions || []) {
+    const offer = subscription.service_offers;
+    if (!offer || !subscription.next_billing_date) {
+      result.errors.push(`Subscription ${subscription.id} has no offer or billing date`);
+      continue;
+    }
+
+    try {
+      if (subscription.cancel_at_period_end) {
+        await changeSubscriptionStatus(subscription.id, 'cancelled', 'Cancelled at the end of the billing period');
+        result.subscriptionsBilled++;
+        continue;
+      }
+
+      const tax = resolveTaxRate(taxRates, subscription.profiles?.country ?? null, subscription.profiles?.region ?? null);
+      const pricing = { ...(getSubscribedPricing(subscription) ?? offer), title: getSubscriptionTitle(subscription) };
+      let current: BillableSubscription = subscription;
+      let anchor = new Date(subscription.billing_anchor_at ?? subscription.started_at);
+      let periodStart = new Date(subscription.next_billing_date);
+
+      if (current.pending_billing_cycle) {
+        current = await switchBillingCycle(current, current.pending_billing_cycle, periodStart);
+        anchor = periodStart;
+      }
+
+      while (periodStart <= asOf) {
+        const { end } = getBillingPeriodAt(anchor, current.billing_cycle, periodStart);
+        const invoiced = await createInvoice(current, pricing, tax, periodStart, end);
+        if (invoiced) {
+          current = invoiced;
+          result.invoicesCreated++;
+        }
+        periodStart = end;
+      }
+
+      const { error: updateError } = await supabase
+        .from('user_subscriptions')
+        .update({ next_billing_date: periodStart.toISOString() })
+        .eq('id', subscription.id);
+
+      if (updateError) {
+        throw new Error(`Failed to advance billing date: ${updateError.message}`);
+      }
+
+      result.subscriptionsBilled++;
+    } catch (err) {
+      result.errors.push(err instanceof Error ? err.message : `Failed to bill subscription ${subscription.id}`);
+    }
+  }
+
+  return result;
+};
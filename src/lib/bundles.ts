@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { getPricePoint, type PricedOffer } from './currency';
+import { getTierPricing, type PricedTier } from './tiers';
+import type { BillingCycle } from './subscription-lifecycle';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type ServiceBundle = Database['public']['Tables']['service_bundles']['Row'];
+type BundleOffer = Database['public']['Tables']['bundle_offers']['Row'];
+type SubscriptionBundle = Database['public']['Tables']['subscription_bundles']['Row'];
+
+export type BundleItem = BundleOffer & {
+  service_offers: (PricedOffer & Pick<ServiceOffer, 'title' | 'description' | 'is_active'>) | null;
+  offer_tiers: PricedTier | null;
+};
+
+export type PricedBundle = ServiceBundle & {
+  bundle_offers: BundleItem[];
+};
+
+/** An offer that can be added to a bundle, with the tiers it can be bundled in */
+export type BundleOfferOption = NonNullable<BundleItem['service_offers']> & {
+  id: string;
+  offer_tiers: PricedTier[];
+};
+
+/** Selects a bundle with its offers and their prices, for `PricedBundle` */
+export const BUNDLE_SELECT =
+  '*, bundle_offers(*, service_offers(title, description, is_active, currency, price_monthly, price_yearly, offer_prices(*)), offer_tiers(*, offer_tier_prices(*)))';
+
+export const sortBundleItems = (items: BundleItem[]): BundleItem[] => {
+  return [...items].sort((a, b) => a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at));
+};
+
+/** "Offer - Tier" for an item that includes a tier of a tiered offer */
+export const getBundleItemTitle = (item: BundleItem): string => {
+  const title = item.service_offers?.title ?? '';
+  return item.offer_tiers ? `${title} - ${item.offer_tiers.name}` : title;
+};
+
+/**
+ * What the bundle's services would cost separately in the bundle's currency,
+ * or null when one of them is not priced in it.
+ */
+export const getBundleListPrice = (
+  bundle: Pick<ServiceBundle, 'currency'> & { bundle_offers: Pick<BundleItem, 'service_offers' | 'offer_tiers'>[] },
+  cycle: BillingCycle
+): number | null => {
+  let total = 0;
+
+  for (const item of bundle.bundle_offers) {
+    if (!item.service_offers) return null;
+    const pricing = item.offer_tiers
+      ? getTierPricing(item.service_offers.currency, item.offer_tiers)
+      : item.service_offers;
+    const prices = getPricePoint(pricing, bundle.currency);
+    if (!prices) return null;
+    total += cycle === 'monthly' ? prices.price_monthly : prices.price_yearly;
+  }
+
+  return total;
+};
+
+export const getBundlePrice = (bundle: Pick<ServiceBundle, 'price_monthly' | 'price_yearly'>, cycle: BillingCycle): number => {
+  return Number(cycle === 'monthly' ? bundle.price_monthly : bundle.price_yearly);
+};
+
+/**
+ * Subscribes the current user to every service in the bundle. The
+ * subscriptions start pending and are checked out together.
+ */
+export const subscribeToBundle = async (bundleId: string, cycle: BillingCycle): Promise<SubscriptionBundle> => {
+  const { data, error } = await supabase.rpc('subscribe_to_bundle', { bundle_id: bundleId, cycle });
+
+  if (error) {
+    console.error('Subscribe To Bundle Error:', error);
+    throw new Error(error.message || 'Failed to subscribe to bundle');
+  }
+
+  return data;
+};
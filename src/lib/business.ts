@@ -0,0 +1,25 @@
+export interface BusinessDetails {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  taxId: string;
+}
+
+export interface TaxSettings {
+  label: string;
+  rate: number;
+}
+
+export const businessDetails: BusinessDetails = {
+  name: import.meta.env.VITE_BUSINESS_NAME || 'Business Services Portal',
+  address: import.meta.env.VITE_BUSINESS_ADDRESS || '',
+  email: import.meta.env.VITE_BUSINESS_EMAIL || '',
+  phone: import.meta.env.VITE_BUSINESS_PHONE || '',
+  taxId: import.meta.env.VITE_BUSINESS_TAX_ID || '',
+};
+
+export const defaultTax: TaxSettings = {
+  label: import.meta.env.VITE_TAX_LABEL || 'Tax',
+  rate: parseFloat(import.meta.env.VITE_TAX_RATE || '0') || 0,
+};
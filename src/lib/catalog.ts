@@ -0,0 +1,194 @@
+import type { Database } from './database.types';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+
+export type CatalogSort = 'relevance' | 'price_asc' | 'price_desc' | 'title' | 'newest';
+
+export interface CatalogFilters {
+  query: string;
+  categoryIds: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  sort: CatalogSort;
+}
+
+export type SearchableOffer = Pick<ServiceOffer, 'id' | 'title' | 'description' | 'features' | 'category_id' | 'created_at'> & {
+  service_categories?: { name: string } | null;
+  offer_tiers?: { name: string; description: string; features: string[] }[];
+};
+
+export interface CatalogEntry<T extends SearchableOffer> {
+  offer: T;
+  /** Monthly price the customer would pay, in the currency shown to them */
+  price: number;
+  /** The offer's category followed by that category's ancestors */
+  categoryIds: string[];
+  titleWords: string[];
+  words: string[];
+}
+
+export interface CatalogResult<T extends SearchableOffer> {
+  entries: CatalogEntry<T>[];
+  /**
+   * Matches per category id, ignoring the category filter. Offers count
+   * towards their category's ancestors too; '' counts uncategorized offers.
+   */
+  categoryCounts: Record<string, number>;
+}
+
+export const CATALOG_SORTS: { value: CatalogSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'title', label: 'Name' },
+  { value: 'newest', label: 'Newest' },
+];
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  query: '',
+  categoryIds: [],
+  minPrice: null,
+  maxPrice: null,
+  sort: 'relevance',
+};
+
+// Case and accent insensitive words, so "cafe" finds "Café"
+const tokenize = (text: string): string[] => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+};
+
+const parsePrice = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+export const parseCatalogFilters = (search: string): CatalogFilters => {
+  const params = new URLSearchParams(search);
+  const sort = params.get('sort');
+
+  return {
+    query: params.get('q') ?? '',
+    categoryIds: params.getAll('category'),
+    minPrice: parsePrice(params.get('min')),
+    maxPrice: parsePrice(params.get('max')),
+    sort: CATALOG_SORTS.some((option) => option.value === sort) ? (sort as CatalogSort) : DEFAULT_CATALOG_FILTERS.sort,
+  };
+};
+
+/** The filters as a query string, empty when nothing is filtered */
+export const toCatalogSearch = (filters: CatalogFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  filters.categoryIds.forEach((id) => params.append('category', id));
+  if (filters.minPrice !== null) params.set('min', String(filters.minPrice));
+  if (filters.maxPrice !== null) params.set('max', String(filters.maxPrice));
+  if (filters.sort !== DEFAULT_CATALOG_FILTERS.sort) params.set('sort', filters.sort);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export const hasCatalogFilters = (filters: CatalogFilters): boolean => {
+  return (
+    filters.query.trim() !== '' ||
+    filters.categoryIds.length > 0 ||
+    filters.minPrice !== null ||
+    filters.maxPrice !== null
+  );
+};
+
+/**
+ * Splits every offer into searchable words once, so filtering on each
+ * keystroke only compares words. Covers the title, description, category,
+ * features, and each tier's name, description and features.
+ * `getCategoryIds` lists the categories an offer belongs to, so selecting a
+ * parent category also finds offers in its sub-categories.
+ */
+export const buildCatalogIndex = <T extends SearchableOffer>(
+  offers: T[],
+  getPrice: (offer: T) => number,
+  getCategoryIds: (offer: T) => string[] = (offer) => [offer.category_id ?? '']
+): CatalogEntry<T>[] => {
+  return offers.map((offer) => {
+    const tierText = (offer.offer_tiers ?? []).flatMap((tier) => [tier.name, tier.description, ...tier.features]);
+    const text = [offer.description, offer.service_categories?.name ?? '', ...offer.features, ...tierText].join(' ');
+    const titleWords = tokenize(offer.title);
+
+    return {
+      offer,
+      price: getPrice(offer),
+      categoryIds: getCategoryIds(offer),
+      titleWords,
+      words: [...new Set([...titleWords, ...tokenize(text)])],
+    };
+  });
+};
+
+/**
+ * How well an entry matches every search term, 0 when a term is missing.
+ * Terms match the start of words; title matches count for more.
+ */
+const scoreEntry = (entry: CatalogEntry<SearchableOffer>, terms: string[]): number => {
+  let score = 0;
+  for (const term of terms) {
+    if (entry.titleWords.some((word) => word.startsWith(term))) {
+      score += entry.titleWords.includes(term) ? 4 : 3;
+    } else if (entry.words.some((word) => word.startsWith(term))) {
+      score += entry.words.includes(term) ? 2 : 1;
+    } else {
+      return 0;
+    }
+  }
+  return score;
+};
+
+export const searchCatalog = <T extends SearchableOffer>(
+  index: CatalogEntry<T>[],
+  filters: CatalogFilters
+): CatalogResult<T> => {
+  const terms = tokenize(filters.query);
+  const scores = new Map<CatalogEntry<T>, number>();
+  const categoryCounts: Record<string, number> = {};
+  const entries: CatalogEntry<T>[] = [];
+
+  for (const entry of index) {
+    const score = terms.length > 0 ? scoreEntry(entry, terms) : 0;
+    if (terms.length > 0 && score === 0) continue;
+    if (filters.minPrice !== null && entry.price < filters.minPrice) continue;
+    if (filters.maxPrice !== null && entry.price > filters.maxPrice) continue;
+
+    entry.categoryIds.forEach((id) => {
+      categoryCounts[id] = (categoryCounts[id] ?? 0) + 1;
+    });
+    if (filters.categoryIds.length > 0 && !entry.categoryIds.some((id) => filters.categoryIds.includes(id))) continue;
+
+    scores.set(entry, score);
+    entries.push(entry);
+  }
+
+  const byTitle = (a: CatalogEntry<T>, b: CatalogEntry<T>) => a.offer.title.localeCompare(b.offer.title);
+  switch (filters.sort) {
+    case 'price_asc':
+      entries.sort((a, b) => a.price - b.price || byTitle(a, b));
+      break;
+    case 'price_desc':
+      entries.sort((a, b) => b.price - a.price || byTitle(a, b));
+      break;
+    case 'newest':
+      entries.sort((a, b) => b.offer.created_at.localeCompare(a.offer.created_at) || byTitle(a, b));
+      break;
+    case 'title':
+      entries.sort(byTitle);
+      break;
+    default:
+      entries.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0) || byTitle(a, b));
+  }
+
+  return { entries, categoryCounts };
+};
@@ -0,0 +1,117 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+type TreeCategory = Pick<Category, 'id' | 'name' | 'parent_id' | 'sort_order'>;
+
+export interface CategoryNode<T extends TreeCategory = Category> {
+  category: T;
+  /** 0 for top level categories */
+  depth: number;
+  children: CategoryNode<T>[];
+}
+
+/** Icons offered in the category form, stored by name in service_categories.icon */
+export const CATEGORY_ICON_NAMES = [
+  'tag',
+  'briefcase',
+  'cloud',
+  'code',
+  'graduation-cap',
+  'headphones',
+  'heart',
+  'line-chart',
+  'megaphone',
+  'palette',
+  'shield',
+  'shopping-cart',
+  'wrench',
+] as const;
+
+export type CategoryIconName = (typeof CATEGORY_ICON_NAMES)[number];
+
+/** Badge colours offered in the category form */
+export const CATEGORY_COLORS = [
+  '#2563eb',
+  '#0891b2',
+  '#059669',
+  '#65a30d',
+  '#d97706',
+  '#dc2626',
+  '#db2777',
+  '#7c3aed',
+  '#475569',
+];
+
+export const loadCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase.from('service_categories').select('*').order('sort_order').order('name');
+
+  if (error) {
+    console.error('Categories Fetch Error:', error);
+    throw new Error(`Failed to load categories: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/** Saves the order of sibling categories, first to last */
+export const reorderCategories = async (categoryIds: string[]): Promise<void> => {
+  const { error } = await supabase.rpc('reorder_categories', { category_ids: categoryIds });
+
+  if (error) {
+    console.error('Reorder Categories Error:', error);
+    throw new Error(error.message || 'Failed to reorder categories');
+  }
+};
+
+/**
+ * Nests categories under their parents, each level in display order.
+ * Categories whose parent is missing are treated as top level.
+ */
+export const buildCategoryTree = <T extends TreeCategory>(categories: T[]): CategoryNode<T>[] => {
+  const ids = new Set(categories.map((category) => category.id));
+  const sorted = [...categories].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+  const childrenOf = (parentId: string | null, depth: number): CategoryNode<T>[] => {
+    return sorted
+      .filter((category) => (category.parent_id && ids.has(category.parent_id) ? category.parent_id : null) === parentId)
+      .map((category) => ({ category, depth, children: childrenOf(category.id, depth + 1) }));
+  };
+
+  return childrenOf(null, 0);
+};
+
+/** The tree as a list, each category followed by its sub-categories */
+export const flattenCategoryTree = <T extends TreeCategory>(nodes: CategoryNode<T>[]): CategoryNode<T>[] => {
+  return nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+};
+
+/** The category's id followed by the ids of its parent, grandparent and so on */
+export const getCategoryAncestorIds = (categories: TreeCategory[], categoryId: string): string[] => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const ids: string[] = [];
+
+  let current = byId.get(categoryId);
+  while (current && !ids.includes(current.id)) {
+    ids.push(current.id);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return ids.length > 0 ? ids : [categoryId];
+};
+
+/** Ids of every category nested anywhere below `categoryId` */
+export const getCategoryDescendantIds = (categories: TreeCategory[], categoryId: string): string[] => {
+  const children = categories.filter((category) => category.parent_id === categoryId);
+  return children.flatMap((child) => [child.id, ...getCategoryDescendantIds(categories, child.id)]);
+};
+
+/** "Parent › Child" for nested categories */
+export const getCategoryPath = (categories: TreeCategory[], categoryId: string): string => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  return getCategoryAncestorIds(categories, categoryId)
+    .reverse()
+    .map((id) => byId.get(id)?.name ?? '')
+    .join(' › ');
+};
@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { roundCurrency } from './billing';
+import { formatMoney } from './currency';
+
+type Coupon = Database['public']['Tables']['coupons']['Row'];
+
+export type CouponDiscount = Pick<
+  Coupon,
+  'id' | 'code' | 'discount_type' | 'discount_value' | 'duration' | 'duration_months' | 'currency'
+>;
+
+export const normalizeCouponCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
+
+// Mirrors coupon_discounted_price() in the database, which prices the subscription.
+export const getDiscountedPrice = (
+  coupon: Pick<Coupon, 'discount_type' | 'discount_value'>,
+  price: number
+): number => {
+  const value = Number(coupon.discount_value);
+
+  if (coupon.discount_type === 'percent') {
+    return roundCurrency(price * (100 - value) / 100);
+  }
+  return Math.max(0, roundCurrency(price - value));
+};
+
+export const describeCoupon = (
+  coupon: Pick<Coupon, 'discount_type' | 'discount_value' | 'duration' | 'duration_months' | 'currency'>
+): string => {
+  const amount =
+    coupon.discount_type === 'percent'
+      ? `${Number(coupon.discount_value)}% off`
+      : `${formatMoney(coupon.discount_value, coupon.currency ?? 'USD')} off`;
+
+  switch (coupon.duration) {
+    case 'once':
+      return `${amount} the first billing period`;
+    case 'repeating':
+      return `${amount} for ${coupon.duration_months} ${coupon.duration_months === 1 ? 'month' : 'months'}`;
+    default:
+      return `${amount} for as long as you subscribe`;
+  }
+};
+
+export const validateCoupon = async (code: string, offerId: string): Promise<CouponDiscount> => {
+  const { data, error } = await supabase.rpc('validate_coupon', {
+    coupon_code: normalizeCouponCode(code),
+    offer_id: offerId,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) {
+    throw new Error('This code is not valid');
+  }
+
+  return data[0];
+};
@@ -0,0 +1,66 @@
+import type { Database } from './database.types';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type OfferPrice = Database['public']['Tables']['offer_prices']['Row'];
+
+export interface CurrencyOption {
+  code: string;
+  label: string;
+}
+
+export interface PricePoint {
+  currency: string;
+  price_monthly: number;
+  price_yearly: number;
+}
+
+export type PricedOffer = Pick<ServiceOffer, 'currency' | 'price_monthly' | 'price_yearly'> & {
+  offer_prices?: Pick<OfferPrice, 'currency' | 'price_monthly' | 'price_yearly'>[] | null;
+};
+
+export const CURRENCIES: CurrencyOption[] = [
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'CAD', label: 'Canadian Dollar' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'AUD', label: 'Australian Dollar' },
+];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const formatMoney = (amount: number | string, currency: string, locale?: string): string => {
+  const code = currency.toUpperCase();
+  const key = `${locale ?? ''}:${code}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency: code });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(Number(amount));
+};
+
+/**
+ * The offer's prices in `currency`, or null when it is not offered in it.
+ * Mirrors offer_price() in the database.
+ */
+export const getPricePoint = (offer: PricedOffer, currency: string): PricePoint | null => {
+  if (offer.currency === currency) {
+    return { currency, price_monthly: Number(offer.price_monthly), price_yearly: Number(offer.price_yearly) };
+  }
+
+  const price = offer.offer_prices?.find((p) => p.currency === currency);
+  return price
+    ? { currency, price_monthly: Number(price.price_monthly), price_yearly: Number(price.price_yearly) }
+    : null;
+};
+
+/**
+ * The prices a customer preferring `currency` would subscribe at, falling back
+ * to the offer's own currency. Mirrors customer_currency() in the database.
+ */
+export const getCustomerPricePoint = (offer: PricedOffer, currency: string | null | undefined): PricePoint => {
+  return (
+    (currency ? getPricePoint(offer, currency) : null) ??
+    { currency: offer.currency, price_monthly: Number(offer.price_monthly), price_yearly: Number(offer.price_yearly) }
+  );
+};
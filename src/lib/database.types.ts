@@ -1,3 +1,80 @@
+export interface TierLimit {
+  name: string;
+  value: string;
+}
+
+/** A tier as snapshotted on an offer version, with its other-currency prices */
+export interface OfferVersionTier {
+  id: string;
+  name: string;
+  description: string;
+  features: string[];
+  limits: TierLimit[];
+  price_monthly: number;
+  price_yearly: number;
+  prices: { currency: string; price_monthly: number; price_yearly: number }[];
+}
+
+/** A tier as entered in the offer form */
+export interface OfferFormTier {
+  id?: string;
+  name: string;
+  description: string;
+  /** One feature per line */
+  features: string;
+  /** One limit per line, as "Name: value" */
+  limits: string;
+  price_monthly: number;
+  price_yearly: number;
+  /** Prices in the offer's other currencies */
+  prices: Record<string, { price_monthly: number; price_yearly: number }>;
+}
+
+/** A meter as entered in the offer form */
+export interface OfferFormMeter {
+  id?: string;
+  name: string;
+  unit: string;
+  included_units: number;
+  unit_price: number;
+  /** Unit prices in the offer's other currencies */
+  prices: Record<string, number>;
+}
+
+/** The offer form as saved on a draft */
+export interface OfferForm {
+  title: string;
+  /** Missing on drafts saved before offers had public pages */
+  slug?: string;
+  description: string;
+  category_id: string;
+  price_monthly: number;
+  price_yearly: number;
+  currency: string;
+  prices: { currency: string; price_monthly: number; price_yearly: number }[];
+  meters: OfferFormMeter[];
+  tiers: OfferFormTier[];
+  prerequisites: string[];
+  addons: string[];
+  trial_days: number;
+  trial_end_behavior: 'convert' | 'expire';
+  is_active: boolean;
+  publish_at: string | null;
+  unpublish_at: string | null;
+  features: string[];
+  product_link: string;
+  product_image: string;
+  product_video: string;
+}
+
+/** A usage line item passed to `create_invoice` */
+export interface InvoiceUsageLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -8,6 +85,10 @@ export interface Database {
           full_name: string;
           company_name: string;
           is_admin: boolean;
+          staff_role: 'owner' | 'catalog_editor' | 'billing' | 'support' | 'read_only' | null;
+          currency: string | null;
+          country: string | null;
+          region: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -17,6 +98,10 @@ export interface Database {
           full_name?: string;
           company_name?: string;
           is_admin?: boolean;
+          staff_role?: 'owner' | 'catalog_editor' | 'billing' | 'support' | 'read_only' | null;
+          currency?: string | null;
+          country?: string | null;
+          region?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -26,29 +111,55 @@ export interface Database {
           full_name?: string;
           company_name?: string;
           is_admin?: boolean;
+          staff_role?: 'owner' | 'catalog_editor' | 'billing' | 'support' | 'read_only' | null;
+          currency?: string | null;
+          country?: string | null;
+          region?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       service_categories: {
         Row: {
           id: string;
           name: string;
           description: string;
+          parent_id: string | null;
+          sort_order: number;
+          icon: string | null;
+          color: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           name: string;
           description?: string;
+          parent_id?: string | null;
+          sort_order?: number;
+          icon?: string | null;
+          color?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           name?: string;
           description?: string;
+          parent_id?: string | null;
+          sort_order?: number;
+          icon?: string | null;
+          color?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'service_categories_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_categories';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       service_offers: {
         Row: {
@@ -63,6 +174,13 @@ export interface Database {
           product_link: string | null;
           product_image: string | null;
           product_video: string | null;
+          trial_days: number;
+          trial_end_behavior: 'convert' | 'expire';
+          currency: string;
+          current_version_id: string | null;
+          publish_at: string | null;
+          unpublish_at: string | null;
+          slug: string;
           created_at: string;
           updated_at: string;
         };
@@ -78,6 +196,13 @@ export interface Database {
           product_link?: string | null;
           product_image?: string | null;
           product_video?: string | null;
+          trial_days?: number;
+          trial_end_behavior?: 'convert' | 'expire';
+          currency?: string;
+          current_version_id?: string | null;
+          publish_at?: string | null;
+          unpublish_at?: string | null;
+          slug?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,20 +218,585 @@ export interface Database {
           product_link?: string | null;
           product_image?: string | null;
           product_video?: string | null;
+          trial_days?: number;
+          trial_end_behavior?: 'convert' | 'expire';
+          currency?: string;
+          current_version_id?: string | null;
+          publish_at?: string | null;
+          unpublish_at?: string | null;
+          slug?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'service_offers_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_categories';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'service_offers_current_version_id_fkey';
+            columns: ['current_version_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_versions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_prices: {
+        Row: {
+          id: string;
+          offer_id: string;
+          currency: string;
+          price_monthly: number;
+          price_yearly: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          offer_id: string;
+          currency: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          offer_id?: string;
+          currency?: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_prices_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_meters: {
+        Row: {
+          id: string;
+          offer_id: string;
+          name: string;
+          unit: string;
+          unit_price: number;
+          included_units: number;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          offer_id: string;
+          name: string;
+          unit: string;
+          unit_price?: number;
+          included_units?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          offer_id?: string;
+          name?: string;
+          unit?: string;
+          unit_price?: number;
+          included_units?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_meters_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_meter_prices: {
+        Row: {
+          id: string;
+          meter_id: string;
+          currency: string;
+          unit_price: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          meter_id: string;
+          currency: string;
+          unit_price?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          meter_id?: string;
+          currency?: string;
+          unit_price?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_meter_prices_meter_id_fkey';
+            columns: ['meter_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_meters';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_versions: {
+        Row: {
+          id: string;
+          offer_id: string;
+          version: number;
+          title: string;
+          description: string;
+          features: string[];
+          currency: string;
+          price_monthly: number;
+          price_yearly: number;
+          tiers: OfferVersionTier[];
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          offer_id: string;
+          version: number;
+          title: string;
+          description?: string;
+          features?: string[];
+          currency: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          tiers?: OfferVersionTier[];
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          offer_id?: string;
+          version?: number;
+          title?: string;
+          description?: string;
+          features?: string[];
+          currency?: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          tiers?: OfferVersionTier[];
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_versions_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'offer_versions_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_version_prices: {
+        Row: {
+          id: string;
+          version_id: string;
+          currency: string;
+          price_monthly: number;
+          price_yearly: number;
+        };
+        Insert: {
+          id?: string;
+          version_id: string;
+          currency: string;
+          price_monthly?: number;
+          price_yearly?: number;
+        };
+        Update: {
+          id?: string;
+          version_id?: string;
+          currency?: string;
+          price_monthly?: number;
+          price_yearly?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_version_prices_version_id_fkey';
+            columns: ['version_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_versions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_tiers: {
+        Row: {
+          id: string;
+          offer_id: string;
+          name: string;
+          description: string;
+          features: string[];
+          limits: TierLimit[];
+          price_monthly: number;
+          price_yearly: number;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          offer_id: string;
+          name: string;
+          description?: string;
+          features?: string[];
+          limits?: TierLimit[];
+          price_monthly?: number;
+          price_yearly?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          offer_id?: string;
+          name?: string;
+          description?: string;
+          features?: string[];
+          limits?: TierLimit[];
+          price_monthly?: number;
+          price_yearly?: number;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_tiers_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_tier_prices: {
+        Row: {
+          id: string;
+          tier_id: string;
+          currency: string;
+          price_monthly: number;
+          price_yearly: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tier_id: string;
+          currency: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          tier_id?: string;
+          currency?: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_tier_prices_tier_id_fkey';
+            columns: ['tier_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_tiers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_relations: {
+        Row: {
+          id: string;
+          offer_id: string;
+          related_offer_id: string;
+          kind: 'prerequisite' | 'addon';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          offer_id: string;
+          related_offer_id: string;
+          kind: 'prerequisite' | 'addon';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          offer_id?: string;
+          related_offer_id?: string;
+          kind?: 'prerequisite' | 'addon';
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_relations_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'offer_relations_related_offer_id_fkey';
+            columns: ['related_offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      offer_drafts: {
+        Row: {
+          id: string;
+          offer_id: string | null;
+          form: OfferForm;
+          move_subscribers: boolean;
+          status: 'draft' | 'in_review' | 'approved';
+          author_id: string | null;
+          submitted_at: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          review_note: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          offer_id?: string | null;
+          form: OfferForm;
+          move_subscribers?: boolean;
+          status?: 'draft' | 'in_review' | 'approved';
+          author_id?: string | null;
+          submitted_at?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          review_note?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          offer_id?: string | null;
+          form?: OfferForm;
+          move_subscribers?: boolean;
+          status?: 'draft' | 'in_review' | 'approved';
+          author_id?: string | null;
+          submitted_at?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          review_note?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'offer_drafts_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'offer_drafts_author_id_fkey';
+            columns: ['author_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'offer_drafts_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      service_bundles: {
+        Row: {
+          id: string;
+          title: string;
+          description: string;
+          currency: string;
+          price_monthly: number;
+          price_yearly: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          description?: string;
+          currency?: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          description?: string;
+          currency?: string;
+          price_monthly?: number;
+          price_yearly?: number;
+          is_active?: boolean;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
+      };
+      bundle_offers: {
+        Row: {
+          id: string;
+          bundle_id: string;
+          offer_id: string;
+          tier_id: string | null;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          bundle_id: string;
+          offer_id: string;
+          tier_id?: string | null;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          bundle_id?: string;
+          offer_id?: string;
+          tier_id?: string | null;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'bundle_offers_bundle_id_fkey';
+            columns: ['bundle_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_bundles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'bundle_offers_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'bundle_offers_tier_id_fkey';
+            columns: ['tier_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_tiers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      subscription_bundles: {
+        Row: {
+          id: string;
+          bundle_id: string;
+          user_id: string;
+          billing_cycle: 'monthly' | 'yearly';
+          currency: string;
+          organization_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          bundle_id: string;
+          user_id: string;
+          billing_cycle: 'monthly' | 'yearly';
+          currency: string;
+          organization_id?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          bundle_id?: string;
+          user_id?: string;
+          billing_cycle?: 'monthly' | 'yearly';
+          currency?: string;
+          organization_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'subscription_bundles_bundle_id_fkey';
+            columns: ['bundle_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_bundles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'subscription_bundles_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'subscription_bundles_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       user_subscriptions: {
         Row: {
           id: string;
           user_id: string;
           offer_id: string;
-          status: 'active' | 'pending' | 'cancelled';
+          status: 'pending' | 'trialing' | 'active' | 'past_due' | 'paused' | 'cancelled' | 'expired';
           billing_cycle: 'monthly' | 'yearly';
           started_at: string;
           next_billing_date: string | null;
           notes: string;
+          customer_notes: string;
+          cancel_requested_at: string | null;
+          payment_error: string | null;
+          cancel_at_period_end: boolean;
+          pending_billing_cycle: 'monthly' | 'yearly' | null;
+          billing_anchor_at: string | null;
+          credit_balance: number;
+          coupon_id: string | null;
+          discounted_price: number | null;
+          discount_periods_remaining: number | null;
+          trial_ends_at: string | null;
+          currency: string;
+          offer_version_id: string | null;
+          tier_id: string | null;
+          subscription_bundle_id: string | null;
+          bundle_price: number | null;
+          organization_id: string;
           created_at: string;
           updated_at: string;
         };
@@ -114,11 +804,28 @@ export interface Database {
           id?: string;
           user_id: string;
           offer_id: string;
-          status?: 'active' | 'pending' | 'cancelled';
+          status?: 'pending' | 'trialing' | 'active' | 'past_due' | 'paused' | 'cancelled' | 'expired';
           billing_cycle?: 'monthly' | 'yearly';
           started_at?: string;
           next_billing_date?: string | null;
           notes?: string;
+          customer_notes?: string;
+          cancel_requested_at?: string | null;
+          payment_error?: string | null;
+          cancel_at_period_end?: boolean;
+          pending_billing_cycle?: 'monthly' | 'yearly' | null;
+          billing_anchor_at?: string | null;
+          credit_balance?: number;
+          coupon_id?: string | null;
+          discounted_price?: number | null;
+          discount_periods_remaining?: number | null;
+          trial_ends_at?: string | null;
+          currency?: string;
+          offer_version_id?: string | null;
+          tier_id?: string | null;
+          subscription_bundle_id?: string | null;
+          bundle_price?: number | null;
+          organization_id?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -126,15 +833,924 @@ export interface Database {
           id?: string;
           user_id?: string;
           offer_id?: string;
-          status?: 'active' | 'pending' | 'cancelled';
+          status?: 'pending' | 'trialing' | 'active' | 'past_due' | 'paused' | 'cancelled' | 'expired';
           billing_cycle?: 'monthly' | 'yearly';
           started_at?: string;
           next_billing_date?: string | null;
           notes?: string;
+          customer_notes?: string;
+          cancel_requested_at?: string | null;
+          payment_error?: string | null;
+          cancel_at_period_end?: boolean;
+          pending_billing_cycle?: 'monthly' | 'yearly' | null;
+          billing_anchor_at?: string | null;
+          credit_balance?: number;
+          coupon_id?: string | null;
+          discounted_price?: number | null;
+          discount_periods_remaining?: number | null;
+          trial_ends_at?: string | null;
+          currency?: string;
+          offer_version_id?: string | null;
+          tier_id?: string | null;
+          subscription_bundle_id?: string | null;
+          bundle_price?: number | null;
+          organization_id?: string;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'user_subscriptions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_subscriptions_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_subscriptions_coupon_id_fkey';
+            columns: ['coupon_id'];
+            isOneToOne: false;
+            referencedRelation: 'coupons';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_subscriptions_offer_version_id_fkey';
+            columns: ['offer_version_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_versions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_subscriptions_tier_id_fkey';
+            columns: ['tier_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_tiers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_subscriptions_subscription_bundle_id_fkey';
+            columns: ['subscription_bundle_id'];
+            isOneToOne: false;
+            referencedRelation: 'subscription_bundles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_subscriptions_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
       };
+      subscription_events: {
+        Row: {
+          id: string;
+          subscription_id: string;
+          event_type: 'status_change' | 'cancel_scheduled' | 'cancel_undone' | 'billing_cycle_change_scheduled' | 'billing_cycle_changed' | 'plan_changed' | 'version_changed';
+          from_status: string | null;
+          to_status: string;
+          changed_by: string | null;
+          note: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: string;
+          event_type?: 'status_change' | 'cancel_scheduled' | 'cancel_undone' | 'billing_cycle_change_scheduled' | 'billing_cycle_changed' | 'plan_changed' | 'version_changed';
+          from_status?: string | null;
+          to_status: string;
+          changed_by?: string | null;
+          note?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: string;
+          event_type?: 'status_change' | 'cancel_scheduled' | 'cancel_undone' | 'billing_cycle_change_scheduled' | 'billing_cycle_changed' | 'plan_changed' | 'version_changed';
+          from_status?: string | null;
+          to_status?: string;
+          changed_by?: string | null;
+          note?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'subscription_events_subscription_id_fkey';
+            columns: ['subscription_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_subscriptions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'subscription_events_changed_by_fkey';
+            columns: ['changed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      invoices: {
+        Row: {
+          id: string;
+          subscription_id: string;
+          user_id: string;
+          invoice_number: string;
+          receipt_number: string | null;
+          status: 'open' | 'paid' | 'void';
+          period_start: string;
+          period_end: string;
+          subtotal: number;
+          discount_amount: number;
+          tax_label: string;
+          tax_rate: number;
+          tax_amount: number;
+          total: number;
+          issued_at: string;
+          due_at: string | null;
+          paid_at: string | null;
+          currency: string;
+          organization_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: string;
+          user_id: string;
+          invoice_number?: string;
+          receipt_number?: string | null;
+          status?: 'open' | 'paid' | 'void';
+          period_start: string;
+          period_end: string;
+          subtotal?: number;
+          discount_amount?: number;
+          tax_label?: string;
+          tax_rate?: number;
+          tax_amount?: number;
+          total?: number;
+          issued_at?: string;
+          due_at?: string | null;
+          paid_at?: string | null;
+          currency?: string;
+          organization_id?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: string;
+          user_id?: string;
+          invoice_number?: string;
+          receipt_number?: string | null;
+          status?: 'open' | 'paid' | 'void';
+          period_start?: string;
+          period_end?: string;
+          subtotal?: number;
+          discount_amount?: number;
+          tax_label?: string;
+          tax_rate?: number;
+          tax_amount?: number;
+          total?: number;
+          issued_at?: string;
+          due_at?: string | null;
+          paid_at?: string | null;
+          currency?: string;
+          organization_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'invoices_subscription_id_fkey';
+            columns: ['subscription_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_subscriptions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'invoices_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'invoices_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      invoice_line_items: {
+        Row: {
+          id: string;
+          invoice_id: string;
+          description: string;
+          quantity: number;
+          unit_price: number;
+          amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          invoice_id: string;
+          description: string;
+          quantity?: number;
+          unit_price?: number;
+          amount?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          invoice_id?: string;
+          description?: string;
+          quantity?: number;
+          unit_price?: number;
+          amount?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'invoice_line_items_invoice_id_fkey';
+            columns: ['invoice_id'];
+            isOneToOne: false;
+            referencedRelation: 'invoices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      payment_customers: {
+        Row: {
+          user_id: string;
+          provider: string;
+          customer_id: string;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          provider: string;
+          customer_id: string;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          provider?: string;
+          customer_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payment_customers_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      payments: {
+        Row: {
+          id: string;
+          subscription_id: string;
+          user_id: string;
+          invoice_id: string | null;
+          provider: string;
+          provider_payment_id: string | null;
+          attempt_key: string;
+          amount: number;
+          currency: string;
+          status: 'pending' | 'succeeded' | 'failed' | 'refunded' | 'partially_refunded';
+          failure_reason: string | null;
+          refunded_amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: string;
+          user_id: string;
+          invoice_id?: string | null;
+          provider: string;
+          provider_payment_id?: string | null;
+          attempt_key: string;
+          amount: number;
+          currency?: string;
+          status: 'pending' | 'succeeded' | 'failed' | 'refunded' | 'partially_refunded';
+          failure_reason?: string | null;
+          refunded_amount?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: string;
+          user_id?: string;
+          invoice_id?: string | null;
+          provider?: string;
+          provider_payment_id?: string | null;
+          attempt_key?: string;
+          amount?: number;
+          currency?: string;
+          status?: 'pending' | 'succeeded' | 'failed' | 'refunded' | 'partially_refunded';
+          failure_reason?: string | null;
+          refunded_amount?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'payments_subscription_id_fkey';
+            columns: ['subscription_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_subscriptions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'payments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'payments_invoice_id_fkey';
+            columns: ['invoice_id'];
+            isOneToOne: false;
+            referencedRelation: 'invoices';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      coupons: {
+        Row: {
+          id: string;
+          code: string;
+          description: string;
+          discount_type: 'percent' | 'fixed';
+          discount_value: number;
+          duration: 'once' | 'repeating' | 'forever';
+          duration_months: number | null;
+          expires_at: string | null;
+          max_redemptions: number | null;
+          times_redeemed: number;
+          is_active: boolean;
+          currency: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          description?: string;
+          discount_type: 'percent' | 'fixed';
+          discount_value: number;
+          duration?: 'once' | 'repeating' | 'forever';
+          duration_months?: number | null;
+          expires_at?: string | null;
+          max_redemptions?: number | null;
+          times_redeemed?: number;
+          is_active?: boolean;
+          currency?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          description?: string;
+          discount_type?: 'percent' | 'fixed';
+          discount_value?: number;
+          duration?: 'once' | 'repeating' | 'forever';
+          duration_months?: number | null;
+          expires_at?: string | null;
+          max_redemptions?: number | null;
+          times_redeemed?: number;
+          is_active?: boolean;
+          currency?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      coupon_offers: {
+        Row: {
+          coupon_id: string;
+          offer_id: string;
+        };
+        Insert: {
+          coupon_id: string;
+          offer_id: string;
+        };
+        Update: {
+          coupon_id?: string;
+          offer_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'coupon_offers_coupon_id_fkey';
+            columns: ['coupon_id'];
+            isOneToOne: false;
+            referencedRelation: 'coupons';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'coupon_offers_offer_id_fkey';
+            columns: ['offer_id'];
+            isOneToOne: false;
+            referencedRelation: 'service_offers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tax_rates: {
+        Row: {
+          id: string;
+          country: string;
+          region: string | null;
+          label: string;
+          rate: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          country: string;
+          region?: string | null;
+          label?: string;
+          rate: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          country?: string;
+          region?: string | null;
+          label?: string;
+          rate?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      usage_records: {
+        Row: {
+          id: string;
+          subscription_id: string;
+          meter_id: string;
+          quantity: number;
+          recorded_at: string;
+          note: string;
+          idempotency_key: string | null;
+          invoice_id: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          subscription_id: string;
+          meter_id: string;
+          quantity: number;
+          recorded_at?: string;
+          note?: string;
+          idempotency_key?: string | null;
+          invoice_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          subscription_id?: string;
+          meter_id?: string;
+          quantity?: number;
+          recorded_at?: string;
+          note?: string;
+          idempotency_key?: string | null;
+          invoice_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'usage_records_subscription_id_fkey';
+            columns: ['subscription_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_subscriptions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'usage_records_meter_id_fkey';
+            columns: ['meter_id'];
+            isOneToOne: false;
+            referencedRelation: 'offer_meters';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'usage_records_invoice_id_fkey';
+            columns: ['invoice_id'];
+            isOneToOne: false;
+            referencedRelation: 'invoices';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'usage_records_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      organization_members: {
+        Row: {
+          organization_id: string;
+          user_id: string;
+          role: 'owner' | 'billing' | 'member';
+          created_at: string;
+        };
+        Insert: {
+          organization_id: string;
+          user_id: string;
+          role?: 'owner' | 'billing' | 'member';
+          created_at?: string;
+        };
+        Update: {
+          organization_id?: string;
+          user_id?: string;
+          role?: 'owner' | 'billing' | 'member';
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'organization_members_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      organization_invitations: {
+        Row: {
+          id: string;
+          organization_id: string;
+          email: string;
+          role: 'owner' | 'billing' | 'member';
+          invited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          email: string;
+          role?: 'owner' | 'billing' | 'member';
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          email?: string;
+          role?: 'owner' | 'billing' | 'member';
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_invitations_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'organization_invitations_invited_by_fkey';
+            columns: ['invited_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      accept_organization_invitation: {
+        Args: {
+          invitation_id: string;
+        };
+        Returns: undefined;
+      };
+      approve_offer_draft: {
+        Args: {
+          draft_id: string;
+        };
+        Returns: undefined;
+      };
+      cancel_subscription: {
+        Args: {
+          subscription_id: string;
+        };
+        Returns: undefined;
+      };
+      change_organization_member_role: {
+        Args: {
+          organization_id: string;
+          member_id: string;
+          new_role: string;
+        };
+        Returns: undefined;
+      };
+      change_subscription_billing_cycle: {
+        Args: {
+          subscription_id: string;
+          new_cycle: string;
+        };
+        Returns: undefined;
+      };
+      change_subscription_plan: {
+        Args: {
+          subscription_id: string;
+          new_offer_id: string;
+          new_cycle: string;
+          new_tier_id?: string | null;
+        };
+        Returns: string;
+      };
+      change_subscription_status: {
+        Args: {
+          subscription_id: string;
+          new_status: string;
+          note?: string;
+        };
+        Returns: undefined;
+      };
+      create_invoice: {
+        Args: {
+          subscription_id: string;
+          period_start: string;
+          period_end: string;
+          description: string;
+          list_price: number;
+          price: number;
+          discount_description: string;
+          usage_lines: InvoiceUsageLine[];
+          usage_record_ids: string[];
+          tax_label: string;
+          tax_rate: number;
+        };
+        Returns: Database['public']['Tables']['invoices']['Row'];
+      };
+      customer_currency: {
+        Args: {
+          customer_id: string;
+          offer_id: string;
+        };
+        Returns: string;
+      };
+      customer_tax_rate: {
+        Args: {
+          customer_id: string;
+        };
+        Returns: Database['public']['Tables']['tax_rates']['Row'];
+      };
+      decline_organization_invitation: {
+        Args: {
+          invitation_id: string;
+        };
+        Returns: undefined;
+      };
+      invite_organization_member: {
+        Args: {
+          organization_id: string;
+          email: string;
+          role: string;
+        };
+        Returns: Database['public']['Tables']['organization_invitations']['Row'];
+      };
+      is_admin: {
+        Args: {
+          user_id: string;
+        };
+        Returns: boolean;
+      };
+      is_offer_published: {
+        Args: {
+          offer: Database['public']['Tables']['service_offers']['Row'];
+        };
+        Returns: boolean;
+      };
+      meter_unit_price: {
+        Args: {
+          meter_id: string;
+          price_currency: string;
+        };
+        Returns: number | null;
+      };
+      move_subscribers_to_version: {
+        Args: {
+          version_id: string;
+        };
+        Returns: number;
+      };
+      normalize_offer_features: {
+        Args: {
+          lines: string[];
+        };
+        Returns: string[];
+      };
+      offer_price: {
+        Args: {
+          offer_id: string;
+          price_currency: string;
+          cycle: string;
+        };
+        Returns: number | null;
+      };
+      organization_role: {
+        Args: {
+          organization_id: string;
+          member_id: string;
+        };
+        Returns: string | null;
+      };
+      parse_form_limits: {
+        Args: {
+          source: string;
+        };
+        Returns: TierLimit[];
+      };
+      parse_form_lines: {
+        Args: {
+          source: string;
+        };
+        Returns: string[];
+      };
+      publish_offer_draft: {
+        Args: {
+          draft_id: string;
+        };
+        Returns: string;
+      };
+      publish_offer_version: {
+        Args: {
+          offer_id: string;
+        };
+        Returns: Database['public']['Tables']['offer_versions']['Row'];
+      };
+      reactivate_subscription: {
+        Args: {
+          subscription_id: string;
+        };
+        Returns: undefined;
+      };
+      reject_offer_draft: {
+        Args: {
+          draft_id: string;
+          note?: string;
+        };
+        Returns: undefined;
+      };
+      remove_organization_member: {
+        Args: {
+          organization_id: string;
+          member_id: string;
+        };
+        Returns: undefined;
+      };
+      reorder_categories: {
+        Args: {
+          category_ids: string[];
+        };
+        Returns: undefined;
+      };
+      set_staff_role: {
+        Args: {
+          member_id: string;
+          new_role: string | null;
+        };
+        Returns: undefined;
+      };
+      set_subscription_notes: {
+        Args: {
+          subscription_id: string;
+          notes: string;
+        };
+        Returns: undefined;
+      };
+      slugify: {
+        Args: {
+          value: string;
+        };
+        Returns: string;
+      };
+      staff_can: {
+        Args: {
+          member_id: string;
+          permission: string;
+        };
+        Returns: boolean;
+      };
+      strip_html: {
+        Args: {
+          source: string;
+        };
+        Returns: string;
+      };
+      strip_html_lines: {
+        Args: {
+          lines: string[];
+        };
+        Returns: string[];
+      };
+      submit_offer_draft: {
+        Args: {
+          draft_id: string;
+        };
+        Returns: undefined;
+      };
+      subscribe_to_bundle: {
+        Args: {
+          bundle_id: string;
+          cycle: string;
+        };
+        Returns: Database['public']['Tables']['subscription_bundles']['Row'];
+      };
+      undo_subscription_cancellation: {
+        Args: {
+          subscription_id: string;
+        };
+        Returns: undefined;
+      };
+      validate_coupon: {
+        Args: {
+          coupon_code: string;
+          offer_id: string;
+        };
+        Returns: {
+          id: string;
+          code: string;
+          discount_type: 'percent' | 'fixed';
+          discount_value: number;
+          duration: 'once' | 'repeating' | 'forever';
+          duration_months: number | null;
+          currency: string | null;
+        }[];
+      };
+      version_price: {
+        Args: {
+          version_id: string;
+          price_currency: string;
+          cycle: string;
+        };
+        Returns: number | null;
+      };
+      version_tier_price: {
+        Args: {
+          version_id: string;
+          tier_id: string | null;
+          price_currency: string;
+          cycle: string;
+        };
+        Returns: number | null;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
     };
   };
 }
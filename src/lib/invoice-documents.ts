@@ -0,0 +1,178 @@
+import { jsPDF } from 'jspdf';
+import { supabase } from './supabase';
+import { businessDetails } from './business';
+import { formatMoney } from './currency';
+import type { Database } from './database.types';
+
+export type InvoiceDocumentKind = 'invoice' | 'receipt';
+
+type InvoiceWithDetails = Database['public']['Tables']['invoices']['Row'] & {
+  invoice_line_items: Database['public']['Tables']['invoice_line_items']['Row'][];
+  profiles: Database['public']['Tables']['profiles']['Row'] | null;
+  organizations: Pick<Database['public']['Tables']['organizations']['Row'], 'name'> | null;
+  user_subscriptions: {
+    billing_cycle: Database['public']['Tables']['user_subscriptions']['Row']['billing_cycle'];
+    service_offers: Pick<Database['public']['Tables']['service_offers']['Row'], 'title'> | null;
+  } | null;
+};
+
+const PAGE_MARGIN = 20;
+const PAGE_WIDTH = 210;
+const RIGHT_EDGE = PAGE_WIDTH - PAGE_MARGIN;
+
+// The built-in PDF fonts only cover Latin-1, so avoid locales that format with narrow spaces
+const PDF_LOCALE = 'en-US';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+// period_end is exclusive, so documents show the last day actually covered
+const formatPeriod = (invoice: InvoiceWithDetails) => {
+  const lastDay = new Date(new Date(invoice.period_end).getTime() - 24 * 60 * 60 * 1000);
+  return `${formatDate(invoice.period_start)} – ${lastDay.toLocaleDateString()}`;
+};
+
+const fetchInvoice = async (invoiceId: string): Promise<InvoiceWithDetails> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, invoice_line_items(*), profiles(*), user_subscriptions(billing_cycle, service_offers(title)), organizations(name)')
+    .eq('id', invoiceId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Invoice Fetch Error:', error);
+    throw new Error(`Failed to load invoice: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('Invoice not found');
+  }
+
+  return data as InvoiceWithDetails;
+};
+
+export const buildInvoiceDocument = (invoice: InvoiceWithDetails, kind: InvoiceDocumentKind): jsPDF => {
+  if (kind === 'receipt' && (invoice.status !== 'paid' || !invoice.receipt_number)) {
+    throw new Error('A receipt is only available once the invoice has been paid');
+  }
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = PAGE_MARGIN;
+
+  // Business details
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(businessDetails.name, PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const businessLines = [
+    ...businessDetails.address.split('\n'),
+    businessDetails.email,
+    businessDetails.phone,
+    businessDetails.taxId && `Tax ID: ${businessDetails.taxId}`,
+  ].filter(Boolean) as string[];
+  businessLines.forEach((line, index) => doc.text(line, PAGE_MARGIN, y + 6 + index * 4.5));
+
+  // Document title and numbers
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(kind === 'receipt' ? 'RECEIPT' : 'INVOICE', RIGHT_EDGE, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const metaLines = kind === 'receipt'
+    ? [
+        `Receipt No: ${invoice.receipt_number}`,
+        `Invoice No: ${invoice.invoice_number}`,
+        `Paid: ${formatDate(invoice.paid_at)}`,
+      ]
+    : [
+        `Invoice No: ${invoice.invoice_number}`,
+        `Issued: ${formatDate(invoice.issued_at)}`,
+        `Due: ${formatDate(invoice.due_at)}`,
+      ];
+  metaLines.forEach((line, index) => doc.text(line, RIGHT_EDGE, y + 6 + index * 4.5, { align: 'right' }));
+
+  y += 12 + Math.max(businessLines.length, metaLines.length) * 4.5;
+
+  // Customer
+  doc.setDrawColor(226, 232, 240);
+  doc.line(PAGE_MARGIN, y, RIGHT_EDGE, y);
+  y += 8;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(kind === 'receipt' ? 'Received from' : 'Bill to', PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  const customerLines = [
+    invoice.organizations?.name,
+    invoice.profiles?.full_name,
+    invoice.profiles?.email,
+  ].filter(Boolean) as string[];
+  customerLines.forEach((line, index) => doc.text(line, PAGE_MARGIN, y + 5 + index * 5));
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Service', RIGHT_EDGE - 70, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(invoice.user_subscriptions?.service_offers?.title || '', RIGHT_EDGE - 70, y + 5, { maxWidth: 70 });
+  doc.text(`Billing period: ${formatPeriod(invoice)}`, RIGHT_EDGE - 70, y + 15);
+
+  y += 10 + Math.max(customerLines.length * 5, 15);
+
+  // Line items
+  doc.setFillColor(248, 250, 252);
+  doc.rect(PAGE_MARGIN, y, RIGHT_EDGE - PAGE_MARGIN, 8, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text('Description', PAGE_MARGIN + 2, y + 5.5);
+  doc.text('Qty', RIGHT_EDGE - 60, y + 5.5, { align: 'right' });
+  doc.text('Unit Price', RIGHT_EDGE - 30, y + 5.5, { align: 'right' });
+  doc.text('Amount', RIGHT_EDGE - 2, y + 5.5, { align: 'right' });
+  y += 14;
+
+  doc.setFont('helvetica', 'normal');
+  invoice.invoice_line_items.forEach((item) => {
+    doc.text(item.description, PAGE_MARGIN + 2, y, { maxWidth: RIGHT_EDGE - PAGE_MARGIN - 70 });
+    doc.text(String(Number(item.quantity)), RIGHT_EDGE - 60, y, { align: 'right' });
+    doc.text(formatMoney(item.unit_price, invoice.currency, PDF_LOCALE), RIGHT_EDGE - 30, y, { align: 'right' });
+    doc.text(formatMoney(item.amount, invoice.currency, PDF_LOCALE), RIGHT_EDGE - 2, y, { align: 'right' });
+    y += 7;
+  });
+
+  // Totals
+  y += 3;
+  doc.line(RIGHT_EDGE - 75, y, RIGHT_EDGE, y);
+  y += 7;
+  const totals: [string, string][] = [
+    ['Subtotal', formatMoney(invoice.subtotal, invoice.currency, PDF_LOCALE)],
+    [`${invoice.tax_label} (${Number(invoice.tax_rate)}%)`, formatMoney(invoice.tax_amount, invoice.currency, PDF_LOCALE)],
+  ];
+  totals.forEach(([label, value]) => {
+    doc.text(label, RIGHT_EDGE - 75, y);
+    doc.text(value, RIGHT_EDGE - 2, y, { align: 'right' });
+    y += 6;
+  });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(kind === 'receipt' ? 'Amount Paid' : 'Total Due', RIGHT_EDGE - 75, y + 1);
+  doc.text(formatMoney(invoice.total, invoice.currency, PDF_LOCALE), RIGHT_EDGE - 2, y + 1, { align: 'right' });
+
+  // Footer
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  doc.text(
+    kind === 'receipt'
+      ? 'Thank you for your payment.'
+      : `Please include invoice number ${invoice.invoice_number} with your payment.`,
+    PAGE_WIDTH / 2,
+    280,
+    { align: 'center' }
+  );
+
+  return doc;
+};
+
+export const downloadInvoiceDocument = async (invoiceId: string, kind: InvoiceDocumentKind): Promise<void> => {
+  const invoice = await fetchInvoice(invoiceId);
+  const doc = buildInvoiceDocument(invoice, kind);
+  const number = kind === 'receipt' ? invoice.receipt_number : invoice.invoice_number;
+  doc.save(`${number}.pdf`);
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl } from './markdown';
+
+describe('isSafeUrl', () => {
+  it('allows web, mail, same-site and fragment links', () => {
+    expect(isSafeUrl('https://example.com')).toBe(true);
+    expect(isSafeUrl('mailto:support@example.com')).toBe(true);
+    expect(isSafeUrl('/offers/hosting')).toBe(true);
+    expect(isSafeUrl('#pricing')).toBe(true);
+  });
+
+  it('rejects script and protocol-relative links', () => {
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeUrl('//evil.com')).toBe(false);
+    expect(isSafeUrl('/\\evil.com')).toBe(false);
+  });
+});
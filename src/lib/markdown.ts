@@ -0,0 +1,120 @@
+/**
+ * The small Markdown dialect used for offer descriptions and features:
+ * `#` to `###` headings, `-` and `1.` lists, **bold**, _italic_, `code` and
+ * [links](https://example.com). It is parsed into nodes that are rendered as
+ * React elements, never as HTML, so markup in the source is shown as text.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+// Mirrors strip_html() in the database, which removes tags when offers are saved.
+// Only a letter, slash or "!" after "<" starts a tag, so "< 1 hour" is kept.
+const HTML_TAG = /<\/?[a-zA-Z!][^>]*>/g;
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET_ITEM = /^[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+const INLINE = /\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+// Protocol-relative targets ("//host", and "/\host", which browsers read the same way) leave the site
+const SAFE_URL = /^(https?:\/\/|mailto:|\/(?![/\\])|#)/i;
+
+/** Removes HTML tags, leaving the text between them */
+export const stripHtml = (source: string): string => source.replace(HTML_TAG, '');
+
+/** Whether a link target can be followed without running script */
+export const isSafeUrl = (url: string): boolean => SAFE_URL.test(url.trim());
+
+export const parseInlineMarkdown = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push({ type: 'text', text: text.slice(last, index) });
+    last = index + match[0].length;
+
+    const [, strong, strongAlt, em, emAlt, code, label, href] = match;
+    if (strong ?? strongAlt) {
+      nodes.push({ type: 'strong', children: parseInlineMarkdown(strong ?? strongAlt) });
+    } else if (em ?? emAlt) {
+      nodes.push({ type: 'em', children: parseInlineMarkdown(em ?? emAlt) });
+    } else if (code) {
+      nodes.push({ type: 'code', text: code });
+    } else if (isSafeUrl(href)) {
+      nodes.push({ type: 'link', href, children: parseInlineMarkdown(label) });
+    } else {
+      // Unsafe links keep their label and lose the target
+      nodes.push(...parseInlineMarkdown(label));
+    }
+  }
+
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInlineMarkdown(paragraph.join(' ')) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInlineMarkdown) });
+      list = null;
+    }
+  };
+
+  for (const raw of stripHtml(source).split('\n')) {
+    const line = raw.trim();
+    const heading = HEADING.exec(line);
+    const item = BULLET_ITEM.exec(line) ?? ORDERED_ITEM.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInlineMarkdown(heading[2]),
+      });
+    } else if (item) {
+      const ordered = !BULLET_ITEM.test(line);
+      if (!list || list.ordered !== ordered) {
+        flush();
+        list = { ordered, items: [] };
+      }
+      list.items.push(item[1]);
+    } else if (list) {
+      // A line right after a list item continues it
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flush();
+  return blocks;
+};
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map((node) => ('children' in node ? inlineText(node.children) : node.text)).join('');
+
+/** The source without formatting, for page titles and meta descriptions */
+export const toPlainText = (source: string): string =>
+  parseMarkdown(source)
+    .flatMap((block) => (block.type === 'list' ? block.items.map(inlineText) : [inlineText(block.children)]))
+    .join(' ');
@@ -0,0 +1,266 @@
+import { supabase } from './supabase';
+import type { Database, OfferForm, OfferFormTier, TierLimit } from './database.types';
+import { sortTiers, type PricedTier } from './tiers';
+import { getRelatedOfferIds } from './offer-relations';
+import { normalizeFeatures } from './offer-features';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type OfferDraftRow = Database['public']['Tables']['offer_drafts']['Row'];
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+/** A published offer with everything the offer form edits */
+export type EditableOffer = ServiceOffer & {
+  offer_prices?: Database['public']['Tables']['offer_prices']['Row'][];
+  offer_meters?: (Database['public']['Tables']['offer_meters']['Row'] & {
+    offer_meter_prices: Database['public']['Tables']['offer_meter_prices']['Row'][];
+  })[];
+  offer_tiers?: PricedTier[];
+  offer_relations?: Database['public']['Tables']['offer_relations']['Row'][];
+};
+
+export type OfferDraft = OfferDraftRow & {
+  author: Pick<Profile, 'full_name'> | null;
+  reviewer: Pick<Profile, 'full_name'> | null;
+};
+
+export type OfferDraftStatus = OfferDraftRow['status'];
+
+export const DRAFT_STATUS_LABELS: Record<OfferDraftStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+};
+
+export const EMPTY_OFFER_FORM: OfferForm = {
+  title: '',
+  slug: '',
+  description: '',
+  category_id: '',
+  price_monthly: 0,
+  price_yearly: 0,
+  currency: 'USD',
+  prices: [],
+  meters: [],
+  tiers: [],
+  prerequisites: [],
+  addons: [],
+  trial_days: 0,
+  trial_end_behavior: 'convert',
+  is_active: true,
+  publish_at: null,
+  unpublish_at: null,
+  features: [''],
+  product_link: '',
+  product_image: '',
+  product_video: '',
+};
+
+const parseLines = (text: string): string[] => {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean);
+};
+
+const parseLimits = (text: string): TierLimit[] => {
+  return parseLines(text).map((line) => {
+    const [name, ...value] = line.split(':');
+    return { name: name.trim(), value: value.join(':').trim() };
+  });
+};
+
+const formatLimits = (limits: TierLimit[]): string => {
+  return limits.map((limit) => (limit.value ? `${limit.name}: ${limit.value}` : limit.name)).join('\n');
+};
+
+export const toOfferForm = (offer: EditableOffer): OfferForm => {
+  return {
+    title: offer.title,
+    slug: offer.slug,
+    description: offer.description,
+    category_id: offer.category_id || '',
+    price_monthly: Number(offer.price_monthly),
+    price_yearly: Number(offer.price_yearly),
+    currency: offer.currency,
+    prices: (offer.offer_prices ?? []).map((price) => ({
+      currency: price.currency,
+      price_monthly: Number(price.price_monthly),
+      price_yearly: Number(price.price_yearly),
+    })),
+    meters: [...(offer.offer_meters ?? [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((meter) => ({
+        id: meter.id,
+        name: meter.name,
+        unit: meter.unit,
+        included_units: Number(meter.included_units),
+        unit_price: Number(meter.unit_price),
+        prices: Object.fromEntries(
+          meter.offer_meter_prices.map((price) => [price.currency, Number(price.unit_price)])
+        ),
+      })),
+    tiers: sortTiers(offer.offer_tiers ?? []).map((tier) => ({
+      id: tier.id,
+      name: tier.name,
+      description: tier.description,
+      features: tier.features.join('\n'),
+      limits: formatLimits(tier.limits),
+      price_monthly: Number(tier.price_monthly),
+      price_yearly: Number(tier.price_yearly),
+      prices: Object.fromEntries(
+        tier.offer_tier_prices.map((price) => [
+          price.currency,
+          { price_monthly: Number(price.price_monthly), price_yearly: Number(price.price_yearly) },
+        ])
+      ),
+    })),
+    prerequisites: getRelatedOfferIds({ offer_relations: offer.offer_relations ?? [] }, 'prerequisite'),
+    addons: getRelatedOfferIds({ offer_relations: offer.offer_relations ?? [] }, 'addon'),
+    trial_days: offer.trial_days,
+    trial_end_behavior: offer.trial_end_behavior,
+    is_active: offer.is_active,
+    publish_at: offer.publish_at,
+    unpublish_at: offer.unpublish_at,
+    features: Array.isArray(offer.features) && offer.features.length > 0 ? offer.features : [''],
+    product_link: offer.product_link || '',
+    product_image: offer.product_image || '',
+    product_video: offer.product_video || '',
+  };
+};
+
+/** A tier's prices in one of the offer's currencies */
+export const getTierFormPrice = (
+  form: Pick<OfferForm, 'currency'>,
+  tier: OfferFormTier,
+  currency: string
+): { price_monthly: number; price_yearly: number } => {
+  if (currency === form.currency) {
+    return { price_monthly: tier.price_monthly, price_yearly: tier.price_yearly };
+  }
+  return tier.prices[currency] ?? { price_monthly: 0, price_yearly: 0 };
+};
+
+/**
+ * The form as a catalog offer, for previewing it the way customers will see
+ * it. Tiers that have not been saved yet get placeholder ids.
+ */
+export const toPreviewOffer = (form: OfferForm, offerId: string | null) => {
+  const id = offerId ?? 'preview';
+  const firstTier = form.tiers[0];
+  const now = new Date().toISOString();
+
+  return {
+    id,
+    title: form.title,
+    description: form.description,
+    features: normalizeFeatures(form.features),
+    currency: form.currency,
+    price_monthly: firstTier?.price_monthly ?? form.price_monthly,
+    price_yearly: firstTier?.price_yearly ?? form.price_yearly,
+    trial_days: form.trial_days,
+    product_link: form.product_link.trim() || null,
+    product_image: form.product_image.trim() || null,
+    product_video: form.product_video.trim() || null,
+    offer_prices: form.prices.filter((price) => price.currency !== form.currency),
+    offer_tiers: form.tiers.map(
+      (tier, index): PricedTier => ({
+        id: tier.id ?? `preview-${index}`,
+        offer_id: id,
+        name: tier.name,
+        description: tier.description,
+        features: parseLines(tier.features),
+        limits: parseLimits(tier.limits),
+        price_monthly: tier.price_monthly,
+        price_yearly: tier.price_yearly,
+        sort_order: index,
+        created_at: now,
+        offer_tier_prices: form.prices
+          .filter((price) => price.currency !== form.currency)
+          .map((price) => ({ currency: price.currency, ...getTierFormPrice(form, tier, price.currency) })),
+      })
+    ),
+  };
+};
+
+export const loadOfferDrafts = async (): Promise<OfferDraft[]> => {
+  const { data, error } = await supabase
+    .from('offer_drafts')
+    .select('*, author:profiles!offer_drafts_author_id_fkey(full_name), reviewer:profiles!offer_drafts_reviewed_by_fkey(full_name)')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Offer Drafts Fetch Error:', error);
+    throw new Error(`Failed to load offer drafts: ${error.message}`);
+  }
+
+  return (data || []) as OfferDraft[];
+};
+
+/**
+ * Saves the form as a draft of the offer, or of a new offer when `offerId` is
+ * null. Saving a draft that was in review sends it back to draft.
+ */
+export const saveOfferDraft = async (
+  draftId: string | null,
+  offerId: string | null,
+  form: OfferForm,
+  moveSubscribers: boolean
+): Promise<OfferDraftRow> => {
+  const data = { offer_id: offerId, form, move_subscribers: moveSubscribers, updated_at: new Date().toISOString() };
+
+  const { data: saved, error } = draftId
+    ? await supabase.from('offer_drafts').update(data).eq('id', draftId).select().single()
+    : await supabase.from('offer_drafts').insert(data).select().single();
+
+  if (error || !saved) {
+    console.error('Offer Draft Save Error:', error);
+    throw new Error(error?.message || 'Failed to save draft');
+  }
+
+  return saved;
+};
+
+const callDraftRpc = async (
+  label: string,
+  request: PromiseLike<{ error: { message: string } | null }>
+): Promise<void> => {
+  const { error } = await request;
+
+  if (error) {
+    console.error(`${label} Offer Draft Error:`, error);
+    throw new Error(error.message || `Failed to ${label.toLowerCase()} draft`);
+  }
+};
+
+export const submitOfferDraft = (draftId: string): Promise<void> => {
+  return callDraftRpc('Submit', supabase.rpc('submit_offer_draft', { draft_id: draftId }));
+};
+
+export const approveOfferDraft = (draftId: string): Promise<void> => {
+  return callDraftRpc('Approve', supabase.rpc('approve_offer_draft', { draft_id: draftId }));
+};
+
+export const rejectOfferDraft = (draftId: string, note: string): Promise<void> => {
+  return callDraftRpc('Reject', supabase.rpc('reject_offer_draft', { draft_id: draftId, note }));
+};
+
+export const deleteOfferDraft = async (draftId: string): Promise<void> => {
+  const { error } = await supabase.from('offer_drafts').delete().eq('id', draftId);
+
+  if (error) {
+    console.error('Offer Draft Delete Error:', error);
+    throw new Error(error.message || 'Failed to discard draft');
+  }
+};
+
+/**
+ * Publishes an approved draft to the live catalog and removes it, in one
+ * transaction. Returns the offer's id.
+ */
+export const publishOfferDraft = async (draftId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('publish_offer_draft', { draft_id: draftId });
+
+  if (error || !data) {
+    console.error('Publish Offer Draft Error:', error);
+    throw new Error(error?.message || 'Failed to publish offer');
+  }
+
+  return data;
+};
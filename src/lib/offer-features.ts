@@ -0,0 +1,64 @@
+/**
+ * Offer features are stored as a flat list of lines so that search, version
+ * history and tier comparison keep treating them as text. A line starting
+ * with "## " names a group for the features after it, and a feature can
+ * carry a tooltip after " :: ". Feature text may use inline Markdown.
+ */
+
+export interface OfferFeature {
+  text: string;
+  tooltip: string;
+}
+
+export interface OfferFeatureGroup {
+  /** Empty for features listed before the first group */
+  name: string;
+  features: OfferFeature[];
+}
+
+const GROUP_PREFIX = '## ';
+const TOOLTIP_SEPARATOR = ' :: ';
+
+export const isFeatureGroup = (line: string): boolean => line.startsWith(GROUP_PREFIX);
+
+export const getFeatureGroupName = (line: string): string => line.slice(GROUP_PREFIX.length);
+
+export const formatFeatureGroup = (name: string): string => `${GROUP_PREFIX}${name}`;
+
+export const parseFeature = (line: string): OfferFeature => {
+  const separator = line.indexOf(TOOLTIP_SEPARATOR);
+  if (separator === -1) return { text: line, tooltip: '' };
+  return { text: line.slice(0, separator), tooltip: line.slice(separator + TOOLTIP_SEPARATOR.length) };
+};
+
+export const formatFeature = ({ text, tooltip }: OfferFeature): string =>
+  tooltip.trim() ? `${text}${TOOLTIP_SEPARATOR}${tooltip}` : text;
+
+/** Features under their groups, leaving out empty lines and empty groups */
+export const groupFeatures = (lines: string[]): OfferFeatureGroup[] => {
+  const groups: OfferFeatureGroup[] = [{ name: '', features: [] }];
+
+  for (const line of lines) {
+    if (isFeatureGroup(line)) {
+      groups.push({ name: getFeatureGroupName(line).trim(), features: [] });
+    } else if (line.trim()) {
+      groups[groups.length - 1].features.push(parseFeature(line));
+    }
+  }
+
+  return groups.filter((group) => group.features.length > 0);
+};
+
+/** Trims each line and drops empty features and unnamed groups, for saving */
+export const normalizeFeatures = (lines: string[]): string[] =>
+  lines.flatMap((line) => {
+    if (isFeatureGroup(line)) {
+      const name = getFeatureGroupName(line).trim();
+      return name ? [formatFeatureGroup(name)] : [];
+    }
+    const { text, tooltip } = parseFeature(line);
+    return text.trim() ? [formatFeature({ text: text.trim(), tooltip: tooltip.trim() })] : [];
+  });
+
+export const countFeatures = (lines: string[]): number =>
+  lines.filter((line) => line.trim() && !isFeatureGroup(line)).length;
@@ -0,0 +1,37 @@
+import type { Database } from './database.types';
+import type { SubscriptionStatus } from './subscription-lifecycle';
+
+type OfferRelation = Database['public']['Tables']['offer_relations']['Row'];
+type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'];
+
+export type OfferRelationKind = OfferRelation['kind'];
+
+export interface RelatedOffer {
+  offer_relations: Pick<OfferRelation, 'related_offer_id' | 'kind'>[];
+}
+
+/**
+ * Embeds the relations an offer declares. service_offers is referenced twice
+ * by offer_relations, so the foreign key has to be named.
+ */
+export const OFFER_RELATIONS_SELECT = 'offer_relations!offer_relations_offer_id_fkey(*)';
+
+// Mirrors check_subscription_prerequisites() in the database, which is the source of truth.
+export const PREREQUISITE_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'past_due'];
+
+export const getRelatedOfferIds = (offer: RelatedOffer, kind: OfferRelationKind): string[] => {
+  return offer.offer_relations.filter((relation) => relation.kind === kind).map((relation) => relation.related_offer_id);
+};
+
+/** Ids of the offers this offer requires that the customer is not subscribed to */
+export const getMissingPrerequisites = (
+  offer: RelatedOffer,
+  subscriptions: Pick<UserSubscription, 'offer_id' | 'status'>[]
+): string[] => {
+  return getRelatedOfferIds(offer, 'prerequisite').filter(
+    (offerId) =>
+      !subscriptions.some(
+        (sub) => sub.offer_id === offerId && PREREQUISITE_STATUSES.includes(sub.status)
+      )
+  );
+};
@@ -0,0 +1,32 @@
+import type { Database } from './database.types';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+
+export type OfferScheduleStatus = 'published' | 'scheduled' | 'expired' | 'inactive';
+
+type ScheduledOffer = Pick<ServiceOffer, 'is_active' | 'publish_at' | 'unpublish_at'>;
+
+// Mirrors is_offer_published() in the database, which is the source of truth.
+export const getOfferScheduleStatus = (offer: ScheduledOffer, now: Date = new Date()): OfferScheduleStatus => {
+  if (!offer.is_active) return 'inactive';
+  if (offer.publish_at && new Date(offer.publish_at) > now) return 'scheduled';
+  if (offer.unpublish_at && new Date(offer.unpublish_at) <= now) return 'expired';
+  return 'published';
+};
+
+export const isOfferPublished = (offer: ScheduledOffer, now: Date = new Date()): boolean => {
+  return getOfferScheduleStatus(offer, now) === 'published';
+};
+
+/** A timestamp as the local date and time a datetime-local input expects */
+export const toDateTimeInput = (value: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** A datetime-local input's value as a timestamp, or null when it is empty */
+export const fromDateTimeInput = (value: string): string | null => {
+  return value ? new Date(value).toISOString() : null;
+};
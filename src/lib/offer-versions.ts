@@ -0,0 +1,168 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { formatMoney, getPricePoint, type PricedOffer } from './currency';
+import { getSubscribedTier, getTierPricing } from './tiers';
+
+type OfferVersion = Database['public']['Tables']['offer_versions']['Row'];
+type OfferVersionPrice = Database['public']['Tables']['offer_version_prices']['Row'];
+
+/** A version with its other-currency prices, shaped like a PricedOffer */
+export type PricedOfferVersion = OfferVersion & {
+  offer_prices: OfferVersionPrice[];
+};
+
+export interface VersionedSubscription {
+  tier_id: string | null;
+  service_offers: PricedOffer | null;
+  offer_versions?: PricedOfferVersion | null;
+}
+
+export interface VersionChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** Select clause embedding a version's prices under the name PricedOffer expects */
+export const VERSION_SELECT = '*, offer_prices:offer_version_prices(*)';
+
+/**
+ * The prices a subscription is billed at: those of the version, and tier if
+ * any, it was sold under, or the offer's own when it has no version.
+ */
+export const getSubscribedPricing = (subscription: VersionedSubscription): PricedOffer | null => {
+  const tier = getSubscribedTier(subscription);
+  if (tier && subscription.offer_versions) {
+    return getTierPricing(subscription.offer_versions.currency, tier);
+  }
+  return subscription.offer_versions ?? subscription.service_offers;
+};
+
+export const loadOfferVersions = async (offerId: string): Promise<PricedOfferVersion[]> => {
+  const { data, error } = await supabase
+    .from('offer_versions')
+    .select(VERSION_SELECT)
+    .eq('offer_id', offerId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Offer Versions Fetch Error:', error);
+    throw new Error(`Failed to load offer versions: ${error.message}`);
+  }
+
+  return (data || []) as PricedOfferVersion[];
+};
+
+/**
+ * Snapshots the offer as a new version if it changed since the current one.
+ * Returns the offer's current version either way.
+ */
+export const publishOfferVersion = async (offerId: string): Promise<OfferVersion> => {
+  const { data, error } = await supabase.rpc('publish_offer_version', { offer_id: offerId });
+
+  if (error) {
+    console.error('Publish Offer Version Error:', error);
+    throw new Error(error.message || 'Failed to publish offer version');
+  }
+
+  return data;
+};
+
+/**
+ * Moves live subscriptions on older versions of the offer to `versionId`.
+ * Returns how many moved.
+ */
+export const moveSubscribersToVersion = async (versionId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('move_subscribers_to_version', { version_id: versionId });
+
+  if (error) {
+    console.error('Move Subscribers Error:', error);
+    throw new Error(error.message || 'Failed to move subscribers');
+  }
+
+  return data;
+};
+
+const currenciesOf = (pricing: PricedOffer): string[] => {
+  return [pricing.currency, ...(pricing.offer_prices ?? []).map((price) => price.currency)];
+};
+
+const diffFeatures = (changes: VersionChange[], prefix: string, from: string[], to: string[]) => {
+  for (const feature of from.filter((f) => !to.includes(f))) {
+    changes.push({ label: `${prefix}Feature removed`, before: feature, after: '' });
+  }
+  for (const feature of to.filter((f) => !from.includes(f))) {
+    changes.push({ label: `${prefix}Feature added`, before: '', after: feature });
+  }
+};
+
+const diffPrices = (changes: VersionChange[], prefix: string, from: PricedOffer, to: PricedOffer) => {
+  const currencies = [...new Set([...currenciesOf(from), ...currenciesOf(to)])];
+  for (const currency of currencies) {
+    const before = getPricePoint(from, currency);
+    const after = getPricePoint(to, currency);
+
+    for (const cycle of ['monthly', 'yearly'] as const) {
+      const key = cycle === 'monthly' ? 'price_monthly' : 'price_yearly';
+      if (before?.[key] === after?.[key]) continue;
+
+      changes.push({
+        label: `${prefix}${cycle === 'monthly' ? 'Monthly' : 'Yearly'} price (${currency})`,
+        before: before ? formatMoney(before[key], currency) : 'Not offered',
+        after: after ? formatMoney(after[key], currency) : 'Not offered',
+      });
+    }
+  }
+};
+
+/**
+ * What changed from one version to the next: title, description, each
+ * added or removed feature, each price per currency and cycle, and the same
+ * for each tier along with its limits.
+ */
+export const diffOfferVersions = (from: PricedOfferVersion, to: PricedOfferVersion): VersionChange[] => {
+  const changes: VersionChange[] = [];
+
+  if (from.title !== to.title) {
+    changes.push({ label: 'Title', before: from.title, after: to.title });
+  }
+  if (from.description !== to.description) {
+    changes.push({ label: 'Description', before: from.description, after: to.description });
+  }
+  diffFeatures(changes, '', from.features, to.features);
+  diffPrices(changes, '', from, to);
+
+  for (const tier of from.tiers.filter((t) => !to.tiers.some((other) => other.id === t.id))) {
+    changes.push({ label: 'Tier removed', before: tier.name, after: '' });
+  }
+
+  for (const tier of to.tiers) {
+    const previous = from.tiers.find((t) => t.id === tier.id);
+    if (!previous) {
+      changes.push({ label: 'Tier added', before: '', after: tier.name });
+      continue;
+    }
+
+    const prefix = `${tier.name}: `;
+    if (previous.name !== tier.name) {
+      changes.push({ label: 'Tier name', before: previous.name, after: tier.name });
+    }
+    if (previous.description !== tier.description) {
+      changes.push({ label: `${prefix}Description`, before: previous.description, after: tier.description });
+    }
+    diffFeatures(changes, prefix, previous.features, tier.features);
+
+    const limitNames = [...new Set([...previous.limits, ...tier.limits].map((limit) => limit.name))];
+    for (const name of limitNames) {
+      const before = previous.limits.find((limit) => limit.name === name)?.value;
+      const after = tier.limits.find((limit) => limit.name === name)?.value;
+      if (before !== after) {
+        changes.push({ label: `${prefix}${name}`, before: before ?? 'None', after: after ?? 'None' });
+      }
+    }
+
+    diffPrices(changes, prefix, getTierPricing(from.currency, previous), getTierPricing(to.currency, tier));
+  }
+
+  return changes;
+};
@@ -0,0 +1,183 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationRole = Database['public']['Tables']['organization_members']['Row']['role'];
+export type OrganizationInvitation = Database['public']['Tables']['organization_invitations']['Row'];
+
+/** The signed-in customer's organization and their role in it */
+export type OrganizationMembership = Database['public']['Tables']['organization_members']['Row'] & {
+  organizations: Organization | null;
+};
+
+export type OrganizationMember = Database['public']['Tables']['organization_members']['Row'] & {
+  profiles: Pick<Profile, 'full_name' | 'email'> | null;
+};
+
+/** An invitation sent to the signed-in customer, with the organization's name */
+export type ReceivedInvitation = OrganizationInvitation & {
+  organizations: Pick<Organization, 'name'> | null;
+};
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'billing', 'member'];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  billing: 'Billing',
+  member: 'Member',
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Manages the team, services and billing',
+  billing: 'Manages services, checkout and invoices',
+  member: 'Sees the services',
+};
+
+/** Whether a role can subscribe, change services and see invoices */
+export const canManageBilling = (role: OrganizationRole | null | undefined): boolean => {
+  return role === 'owner' || role === 'billing';
+};
+
+export const canManageMembers = (role: OrganizationRole | null | undefined): boolean => {
+  return role === 'owner';
+};
+
+export const loadMembership = async (userId: string): Promise<OrganizationMembership | null> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('*, organizations(*)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Membership Fetch Error:', error);
+    throw new Error(`Failed to load your organization: ${error.message}`);
+  }
+
+  return data as OrganizationMembership | null;
+};
+
+export const loadOrganizationMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('*, profiles(full_name, email)')
+    .eq('organization_id', organizationId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Organization Members Fetch Error:', error);
+    throw new Error(`Failed to load members: ${error.message}`);
+  }
+
+  return (data || []) as OrganizationMember[];
+};
+
+export const loadOrganizationInvitations = async (organizationId: string): Promise<OrganizationInvitation[]> => {
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Organization Invitations Fetch Error:', error);
+    throw new Error(`Failed to load invitations: ${error.message}`);
+  }
+
+  return (data || []) as OrganizationInvitation[];
+};
+
+/**
+ * Invitations sent to the address the customer signs in with. The profile's
+ * email can be edited by the customer, so it is not used to find them.
+ */
+export const loadReceivedInvitations = async (): Promise<ReceivedInvitation[]> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  const email = session?.user.email;
+  if (!email) return [];
+
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .select('*, organizations(name)')
+    .eq('email', email.toLowerCase())
+    .order('created_at');
+
+  if (error) {
+    console.error('Received Invitations Fetch Error:', error);
+    throw new Error(`Failed to load invitations: ${error.message}`);
+  }
+
+  return (data || []) as ReceivedInvitation[];
+};
+
+export const renameOrganization = async (organizationId: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', organizationId);
+
+  if (error) {
+    console.error('Organization Rename Error:', error);
+    throw new Error(error.message || 'Failed to rename organization');
+  }
+};
+
+export const cancelInvitation = async (invitationId: string): Promise<void> => {
+  const { error } = await supabase.from('organization_invitations').delete().eq('id', invitationId);
+
+  if (error) {
+    console.error('Invitation Cancel Error:', error);
+    throw new Error(error.message || 'Failed to cancel invitation');
+  }
+};
+
+const callOrganizationRpc = async (
+  label: string,
+  request: PromiseLike<{ error: { message: string } | null }>
+): Promise<void> => {
+  const { error } = await request;
+
+  if (error) {
+    console.error(`${label} Error:`, error);
+    throw new Error(error.message || `Failed to ${label.toLowerCase()}`);
+  }
+};
+
+/** Invites someone by email, or changes the role of their pending invitation */
+export const inviteMember = (organizationId: string, email: string, role: OrganizationRole): Promise<void> => {
+  return callOrganizationRpc(
+    'Invite Member',
+    supabase.rpc('invite_organization_member', { organization_id: organizationId, email, role })
+  );
+};
+
+/** Joins the invitation's organization, leaving the customer's current one */
+export const acceptInvitation = (invitationId: string): Promise<void> => {
+  return callOrganizationRpc('Accept Invitation', supabase.rpc('accept_organization_invitation', { invitation_id: invitationId }));
+};
+
+export const declineInvitation = (invitationId: string): Promise<void> => {
+  return callOrganizationRpc('Decline Invitation', supabase.rpc('decline_organization_invitation', { invitation_id: invitationId }));
+};
+
+export const changeMemberRole = (organizationId: string, memberId: string, role: OrganizationRole): Promise<void> => {
+  return callOrganizationRpc(
+    'Change Role',
+    supabase.rpc('change_organization_member_role', { organization_id: organizationId, member_id: memberId, new_role: role })
+  );
+};
+
+/**
+ * Removes a member, or lets the signed-in customer leave. They continue in an
+ * organization of their own; the services stay with the team.
+ */
+export const removeMember = (organizationId: string, memberId: string): Promise<void> => {
+  return callOrganizationRpc(
+    'Remove Member',
+    supabase.rpc('remove_organization_member', { organization_id: organizationId, member_id: memberId })
+  );
+};
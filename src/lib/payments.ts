@@ -0,0 +1,70 @@
+import { supabase } from './supabase';
+
+export type PaymentProviderName = 'stripe' | 'mock';
+
+export interface CheckoutResult {
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+export interface TestPaymentMethod {
+  id: string;
+  label: string;
+}
+
+/** Null when VITE_PAYMENT_PROVIDER is unset, which turns card payments off */
+export const paymentProvider: PaymentProviderName | null =
+  import.meta.env.VITE_PAYMENT_PROVIDER === 'stripe' || import.meta.env.VITE_PAYMENT_PROVIDER === 'mock'
+    ? import.meta.env.VITE_PAYMENT_PROVIDER
+    : null;
+
+export const stripePublishableKey: string = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY || '';
+
+// Must match the ids handled by supabase/functions/_shared/mock-provider.ts
+export const MOCK_PAYMENT_METHODS: TestPaymentMethod[] = [
+  { id: 'pm_card_visa', label: 'Visa ending 4242 (succeeds)' },
+  { id: 'pm_card_mastercard', label: 'Mastercard ending 4444 (succeeds)' },
+  { id: 'pm_card_chargeDeclined', label: 'Card ending 0002 (declined)' },
+  { id: 'pm_card_chargeDeclinedInsufficientFunds', label: 'Card ending 9995 (insufficient funds)' },
+  { id: 'pm_card_chargeDeclinedExpiredCard', label: 'Card ending 0069 (expired)' },
+];
+
+const getFunctionErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  const context = (error as { context?: Response }).context;
+  if (context && typeof context.json === 'function') {
+    try {
+      const body = await context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // Fall through to the generic message
+    }
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+export const checkoutSubscription = async (
+  subscriptionId: string,
+  paymentMethodId: string
+): Promise<CheckoutResult> => {
+  const { data, error } = await supabase.functions.invoke('checkout', {
+    body: { subscription_id: subscriptionId, payment_method_id: paymentMethodId },
+  });
+
+  if (error) {
+    console.error('Checkout Error:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Checkout failed'));
+  }
+
+  return { status: data.status, failureReason: data.failure_reason };
+};
+
+export const refundPayment = async (paymentId: string, amount?: number): Promise<void> => {
+  const { error } = await supabase.functions.invoke('refund-payment', {
+    body: { payment_id: paymentId, amount },
+  });
+
+  if (error) {
+    console.error('Refund Error:', error);
+    throw new Error(await getFunctionErrorMessage(error, 'Refund failed'));
+  }
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { calculateProration } from './proration';
+
+// The billing helpers share a module with the billing job, which needs a client
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe('calculateProration', () => {
+  it('counts February as 29 days in a leap year', () => {
+    const preview = calculateProration({
+      currentPrice: 29,
+      currentCycle: 'monthly',
+      anchor: utc('2024-01-01'),
+      newPrice: 58,
+      newCycle: 'monthly',
+      changeAt: utc('2024-02-15'),
+    });
+
+    expect(preview.periodStart).toEqual(utc('2024-02-01'));
+    expect(preview.periodEnd).toEqual(utc('2024-03-01'));
+    expect(preview.periodDays).toBe(29);
+    expect(preview.unusedDays).toBe(15);
+    expect(preview.credit).toBe(15);
+    expect(preview.charge).toBe(30);
+    expect(preview.amountDue).toBe(15);
+    expect(preview.creditCarried).toBe(0);
+  });
+
+  it('counts a leap year as 366 days on a yearly cycle', () => {
+    const preview = calculateProration({
+      currentPrice: 366,
+      currentCycle: 'yearly',
+      anchor: utc('2024-01-01'),
+      newPrice: 732,
+      newCycle: 'yearly',
+      changeAt: utc('2024-12-31'),
+    });
+
+    expect(preview.periodDays).toBe(366);
+    expect(preview.unusedDays).toBe(1);
+    expect(preview.credit).toBe(1);
+    expect(preview.charge).toBe(2);
+    expect(preview.newPeriodEnd).toEqual(utc('2025-01-01'));
+  });
+
+  it('ends the period of a January 31 anchor on the last day of February', () => {
+    const preview = calculateProration({
+      currentPrice: 28,
+      currentCycle: 'monthly',
+      anchor: utc('2025-01-31'),
+      newPrice: 56,
+      newCycle: 'monthly',
+      changeAt: utc('2025-02-14'),
+    });
+
+    expect(preview.periodStart).toEqual(utc('2025-01-31'));
+    expect(preview.periodEnd).toEqual(utc('2025-02-28'));
+    expect(preview.periodDays).toBe(28);
+    expect(preview.unusedDays).toBe(14);
+    expect(preview.credit).toBe(14);
+    expect(preview.charge).toBe(28);
+    expect(preview.newPeriodEnd).toEqual(utc('2025-02-28'));
+  });
+
+  it('returns a January 31 anchor to the 31st after February', () => {
+    const preview = calculateProration({
+      currentPrice: 31,
+      currentCycle: 'monthly',
+      anchor: utc('2024-01-31'),
+      newPrice: 31,
+      newCycle: 'monthly',
+      changeAt: utc('2024-03-01'),
+    });
+
+    expect(preview.periodStart).toEqual(utc('2024-02-29'));
+    expect(preview.periodEnd).toEqual(utc('2024-03-31'));
+    expect(preview.periodDays).toBe(31);
+    expect(preview.unusedDays).toBe(30);
+  });
+
+  it('credits the whole period for a change on the billing day', () => {
+    const preview = calculateProration({
+      currentPrice: 50,
+      currentCycle: 'monthly',
+      anchor: utc('2025-01-10'),
+      newPrice: 80,
+      newCycle: 'monthly',
+      changeAt: new Date('2025-02-10T15:30:00Z'),
+    });
+
+    expect(preview.periodStart).toEqual(utc('2025-02-10'));
+    expect(preview.periodEnd).toEqual(utc('2025-03-10'));
+    expect(preview.unusedDays).toBe(preview.periodDays);
+    expect(preview.credit).toBe(50);
+    expect(preview.charge).toBe(80);
+    expect(preview.amountDue).toBe(30);
+  });
+
+  it('carries the difference as credit when downgrading mid-period', () => {
+    const preview = calculateProration({
+      currentPrice: 100,
+      currentCycle: 'monthly',
+      anchor: utc('2025-01-01'),
+      newPrice: 40,
+      newCycle: 'monthly',
+      changeAt: utc('2025-01-16'),
+    });
+
+    expect(preview.periodDays).toBe(31);
+    expect(preview.unusedDays).toBe(16);
+    expect(preview.credit).toBe(51.61);
+    expect(preview.charge).toBe(20.65);
+    expect(preview.amountDue).toBe(0);
+    expect(preview.creditCarried).toBe(30.96);
+  });
+
+  it('starts a new period when switching from yearly to a cheaper monthly plan', () => {
+    const preview = calculateProration({
+      currentPrice: 1200,
+      currentCycle: 'yearly',
+      anchor: utc('2025-01-01'),
+      newPrice: 100,
+      newCycle: 'monthly',
+      changeAt: utc('2025-07-02'),
+    });
+
+    expect(preview.periodDays).toBe(365);
+    expect(preview.unusedDays).toBe(183);
+    expect(preview.credit).toBe(601.64);
+    expect(preview.charge).toBe(100);
+    expect(preview.amountDue).toBe(0);
+    expect(preview.creditCarried).toBe(501.64);
+    expect(preview.newPeriodStart).toEqual(utc('2025-07-02'));
+    expect(preview.newPeriodEnd).toEqual(utc('2025-08-02'));
+  });
+});
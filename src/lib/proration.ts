@@ -0,0 +1,67 @@
+import { getBillingPeriodAt, getPeriodStart, roundCurrency, type BillingCycle } from './billing';
+
+export interface ProrationInput {
+  currentPrice: number;
+  currentCycle: BillingCycle;
+  anchor: Date;
+  newPrice: number;
+  newCycle: BillingCycle;
+  changeAt?: Date;
+}
+
+export interface ProrationPreview {
+  periodStart: Date;
+  periodEnd: Date;
+  periodDays: number;
+  unusedDays: number;
+  credit: number;
+  charge: number;
+  amountDue: number;
+  creditCarried: number;
+  newPeriodStart: Date;
+  newPeriodEnd: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcDay = (date: Date): number => Math.floor(date.getTime() / DAY_MS);
+
+/**
+ * Prices a mid-period plan change by whole UTC days. The unused days of the
+ * current period are credited at the current price. Staying on the same cycle
+ * charges the new price for the same unused days and keeps the billing date;
+ * switching cycle starts a full new period on the change date.
+ *
+ * Mirrors change_subscription_plan() in the database, which applies the change.
+ */
+export const calculateProration = ({
+  currentPrice,
+  currentCycle,
+  anchor,
+  newPrice,
+  newCycle,
+  changeAt = new Date(),
+}: ProrationInput): ProrationPreview => {
+  const period = getBillingPeriodAt(anchor, currentCycle, changeAt);
+  const periodDays = toUtcDay(period.end) - toUtcDay(period.start);
+  const unusedDays = Math.max(0, toUtcDay(period.end) - toUtcDay(changeAt));
+  const unusedFraction = periodDays > 0 ? unusedDays / periodDays : 0;
+
+  const credit = roundCurrency(currentPrice * unusedFraction);
+  const sameCycle = newCycle === currentCycle;
+  const charge = sameCycle ? roundCurrency(newPrice * unusedFraction) : roundCurrency(newPrice);
+  const net = roundCurrency(charge - credit);
+
+  return {
+    periodStart: period.start,
+    periodEnd: period.end,
+    periodDays,
+    unusedDays,
+    credit,
+    charge,
+    amountDue: Math.max(0, net),
+    creditCarried: Math.max(0, -net),
+    newPeriodStart: changeAt,
+    newPeriodEnd: sameCycle ? period.end : getPeriodStart(changeAt, newCycle, 1),
+  };
+};
@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import type { PricedTier } from './tiers';
+import type { PricedMeter } from './usage';
+import { getRoutePath } from './routes';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type Category = Database['public']['Tables']['service_categories']['Row'];
+
+/** A published offer with everything its public page shows */
+export type PublicOffer = ServiceOffer & {
+  service_categories: Category | null;
+  offer_prices: Database['public']['Tables']['offer_prices']['Row'][];
+  offer_tiers: PricedTier[];
+  offer_meters: PricedMeter[];
+};
+
+// Only loaded for visitors who have not signed in, whom RLS shows published offers only
+const PUBLIC_OFFER_SELECT =
+  '*, service_categories(*), offer_prices(*), offer_tiers(*, offer_tier_prices(*)), offer_meters(*, offer_meter_prices(*))';
+
+// Mirrors slugify() in the database, which sets the slug when none is given
+export const slugify = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+export const getOfferPath = (offer: Pick<ServiceOffer, 'slug'>): string =>
+  getRoutePath({ name: 'offer', slug: offer.slug });
+
+export const loadPublicOffers = async (): Promise<PublicOffer[]> => {
+  const { data, error } = await supabase
+    .from('service_offers')
+    .select(PUBLIC_OFFER_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Public Catalog Error:', error);
+    throw new Error(`Failed to load the catalog: ${error.message}`);
+  }
+
+  return (data || []) as PublicOffer[];
+};
+
+export const loadPublicOffer = async (slug: string): Promise<PublicOffer | null> => {
+  const { data, error } = await supabase
+    .from('service_offers')
+    .select(PUBLIC_OFFER_SELECT)
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Public Catalog Error:', error);
+    throw new Error(`Failed to load the offer: ${error.message}`);
+  }
+
+  return data as PublicOffer | null;
+};
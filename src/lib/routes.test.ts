@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRouteUrl, parseRoute } from './routes';
+
+describe('parseRoute', () => {
+  it('decodes path segments', () => {
+    expect(parseRoute('/offers/caf%C3%A9-hosting')).toEqual({ name: 'offer', slug: 'café-hosting' });
+  });
+
+  it('treats a malformed escape in the path as not found', () => {
+    expect(parseRoute('/offers/%E0%A4%A')).toEqual({ name: 'notFound' });
+    expect(parseRoute('/%')).toEqual({ name: 'notFound' });
+  });
+});
+
+describe('getRouteUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('builds addresses for auth emails on the current origin', () => {
+    vi.stubGlobal('window', { location: { origin: 'https://portal.example.com' } });
+    expect(getRouteUrl({ name: 'authCallback' })).toBe('https://portal.example.com/auth/callback');
+    expect(getRouteUrl({ name: 'resetPassword' })).toBe('https://portal.example.com/reset-password');
+  });
+});
@@ -0,0 +1,209 @@
+import { useMemo, useSyncExternalStore } from 'react';
+
+/**
+ * Every page of the portal has a path, so refreshing keeps your place, the
+ * browser's back and forward buttons move between pages, and any page can be
+ * linked to. Paths are parsed into routes here, and routes are turned back
+ * into paths, so components never build paths by hand.
+ */
+
+export const ADMIN_TABS = ['offers', 'bundles', 'subscriptions', 'categories', 'coupons', 'taxes', 'media', 'staff'] as const;
+
+export type AdminTab = (typeof ADMIN_TABS)[number];
+
+export type Route =
+  // Open to everyone
+  | { name: 'signIn' }
+  | { name: 'signUp' }
+  | { name: 'forgotPassword' }
+  | { name: 'resetPassword' }
+  | { name: 'authCallback' }
+  | { name: 'catalog' }
+  | { name: 'offer'; slug: string }
+  // Customers
+  | { name: 'dashboard' }
+  | { name: 'subscription'; subscriptionId: string }
+  // Admins
+  | { name: 'admin'; tab: AdminTab }
+  | { name: 'adminOffer'; offerId: string | 'new' }
+  | { name: 'adminSubscription'; subscriptionId: string }
+  | { name: 'adminCustomer'; customerId: string }
+  | { name: 'notFound' };
+
+type RoleProfile = { is_admin: boolean } | null;
+
+const RETURN_TO_KEY = 'returnTo';
+
+/** The decoded path segments, or null when the path is not validly encoded */
+const segmentsOf = (pathname: string): string[] | null => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (err) {
+    if (err instanceof URIError) return null;
+    throw err;
+  }
+};
+
+export const parseRoute = (pathname: string): Route => {
+  const segments = segmentsOf(pathname);
+  if (!segments) return { name: 'notFound' };
+
+  const [first, second, third, ...rest] = segments;
+  if (rest.length > 0) return { name: 'notFound' };
+
+  if (!first) return { name: 'dashboard' };
+  if (first === 'signin' && !second) return { name: 'signIn' };
+  if (first === 'signup' && !second) return { name: 'signUp' };
+  if (first === 'forgot-password' && !second) return { name: 'forgotPassword' };
+  if (first === 'reset-password' && !second) return { name: 'resetPassword' };
+  if (first === 'auth' && second === 'callback' && !third) return { name: 'authCallback' };
+  if (first === 'catalog' && !second) return { name: 'catalog' };
+  if (first === 'offers' && second && !third) return { name: 'offer', slug: second };
+  if (first === 'subscriptions' && second && !third) return { name: 'subscription', subscriptionId: second };
+
+  if (first === 'admin') {
+    if (!second) return { name: 'admin', tab: 'offers' };
+    if (!third) {
+      return ADMIN_TABS.includes(second as AdminTab) ? { name: 'admin', tab: second as AdminTab } : { name: 'notFound' };
+    }
+    if (second === 'offers') return { name: 'adminOffer', offerId: third };
+    if (second === 'subscriptions') return { name: 'adminSubscription', subscriptionId: third };
+    if (second === 'customers') return { name: 'adminCustomer', customerId: third };
+  }
+
+  return { name: 'notFound' };
+};
+
+export const getRoutePath = (route: Route): string => {
+  switch (route.name) {
+    case 'signIn':
+      return '/signin';
+    case 'signUp':
+      return '/signup';
+    case 'forgotPassword':
+      return '/forgot-password';
+    case 'resetPassword':
+      return '/reset-password';
+    case 'authCallback':
+      return '/auth/callback';
+    case 'catalog':
+      return '/catalog';
+    case 'offer':
+      return `/offers/${encodeURIComponent(route.slug)}`;
+    case 'dashboard':
+    case 'notFound':
+      return '/';
+    case 'subscription':
+      return `/subscriptions/${encodeURIComponent(route.subscriptionId)}`;
+    case 'admin':
+      return `/admin/${route.tab}`;
+    case 'adminOffer':
+      return `/admin/offers/${encodeURIComponent(route.offerId)}`;
+    case 'adminSubscription':
+      return `/admin/subscriptions/${encodeURIComponent(route.subscriptionId)}`;
+    case 'adminCustomer':
+      return `/admin/customers/${encodeURIComponent(route.customerId)}`;
+  }
+};
+
+/** A route's full address, for links in emails that open the portal */
+export const getRouteUrl = (route: Route): string => `${window.location.origin}${getRoutePath(route)}`;
+
+/** The dashboard tab a route belongs to */
+export const getAdminTab = (route: Route): AdminTab => {
+  switch (route.name) {
+    case 'admin':
+      return route.tab;
+    case 'adminSubscription':
+    case 'adminCustomer':
+      return 'subscriptions';
+    default:
+      return 'offers';
+  }
+};
+
+export const getHomeRoute = (profile: RoleProfile): Route => {
+  if (!profile) return { name: 'signIn' };
+  return profile.is_admin ? { name: 'admin', tab: 'offers' } : { name: 'dashboard' };
+};
+
+/**
+ * Where a route guard sends someone who cannot open a route, or null when
+ * they can. Signing in is required for everything but the public catalog,
+ * admin pages are for admins only, and the customer dashboard for customers.
+ * Customers see the catalog and offers in their dashboard. The pages that
+ * links in emails open show their own errors, as the link may have expired.
+ */
+export const getRouteRedirect = (route: Route, profile: RoleProfile): Route | null => {
+  switch (route.name) {
+    case 'signIn':
+    case 'signUp':
+    case 'forgotPassword':
+    case 'authCallback':
+      return profile ? getHomeRoute(profile) : null;
+    case 'resetPassword':
+      return null;
+    case 'catalog':
+      return profile && !profile.is_admin ? { name: 'dashboard' } : null;
+    case 'offer':
+      return null;
+    case 'dashboard':
+    case 'subscription':
+      if (!profile) return { name: 'signIn' };
+      return profile.is_admin ? getHomeRoute(profile) : null;
+    case 'admin':
+    case 'adminOffer':
+    case 'adminSubscription':
+    case 'adminCustomer':
+      if (!profile) return { name: 'signIn' };
+      return profile.is_admin ? null : getHomeRoute(profile);
+    case 'notFound':
+      return getHomeRoute(profile);
+  }
+};
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange);
+  return () => window.removeEventListener('popstate', onChange);
+};
+
+const getPathname = () => window.location.pathname;
+
+/** The current route, updated on navigation and on back and forward */
+export const useRoute = (): Route => {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  return useMemo(() => parseRoute(pathname), [pathname]);
+};
+
+/**
+ * Moves to a path in the app without reloading the page. Replacing the
+ * current history entry suits redirects, which the back button should skip.
+ */
+export const navigateTo = (path: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+export const navigateToRoute = (route: Route, options?: { replace?: boolean }) => {
+  navigateTo(getRoutePath(route), options);
+};
+
+/**
+ * Remembers the page someone was on when they had to sign in or sign up,
+ * so that they come back to it. Kept in localStorage because confirming an
+ * email address may continue in another tab.
+ */
+export const setReturnTo = (path: string) => {
+  localStorage.setItem(RETURN_TO_KEY, path);
+};
+
+/** Where to go after signing in, forgetting it once read */
+export const takeReturnTo = (): string | null => {
+  const path = localStorage.getItem(RETURN_TO_KEY);
+  localStorage.removeItem(RETURN_TO_KEY);
+  return path;
+};
@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+export type StaffRole = NonNullable<Profile['staff_role']>;
+export type StaffMember = Pick<Profile, 'id' | 'email' | 'full_name' | 'staff_role'>;
+
+/** What a role may change; every staff member can view everything */
+export type StaffPermission = 'catalog' | 'billing' | 'subscriptions' | 'staff';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'catalog_editor', 'billing', 'support', 'read_only'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  catalog_editor: 'Catalog Editor',
+  billing: 'Billing',
+  support: 'Support',
+  read_only: 'Read-only',
+};
+
+export const STAFF_ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  owner: 'Everything, and assigns staff roles',
+  catalog_editor: 'Offers, categories, bundles, coupons and media',
+  billing: 'Invoices, payments, tax rates, usage and subscriptions',
+  support: 'Subscription statuses and notes',
+  read_only: 'Sees everything and changes nothing',
+};
+
+// Mirrors staff_can() in the database, which enforces it
+const PERMISSION_ROLES: Record<StaffPermission, StaffRole[]> = {
+  catalog: ['owner', 'catalog_editor'],
+  billing: ['owner', 'billing'],
+  subscriptions: ['owner', 'billing', 'support'],
+  staff: ['owner'],
+};
+
+export const hasStaffPermission = (
+  profile: Pick<Profile, 'staff_role'> | null | undefined,
+  permission: StaffPermission
+): boolean => {
+  return !!profile?.staff_role && PERMISSION_ROLES[permission].includes(profile.staff_role);
+};
+
+export const loadStaff = async (): Promise<StaffMember[]> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, staff_role')
+    .not('staff_role', 'is', null)
+    .order('email');
+
+  if (error) {
+    console.error('Staff Fetch Error:', error);
+    throw new Error(`Failed to load staff: ${error.message}`);
+  }
+
+  return (data || []) as StaffMember[];
+};
+
+export const findProfileByEmail = async (email: string): Promise<StaffMember | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, staff_role')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Profile Lookup Error:', error);
+    throw new Error(`Failed to look up ${email}: ${error.message}`);
+  }
+
+  return data as StaffMember | null;
+};
+
+/** Assigns a staff role, or removes someone from the staff with null */
+export const setStaffRole = async (memberId: string, role: StaffRole | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_staff_role', { member_id: memberId, new_role: role });
+
+  if (error) {
+    console.error('Staff Role Error:', error);
+    throw new Error(error.message || 'Failed to change staff role');
+  }
+};
@@ -0,0 +1,182 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'];
+
+export type SubscriptionStatus = UserSubscription['status'];
+export type BillingCycle = UserSubscription['billing_cycle'];
+
+export type CustomerAction =
+  | 'cancel'
+  | 'undo_cancel'
+  | 'switch_cycle'
+  | 'undo_switch'
+  | 'change_plan'
+  | 'reactivate';
+
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [
+  'pending',
+  'trialing',
+  'active',
+  'past_due',
+  'paused',
+  'cancelled',
+  'expired',
+];
+
+// Mirrors subscription_transition_allowed() in the database, which is the source of truth.
+const TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  pending: ['active', 'cancelled'],
+  trialing: ['active', 'cancelled', 'expired'],
+  active: ['past_due', 'paused', 'cancelled', 'expired'],
+  past_due: ['active', 'cancelled', 'expired'],
+  paused: ['active', 'cancelled', 'expired'],
+  cancelled: ['pending'],
+  expired: [],
+};
+
+export const getNextStatuses = (status: SubscriptionStatus): SubscriptionStatus[] => {
+  return TRANSITIONS[status] ?? [];
+};
+
+export const canTransition = (from: SubscriptionStatus, to: SubscriptionStatus): boolean => {
+  return getNextStatuses(from).includes(to);
+};
+
+export const getStatusLabel = (status: string): string => {
+  switch (status) {
+    case 'past_due':
+      return 'Past Due';
+    case 'trialing':
+      return 'Trial';
+    default:
+      return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+};
+
+const getUnbundledActions = (
+  subscription: Pick<UserSubscription, 'status' | 'cancel_at_period_end' | 'pending_billing_cycle'>
+): CustomerAction[] => {
+  switch (subscription.status) {
+    case 'pending':
+      return ['cancel', 'switch_cycle'];
+    case 'trialing':
+      if (subscription.cancel_at_period_end) return ['undo_cancel'];
+      return ['cancel', 'switch_cycle'];
+    case 'active':
+      if (subscription.cancel_at_period_end) return ['undo_cancel'];
+      return ['cancel', subscription.pending_billing_cycle ? 'undo_switch' : 'switch_cycle', 'change_plan'];
+    case 'past_due':
+    case 'paused':
+      if (subscription.cancel_at_period_end) return ['undo_cancel'];
+      return ['cancel', subscription.pending_billing_cycle ? 'undo_switch' : 'switch_cycle'];
+    case 'cancelled':
+      return ['reactivate'];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Self-service actions a customer can take in the subscription's current state.
+ * Mirrors the checks in cancel_subscription(), undo_subscription_cancellation(),
+ * change_subscription_billing_cycle(), change_subscription_plan() and
+ * reactivate_subscription(). Services in a bundle keep the bundle's plan and
+ * billing cycle.
+ */
+export const getCustomerActions = (
+  subscription: Pick<UserSubscription, 'status' | 'cancel_at_period_end' | 'pending_billing_cycle' | 'subscription_bundle_id'>
+): CustomerAction[] => {
+  if (subscription.subscription_bundle_id) {
+    return getUnbundledActions(subscription).filter((action) => action !== 'switch_cycle' && action !== 'change_plan');
+  }
+  return getUnbundledActions(subscription);
+};
+
+const callSubscriptionRpc = async (
+  action: string,
+  request: PromiseLike<{ error: { message: string } | null }>
+): Promise<void> => {
+  const { error } = await request;
+
+  if (error) {
+    console.error(`Subscription ${action} Error:`, error);
+    throw new Error(error.message);
+  }
+};
+
+export const cancelSubscription = (subscriptionId: string): Promise<void> => {
+  return callSubscriptionRpc('Cancel', supabase.rpc('cancel_subscription', { subscription_id: subscriptionId }));
+};
+
+export const undoSubscriptionCancellation = (subscriptionId: string): Promise<void> => {
+  return callSubscriptionRpc(
+    'Undo Cancel',
+    supabase.rpc('undo_subscription_cancellation', { subscription_id: subscriptionId })
+  );
+};
+
+export const changeSubscriptionBillingCycle = (subscriptionId: string, cycle: BillingCycle): Promise<void> => {
+  return callSubscriptionRpc(
+    'Billing Cycle',
+    supabase.rpc('change_subscription_billing_cycle', { subscription_id: subscriptionId, new_cycle: cycle })
+  );
+};
+
+/**
+ * Moves an active subscription to another offer, tier or cycle straight away and
+ * returns the id of the prorated invoice that was issued.
+ */
+export const changeSubscriptionPlan = async (
+  subscriptionId: string,
+  offerId: string,
+  cycle: BillingCycle,
+  tierId: string | null = null
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('change_subscription_plan', {
+    subscription_id: subscriptionId,
+    new_offer_id: offerId,
+    new_cycle: cycle,
+    new_tier_id: tierId,
+  });
+
+  if (error) {
+    console.error('Subscription Plan Change Error:', error);
+    throw new Error(error.message);
+  }
+
+  return data;
+};
+
+export const reactivateSubscription = (subscriptionId: string): Promise<void> => {
+  return callSubscriptionRpc(
+    'Reactivate',
+    supabase.rpc('reactivate_subscription', { subscription_id: subscriptionId })
+  );
+};
+
+export const changeSubscriptionStatus = async (
+  subscriptionId: string,
+  status: SubscriptionStatus,
+  note: string = ''
+): Promise<void> => {
+  const { error } = await supabase.rpc('change_subscription_status', {
+    subscription_id: subscriptionId,
+    new_status: status,
+    note,
+  });
+
+  if (error) {
+    console.error('Subscription Status Error:', error);
+    throw new Error(`Failed to change subscription status: ${error.message}`);
+  }
+};
+
+export const setSubscriptionNotes = async (subscriptionId: string, notes: string): Promise<void> => {
+  const { error } = await supabase.rpc('set_subscription_notes', { subscription_id: subscriptionId, notes });
+
+  if (error) {
+    console.error('Subscription Notes Error:', error);
+    throw new Error(`Failed to save subscription notes: ${error.message}`);
+  }
+};
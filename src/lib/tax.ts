@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import { defaultTax, type TaxSettings } from './business';
+
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+
+export interface CountryOption {
+  code: string;
+  name: string;
+}
+
+export const COUNTRIES: CountryOption[] = [
+  { code: 'US', name: 'United States' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+  { code: 'NL', name: 'Netherlands' },
+  { code: 'BE', name: 'Belgium' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'IT', name: 'Italy' },
+  { code: 'AT', name: 'Austria' },
+  { code: 'SE', name: 'Sweden' },
+  { code: 'AU', name: 'Australia' },
+];
+
+export const getCountryName = (code: string | null): string => {
+  if (!code) return '';
+  return COUNTRIES.find((country) => country.code === code)?.name ?? code;
+};
+
+export const loadTaxRates = async (): Promise<TaxRate[]> => {
+  const { data, error } = await supabase.from('tax_rates').select('*').order('country').order('region');
+
+  if (error) {
+    console.error('Tax Rates Fetch Error:', error);
+    throw new Error(`Failed to load tax rates: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * The tax charged to a customer: the rate for their region, else the rate for
+ * their country, else the default from the environment. Mirrors
+ * customer_tax_rate() in the database.
+ */
+export const resolveTaxRate = (
+  rates: Pick<TaxRate, 'country' | 'region' | 'label' | 'rate'>[],
+  country: string | null,
+  region: string | null
+): TaxSettings => {
+  if (!country) return defaultTax;
+
+  const countryRates = rates.filter((rate) => rate.country === country);
+  const match =
+    (region ? countryRates.find((rate) => rate.region?.toUpperCase() === region.toUpperCase()) : undefined) ??
+    countryRates.find((rate) => rate.region === null);
+
+  return match ? { label: match.label, rate: Number(match.rate) } : defaultTax;
+};
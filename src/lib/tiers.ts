@@ -0,0 +1,75 @@
+import type { Database, OfferVersionTier } from './database.types';
+import type { PricedOffer } from './currency';
+
+type ServiceOffer = Database['public']['Tables']['service_offers']['Row'];
+type OfferTier = Database['public']['Tables']['offer_tiers']['Row'];
+type OfferTierPrice = Database['public']['Tables']['offer_tier_prices']['Row'];
+
+export type PricedTier = OfferTier & {
+  offer_tier_prices: Pick<OfferTierPrice, 'currency' | 'price_monthly' | 'price_yearly'>[];
+};
+
+export interface TieredSubscription {
+  tier_id: string | null;
+  offer_versions?: { tiers: OfferVersionTier[] } | null;
+}
+
+export interface TierComparison {
+  /** Limit names across all tiers, in the order they first appear */
+  limits: string[];
+  /** Features across all tiers, in the order they first appear */
+  features: string[];
+}
+
+export const sortTiers = <T extends Pick<OfferTier, 'sort_order'>>(tiers: T[]): T[] => {
+  return [...tiers].sort((a, b) => a.sort_order - b.sort_order);
+};
+
+/**
+ * A tier's prices shaped like a PricedOffer. Tiers are priced in their
+ * offer's currencies, the first of which is `currency`.
+ */
+export const getTierPricing = (
+  currency: string,
+  tier: Pick<PricedTier, 'price_monthly' | 'price_yearly' | 'offer_tier_prices'> | OfferVersionTier
+): PricedOffer => {
+  return {
+    currency,
+    price_monthly: tier.price_monthly,
+    price_yearly: tier.price_yearly,
+    offer_prices: 'prices' in tier ? tier.prices : tier.offer_tier_prices,
+  };
+};
+
+/**
+ * The tier a subscription was sold in, as it was in the subscription's offer
+ * version, or null for subscriptions without a tier.
+ */
+export const getSubscribedTier = (subscription: TieredSubscription): OfferVersionTier | null => {
+  if (!subscription.tier_id) return null;
+  return subscription.offer_versions?.tiers.find((tier) => tier.id === subscription.tier_id) ?? null;
+};
+
+/**
+ * The offer's title, followed by the tier name for tiered subscriptions.
+ * Matches the line items written by change_subscription_plan().
+ */
+export const getSubscriptionTitle = (
+  subscription: TieredSubscription & { service_offers: Pick<ServiceOffer, 'title'> | null }
+): string => {
+  const title = subscription.service_offers?.title ?? '';
+  const tier = getSubscribedTier(subscription);
+  return tier ? `${title} - ${tier.name}` : title;
+};
+
+export const compareTiers = (tiers: Pick<OfferTier, 'features' | 'limits'>[]): TierComparison => {
+  const limits = new Set<string>();
+  const features = new Set<string>();
+
+  for (const tier of tiers) {
+    tier.limits.forEach((limit) => limits.add(limit.name));
+    tier.features.forEach((feature) => features.add(feature));
+  }
+
+  return { limits: [...limits], features: [...features] };
+};
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+type OfferMeter = Database['public']['Tables']['offer_meters']['Row'];
+type OfferMeterPrice = Database['public']['Tables']['offer_meter_prices']['Row'];
+type UsageRecord = Database['public']['Tables']['usage_records']['Row'];
+type BillingCycle = Database['public']['Tables']['user_subscriptions']['Row']['billing_cycle'];
+
+export type PricedMeter = OfferMeter & {
+  offer_meter_prices?: Pick<OfferMeterPrice, 'currency' | 'unit_price'>[] | null;
+};
+
+export interface MeterUsage {
+  meter: PricedMeter;
+  quantity: number;
+  included: number;
+  billable: number;
+  /** Null when the meter has no price in the subscription's currency */
+  unitPrice: number | null;
+  amount: number;
+}
+
+export interface UsageInput {
+  subscriptionId: string;
+  meterId: string;
+  quantity: number;
+  recordedAt?: string;
+  note?: string;
+}
+
+/**
+ * Unit price of a meter in `currency`, or null when it has none. Meters are
+ * priced in their offer's currency, passed as `offerCurrency`. Mirrors
+ * meter_unit_price() in the database.
+ */
+export const getMeterUnitPrice = (meter: PricedMeter, offerCurrency: string, currency: string): number | null => {
+  if (offerCurrency === currency) {
+    return Number(meter.unit_price);
+  }
+
+  const price = meter.offer_meter_prices?.find((p) => p.currency === currency);
+  return price ? Number(price.unit_price) : null;
+};
+
+/**
+ * Units of a meter covered by the flat price in one billing period.
+ * `included_units` is per month, so a yearly period includes twelve months.
+ */
+export const getIncludedUnits = (meter: Pick<OfferMeter, 'included_units'>, cycle: BillingCycle): number => {
+  return Number(meter.included_units) * (cycle === 'yearly' ? 12 : 1);
+};
+
+/**
+ * Totals usage per meter and prices the units beyond those included. Meters
+ * without usage are listed with a zero quantity.
+ */
+export const summarizeUsage = (
+  meters: PricedMeter[],
+  records: Pick<UsageRecord, 'meter_id' | 'quantity'>[],
+  offerCurrency: string,
+  currency: string,
+  cycle: BillingCycle
+): MeterUsage[] => {
+  return [...meters]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((meter) => {
+      const quantity = records
+        .filter((record) => record.meter_id === meter.id)
+        .reduce((sum, record) => sum + Number(record.quantity), 0);
+      const included = getIncludedUnits(meter, cycle);
+      const billable = Math.max(0, quantity - included);
+      const unitPrice = getMeterUnitPrice(meter, offerCurrency, currency);
+
+      return {
+        meter,
+        quantity,
+        included,
+        billable,
+        unitPrice,
+        amount: unitPrice === null ? 0 : Math.round(billable * unitPrice * 100) / 100,
+      };
+    });
+};
+
+/**
+ * Usage on the given subscriptions that has not been invoiced yet, i.e. the
+ * usage in their current billing period.
+ */
+export const loadUnbilledUsage = async (subscriptionIds: string[]): Promise<UsageRecord[]> => {
+  if (subscriptionIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('usage_records')
+    .select('*')
+    .in('subscription_id', subscriptionIds)
+    .is('invoice_id', null)
+    .order('recorded_at');
+
+  if (error) {
+    console.error('Usage Fetch Error:', error);
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+export const recordUsage = async (input: UsageInput): Promise<UsageRecord> => {
+  const { data, error } = await supabase
+    .from('usage_records')
+    .insert({
+      subscription_id: input.subscriptionId,
+      meter_id: input.meterId,
+      quantity: input.quantity,
+      recorded_at: input.recordedAt ?? new Date().toISOString(),
+      note: input.note ?? '',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Record Usage Error:', error);
+    throw new Error(error.message || 'Failed to record usage');
+  }
+
+  return data;
+};
@@ -0,0 +1,12 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-usage-api-key',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export const jsonResponse = (body: unknown, status: number = 200): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,75 @@
+import { PaymentProviderError, type PaymentProvider } from './payment-provider.ts';
+
+/**
+ * Test payment methods, named after Stripe's test tokens so the same ids work
+ * against either provider. Any other id is treated as a working card.
+ */
+const DECLINES: Record<string, string> = {
+  pm_card_chargeDeclined: 'Your card was declined.',
+  pm_card_chargeDeclinedInsufficientFunds: 'Your card has insufficient funds.',
+  pm_card_chargeDeclinedExpiredCard: 'Your card has expired.',
+};
+
+interface MockCharge {
+  amount: number;
+  refunded: number;
+}
+
+/**
+ * Fully local provider for development: no network calls, state lives for the
+ * lifetime of the function instance.
+ */
+export const createMockPaymentProvider = (): PaymentProvider => {
+  const customers = new Map<string, { email: string; paymentMethods: Set<string> }>();
+  const charges = new Map<string, MockCharge>();
+  const chargesByIdempotencyKey = new Map<string, string>();
+
+  return {
+    name: 'mock',
+
+    createCustomer: async ({ email }) => {
+      const id = `cus_mock_${crypto.randomUUID()}`;
+      customers.set(id, { email, paymentMethods: new Set() });
+      return { id, email };
+    },
+
+    attachPaymentMethod: async (customerId, paymentMethodId) => {
+      // Customers created by an earlier instance are recreated on demand
+      const customer = customers.get(customerId) ?? { email: '', paymentMethods: new Set<string>() };
+      customer.paymentMethods.add(paymentMethodId);
+      customers.set(customerId, customer);
+    },
+
+    charge: async ({ customerId, paymentMethodId, amount, idempotencyKey }) => {
+      const existing = chargesByIdempotencyKey.get(idempotencyKey);
+      if (existing) return { id: existing, status: 'succeeded' };
+
+      if (!customers.get(customerId)?.paymentMethods.has(paymentMethodId)) {
+        return { id: null, status: 'failed', failureReason: 'The payment method is not attached to this customer.' };
+      }
+
+      const id = `pi_mock_${crypto.randomUUID()}`;
+      const decline = DECLINES[paymentMethodId];
+      if (decline) {
+        return { id, status: 'failed', failureReason: decline };
+      }
+
+      charges.set(id, { amount, refunded: 0 });
+      chargesByIdempotencyKey.set(idempotencyKey, id);
+      return { id, status: 'succeeded' };
+    },
+
+    refund: async (paymentId, amount) => {
+      // Charges from an earlier instance are assumed refundable
+      const charge = charges.get(paymentId);
+      if (charge) {
+        const refundAmount = amount ?? charge.amount - charge.refunded;
+        if (refundAmount > charge.amount - charge.refunded) {
+          throw new PaymentProviderError('Refund amount exceeds the remaining charge');
+        }
+        charge.refunded += refundAmount;
+      }
+      return { id: `re_mock_${crypto.randomUUID()}`, status: 'succeeded' };
+    },
+  };
+};
@@ -0,0 +1,72 @@
+import { createMockPaymentProvider } from './mock-provider.ts';
+import { createStripePaymentProvider } from './stripe-provider.ts';
+
+export type PaymentProviderName = 'stripe' | 'mock';
+
+export interface PaymentCustomer {
+  id: string;
+  email: string;
+}
+
+export interface ChargeParams {
+  customerId: string;
+  paymentMethodId: string;
+  /** Amount in the currency's minor unit, e.g. cents */
+  amount: number;
+  currency: string;
+  description: string;
+  idempotencyKey: string;
+}
+
+export interface ChargeResult {
+  id: string | null;
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+export interface RefundResult {
+  id: string;
+  status: 'succeeded' | 'failed';
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createCustomer: (params: { email: string; name?: string; userId: string }) => Promise<PaymentCustomer>;
+  attachPaymentMethod: (customerId: string, paymentMethodId: string) => Promise<void>;
+  charge: (params: ChargeParams) => Promise<ChargeResult>;
+  /** Refunds the whole charge when `amount` is omitted */
+  refund: (paymentId: string, amount?: number) => Promise<RefundResult>;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+/**
+ * The provider named by PAYMENT_PROVIDER. There is no default: the mock
+ * accepts any card without charging it, so it is only used when asked for.
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  const name = Deno.env.get('PAYMENT_PROVIDER');
+
+  switch (name) {
+    case 'stripe':
+      return createStripePaymentProvider({
+        secretKey: Deno.env.get('STRIPE_SECRET_KEY') || '',
+        apiBase: Deno.env.get('STRIPE_API_BASE') || 'https://api.stripe.com',
+      });
+    case 'mock':
+      return createMockPaymentProvider();
+    case undefined:
+    case '':
+      throw new PaymentProviderError('Payments are not configured: set PAYMENT_PROVIDER to stripe or mock');
+    default:
+      throw new PaymentProviderError(`Unknown payment provider: ${name}`);
+  }
+};
+
+export const toMinorUnits = (amount: number): number => Math.round(amount * 100);
@@ -0,0 +1,118 @@
+import { PaymentProviderError, type PaymentProvider } from './payment-provider.ts';
+
+interface StripeConfig {
+  secretKey: string;
+  /** Point at stripe-mock or another Stripe-compatible API for local testing */
+  apiBase: string;
+}
+
+interface StripeError {
+  error?: {
+    message?: string;
+    code?: string;
+    decline_code?: string;
+    payment_intent?: { id: string };
+  };
+}
+
+const encodeForm = (params: Record<string, string | number | undefined>): string => {
+  const body = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) body.append(key, String(value));
+  });
+  return body.toString();
+};
+
+export const createStripePaymentProvider = ({ secretKey, apiBase }: StripeConfig): PaymentProvider => {
+  if (!secretKey) {
+    throw new PaymentProviderError('Stripe secret key not configured. Please set STRIPE_SECRET_KEY');
+  }
+
+  const request = async <T>(
+    path: string,
+    params: Record<string, string | number | undefined>,
+    idempotencyKey?: string
+  ): Promise<{ ok: boolean; data: T & StripeError }> => {
+    const response = await fetch(`${apiBase}/v1/${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+      body: encodeForm(params),
+    });
+
+    return { ok: response.ok, data: await response.json() };
+  };
+
+  return {
+    name: 'stripe',
+
+    createCustomer: async ({ email, name, userId }) => {
+      const { ok, data } = await request<{ id: string; email: string }>('customers', {
+        email,
+        name,
+        'metadata[user_id]': userId,
+      });
+      if (!ok) throw new PaymentProviderError(data.error?.message || 'Failed to create customer');
+      return { id: data.id, email: data.email };
+    },
+
+    attachPaymentMethod: async (customerId, paymentMethodId) => {
+      const { ok, data } = await request(`payment_methods/${paymentMethodId}/attach`, {
+        customer: customerId,
+      });
+      // Re-attaching a method the customer already owns is not an error
+      if (!ok && data.error?.code !== 'payment_method_already_attached') {
+        throw new PaymentProviderError(data.error?.message || 'Failed to attach payment method');
+      }
+    },
+
+    charge: async ({ customerId, paymentMethodId, amount, currency, description, idempotencyKey }) => {
+      const { ok, data } = await request<{ id: string; status: string; last_payment_error?: { message?: string } }>(
+        'payment_intents',
+        {
+          amount,
+          currency,
+          customer: customerId,
+          payment_method: paymentMethodId,
+          description,
+          confirm: 'true',
+          off_session: 'true',
+        },
+        idempotencyKey
+      );
+
+      if (!ok) {
+        return {
+          id: data.error?.payment_intent?.id ?? null,
+          status: 'failed',
+          failureReason: data.error?.message || 'The payment could not be processed',
+        };
+      }
+
+      if (data.status !== 'succeeded') {
+        return {
+          id: data.id,
+          status: 'failed',
+          failureReason: data.last_payment_error?.message || `Payment ${data.status.replace(/_/g, ' ')}`,
+        };
+      }
+
+      return { id: data.id, status: 'succeeded' };
+    },
+
+    refund: async (paymentId, amount) => {
+      const { ok, data } = await request<{ id: string; status: string }>('refunds', {
+        payment_intent: paymentId,
+        amount,
+      });
+
+      if (!ok || data.status === 'failed') {
+        return { id: data.id ?? '', status: 'failed', failureReason: data.error?.message || 'Refund failed' };
+      }
+      return { id: data.id, status: 'succeeded' };
+    },
+  };
+};
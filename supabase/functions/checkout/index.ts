@@ -0,0 +1,259 @@
+/*
+  Checkout for a pending subscription.
+
+  POST { subscription_id, payment_method_id }
+
+  Charges the first billing period through the configured payment provider.
+  On success the subscription moves to `active`; on failure it stays `pending`
+  and `payment_error` holds the provider's reason for the customer to see.
+
+  Environment:
+  - PAYMENT_PROVIDER: 'stripe', or 'mock' for development. Required: checkouts
+    fail while it is unset
+  - STRIPE_SECRET_KEY, STRIPE_API_BASE: used by the Stripe adapter
+  - TAX_RATE: percentage added when no tax rate matches the customer's
+    country and region; keep in sync with VITE_TAX_RATE
+
+  The charge is made in the currency the subscription was taken out in.
+
+  Services subscribed to as a bundle are checked out together: checking out
+  any of them charges every pending service of the bundle purchase at its
+  share of the bundle price, in one payment, and activates them all.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getPaymentProvider, PaymentProviderError, toMinorUnits } from '../_shared/payment-provider.ts';
+
+const SUBSCRIPTION_SELECT =
+  '*, service_offers(*, offer_prices(*)), offer_versions(*, offer_prices:offer_version_prices(*)), subscription_bundles(service_bundles(title)), profiles(*), organizations(name)';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { subscription_id, payment_method_id } = await req.json();
+    if (!subscription_id || !payment_method_id) {
+      return jsonResponse({ error: 'subscription_id and payment_method_id are required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    const { data: subscription } = await admin
+      .from('user_subscriptions')
+      .select(SUBSCRIPTION_SELECT)
+      .eq('id', subscription_id)
+      .maybeSingle();
+
+    if (!subscription) {
+      return jsonResponse({ error: 'Subscription not found' }, 404);
+    }
+
+    // Owners and billing contacts pay for their organization's services
+    const { data: role } = await admin.rpc('organization_role', {
+      organization_id: subscription.organization_id,
+      member_id: user.id,
+    });
+    if (!role) {
+      return jsonResponse({ error: 'Subscription not found' }, 404);
+    }
+    if (role !== 'owner' && role !== 'billing') {
+      return jsonResponse({ error: 'Only owners and billing contacts can pay for your organization' }, 403);
+    }
+    if (subscription.status !== 'pending') {
+      return jsonResponse({ error: 'Only pending subscriptions can be checked out' }, 409);
+    }
+
+    const provider = getPaymentProvider();
+
+    const { data: existingCustomer } = await admin
+      .from('payment_customers')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    let customerId = existingCustomer?.provider === provider.name ? existingCustomer.customer_id : null;
+    if (!customerId) {
+      const customer = await provider.createCustomer({
+        email: user.email ?? subscription.profiles.email,
+        name: subscription.organizations?.name || subscription.profiles.full_name,
+        userId: user.id,
+      });
+      customerId = customer.id;
+      await admin
+        .from('payment_customers')
+        .upsert({ user_id: user.id, provider: provider.name, customer_id: customerId });
+    }
+
+    await provider.attachPaymentMethod(customerId, payment_method_id);
+
+    /**
+     * The price of the first billing period before tax, at the version, and tier
+     * if any, of the offer the subscription was sold under. Returns an error
+     * message when the offer is no longer priced in the subscription's currency.
+     */
+    const getCheckoutPrice = (sub: typeof subscription): { title: string; price: number } | { error: string } => {
+      const offer = sub.offer_versions ?? sub.service_offers;
+      const tier = sub.tier_id
+        ? (sub.offer_versions?.tiers ?? []).find((t: { id: string }) => t.id === sub.tier_id)
+        : null;
+      const title = tier ? `${offer.title} - ${tier.name}` : offer.title;
+      // discounted_price is set by the database when a coupon was redeemed
+      const discountActive = sub.discounted_price !== null &&
+        (sub.discount_periods_remaining === null || sub.discount_periods_remaining > 0);
+      if (discountActive) {
+        return { title, price: Number(sub.discounted_price) };
+      }
+      // bundle_price is the service's share of its bundle's price
+      if (sub.bundle_price !== null) {
+        return { title, price: Number(sub.bundle_price) };
+      }
+
+      const currency: string = sub.currency;
+      const pricePoint = offer.currency === currency
+        ? tier ?? offer
+        : (tier ? tier.prices : offer.offer_prices).find((p: { currency: string }) => p.currency === currency);
+      if (!pricePoint) {
+        return { error: `${title} is no longer offered in ${currency}` };
+      }
+      return {
+        title,
+        price: Number(sub.billing_cycle === 'monthly' ? pricePoint.price_monthly : pricePoint.price_yearly),
+      };
+    };
+
+    // The other pending services of a bundle are paid for in the same charge
+    let subscriptions = [subscription];
+    if (subscription.subscription_bundle_id) {
+      const { data: bundled } = await admin
+        .from('user_subscriptions')
+        .select(SUBSCRIPTION_SELECT)
+        .eq('subscription_bundle_id', subscription.subscription_bundle_id)
+        .eq('organization_id', subscription.organization_id)
+        .eq('status', 'pending')
+        .order('created_at');
+      subscriptions = bundled?.length ? bundled : subscriptions;
+    }
+
+    const prices = subscriptions.map(getCheckoutPrice);
+    const unpriced = prices.find((p) => 'error' in p);
+    if (unpriced && 'error' in unpriced) {
+      return jsonResponse({ error: unpriced.error }, 409);
+    }
+    const charges = prices as { title: string; price: number }[];
+    const currency: string = subscription.currency;
+    const bundleTitle: string | undefined = subscription.subscription_bundles?.service_bundles?.title;
+    const title = bundleTitle ?? charges[0].title;
+    // Composite results come back as a row of nulls when nothing matches
+    const { data: customerTax } = await admin.rpc('customer_tax_rate', { customer_id: user.id });
+    const taxRate = customerTax?.rate != null
+      ? Number(customerTax.rate)
+      : parseFloat(Deno.env.get('TAX_RATE') ?? '0') || 0;
+    const amounts = charges.map((charge) => Math.round(charge.price * (1 + taxRate / 100) * 100) / 100);
+    const amount = Math.round(amounts.reduce((sum, value) => sum + value, 0) * 100) / 100;
+
+    // The attempt is recorded before charging, so a crash after the charge
+    // still leaves a record of it. One payment row per subscription, so each
+    // can be refunded on its own
+    const findPendingAttempt = async (): Promise<string | null> => {
+      const { data } = await admin
+        .from('payments')
+        .select('attempt_key')
+        .eq('subscription_id', subscription.id)
+        .eq('status', 'pending')
+        .maybeSingle();
+      return data?.attempt_key ?? null;
+    };
+
+    // An attempt left pending, or one a concurrent submit has just started,
+    // is retried under its own key, which the provider never charges twice
+    let attemptKey = await findPendingAttempt();
+    if (!attemptKey) {
+      attemptKey = `checkout-${crypto.randomUUID()}`;
+      const { error: attemptError } = await admin.from('payments').insert(
+        subscriptions.map((sub, index) => ({
+          subscription_id: sub.id,
+          user_id: user.id,
+          provider: provider.name,
+          attempt_key: attemptKey,
+          amount: amounts[index],
+          currency,
+          status: 'pending',
+        }))
+      );
+
+      if (attemptError?.code === '23505') {
+        attemptKey = await findPendingAttempt();
+        if (!attemptKey) {
+          return jsonResponse({ error: 'A payment for this subscription is already being processed' }, 409);
+        }
+      } else if (attemptError) {
+        throw new Error(`Failed to record the payment: ${attemptError.message}`);
+      }
+    }
+
+    const result = await provider.charge({
+      customerId,
+      paymentMethodId: payment_method_id,
+      amount: toMinorUnits(amount),
+      currency: currency.toLowerCase(),
+      description: `${title} (${subscription.billing_cycle})`,
+      idempotencyKey: attemptKey,
+    });
+
+    // Only the request that settles the attempt goes on to update the services
+    const { data: settled, error: settleError } = await admin
+      .from('payments')
+      .update({ provider_payment_id: result.id, status: result.status, failure_reason: result.failureReason ?? null })
+      .eq('attempt_key', attemptKey)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (settleError) {
+      throw new Error(`Failed to record the payment: ${settleError.message}`);
+    }
+    if (!settled?.length) {
+      return jsonResponse({ status: result.status, failure_reason: result.failureReason });
+    }
+
+    const subscriptionIds = subscriptions.map((sub) => sub.id);
+    if (result.status === 'failed') {
+      await admin
+        .from('user_subscriptions')
+        .update({ payment_error: result.failureReason ?? 'The payment could not be processed' })
+        .in('id', subscriptionIds);
+
+      return jsonResponse({ status: 'failed', failure_reason: result.failureReason });
+    }
+
+    await admin.from('user_subscriptions').update({ payment_error: null }).in('id', subscriptionIds);
+
+    for (const id of subscriptionIds) {
+      const { error: statusError } = await admin.rpc('change_subscription_status', {
+        subscription_id: id,
+        new_status: 'active',
+        note: `Payment received via ${provider.name}`,
+      });
+      if (statusError) {
+        console.error('Checkout Activation Error:', statusError);
+        return jsonResponse({ error: `Payment succeeded but activation failed: ${statusError.message}` }, 500);
+      }
+    }
+
+    return jsonResponse({ status: 'succeeded' });
+  } catch (error) {
+    console.error('Checkout Error:', error);
+    const status = error instanceof PaymentProviderError ? 502 : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Checkout failed' }, status);
+  }
+});
@@ -0,0 +1,96 @@
+/*
+  Record metered usage against a subscription.
+
+  POST { subscription_id, meter_id, quantity, recorded_at?, note?, idempotency_key? }
+
+  Callable by a signed-in admin, or by another system sending the shared key
+  in the `x-usage-api-key` header. Retrying with the same `idempotency_key`
+  returns the record created by the first request instead of adding another.
+
+  Environment:
+  - USAGE_API_KEY: shared key for system-to-system calls; unset disables them
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { subscription_id, meter_id, quantity, recorded_at, note, idempotency_key } = await req.json();
+    if (!subscription_id || !meter_id) {
+      return jsonResponse({ error: 'subscription_id and meter_id are required' }, 400);
+    }
+    if (!(Number(quantity) > 0)) {
+      return jsonResponse({ error: 'quantity must be greater than 0' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+    let createdBy: string | null = null;
+    const apiKey = Deno.env.get('USAGE_API_KEY');
+    if (!apiKey || req.headers.get('x-usage-api-key') !== apiKey) {
+      const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+        global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+      });
+
+      const { data: { user } } = await userClient.auth.getUser();
+      if (!user) {
+        return jsonResponse({ error: 'Not signed in' }, 401);
+      }
+
+      const { data: canRecord } = await admin.rpc('staff_can', { member_id: user.id, permission: 'billing' });
+      if (!canRecord) {
+        return jsonResponse({ error: 'Only billing staff can record usage' }, 403);
+      }
+      createdBy = user.id;
+    }
+
+    if (idempotency_key) {
+      const { data: existing } = await admin
+        .from('usage_records')
+        .select('*')
+        .eq('idempotency_key', idempotency_key)
+        .maybeSingle();
+
+      if (existing) {
+        return jsonResponse({ usage_record: existing, duplicate: true });
+      }
+    }
+
+    const { data: record, error } = await admin
+      .from('usage_records')
+      .insert({
+        subscription_id,
+        meter_id,
+        quantity: Number(quantity),
+        recorded_at: recorded_at ?? new Date().toISOString(),
+        note: note ?? '',
+        idempotency_key: idempotency_key ?? null,
+        created_by: createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // A concurrent retry with the same key won the insert
+      if (error.code === '23505' && idempotency_key) {
+        const { data: existing } = await admin
+          .from('usage_records')
+          .select('*')
+          .eq('idempotency_key', idempotency_key)
+          .single();
+        return jsonResponse({ usage_record: existing, duplicate: true });
+      }
+      return jsonResponse({ error: error.message }, error.code === 'P0001' ? 409 : 400);
+    }
+
+    return jsonResponse({ usage_record: record, duplicate: false }, 201);
+  } catch (error) {
+    console.error('Record Usage Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to record usage' }, 500);
+  }
+});
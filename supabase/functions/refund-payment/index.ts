@@ -0,0 +1,78 @@
+/*
+  Refund a succeeded payment. Admin only.
+
+  POST { payment_id, amount? }
+
+  Refunds `amount` (in major units) or the whole remaining balance when omitted.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getPaymentProvider, PaymentProviderError, toMinorUnits } from '../_shared/payment-provider.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { payment_id, amount } = await req.json();
+    if (!payment_id) {
+      return jsonResponse({ error: 'payment_id is required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    const { data: canRefund } = await admin.rpc('staff_can', { member_id: user.id, permission: 'billing' });
+    if (!canRefund) {
+      return jsonResponse({ error: 'Only billing staff can issue refunds' }, 403);
+    }
+
+    const { data: payment } = await admin.from('payments').select('*').eq('id', payment_id).maybeSingle();
+    if (!payment) {
+      return jsonResponse({ error: 'Payment not found' }, 404);
+    }
+    if (payment.status !== 'succeeded' && payment.status !== 'partially_refunded') {
+      return jsonResponse({ error: 'Only succeeded payments can be refunded' }, 409);
+    }
+
+    const remaining = Number(payment.amount) - Number(payment.refunded_amount);
+    const refundAmount = amount === undefined ? remaining : Number(amount);
+    if (!(refundAmount > 0) || refundAmount > remaining) {
+      return jsonResponse({ error: `Refund amount must be between 0 and ${remaining.toFixed(2)}` }, 400);
+    }
+
+    const provider = getPaymentProvider();
+    if (provider.name !== payment.provider) {
+      return jsonResponse({ error: `Payment was processed by ${payment.provider}, not ${provider.name}` }, 409);
+    }
+
+    const result = await provider.refund(payment.provider_payment_id, toMinorUnits(refundAmount));
+    if (result.status === 'failed') {
+      return jsonResponse({ error: result.failureReason ?? 'Refund failed' }, 502);
+    }
+
+    const refundedAmount = Math.round((Number(payment.refunded_amount) + refundAmount) * 100) / 100;
+    await admin
+      .from('payments')
+      .update({
+        refunded_amount: refundedAmount,
+        status: refundedAmount >= Number(payment.amount) ? 'refunded' : 'partially_refunded',
+      })
+      .eq('id', payment.id);
+
+    return jsonResponse({ status: 'succeeded', refunded_amount: refundedAmount });
+  } catch (error) {
+    console.error('Refund Error:', error);
+    const status = error instanceof PaymentProviderError ? 502 : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Refund failed' }, status);
+  }
+});
@@ -0,0 +1,164 @@
+/*
+  # Subscription Lifecycle State Machine
+
+  ## Overview
+  Replaces the free-form `user_subscriptions.status` column with an enforced
+  lifecycle and records every status change in a history table, so we can
+  answer "when was this client activated and by whom".
+
+  ## Lifecycle
+  - `pending`   -> `active`, `cancelled`
+  - `active`    -> `past_due`, `paused`, `cancelled`, `expired`
+  - `past_due`  -> `active`, `cancelled`, `expired`
+  - `paused`    -> `active`, `cancelled`, `expired`
+  - `cancelled` and `expired` are terminal
+
+  ## New Tables
+
+  ### `subscription_events`
+  Append-only history of subscription status changes
+  - `id` (uuid, primary key)
+  - `subscription_id` (uuid) - References user_subscriptions
+  - `from_status` (text) - Previous status, null for the initial event
+  - `to_status` (text) - New status
+  - `changed_by` (uuid) - Profile that made the change, null for system changes
+  - `note` (text) - Optional reason given for the change
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `subscription_transition_allowed(from_status, to_status)` - Lifecycle rules
+  - `change_subscription_status(subscription_id, new_status, note)` - Changes a
+    status and records the reason on the history event
+
+  ## Security
+  - Invalid transitions are rejected by a BEFORE UPDATE trigger
+  - Events are written only by trigger; there are no insert, update or delete policies
+  - The event trigger runs as SECURITY DEFINER with `search_path` pinned to `public`
+  - Users can view events for their own subscriptions, admins can view all events
+*/
+
+-- Widen the status check to the full lifecycle
+ALTER TABLE user_subscriptions DROP CONSTRAINT IF EXISTS user_subscriptions_status_check;
+ALTER TABLE user_subscriptions ADD CONSTRAINT user_subscriptions_status_check
+  CHECK (status IN ('pending', 'active', 'past_due', 'paused', 'cancelled', 'expired'));
+
+-- Create subscription_events table
+CREATE TABLE IF NOT EXISTS subscription_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid REFERENCES user_subscriptions(id) ON DELETE CASCADE NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  note text DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_subscription_id ON subscription_events(subscription_id);
+
+ALTER TABLE subscription_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own subscription events"
+  ON subscription_events FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.id = subscription_events.subscription_id
+      AND user_subscriptions.user_id = auth.uid()
+    )
+  );
+
+-- Lifecycle rules, mirrored in src/lib/subscription-lifecycle.ts
+CREATE OR REPLACE FUNCTION subscription_transition_allowed(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'pending' THEN to_status IN ('active', 'cancelled')
+    WHEN 'active' THEN to_status IN ('past_due', 'paused', 'cancelled', 'expired')
+    WHEN 'past_due' THEN to_status IN ('active', 'cancelled', 'expired')
+    WHEN 'paused' THEN to_status IN ('active', 'cancelled', 'expired')
+    ELSE false
+  END;
+$$;
+
+-- Reject status changes that skip the lifecycle
+CREATE OR REPLACE FUNCTION enforce_subscription_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT subscription_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change subscription status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_subscription_transition ON user_subscriptions;
+CREATE TRIGGER enforce_subscription_transition
+  BEFORE UPDATE ON user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION enforce_subscription_transition();
+
+-- Record the initial status and every status change
+CREATE OR REPLACE FUNCTION log_subscription_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.subscription_events (subscription_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.subscription_events (subscription_id, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      auth.uid(),
+      COALESCE(NULLIF(current_setting('app.subscription_event_note', true), ''), '')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_subscription_event ON user_subscriptions;
+CREATE TRIGGER log_subscription_event
+  AFTER INSERT OR UPDATE ON user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION log_subscription_event();
+
+-- Change a status with an optional reason; runs with the caller's RLS permissions
+CREATE OR REPLACE FUNCTION change_subscription_status(
+  subscription_id uuid,
+  new_status text,
+  note text DEFAULT ''
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('app.subscription_event_note', COALESCE(note, ''), true);
+
+  UPDATE user_subscriptions
+  SET status = new_status
+  WHERE id = change_subscription_status.subscription_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.subscription_event_note', '', true);
+END;
+$$;
+
+-- Backfill an initial event for existing subscriptions
+INSERT INTO subscription_events (subscription_id, from_status, to_status, created_at)
+SELECT id, NULL, status, created_at
+FROM user_subscriptions
+WHERE NOT EXISTS (
+  SELECT 1 FROM subscription_events
+  WHERE subscription_events.subscription_id = user_subscriptions.id
+);
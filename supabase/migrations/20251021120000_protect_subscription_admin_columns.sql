@@ -0,0 +1,97 @@
+/*
+  # Protect Admin-Only Subscription Columns
+
+  ## Problem
+  The "Users can update own subscriptions" policy lets a customer update any
+  column of their own subscription, so a pending request can be self-approved
+  with `update({ status: 'active' })` from the browser.
+
+  ## Changes
+
+  ### user_subscriptions table
+  - `customer_notes` (text) - Notes the customer attaches to their request
+  - `cancel_requested_at` (timestamptz) - When the customer asked to cancel
+
+  ### Column protection
+  - Customers may only change `customer_notes` and `cancel_requested_at` on their
+    own subscriptions. Every other column, including any column added later,
+    is admin-only.
+  - Customers may only create subscriptions in the `pending` state; admin notes,
+    billing dates and the start date are reset to their defaults.
+  - Admins and server-side code (no `auth.uid()`) are not restricted.
+
+  ## Security
+  - Recreate the customer update policy scoped to the owner only
+  - Add an admin policy covering insert, update and delete of any subscription
+*/
+
+-- Add customer-editable columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'customer_notes'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN customer_notes text DEFAULT '';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'cancel_requested_at'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN cancel_requested_at timestamptz;
+  END IF;
+END $$;
+
+-- Split owner and admin update policies
+DROP POLICY IF EXISTS "Users can update own subscriptions" ON user_subscriptions;
+DROP POLICY IF EXISTS "Admins can manage subscriptions" ON user_subscriptions;
+
+CREATE POLICY "Users can update own subscriptions"
+  ON user_subscriptions FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage subscriptions"
+  ON user_subscriptions FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+-- Restrict which columns customers can write
+CREATE OR REPLACE FUNCTION protect_subscription_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  customer_columns text[] := ARRAY['customer_notes', 'cancel_requested_at', 'updated_at'];
+BEGIN
+  IF auth.uid() IS NULL OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New subscriptions must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    NEW.notes := '';
+    NEW.started_at := now();
+    NEW.next_billing_date := NULL;
+    NEW.cancel_requested_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - customer_columns) IS DISTINCT FROM (to_jsonb(OLD) - customer_columns) THEN
+    RAISE EXCEPTION 'Only administrators can change this subscription field'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_subscription_columns ON user_subscriptions;
+CREATE TRIGGER protect_subscription_columns
+  BEFORE INSERT OR UPDATE ON user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION protect_subscription_columns();
@@ -0,0 +1,133 @@
+/*
+  # Invoices and Billing Dates
+
+  ## Overview
+  Adds invoice storage for the billing engine in `src/lib/billing.ts`, which
+  walks active subscriptions, writes one invoice per billing period and advances
+  `user_subscriptions.next_billing_date`.
+
+  ## New Tables
+
+  ### `invoices`
+  One invoice per subscription billing period
+  - `id` (uuid, primary key)
+  - `subscription_id` (uuid) - References user_subscriptions
+  - `user_id` (uuid) - References profiles, the billed customer
+  - `status` (text) - 'open', 'paid' or 'void'
+  - `period_start` (timestamptz) - Start of the billed period
+  - `period_end` (timestamptz) - End of the billed period (exclusive)
+  - `subtotal` (numeric) - Sum of line item amounts
+  - `total` (numeric) - Amount owed
+  - `issued_at` (timestamptz) - When the invoice was generated
+  - `due_at` (timestamptz) - When payment is due
+  - `paid_at` (timestamptz) - When the invoice was marked paid
+  - `created_at` (timestamptz)
+
+  ### `invoice_line_items`
+  Priced lines on an invoice
+  - `id` (uuid, primary key)
+  - `invoice_id` (uuid) - References invoices
+  - `description` (text)
+  - `quantity` (numeric)
+  - `unit_price` (numeric)
+  - `amount` (numeric)
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - When a subscription is first activated, `started_at` and `next_billing_date`
+    are set to the activation time so the first period is billed right away
+  - Existing active subscriptions without a billing date are billed from `started_at`
+
+  ## Security
+  - Users can view their own invoices and line items
+  - Admins can view and manage all invoices and line items
+*/
+
+-- Create invoices table
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid REFERENCES user_subscriptions(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status text DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  subtotal numeric(10,2) DEFAULT 0,
+  total numeric(10,2) DEFAULT 0,
+  issued_at timestamptz DEFAULT now(),
+  due_at timestamptz,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(subscription_id, period_start)
+);
+
+-- Create invoice_line_items table
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid REFERENCES invoices(id) ON DELETE CASCADE NOT NULL,
+  description text NOT NULL,
+  quantity numeric(10,2) DEFAULT 1,
+  unit_price numeric(10,2) DEFAULT 0,
+  amount numeric(10,2) DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON invoices(user_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_subscription_id ON invoices(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice_id ON invoice_line_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_next_billing_date ON user_subscriptions(next_billing_date);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Policies for invoices table
+CREATE POLICY "Users can view own invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage invoices"
+  ON invoices FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+-- Policies for invoice_line_items table
+CREATE POLICY "Users can view own invoice line items"
+  ON invoice_line_items FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_line_items.invoice_id
+      AND invoices.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage invoice line items"
+  ON invoice_line_items FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+-- Anchor billing on first activation
+CREATE OR REPLACE FUNCTION initialize_subscription_billing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status = 'active' AND NEW.next_billing_date IS NULL THEN
+    NEW.started_at := now();
+    NEW.next_billing_date := NEW.started_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS initialize_subscription_billing ON user_subscriptions;
+CREATE TRIGGER initialize_subscription_billing
+  BEFORE UPDATE ON user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION initialize_subscription_billing();
+
+-- Start billing existing active subscriptions from their start date
+UPDATE user_subscriptions
+SET next_billing_date = started_at
+WHERE status = 'active' AND next_billing_date IS NULL;
@@ -0,0 +1,123 @@
+/*
+  # Invoice Numbering and Tax Lines
+
+  ## Overview
+  Adds the fields needed to render invoice and receipt documents: sequential
+  document numbers and a tax line on every invoice.
+
+  ## Changes
+
+  ### invoices table
+  - `invoice_number` (text, unique) - e.g. `INV-2025-000042`, assigned once the
+    invoice is inserted
+  - `receipt_number` (text, unique) - e.g. `RCT-2025-000007`, assigned when the
+    invoice is first marked paid
+  - `tax_label` (text) - Name of the tax shown on documents, e.g. "Sales Tax"
+  - `tax_rate` (numeric) - Tax percentage applied to the subtotal
+  - `tax_amount` (numeric) - Tax charged
+
+  ## Notes
+  - Numbers come from sequences so they are never reused, even if an invoice is voided
+  - Numbers are taken in an AFTER INSERT trigger, so an insert skipped by
+    `ON CONFLICT DO NOTHING` (a rerun of the billing job) leaves no gap
+  - Existing invoices are numbered in creation order
+*/
+
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq;
+CREATE SEQUENCE IF NOT EXISTS receipt_number_seq;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'invoice_number'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN invoice_number text UNIQUE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'receipt_number'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN receipt_number text UNIQUE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'tax_label'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN tax_label text DEFAULT 'Tax';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'tax_rate'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN tax_rate numeric(5,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'tax_amount'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN tax_amount numeric(10,2) DEFAULT 0;
+  END IF;
+END $$;
+
+-- Assign document numbers
+CREATE OR REPLACE FUNCTION assign_invoice_numbers()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL THEN
+    NEW.invoice_number := 'INV-' || to_char(COALESCE(NEW.issued_at, now()), 'YYYY') || '-'
+      || lpad(nextval('invoice_number_seq')::text, 6, '0');
+  END IF;
+
+  IF NEW.status = 'paid' AND NEW.receipt_number IS NULL THEN
+    NEW.receipt_number := 'RCT-' || to_char(COALESCE(NEW.paid_at, now()), 'YYYY') || '-'
+      || lpad(nextval('receipt_number_seq')::text, 6, '0');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_invoice_numbers ON invoices;
+CREATE TRIGGER assign_invoice_numbers
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION assign_invoice_numbers();
+
+-- BEFORE INSERT triggers also run for rows that ON CONFLICT DO NOTHING then
+-- skips, so new invoices are numbered only once they are really inserted
+CREATE OR REPLACE FUNCTION number_new_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL OR (NEW.status = 'paid' AND NEW.receipt_number IS NULL) THEN
+    -- assign_invoice_numbers() fills in the missing numbers
+    UPDATE invoices SET invoice_number = NEW.invoice_number WHERE id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS number_new_invoice ON invoices;
+CREATE TRIGGER number_new_invoice
+  AFTER INSERT ON invoices
+  FOR EACH ROW EXECUTE FUNCTION number_new_invoice();
+
+-- Number existing invoices in creation order
+DO $$
+DECLARE
+  invoice_row record;
+BEGIN
+  FOR invoice_row IN
+    SELECT id FROM invoices WHERE invoice_number IS NULL ORDER BY created_at
+  LOOP
+    UPDATE invoices SET invoice_number = NULL WHERE id = invoice_row.id;
+  END LOOP;
+END $$;
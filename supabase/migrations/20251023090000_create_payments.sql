@@ -0,0 +1,113 @@
+/*
+  # Payments
+
+  ## Overview
+  Stores the results of checkouts and refunds processed by the `checkout` and
+  `refund-payment` edge functions. Those functions talk to the configured payment
+  provider (Stripe-compatible API or the local mock) and write these tables with
+  the service role; browsers can only read their own rows.
+
+  ## New Tables
+
+  ### `payment_customers`
+  Maps a profile to its customer record at the payment provider
+  - `user_id` (uuid, primary key) - References profiles
+  - `provider` (text) - 'stripe' or 'mock'
+  - `customer_id` (text) - Provider customer id
+  - `created_at` (timestamptz)
+
+  ### `payments`
+  One row per charge attempt, written as 'pending' before the provider is
+  called so that a charge is never made without a record of it
+  - `id` (uuid, primary key)
+  - `subscription_id` (uuid) - References user_subscriptions
+  - `user_id` (uuid) - References profiles
+  - `invoice_id` (uuid) - Invoice the payment was applied to, set by the billing engine
+  - `provider` (text) - Provider that processed the charge
+  - `provider_payment_id` (text) - Provider charge / payment intent id
+  - `attempt_key` (text) - The checkout attempt, sent to the provider as the
+    idempotency key. The services of a bundle share it, as they are paid for
+    in one charge
+  - `amount` (numeric) - Amount charged
+  - `currency` (text) - ISO currency code
+  - `status` (text) - 'pending', 'succeeded', 'failed', 'refunded' or
+    'partially_refunded'
+  - `failure_reason` (text) - Message from the provider when the charge failed
+  - `refunded_amount` (numeric) - Total refunded so far
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### user_subscriptions table
+  - `payment_error` (text) - Reason the last checkout failed, cleared on success
+
+  ## Security
+  - Users can view their own payment customer record and payments
+  - Admins can view all payments
+  - No insert, update or delete policies; only the edge functions write these tables
+*/
+
+-- Create payment_customers table
+CREATE TABLE IF NOT EXISTS payment_customers (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  customer_id text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create payments table
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid REFERENCES user_subscriptions(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  provider_payment_id text,
+  attempt_key text NOT NULL,
+  amount numeric(10,2) NOT NULL,
+  currency text DEFAULT 'usd',
+  status text NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded', 'partially_refunded')),
+  failure_reason text,
+  refunded_amount numeric(10,2) DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (subscription_id, attempt_key),
+  UNIQUE (subscription_id, provider_payment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_subscription_id ON payments(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id);
+-- A subscription has at most one checkout in progress
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_pending_subscription
+  ON payments(subscription_id) WHERE status = 'pending';
+
+-- Add payment_error to user_subscriptions
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'payment_error'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN payment_error text;
+  END IF;
+END $$;
+
+ALTER TABLE payment_customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payment customer"
+  ON payment_customers FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+CREATE POLICY "Users can view own payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+-- Let the billing engine link a payment to the invoice it settles
+CREATE POLICY "Admins can update payments"
+  ON payments FOR UPDATE
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
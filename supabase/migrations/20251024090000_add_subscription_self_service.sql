@@ -0,0 +1,321 @@
+/*
+  # Customer Self-Service for Subscriptions
+
+  ## Overview
+  Lets customers cancel at period end, switch billing cycle and reactivate a
+  cancelled service without emailing us. Every change is validated against the
+  subscription's state and recorded in `subscription_events` for admins.
+
+  ## Changes
+
+  ### user_subscriptions table
+  - `cancel_at_period_end` (boolean) - The billing engine cancels the subscription
+    instead of invoicing the next period
+  - `pending_billing_cycle` (text) - Cycle the billing engine switches to at the
+    next billing date
+  - `billing_anchor_at` (timestamptz) - Date billing periods are counted from
+    after a cycle switch; `started_at` is used when null
+
+  ### subscription_events table
+  - `event_type` (text) - 'status_change', 'cancel_scheduled', 'cancel_undone',
+    'billing_cycle_change_scheduled' or 'billing_cycle_changed'
+
+  ### Lifecycle
+  - `cancelled` -> `pending` is now allowed so a cancelled service can be
+    reactivated; it goes back through checkout before becoming active
+
+  ## New Functions (customer-callable, own subscriptions only)
+  - `cancel_subscription(subscription_id)` - Pending requests cancel immediately,
+    running services are scheduled to cancel at period end
+  - `undo_subscription_cancellation(subscription_id)` - Clears a scheduled cancellation
+  - `change_subscription_billing_cycle(subscription_id, new_cycle)` - Pending
+    requests switch immediately, running services switch at the next billing date
+  - `reactivate_subscription(subscription_id)` - Moves a cancelled service back to pending
+
+  ## Security
+  - The functions run as SECURITY DEFINER and check `auth.uid()` owns the subscription
+  - Column protection now only applies to direct API writes, so these functions
+    and other server-side code can update admin-only columns
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'cancel_at_period_end'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN cancel_at_period_end boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'pending_billing_cycle'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN pending_billing_cycle text
+      CHECK (pending_billing_cycle IN ('monthly', 'yearly'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'billing_anchor_at'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN billing_anchor_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'subscription_events' AND column_name = 'event_type'
+  ) THEN
+    ALTER TABLE subscription_events ADD COLUMN event_type text DEFAULT 'status_change'
+      CHECK (event_type IN (
+        'status_change',
+        'cancel_scheduled',
+        'cancel_undone',
+        'billing_cycle_change_scheduled',
+        'billing_cycle_changed'
+      ));
+  END IF;
+END $$;
+
+-- Allow reactivation of cancelled subscriptions
+CREATE OR REPLACE FUNCTION subscription_transition_allowed(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'pending' THEN to_status IN ('active', 'cancelled')
+    WHEN 'active' THEN to_status IN ('past_due', 'paused', 'cancelled', 'expired')
+    WHEN 'past_due' THEN to_status IN ('active', 'cancelled', 'expired')
+    WHEN 'paused' THEN to_status IN ('active', 'cancelled', 'expired')
+    WHEN 'cancelled' THEN to_status = 'pending'
+    ELSE false
+  END;
+$$;
+
+-- Only guard direct API writes; SECURITY DEFINER functions run as their owner
+CREATE OR REPLACE FUNCTION protect_subscription_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  customer_columns text[] := ARRAY['customer_notes', 'cancel_requested_at', 'updated_at'];
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR auth.uid() IS NULL OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New subscriptions must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    NEW.notes := '';
+    NEW.started_at := now();
+    NEW.next_billing_date := NULL;
+    NEW.cancel_requested_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - customer_columns) IS DISTINCT FROM (to_jsonb(OLD) - customer_columns) THEN
+    RAISE EXCEPTION 'Only administrators can change this subscription field'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record status changes plus scheduled cancellations and billing cycle changes
+CREATE OR REPLACE FUNCTION log_subscription_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_note text := COALESCE(NULLIF(current_setting('app.subscription_event_note', true), ''), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.subscription_events (subscription_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (NEW.id, 'status_change', OLD.status, NEW.status, auth.uid(), event_note);
+  END IF;
+
+  IF NEW.cancel_at_period_end AND NOT COALESCE(OLD.cancel_at_period_end, false) THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id, 'cancel_scheduled', OLD.status, NEW.status, auth.uid(),
+      COALESCE(NULLIF(event_note, ''), 'Cancels on ' || to_char(NEW.next_billing_date, 'YYYY-MM-DD'))
+    );
+  ELSIF NOT COALESCE(NEW.cancel_at_period_end, false) AND OLD.cancel_at_period_end
+    AND NEW.status = OLD.status THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (NEW.id, 'cancel_undone', OLD.status, NEW.status, auth.uid(), event_note);
+  END IF;
+
+  IF NEW.pending_billing_cycle IS NOT NULL
+    AND NEW.pending_billing_cycle IS DISTINCT FROM OLD.pending_billing_cycle THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id, 'billing_cycle_change_scheduled', OLD.status, NEW.status, auth.uid(),
+      COALESCE(
+        NULLIF(event_note, ''),
+        'Switches to ' || NEW.pending_billing_cycle || ' billing on ' || to_char(NEW.next_billing_date, 'YYYY-MM-DD')
+      )
+    );
+  END IF;
+
+  IF NEW.billing_cycle IS DISTINCT FROM OLD.billing_cycle THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id, 'billing_cycle_changed', OLD.status, NEW.status, auth.uid(),
+      COALESCE(NULLIF(event_note, ''), OLD.billing_cycle || ' to ' || NEW.billing_cycle)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Load and lock a subscription owned by the caller
+CREATE OR REPLACE FUNCTION get_own_subscription_for_update(subscription_id uuid)
+RETURNS user_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions;
+BEGIN
+  SELECT * INTO sub
+  FROM user_subscriptions
+  WHERE id = get_own_subscription_for_update.subscription_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN sub;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_subscription(subscription_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+BEGIN
+  IF sub.status = 'pending' THEN
+    PERFORM set_config('app.subscription_event_note', 'Cancelled by customer before activation', true);
+    UPDATE user_subscriptions
+    SET status = 'cancelled', cancel_requested_at = now()
+    WHERE id = sub.id;
+  ELSIF sub.status IN ('active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Cancellation is already scheduled' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE user_subscriptions
+    SET cancel_at_period_end = true, cancel_requested_at = now(), pending_billing_cycle = NULL
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'A % subscription cannot be cancelled', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.subscription_event_note', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_subscription_cancellation(subscription_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+BEGIN
+  IF NOT sub.cancel_at_period_end OR sub.status NOT IN ('active', 'past_due', 'paused') THEN
+    RAISE EXCEPTION 'No scheduled cancellation to undo' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE user_subscriptions
+  SET cancel_at_period_end = false, cancel_requested_at = NULL
+  WHERE id = sub.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_subscription_billing_cycle(subscription_id uuid, new_cycle text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  yearly_price numeric;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT price_yearly INTO yearly_price FROM service_offers WHERE id = sub.offer_id;
+  IF new_cycle = 'yearly' AND COALESCE(yearly_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.status = 'pending' THEN
+    UPDATE user_subscriptions SET billing_cycle = new_cycle WHERE id = sub.id;
+  ELSIF sub.status IN ('active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Undo the scheduled cancellation before changing billing' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Choosing the current cycle withdraws a scheduled switch
+    UPDATE user_subscriptions
+    SET pending_billing_cycle = NULLIF(new_cycle, sub.billing_cycle)
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'Billing cannot be changed on a % subscription', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reactivate_subscription(subscription_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+BEGIN
+  IF sub.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Only cancelled subscriptions can be reactivated' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM service_offers WHERE id = sub.offer_id AND is_active = true) THEN
+    RAISE EXCEPTION 'This service is no longer offered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.subscription_event_note', 'Reactivated by customer', true);
+  UPDATE user_subscriptions
+  SET status = 'pending',
+      next_billing_date = NULL,
+      billing_anchor_at = NULL,
+      cancel_at_period_end = false,
+      cancel_requested_at = NULL,
+      pending_billing_cycle = NULL,
+      payment_error = NULL
+  WHERE id = sub.id;
+  PERFORM set_config('app.subscription_event_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_own_subscription_for_update(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,271 @@
+/*
+  # Prorated Plan Changes
+
+  ## Overview
+  Lets customers move an active subscription to another offer or billing cycle
+  right away. The unused part of the current period is credited and the new
+  plan is charged on a single prorated invoice. The same calculation runs in
+  `src/lib/proration.ts` to preview the invoice before the customer confirms.
+
+  ## Changes
+
+  ### user_subscriptions table
+  - `credit_balance` (numeric) - Credit left over from a downgrade, deducted by
+    the billing engine from the next invoices
+
+  ### subscription_events table
+  - `event_type` now also accepts 'plan_changed'
+
+  ## New Functions
+  - `change_subscription_plan(subscription_id, new_offer_id, new_cycle)` - Applies
+    a prorated change and returns the id of the invoice it issued
+    - Unused whole days of the current period are credited at the current price
+    - Same cycle: the new price is charged for the same unused days and the
+      billing date is unchanged
+    - New cycle: a full period of the new plan is charged and billing restarts
+      from the change date
+    - A credit larger than the charge is kept in `credit_balance`
+
+  ## Security
+  - SECURITY DEFINER, checks `auth.uid()` owns the subscription
+  - Only active subscriptions whose current period has been invoiced can change
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'credit_balance'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN credit_balance numeric(10,2) DEFAULT 0
+      CHECK (credit_balance >= 0);
+  END IF;
+END $$;
+
+ALTER TABLE subscription_events DROP CONSTRAINT IF EXISTS subscription_events_event_type_check;
+ALTER TABLE subscription_events ADD CONSTRAINT subscription_events_event_type_check
+  CHECK (event_type IN (
+    'status_change',
+    'cancel_scheduled',
+    'cancel_undone',
+    'billing_cycle_change_scheduled',
+    'billing_cycle_changed',
+    'plan_changed'
+  ));
+
+-- Record plan changes; a cycle change made as part of one is not logged twice
+CREATE OR REPLACE FUNCTION log_subscription_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_note text := COALESCE(NULLIF(current_setting('app.subscription_event_note', true), ''), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.subscription_events (subscription_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (NEW.id, 'status_change', OLD.status, NEW.status, auth.uid(), event_note);
+  END IF;
+
+  IF NEW.cancel_at_period_end AND NOT COALESCE(OLD.cancel_at_period_end, false) THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id, 'cancel_scheduled', OLD.status, NEW.status, auth.uid(),
+      COALESCE(NULLIF(event_note, ''), 'Cancels on ' || to_char(NEW.next_billing_date, 'YYYY-MM-DD'))
+    );
+  ELSIF NOT COALESCE(NEW.cancel_at_period_end, false) AND OLD.cancel_at_period_end
+    AND NEW.status = OLD.status THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (NEW.id, 'cancel_undone', OLD.status, NEW.status, auth.uid(), event_note);
+  END IF;
+
+  IF NEW.pending_billing_cycle IS NOT NULL
+    AND NEW.pending_billing_cycle IS DISTINCT FROM OLD.pending_billing_cycle THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id, 'billing_cycle_change_scheduled', OLD.status, NEW.status, auth.uid(),
+      COALESCE(
+        NULLIF(event_note, ''),
+        'Switches to ' || NEW.pending_billing_cycle || ' billing on ' || to_char(NEW.next_billing_date, 'YYYY-MM-DD')
+      )
+    );
+  END IF;
+
+  IF NEW.offer_id IS DISTINCT FROM OLD.offer_id THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (NEW.id, 'plan_changed', OLD.status, NEW.status, auth.uid(), event_note);
+  ELSIF NEW.billing_cycle IS DISTINCT FROM OLD.billing_cycle THEN
+    INSERT INTO public.subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      NEW.id, 'billing_cycle_changed', OLD.status, NEW.status, auth.uid(),
+      COALESCE(NULLIF(event_note, ''), OLD.billing_cycle || ' to ' || NEW.billing_cycle)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Mirrors calculateProration() in src/lib/proration.ts
+CREATE OR REPLACE FUNCTION change_subscription_plan(subscription_id uuid, new_offer_id uuid, new_cycle text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET timezone = 'UTC'
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  current_offer service_offers;
+  new_offer service_offers;
+  change_at timestamptz := now();
+  anchor timestamptz := COALESCE(sub.billing_anchor_at, sub.started_at);
+  current_step interval;
+  periods integer := 0;
+  period_start timestamptz;
+  period_end timestamptz;
+  period_days integer;
+  unused_days integer;
+  current_price numeric;
+  new_price numeric;
+  credit numeric;
+  charge numeric;
+  carried numeric := 0;
+  net numeric;
+  new_anchor timestamptz;
+  new_period_end timestamptz;
+  last_tax_label text := 'Tax';
+  last_tax_rate numeric := 0;
+  tax numeric;
+  new_invoice_id uuid;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active subscriptions can change plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.cancel_at_period_end THEN
+    RAISE EXCEPTION 'Undo the scheduled cancellation before changing plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.next_billing_date IS NULL OR sub.next_billing_date <= change_at THEN
+    RAISE EXCEPTION 'Your current billing period has not been invoiced yet. Please try again later.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_offer_id = sub.offer_id AND new_cycle = sub.billing_cycle THEN
+    RAISE EXCEPTION 'You are already on this plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO current_offer FROM service_offers WHERE id = sub.offer_id;
+  SELECT * INTO new_offer FROM service_offers WHERE id = new_offer_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This service is no longer offered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_cycle = 'yearly' AND COALESCE(new_offer.price_yearly, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Month arithmetic from the anchor clamps to month end like addMonthsClamped()
+  current_step := CASE sub.billing_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  WHILE anchor + (periods + 1) * current_step <= change_at LOOP
+    periods := periods + 1;
+  END LOOP;
+  period_start := anchor + periods * current_step;
+  period_end := anchor + (periods + 1) * current_step;
+
+  period_days := period_end::date - period_start::date;
+  unused_days := GREATEST(0, period_end::date - change_at::date);
+
+  current_price := CASE sub.billing_cycle WHEN 'monthly' THEN current_offer.price_monthly ELSE current_offer.price_yearly END;
+  new_price := CASE new_cycle WHEN 'monthly' THEN new_offer.price_monthly ELSE new_offer.price_yearly END;
+
+  credit := CASE WHEN period_days > 0 THEN round(current_price * unused_days / period_days, 2) ELSE 0 END;
+
+  IF new_cycle = sub.billing_cycle THEN
+    charge := CASE WHEN period_days > 0 THEN round(new_price * unused_days / period_days, 2) ELSE 0 END;
+    new_anchor := sub.billing_anchor_at;
+    new_period_end := period_end;
+  ELSE
+    charge := round(new_price, 2);
+    new_anchor := change_at;
+    new_period_end := change_at + CASE new_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  END IF;
+
+  net := charge - credit;
+  IF net < 0 THEN
+    carried := -net;
+    net := 0;
+  END IF;
+
+  SELECT tax_label, tax_rate INTO last_tax_label, last_tax_rate
+  FROM invoices
+  WHERE invoices.subscription_id = sub.id AND status <> 'void'
+  ORDER BY invoices.period_start DESC
+  LIMIT 1;
+  last_tax_label := COALESCE(last_tax_label, 'Tax');
+  last_tax_rate := COALESCE(last_tax_rate, 0);
+  tax := round(net * last_tax_rate / 100, 2);
+
+  INSERT INTO invoices (
+    subscription_id, user_id, status, period_start, period_end, subtotal,
+    tax_label, tax_rate, tax_amount, total, due_at, paid_at
+  )
+  VALUES (
+    sub.id, sub.user_id,
+    CASE WHEN net + tax > 0 THEN 'open' ELSE 'paid' END,
+    change_at, new_period_end, net,
+    last_tax_label, last_tax_rate, tax, net + tax,
+    change_at + interval '14 days',
+    CASE WHEN net + tax > 0 THEN NULL ELSE change_at END
+  )
+  RETURNING id INTO new_invoice_id;
+
+  IF credit > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (
+      new_invoice_id,
+      'Unused time on ' || current_offer.title || ' (' || initcap(sub.billing_cycle) || ', '
+        || unused_days || ' of ' || period_days || ' days)',
+      1, -credit, -credit
+    );
+  END IF;
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  VALUES (
+    new_invoice_id,
+    new_offer.title || ' (' || initcap(new_cycle) || ') from ' || to_char(change_at, 'YYYY-MM-DD'),
+    1, charge, charge
+  );
+
+  IF carried > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (new_invoice_id, 'Credit carried to your next invoice', 1, carried, carried);
+  END IF;
+
+  PERFORM set_config(
+    'app.subscription_event_note',
+    current_offer.title || ' (' || sub.billing_cycle || ') to ' || new_offer.title || ' (' || new_cycle
+      || '): credit ' || to_char(credit, 'FM999999990.00') || ', charge ' || to_char(charge, 'FM999999990.00'),
+    true
+  );
+  UPDATE user_subscriptions
+  SET offer_id = new_offer.id,
+      billing_cycle = new_cycle,
+      billing_anchor_at = new_anchor,
+      next_billing_date = new_period_end,
+      pending_billing_cycle = NULL,
+      credit_balance = credit_balance + carried
+  WHERE id = sub.id;
+  PERFORM set_config('app.subscription_event_note', '', true);
+
+  RETURN new_invoice_id;
+END;
+$$;
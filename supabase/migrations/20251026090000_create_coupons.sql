@@ -0,0 +1,479 @@
+/*
+  # Coupons and Promo Codes
+
+  ## Overview
+  Customers can enter a promo code when subscribing. The discount is validated
+  and priced in the database and the discounted price is saved on the
+  subscription, so checkout and the billing engine charge the same amount.
+
+  ## New Tables
+
+  ### `coupons`
+  - `id` (uuid, primary key)
+  - `code` (text, unique) - Upper-case code customers enter
+  - `description` (text) - Internal note, e.g. the campaign
+  - `discount_type` (text) - 'percent' or 'fixed'
+  - `discount_value` (numeric) - Percentage (1-100) or amount off each period
+  - `duration` (text) - 'once' (first period), 'repeating' or 'forever'
+  - `duration_months` (integer) - How long a repeating discount lasts
+  - `expires_at` (timestamptz) - Last moment the code can be redeemed
+  - `max_redemptions` (integer) - Redemption limit, unlimited when null
+  - `times_redeemed` (integer) - Subscriptions created with the code
+  - `is_active` (boolean)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `coupon_offers`
+  Offers a coupon is limited to; a coupon without rows applies to every offer
+  - `coupon_id` (uuid) - References coupons
+  - `offer_id` (uuid) - References service_offers
+
+  ## Changes
+
+  ### user_subscriptions table
+  - `coupon_id` (uuid) - Coupon redeemed when subscribing
+  - `discounted_price` (numeric) - Price per billing period while the discount lasts
+  - `discount_periods_remaining` (integer) - Billing periods the discount still
+    covers; null means it never ends
+
+  ### invoices table
+  - `discount_amount` (numeric) - Coupon discount included in the subtotal
+
+  ## New Functions
+  - `validate_coupon(coupon_code, offer_id)` - Returns the coupon if it can be redeemed
+    for the offer, otherwise raises with the reason
+  - Trigger `apply_subscription_coupon` prices the discount when a subscription
+    is created with a coupon and re-prices it when the offer or billing cycle
+    changes, dropping it if the new offer is not covered
+  - `change_subscription_plan()` now credits what was actually charged for the
+    current period and ends any coupon discount, which only applies to the plan
+    it was redeemed on
+
+  ## Security
+  - Only admins can manage coupons
+  - Customers can read the coupons on their own subscriptions; other codes are
+    only reachable through `validate_coupon`
+*/
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code) AND code <> ''),
+  description text DEFAULT '',
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (
+    discount_value > 0 AND (discount_type <> 'percent' OR discount_value <= 100)
+  ),
+  duration text NOT NULL DEFAULT 'once' CHECK (duration IN ('once', 'repeating', 'forever')),
+  duration_months integer CHECK (duration_months > 0),
+  expires_at timestamptz,
+  max_redemptions integer CHECK (max_redemptions > 0),
+  times_redeemed integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (duration <> 'repeating' OR duration_months IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS coupon_offers (
+  coupon_id uuid REFERENCES coupons(id) ON DELETE CASCADE NOT NULL,
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (coupon_id, offer_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'discount_amount'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN discount_amount numeric(10,2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'coupon_id'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN coupon_id uuid REFERENCES coupons(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'discounted_price'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN discounted_price numeric(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'discount_periods_remaining'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN discount_periods_remaining integer;
+  END IF;
+END $$;
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage coupons"
+  ON coupons FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Users can view coupons on own subscriptions"
+  ON coupons FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.coupon_id = coupons.id
+      AND user_subscriptions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage coupon offers"
+  ON coupon_offers FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Users can view coupon offers on own subscriptions"
+  ON coupon_offers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.coupon_id = coupon_offers.coupon_id
+      AND user_subscriptions.user_id = auth.uid()
+    )
+  );
+
+-- Mirrors getDiscountedPrice() in src/lib/coupons.ts
+CREATE OR REPLACE FUNCTION coupon_discounted_price(coupon coupons, price numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE coupon.discount_type
+    WHEN 'percent' THEN round(price * (100 - coupon.discount_value) / 100, 2)
+    ELSE GREATEST(0, price - coupon.discount_value)
+  END;
+$$;
+
+-- Billing periods a coupon covers; null when it never ends
+CREATE OR REPLACE FUNCTION coupon_period_count(coupon coupons, cycle text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE coupon.duration
+    WHEN 'once' THEN 1
+    WHEN 'repeating' THEN ceil(coupon.duration_months::numeric / CASE cycle WHEN 'monthly' THEN 1 ELSE 12 END)::integer
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION coupon_applies_to_offer(coupon_id uuid, offer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM coupon_offers WHERE coupon_offers.coupon_id = coupon_applies_to_offer.coupon_id)
+    OR EXISTS (
+      SELECT 1 FROM coupon_offers
+      WHERE coupon_offers.coupon_id = coupon_applies_to_offer.coupon_id
+      AND coupon_offers.offer_id = coupon_applies_to_offer.offer_id
+    );
+$$;
+
+-- Why a coupon cannot be redeemed for an offer, or null when it can
+CREATE OR REPLACE FUNCTION coupon_redemption_error(coupon coupons, offer_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN coupon.id IS NULL OR NOT coupon.is_active THEN 'This code is not valid'
+    WHEN coupon.expires_at IS NOT NULL AND coupon.expires_at <= now() THEN 'This code has expired'
+    WHEN coupon.max_redemptions IS NOT NULL AND coupon.times_redeemed >= coupon.max_redemptions
+      THEN 'This code has reached its redemption limit'
+    WHEN NOT coupon_applies_to_offer(coupon.id, offer_id) THEN 'This code does not apply to this service'
+    ELSE NULL
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_coupon(coupon_code text, offer_id uuid)
+RETURNS TABLE (
+  id uuid,
+  code text,
+  discount_type text,
+  discount_value numeric,
+  duration text,
+  duration_months integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon coupons;
+  reason text;
+BEGIN
+  SELECT * INTO coupon FROM coupons WHERE coupons.code = upper(trim(coupon_code));
+
+  reason := coupon_redemption_error(coupon, validate_coupon.offer_id);
+  IF reason IS NOT NULL THEN
+    RAISE EXCEPTION '%', reason USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY SELECT
+    coupon.id, coupon.code, coupon.discount_type, coupon.discount_value, coupon.duration, coupon.duration_months;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_subscription_coupon()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon coupons;
+  offer service_offers;
+  reason text;
+  remaining_months integer;
+BEGIN
+  IF NEW.coupon_id IS NULL THEN
+    NEW.discounted_price := NULL;
+    NEW.discount_periods_remaining := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.coupon_id IS NOT DISTINCT FROM OLD.coupon_id
+    AND NEW.offer_id = OLD.offer_id AND NEW.billing_cycle = OLD.billing_cycle THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO offer FROM service_offers WHERE id = NEW.offer_id;
+
+  IF TG_OP = 'INSERT' OR NEW.coupon_id IS DISTINCT FROM OLD.coupon_id THEN
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id FOR UPDATE;
+
+    reason := coupon_redemption_error(coupon, NEW.offer_id);
+    IF reason IS NOT NULL THEN
+      RAISE EXCEPTION '%', reason USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE coupons SET times_redeemed = times_redeemed + 1 WHERE id = coupon.id;
+    NEW.discount_periods_remaining := coupon_period_count(coupon, NEW.billing_cycle);
+  ELSE
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id;
+
+    -- A plan change keeps the discount only if the new offer is covered
+    IF NOT coupon_applies_to_offer(coupon.id, NEW.offer_id) THEN
+      NEW.coupon_id := NULL;
+      NEW.discounted_price := NULL;
+      NEW.discount_periods_remaining := NULL;
+      RETURN NEW;
+    END IF;
+
+    -- Carry the remaining discount time over to the new billing cycle
+    IF NEW.billing_cycle <> OLD.billing_cycle AND OLD.discount_periods_remaining IS NOT NULL THEN
+      remaining_months := OLD.discount_periods_remaining * CASE OLD.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END;
+      NEW.discount_periods_remaining := ceil(
+        remaining_months::numeric / CASE NEW.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END
+      )::integer;
+    END IF;
+  END IF;
+
+  NEW.discounted_price := coupon_discounted_price(
+    coupon,
+    CASE NEW.billing_cycle WHEN 'monthly' THEN offer.price_monthly ELSE offer.price_yearly END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_subscription_coupon ON user_subscriptions;
+CREATE TRIGGER apply_subscription_coupon
+  BEFORE INSERT OR UPDATE ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_subscription_coupon();
+
+-- Mirrors calculateProration() in src/lib/proration.ts; credits the discounted price actually charged
+CREATE OR REPLACE FUNCTION change_subscription_plan(subscription_id uuid, new_offer_id uuid, new_cycle text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET timezone = 'UTC'
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  current_offer service_offers;
+  new_offer service_offers;
+  change_at timestamptz := now();
+  anchor timestamptz := COALESCE(sub.billing_anchor_at, sub.started_at);
+  current_step interval;
+  periods integer := 0;
+  period_start timestamptz;
+  period_end timestamptz;
+  period_days integer;
+  unused_days integer;
+  current_price numeric;
+  current_discount numeric;
+  new_price numeric;
+  credit numeric;
+  charge numeric;
+  carried numeric := 0;
+  net numeric;
+  new_anchor timestamptz;
+  new_period_end timestamptz;
+  last_tax_label text := 'Tax';
+  last_tax_rate numeric := 0;
+  tax numeric;
+  new_invoice_id uuid;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active subscriptions can change plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.cancel_at_period_end THEN
+    RAISE EXCEPTION 'Undo the scheduled cancellation before changing plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.next_billing_date IS NULL OR sub.next_billing_date <= change_at THEN
+    RAISE EXCEPTION 'Your current billing period has not been invoiced yet. Please try again later.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_offer_id = sub.offer_id AND new_cycle = sub.billing_cycle THEN
+    RAISE EXCEPTION 'You are already on this plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO current_offer FROM service_offers WHERE id = sub.offer_id;
+  SELECT * INTO new_offer FROM service_offers WHERE id = new_offer_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This service is no longer offered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_cycle = 'yearly' AND COALESCE(new_offer.price_yearly, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Month arithmetic from the anchor clamps to month end like addMonthsClamped()
+  current_step := CASE sub.billing_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  WHILE anchor + (periods + 1) * current_step <= change_at LOOP
+    periods := periods + 1;
+  END LOOP;
+  period_start := anchor + periods * current_step;
+  period_end := anchor + (periods + 1) * current_step;
+
+  period_days := period_end::date - period_start::date;
+  unused_days := GREATEST(0, period_end::date - change_at::date);
+
+  SELECT discount_amount INTO current_discount
+  FROM invoices
+  WHERE invoices.subscription_id = sub.id
+  AND status <> 'void'
+  AND invoices.period_start <= change_at
+  AND invoices.period_end > change_at
+  ORDER BY invoices.period_start DESC
+  LIMIT 1;
+
+  current_price := CASE sub.billing_cycle WHEN 'monthly' THEN current_offer.price_monthly ELSE current_offer.price_yearly END
+    - COALESCE(current_discount, 0);
+  new_price := CASE new_cycle WHEN 'monthly' THEN new_offer.price_monthly ELSE new_offer.price_yearly END;
+
+  credit := CASE WHEN period_days > 0 THEN round(current_price * unused_days / period_days, 2) ELSE 0 END;
+
+  IF new_cycle = sub.billing_cycle THEN
+    charge := CASE WHEN period_days > 0 THEN round(new_price * unused_days / period_days, 2) ELSE 0 END;
+    new_anchor := sub.billing_anchor_at;
+    new_period_end := period_end;
+  ELSE
+    charge := round(new_price, 2);
+    new_anchor := change_at;
+    new_period_end := change_at + CASE new_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  END IF;
+
+  net := charge - credit;
+  IF net < 0 THEN
+    carried := -net;
+    net := 0;
+  END IF;
+
+  SELECT tax_label, tax_rate INTO last_tax_label, last_tax_rate
+  FROM invoices
+  WHERE invoices.subscription_id = sub.id AND status <> 'void'
+  ORDER BY invoices.period_start DESC
+  LIMIT 1;
+  last_tax_label := COALESCE(last_tax_label, 'Tax');
+  last_tax_rate := COALESCE(last_tax_rate, 0);
+  tax := round(net * last_tax_rate / 100, 2);
+
+  INSERT INTO invoices (
+    subscription_id, user_id, status, period_start, period_end, subtotal,
+    tax_label, tax_rate, tax_amount, total, due_at, paid_at
+  )
+  VALUES (
+    sub.id, sub.user_id,
+    CASE WHEN net + tax > 0 THEN 'open' ELSE 'paid' END,
+    change_at, new_period_end, net,
+    last_tax_label, last_tax_rate, tax, net + tax,
+    change_at + interval '14 days',
+    CASE WHEN net + tax > 0 THEN NULL ELSE change_at END
+  )
+  RETURNING id INTO new_invoice_id;
+
+  IF credit > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (
+      new_invoice_id,
+      'Unused time on ' || current_offer.title || ' (' || initcap(sub.billing_cycle) || ', '
+        || unused_days || ' of ' || period_days || ' days)',
+      1, -credit, -credit
+    );
+  END IF;
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  VALUES (
+    new_invoice_id,
+    new_offer.title || ' (' || initcap(new_cycle) || ') from ' || to_char(change_at, 'YYYY-MM-DD'),
+    1, charge, charge
+  );
+
+  IF carried > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (new_invoice_id, 'Credit carried to your next invoice', 1, carried, carried);
+  END IF;
+
+  PERFORM set_config(
+    'app.subscription_event_note',
+    current_offer.title || ' (' || sub.billing_cycle || ') to ' || new_offer.title || ' (' || new_cycle
+      || '): credit ' || to_char(credit, 'FM999999990.00') || ', charge ' || to_char(charge, 'FM999999990.00'),
+    true
+  );
+  UPDATE user_subscriptions
+  SET offer_id = new_offer.id,
+      billing_cycle = new_cycle,
+      billing_anchor_at = new_anchor,
+      next_billing_date = new_period_end,
+      pending_billing_cycle = NULL,
+      coupon_id = NULL,
+      credit_balance = credit_balance + carried
+  WHERE id = sub.id;
+  PERFORM set_config('app.subscription_event_note', '', true);
+
+  RETURN new_invoice_id;
+END;
+$$;
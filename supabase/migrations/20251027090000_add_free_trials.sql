@@ -0,0 +1,200 @@
+/*
+  # Free Trials
+
+  ## Overview
+  Offers can include a free trial. Subscribing to such an offer starts the
+  subscription in a new `trialing` status without checkout. When the trial
+  ends the billing engine either starts billing or expires the subscription,
+  depending on the offer.
+
+  ## Changes
+
+  ### service_offers table
+  - `trial_days` (integer) - Length of the free trial, 0 for none
+  - `trial_end_behavior` (text) - 'convert' to start billing or 'expire' when
+    the trial ends
+
+  ### user_subscriptions table
+  - `trial_ends_at` (timestamptz) - When the trial ends
+  - `status` now also accepts 'trialing'
+
+  ### Lifecycle
+  - `trialing` can move to `active`, `cancelled` or `expired`
+  - A trialing subscription's `next_billing_date` and `billing_anchor_at` are
+    the trial end, so billing periods start when the trial converts
+  - Customers can cancel at the end of a trial or switch billing cycle during it
+
+  ## Updated Functions
+  - `cancel_subscription` / `undo_subscription_cancellation` - A trial can be
+    cancelled at its end
+  - `change_subscription_billing_cycle` - Switches immediately during a trial
+
+  ## New Triggers
+  - `start_subscription_trial` - Moves a new subscription to `trialing` when
+    its offer has a trial the customer has not used before; runs after the
+    column protection trigger, which requires customers to insert pending
+    subscriptions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'trial_days'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN trial_days integer DEFAULT 0 CHECK (trial_days >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'trial_end_behavior'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN trial_end_behavior text DEFAULT 'convert'
+      CHECK (trial_end_behavior IN ('convert', 'expire'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'trial_ends_at'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN trial_ends_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE user_subscriptions DROP CONSTRAINT IF EXISTS user_subscriptions_status_check;
+ALTER TABLE user_subscriptions ADD CONSTRAINT user_subscriptions_status_check
+  CHECK (status IN ('pending', 'trialing', 'active', 'past_due', 'paused', 'cancelled', 'expired'));
+
+CREATE OR REPLACE FUNCTION subscription_transition_allowed(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE from_status
+    WHEN 'pending' THEN to_status IN ('active', 'cancelled')
+    WHEN 'trialing' THEN to_status IN ('active', 'cancelled', 'expired')
+    WHEN 'active' THEN to_status IN ('past_due', 'paused', 'cancelled', 'expired')
+    WHEN 'past_due' THEN to_status IN ('active', 'cancelled', 'expired')
+    WHEN 'paused' THEN to_status IN ('active', 'cancelled', 'expired')
+    WHEN 'cancelled' THEN to_status = 'pending'
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_subscription_trial()
+RETURNS TRIGGER AS $$
+DECLARE
+  trial_length integer;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT trial_days INTO trial_length FROM service_offers WHERE id = NEW.offer_id;
+
+  -- One trial per customer and offer
+  IF COALESCE(trial_length, 0) > 0 AND NOT EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE user_id = NEW.user_id AND offer_id = NEW.offer_id AND trial_ends_at IS NOT NULL
+  ) THEN
+    NEW.status := 'trialing';
+    NEW.trial_ends_at := now() + make_interval(days => trial_length);
+    NEW.next_billing_date := NEW.trial_ends_at;
+    NEW.billing_anchor_at := NEW.trial_ends_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS start_subscription_trial ON user_subscriptions;
+CREATE TRIGGER start_subscription_trial
+  BEFORE INSERT ON user_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION start_subscription_trial();
+
+-- Self-service actions treat a trial like any other running subscription
+CREATE OR REPLACE FUNCTION cancel_subscription(subscription_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+BEGIN
+  IF sub.status = 'pending' THEN
+    PERFORM set_config('app.subscription_event_note', 'Cancelled by customer before activation', true);
+    UPDATE user_subscriptions
+    SET status = 'cancelled', cancel_requested_at = now()
+    WHERE id = sub.id;
+  ELSIF sub.status IN ('trialing', 'active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Cancellation is already scheduled' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE user_subscriptions
+    SET cancel_at_period_end = true, cancel_requested_at = now(), pending_billing_cycle = NULL
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'A % subscription cannot be cancelled', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.subscription_event_note', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_subscription_cancellation(subscription_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+BEGIN
+  IF NOT sub.cancel_at_period_end OR sub.status NOT IN ('trialing', 'active', 'past_due', 'paused') THEN
+    RAISE EXCEPTION 'No scheduled cancellation to undo' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE user_subscriptions
+  SET cancel_at_period_end = false, cancel_requested_at = NULL
+  WHERE id = sub.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_subscription_billing_cycle(subscription_id uuid, new_cycle text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  yearly_price numeric;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT price_yearly INTO yearly_price FROM service_offers WHERE id = sub.offer_id;
+  IF new_cycle = 'yearly' AND COALESCE(yearly_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Nothing has been billed yet, so switch straight away
+  IF sub.status IN ('pending', 'trialing') THEN
+    UPDATE user_subscriptions SET billing_cycle = new_cycle WHERE id = sub.id;
+  ELSIF sub.status IN ('active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Undo the scheduled cancellation before changing billing' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Choosing the current cycle withdraws a scheduled switch
+    UPDATE user_subscriptions
+    SET pending_billing_cycle = NULLIF(new_cycle, sub.billing_cycle)
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'Billing cannot be changed on a % subscription', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
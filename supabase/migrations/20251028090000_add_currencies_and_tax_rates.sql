@@ -0,0 +1,580 @@
+/*
+  # Multi-Currency Prices and Regional Tax Rates
+
+  ## Overview
+  Offers can be priced in several currencies. A customer subscribes in the
+  currency chosen on their profile when the offer has a price in it, and in
+  the offer's own currency otherwise. The subscription keeps that currency for
+  checkout, invoices and plan changes. Tax rates are configured per country,
+  optionally narrowed to a region such as a state or province, and looked up
+  from the customer's billing address.
+
+  ## New Tables
+
+  ### `offer_prices`
+  Price points in currencies other than the offer's own
+  - `id` (uuid, primary key)
+  - `offer_id` (uuid) - References service_offers
+  - `currency` (text) - ISO 4217 code, e.g. 'EUR'
+  - `price_monthly`, `price_yearly` (numeric)
+  - `created_at` (timestamptz)
+
+  ### `tax_rates`
+  - `id` (uuid, primary key)
+  - `country` (text) - ISO 3166-1 alpha-2 code, e.g. 'CA'
+  - `region` (text) - Region code within the country, e.g. 'ON'; null for the
+    country-wide rate
+  - `label` (text) - Shown on invoices, e.g. 'HST'
+  - `rate` (numeric) - Percentage
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+
+  ### service_offers table
+  - `currency` (text) - Currency of `price_monthly` and `price_yearly`
+
+  ### profiles table
+  - `currency` (text) - Preferred currency
+  - `country`, `region` (text) - Billing address used for tax
+
+  ### user_subscriptions, invoices tables
+  - `currency` (text) - Currency the subscription is billed in
+
+  ### coupons table
+  - `currency` (text) - Currency of a fixed amount discount; a fixed coupon can
+    only be redeemed on subscriptions billed in it
+
+  ## New Functions
+  - `offer_price(offer_id, price_currency, cycle)` - Price of an offer in a
+    currency, or null when it is not offered in it
+  - `customer_currency(customer_id, offer_id)` - Currency a customer would
+    subscribe to an offer in
+  - `customer_tax_rate(customer_id)` - The region's rate, else the country's
+  - Trigger `apply_customer_currency` sets the currency of a new subscription.
+    It is named to run before `apply_subscription_coupon`, which prices the
+    discount in that currency
+
+  ## Updated Functions
+  - `coupon_redemption_error()` and `validate_coupon()` check the currency of
+    fixed amount coupons
+  - `apply_subscription_coupon()`, `change_subscription_billing_cycle()` and
+    `change_subscription_plan()` use the subscription's currency; a plan change
+    charges the customer's tax rate
+
+  ## Security
+  - Authenticated users can view offer prices and tax rates
+  - Only admins can manage them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN currency text CHECK (currency ~ '^[A-Z]{3}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'country'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN country text CHECK (country ~ '^[A-Z]{2}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'region'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN region text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN currency text NOT NULL DEFAULT 'USD';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN currency text NOT NULL DEFAULT 'USD';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'coupons' AND column_name = 'currency'
+  ) THEN
+    ALTER TABLE coupons ADD COLUMN currency text CHECK (currency ~ '^[A-Z]{3}$');
+  END IF;
+END $$;
+
+-- Existing fixed amount coupons were priced in the default currency
+UPDATE coupons SET currency = 'USD' WHERE discount_type = 'fixed' AND currency IS NULL;
+
+ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_fixed_currency_check;
+ALTER TABLE coupons ADD CONSTRAINT coupons_fixed_currency_check
+  CHECK (discount_type <> 'fixed' OR currency IS NOT NULL);
+
+CREATE TABLE IF NOT EXISTS offer_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  price_monthly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_monthly >= 0),
+  price_yearly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_yearly >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (offer_id, currency)
+);
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country text NOT NULL CHECK (country ~ '^[A-Z]{2}$'),
+  region text CHECK (region <> ''),
+  label text NOT NULL DEFAULT 'Tax',
+  rate numeric(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_rates_country_region ON tax_rates(country, COALESCE(region, ''));
+
+ALTER TABLE offer_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view offer prices"
+  ON offer_prices FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer prices"
+  ON offer_prices FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Anyone can view tax rates"
+  ON tax_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage tax rates"
+  ON tax_rates FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION offer_price(offer_id uuid, price_currency text, cycle text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE cycle WHEN 'monthly' THEN service_offers.price_monthly ELSE service_offers.price_yearly END
+  FROM service_offers
+  WHERE service_offers.id = offer_price.offer_id AND service_offers.currency = price_currency
+  UNION ALL
+  SELECT CASE cycle WHEN 'monthly' THEN offer_prices.price_monthly ELSE offer_prices.price_yearly END
+  FROM offer_prices
+  WHERE offer_prices.offer_id = offer_price.offer_id AND offer_prices.currency = price_currency
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION customer_currency(customer_id uuid, offer_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN offer_price(service_offers.id, profiles.currency, 'monthly') IS NOT NULL THEN profiles.currency
+    ELSE service_offers.currency
+  END
+  FROM service_offers
+  LEFT JOIN profiles ON profiles.id = customer_id
+  WHERE service_offers.id = customer_currency.offer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION customer_tax_rate(customer_id uuid)
+RETURNS tax_rates
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tax_rates.*
+  FROM tax_rates
+  JOIN profiles ON profiles.id = customer_id AND profiles.country = tax_rates.country
+  WHERE tax_rates.region IS NULL OR upper(tax_rates.region) = upper(profiles.region)
+  ORDER BY tax_rates.region IS NULL
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_customer_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.currency := customer_currency(NEW.user_id, NEW.offer_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_customer_currency ON user_subscriptions;
+CREATE TRIGGER apply_customer_currency
+  BEFORE INSERT ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_customer_currency();
+
+-- The currency is now part of the check, so the old signature goes
+DROP FUNCTION IF EXISTS coupon_redemption_error(coupons, uuid);
+
+CREATE OR REPLACE FUNCTION coupon_redemption_error(coupon coupons, offer_id uuid, payment_currency text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN coupon.id IS NULL OR NOT coupon.is_active THEN 'This code is not valid'
+    WHEN coupon.expires_at IS NOT NULL AND coupon.expires_at <= now() THEN 'This code has expired'
+    WHEN coupon.max_redemptions IS NOT NULL AND coupon.times_redeemed >= coupon.max_redemptions
+      THEN 'This code has reached its redemption limit'
+    WHEN NOT coupon_applies_to_offer(coupon.id, offer_id) THEN 'This code does not apply to this service'
+    WHEN coupon.discount_type = 'fixed' AND coupon.currency <> payment_currency
+      THEN 'This code is not valid for payments in ' || payment_currency
+    ELSE NULL
+  END;
+$$;
+
+-- Adding a result column needs the function dropped first
+DROP FUNCTION IF EXISTS validate_coupon(text, uuid);
+
+CREATE OR REPLACE FUNCTION validate_coupon(coupon_code text, offer_id uuid)
+RETURNS TABLE (
+  id uuid,
+  code text,
+  discount_type text,
+  discount_value numeric,
+  duration text,
+  duration_months integer,
+  currency text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon coupons;
+  reason text;
+BEGIN
+  SELECT * INTO coupon FROM coupons WHERE coupons.code = upper(trim(coupon_code));
+
+  reason := coupon_redemption_error(
+    coupon,
+    validate_coupon.offer_id,
+    customer_currency(auth.uid(), validate_coupon.offer_id)
+  );
+  IF reason IS NOT NULL THEN
+    RAISE EXCEPTION '%', reason USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY SELECT
+    coupon.id, coupon.code, coupon.discount_type, coupon.discount_value, coupon.duration, coupon.duration_months,
+    coupon.currency;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_subscription_coupon()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon coupons;
+  reason text;
+  remaining_months integer;
+BEGIN
+  IF NEW.coupon_id IS NULL THEN
+    NEW.discounted_price := NULL;
+    NEW.discount_periods_remaining := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.coupon_id IS NOT DISTINCT FROM OLD.coupon_id
+    AND NEW.offer_id = OLD.offer_id AND NEW.billing_cycle = OLD.billing_cycle THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.coupon_id IS DISTINCT FROM OLD.coupon_id THEN
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id FOR UPDATE;
+
+    reason := coupon_redemption_error(coupon, NEW.offer_id, NEW.currency);
+    IF reason IS NOT NULL THEN
+      RAISE EXCEPTION '%', reason USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE coupons SET times_redeemed = times_redeemed + 1 WHERE id = coupon.id;
+    NEW.discount_periods_remaining := coupon_period_count(coupon, NEW.billing_cycle);
+  ELSE
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id;
+
+    -- A plan change keeps the discount only if the new offer is covered
+    IF NOT coupon_applies_to_offer(coupon.id, NEW.offer_id) THEN
+      NEW.coupon_id := NULL;
+      NEW.discounted_price := NULL;
+      NEW.discount_periods_remaining := NULL;
+      RETURN NEW;
+    END IF;
+
+    -- Carry the remaining discount time over to the new billing cycle
+    IF NEW.billing_cycle <> OLD.billing_cycle AND OLD.discount_periods_remaining IS NOT NULL THEN
+      remaining_months := OLD.discount_periods_remaining * CASE OLD.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END;
+      NEW.discount_periods_remaining := ceil(
+        remaining_months::numeric / CASE NEW.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END
+      )::integer;
+    END IF;
+  END IF;
+
+  NEW.discounted_price := coupon_discounted_price(coupon, offer_price(NEW.offer_id, NEW.currency, NEW.billing_cycle));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_subscription_billing_cycle(subscription_id uuid, new_cycle text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  yearly_price numeric;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  yearly_price := offer_price(sub.offer_id, sub.currency, 'yearly');
+  IF new_cycle = 'yearly' AND COALESCE(yearly_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Nothing has been billed yet, so switch straight away
+  IF sub.status IN ('pending', 'trialing') THEN
+    UPDATE user_subscriptions SET billing_cycle = new_cycle WHERE id = sub.id;
+  ELSIF sub.status IN ('active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Undo the scheduled cancellation before changing billing' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Choosing the current cycle withdraws a scheduled switch
+    UPDATE user_subscriptions
+    SET pending_billing_cycle = NULLIF(new_cycle, sub.billing_cycle)
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'Billing cannot be changed on a % subscription', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+-- Mirrors calculateProration() in src/lib/proration.ts, in the subscription's currency
+CREATE OR REPLACE FUNCTION change_subscription_plan(subscription_id uuid, new_offer_id uuid, new_cycle text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET timezone = 'UTC'
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  current_offer service_offers;
+  new_offer service_offers;
+  change_at timestamptz := now();
+  anchor timestamptz := COALESCE(sub.billing_anchor_at, sub.started_at);
+  current_step interval;
+  periods integer := 0;
+  period_start timestamptz;
+  period_end timestamptz;
+  period_days integer;
+  unused_days integer;
+  current_price numeric;
+  current_discount numeric;
+  new_price numeric;
+  credit numeric;
+  charge numeric;
+  carried numeric := 0;
+  net numeric;
+  new_anchor timestamptz;
+  new_period_end timestamptz;
+  customer_tax tax_rates;
+  last_tax_label text := 'Tax';
+  last_tax_rate numeric := 0;
+  tax numeric;
+  new_invoice_id uuid;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active subscriptions can change plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.cancel_at_period_end THEN
+    RAISE EXCEPTION 'Undo the scheduled cancellation before changing plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.next_billing_date IS NULL OR sub.next_billing_date <= change_at THEN
+    RAISE EXCEPTION 'Your current billing period has not been invoiced yet. Please try again later.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_offer_id = sub.offer_id AND new_cycle = sub.billing_cycle THEN
+    RAISE EXCEPTION 'You are already on this plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO current_offer FROM service_offers WHERE id = sub.offer_id;
+  SELECT * INTO new_offer FROM service_offers WHERE id = new_offer_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This service is no longer offered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The subscription keeps the currency it was sold in
+  new_price := offer_price(new_offer.id, sub.currency, new_cycle);
+  IF offer_price(new_offer.id, sub.currency, 'monthly') IS NULL THEN
+    RAISE EXCEPTION 'This service is not offered in %', sub.currency USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_cycle = 'yearly' AND COALESCE(new_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Month arithmetic from the anchor clamps to month end like addMonthsClamped()
+  current_step := CASE sub.billing_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  WHILE anchor + (periods + 1) * current_step <= change_at LOOP
+    periods := periods + 1;
+  END LOOP;
+  period_start := anchor + periods * current_step;
+  period_end := anchor + (periods + 1) * current_step;
+
+  period_days := period_end::date - period_start::date;
+  unused_days := GREATEST(0, period_end::date - change_at::date);
+
+  SELECT discount_amount INTO current_discount
+  FROM invoices
+  WHERE invoices.subscription_id = sub.id
+  AND status <> 'void'
+  AND invoices.period_start <= change_at
+  AND invoices.period_end > change_at
+  ORDER BY invoices.period_start DESC
+  LIMIT 1;
+
+  current_price := offer_price(current_offer.id, sub.currency, sub.billing_cycle) - COALESCE(current_discount, 0);
+
+  credit := CASE WHEN period_days > 0 THEN round(current_price * unused_days / period_days, 2) ELSE 0 END;
+
+  IF new_cycle = sub.billing_cycle THEN
+    charge := CASE WHEN period_days > 0 THEN round(new_price * unused_days / period_days, 2) ELSE 0 END;
+    new_anchor := sub.billing_anchor_at;
+    new_period_end := period_end;
+  ELSE
+    charge := round(new_price, 2);
+    new_anchor := change_at;
+    new_period_end := change_at + CASE new_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  END IF;
+
+  net := charge - credit;
+  IF net < 0 THEN
+    carried := -net;
+    net := 0;
+  END IF;
+
+  customer_tax := customer_tax_rate(sub.user_id);
+  IF customer_tax.id IS NOT NULL THEN
+    last_tax_label := customer_tax.label;
+    last_tax_rate := customer_tax.rate;
+  ELSE
+    SELECT tax_label, tax_rate INTO last_tax_label, last_tax_rate
+    FROM invoices
+    WHERE invoices.subscription_id = sub.id AND status <> 'void'
+    ORDER BY invoices.period_start DESC
+    LIMIT 1;
+    last_tax_label := COALESCE(last_tax_label, 'Tax');
+    last_tax_rate := COALESCE(last_tax_rate, 0);
+  END IF;
+  tax := round(net * last_tax_rate / 100, 2);
+
+  INSERT INTO invoices (
+    subscription_id, user_id, status, currency, period_start, period_end, subtotal,
+    tax_label, tax_rate, tax_amount, total, due_at, paid_at
+  )
+  VALUES (
+    sub.id, sub.user_id,
+    CASE WHEN net + tax > 0 THEN 'open' ELSE 'paid' END,
+    sub.currency,
+    change_at, new_period_end, net,
+    last_tax_label, last_tax_rate, tax, net + tax,
+    change_at + interval '14 days',
+    CASE WHEN net + tax > 0 THEN NULL ELSE change_at END
+  )
+  RETURNING id INTO new_invoice_id;
+
+  IF credit > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (
+      new_invoice_id,
+      'Unused time on ' || current_offer.title || ' (' || initcap(sub.billing_cycle) || ', '
+        || unused_days || ' of ' || period_days || ' days)',
+      1, -credit, -credit
+    );
+  END IF;
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  VALUES (
+    new_invoice_id,
+    new_offer.title || ' (' || initcap(new_cycle) || ') from ' || to_char(change_at, 'YYYY-MM-DD'),
+    1, charge, charge
+  );
+
+  IF carried > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (new_invoice_id, 'Credit carried to your next invoice', 1, carried, carried);
+  END IF;
+
+  PERFORM set_config(
+    'app.subscription_event_note',
+    current_offer.title || ' (' || sub.billing_cycle || ') to ' || new_offer.title || ' (' || new_cycle
+      || '): credit ' || to_char(credit, 'FM999999990.00') || ', charge ' || to_char(charge, 'FM999999990.00'),
+    true
+  );
+  UPDATE user_subscriptions
+  SET offer_id = new_offer.id,
+      billing_cycle = new_cycle,
+      billing_anchor_at = new_anchor,
+      next_billing_date = new_period_end,
+      pending_billing_cycle = NULL,
+      coupon_id = NULL,
+      credit_balance = credit_balance + carried
+  WHERE id = sub.id;
+  PERFORM set_config('app.subscription_event_note', '', true);
+
+  RETURN new_invoice_id;
+END;
+$$;
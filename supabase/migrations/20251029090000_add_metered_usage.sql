@@ -0,0 +1,190 @@
+/*
+  # Metered Usage Pricing
+
+  ## Overview
+  Offers can charge per unit of usage, e.g. per lead, per generated asset or
+  per hour, on top of their flat monthly or yearly price. Each metered price
+  component is a meter on the offer. Usage is recorded against a
+  subscription and billed in arrears: the invoice for a period includes the
+  usage recorded before it that has not been invoiced yet.
+
+  ## New Tables
+
+  ### `offer_meters`
+  Metered price components of an offer
+  - `id` (uuid, primary key)
+  - `offer_id` (uuid) - References service_offers
+  - `name` (text) - e.g. 'Qualified leads'
+  - `unit` (text) - Singular unit name, e.g. 'lead'
+  - `unit_price` (numeric) - Price per unit in the offer's currency
+  - `included_units` (numeric) - Units per month covered by the flat price;
+    a yearly period includes twelve months' worth
+  - `sort_order` (integer)
+  - `created_at` (timestamptz)
+
+  ### `offer_meter_prices`
+  Unit prices in the offer's other currencies
+  - `id` (uuid, primary key)
+  - `meter_id` (uuid) - References offer_meters
+  - `currency` (text) - ISO 4217 code
+  - `unit_price` (numeric)
+  - `created_at` (timestamptz)
+
+  ### `usage_records`
+  - `id` (uuid, primary key)
+  - `subscription_id` (uuid) - References user_subscriptions
+  - `meter_id` (uuid) - References offer_meters
+  - `quantity` (numeric) - Units used
+  - `recorded_at` (timestamptz) - When the usage happened
+  - `note` (text)
+  - `idempotency_key` (text) - Optional, unique; lets API clients retry safely
+  - `invoice_id` (uuid) - The invoice the usage was billed on, null until then
+  - `created_by` (uuid) - Admin who recorded it; null for API writes
+  - `created_at` (timestamptz)
+
+  ## New Functions
+  - `meter_unit_price(meter_id, price_currency)` - Unit price of a meter in a
+    currency, or null when the offer is not offered in it
+  - Trigger `check_usage_record` only accepts usage for a meter of the
+    subscription's current offer, and only while the subscription is active
+    or past due; usage during a free trial is not charged
+
+  ## Security
+  - Authenticated users can view meters and their prices
+  - Users can view usage on their own subscriptions
+  - Only admins can manage meters and record usage; API clients write usage
+    through the `record-usage` edge function
+  - A meter with recorded usage cannot be deleted
+*/
+
+CREATE TABLE IF NOT EXISTS offer_meters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (name <> ''),
+  unit text NOT NULL CHECK (unit <> ''),
+  unit_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  included_units numeric(12,2) NOT NULL DEFAULT 0 CHECK (included_units >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS offer_meter_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  meter_id uuid REFERENCES offer_meters(id) ON DELETE CASCADE NOT NULL,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  unit_price numeric(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (meter_id, currency)
+);
+
+CREATE TABLE IF NOT EXISTS usage_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid REFERENCES user_subscriptions(id) ON DELETE CASCADE NOT NULL,
+  meter_id uuid REFERENCES offer_meters(id) ON DELETE RESTRICT NOT NULL,
+  quantity numeric(12,2) NOT NULL CHECK (quantity > 0),
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  note text NOT NULL DEFAULT '',
+  idempotency_key text UNIQUE,
+  invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offer_meters_offer_id ON offer_meters(offer_id);
+CREATE INDEX IF NOT EXISTS idx_usage_records_subscription_id ON usage_records(subscription_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_usage_records_unbilled ON usage_records(subscription_id) WHERE invoice_id IS NULL;
+
+ALTER TABLE offer_meters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE offer_meter_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view offer meters"
+  ON offer_meters FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer meters"
+  ON offer_meters FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Anyone can view offer meter prices"
+  ON offer_meter_prices FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer meter prices"
+  ON offer_meter_prices FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Users can view own usage"
+  ON usage_records FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.id = usage_records.subscription_id
+      AND user_subscriptions.user_id = auth.uid()
+    )
+    OR is_admin(auth.uid())
+  );
+
+CREATE POLICY "Admins can manage usage"
+  ON usage_records FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION meter_unit_price(meter_id uuid, price_currency text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT offer_meters.unit_price
+  FROM offer_meters
+  JOIN service_offers ON service_offers.id = offer_meters.offer_id
+  WHERE offer_meters.id = meter_unit_price.meter_id AND service_offers.currency = price_currency
+  UNION ALL
+  SELECT offer_meter_prices.unit_price
+  FROM offer_meter_prices
+  WHERE offer_meter_prices.meter_id = meter_unit_price.meter_id AND offer_meter_prices.currency = price_currency
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION check_usage_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions;
+  meter offer_meters;
+BEGIN
+  SELECT * INTO sub FROM user_subscriptions WHERE id = NEW.subscription_id;
+  SELECT * INTO meter FROM offer_meters WHERE id = NEW.meter_id;
+
+  IF meter.offer_id IS DISTINCT FROM sub.offer_id THEN
+    RAISE EXCEPTION 'Meter % does not belong to the subscription''s service', NEW.meter_id;
+  END IF;
+
+  IF sub.status NOT IN ('active', 'past_due') THEN
+    RAISE EXCEPTION 'Usage cannot be recorded on a % subscription', sub.status;
+  END IF;
+
+  -- Service role writes from the edge function pass created_by themselves
+  NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_usage_record ON usage_records;
+CREATE TRIGGER check_usage_record
+  BEFORE INSERT ON usage_records
+  FOR EACH ROW
+  EXECUTE FUNCTION check_usage_record();
@@ -0,0 +1,643 @@
+/*
+  # Offer Versions and Price History
+
+  ## Overview
+  Editing an offer used to overwrite its prices, so existing subscribers
+  appeared to pay the new price. Offers now keep versions: a snapshot of the
+  title, description, features and prices each time they change. Every
+  subscription points to the version it was sold under and is billed at that
+  version's prices. When prices change, admins choose whether existing
+  subscribers keep their version or move to the new one. Usage meter prices
+  are not versioned.
+
+  ## New Tables
+
+  ### `offer_versions`
+  - `id` (uuid, primary key)
+  - `offer_id` (uuid) - References service_offers
+  - `version` (integer) - 1, 2, 3... per offer
+  - `title`, `description` (text), `features` (jsonb)
+  - `currency` (text), `price_monthly`, `price_yearly` (numeric) - Prices in
+    the offer's own currency
+  - `created_by` (uuid) - Admin who published the version
+  - `created_at` (timestamptz)
+
+  ### `offer_version_prices`
+  Snapshot of the offer's prices in other currencies
+  - `id` (uuid, primary key)
+  - `version_id` (uuid) - References offer_versions
+  - `currency` (text)
+  - `price_monthly`, `price_yearly` (numeric)
+
+  ## Changes
+
+  ### service_offers table
+  - `current_version_id` (uuid) - Version new subscriptions are sold under
+
+  ### user_subscriptions table
+  - `offer_version_id` (uuid) - Version the subscription is billed at
+
+  ### subscription_events table
+  - `event_type` now also accepts 'version_changed'
+
+  Existing offers get a first version from their current details, and their
+  subscriptions are pointed at it.
+
+  ## New Functions
+  - `version_price(version_id, price_currency, cycle)` - Price of a version in
+    a currency, or null when it was not offered in it
+  - `publish_offer_version(offer_id)` - Snapshots the offer as a new version
+    when it differs from the current one and returns the current version
+  - `move_subscribers_to_version(version_id)` - Moves live subscriptions on
+    older versions of the offer to this one and returns how many moved.
+    Subscriptions billed in a currency the version has no price in stay put
+  - Trigger `apply_offer_version` points new subscriptions, subscriptions
+    moved to another offer and reactivated subscriptions at the offer's
+    current version. It is named to
+    run before `apply_subscription_coupon`, which prices the discount from it
+
+  ## Updated Functions
+  - `apply_subscription_coupon()`, `change_subscription_billing_cycle()` and
+    `change_subscription_plan()` price the subscription from its version
+
+  ## Security
+  - Authenticated users can view versions and their prices
+  - Only admins can publish versions or move subscribers
+*/
+
+CREATE TABLE IF NOT EXISTS offer_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  title text NOT NULL,
+  description text DEFAULT '',
+  features jsonb DEFAULT '[]'::jsonb,
+  currency text NOT NULL,
+  price_monthly numeric(10,2) NOT NULL DEFAULT 0,
+  price_yearly numeric(10,2) NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (offer_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS offer_version_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id uuid REFERENCES offer_versions(id) ON DELETE CASCADE NOT NULL,
+  currency text NOT NULL,
+  price_monthly numeric(10,2) NOT NULL DEFAULT 0,
+  price_yearly numeric(10,2) NOT NULL DEFAULT 0,
+  UNIQUE (version_id, currency)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'current_version_id'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN current_version_id uuid REFERENCES offer_versions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'offer_version_id'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN offer_version_id uuid REFERENCES offer_versions(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_offer_version_id ON user_subscriptions(offer_version_id);
+
+ALTER TABLE offer_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE offer_version_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view offer versions"
+  ON offer_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer versions"
+  ON offer_versions FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Anyone can view offer version prices"
+  ON offer_version_prices FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer version prices"
+  ON offer_version_prices FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+ALTER TABLE subscription_events DROP CONSTRAINT IF EXISTS subscription_events_event_type_check;
+ALTER TABLE subscription_events ADD CONSTRAINT subscription_events_event_type_check
+  CHECK (event_type IN (
+    'status_change',
+    'cancel_scheduled',
+    'cancel_undone',
+    'billing_cycle_change_scheduled',
+    'billing_cycle_changed',
+    'plan_changed',
+    'version_changed'
+  ));
+
+CREATE OR REPLACE FUNCTION version_price(version_id uuid, price_currency text, cycle text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE cycle WHEN 'monthly' THEN offer_versions.price_monthly ELSE offer_versions.price_yearly END
+  FROM offer_versions
+  WHERE offer_versions.id = version_price.version_id AND offer_versions.currency = price_currency
+  UNION ALL
+  SELECT CASE cycle WHEN 'monthly' THEN offer_version_prices.price_monthly ELSE offer_version_prices.price_yearly END
+  FROM offer_version_prices
+  WHERE offer_version_prices.version_id = version_price.version_id AND offer_version_prices.currency = price_currency
+  LIMIT 1;
+$$;
+
+-- Snapshot the offer as a new version unless the current one still matches
+CREATE OR REPLACE FUNCTION snapshot_offer_version(offer_id uuid)
+RETURNS offer_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer service_offers;
+  current_version offer_versions;
+  new_version offer_versions;
+BEGIN
+  SELECT * INTO offer FROM service_offers WHERE id = snapshot_offer_version.offer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO current_version FROM offer_versions WHERE id = offer.current_version_id;
+
+  IF current_version.id IS NOT NULL
+    AND current_version.title = offer.title
+    AND current_version.description IS NOT DISTINCT FROM offer.description
+    AND current_version.features IS NOT DISTINCT FROM offer.features
+    AND current_version.currency = offer.currency
+    AND current_version.price_monthly = offer.price_monthly
+    AND current_version.price_yearly = offer.price_yearly
+    AND NOT EXISTS (
+      (
+        SELECT offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+        FROM offer_prices WHERE offer_prices.offer_id = offer.id
+        EXCEPT
+        SELECT offer_version_prices.currency, offer_version_prices.price_monthly, offer_version_prices.price_yearly
+        FROM offer_version_prices WHERE offer_version_prices.version_id = current_version.id
+      )
+      UNION ALL
+      (
+        SELECT offer_version_prices.currency, offer_version_prices.price_monthly, offer_version_prices.price_yearly
+        FROM offer_version_prices WHERE offer_version_prices.version_id = current_version.id
+        EXCEPT
+        SELECT offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+        FROM offer_prices WHERE offer_prices.offer_id = offer.id
+      )
+    )
+  THEN
+    RETURN current_version;
+  END IF;
+
+  INSERT INTO offer_versions (
+    offer_id, version, title, description, features, currency, price_monthly, price_yearly, created_by
+  )
+  SELECT
+    offer.id,
+    COALESCE(MAX(offer_versions.version), 0) + 1,
+    offer.title, offer.description, offer.features, offer.currency, offer.price_monthly, offer.price_yearly,
+    auth.uid()
+  FROM offer_versions
+  WHERE offer_versions.offer_id = offer.id
+  RETURNING * INTO new_version;
+
+  INSERT INTO offer_version_prices (version_id, currency, price_monthly, price_yearly)
+  SELECT new_version.id, offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+  FROM offer_prices
+  WHERE offer_prices.offer_id = offer.id;
+
+  UPDATE service_offers SET current_version_id = new_version.id WHERE id = offer.id;
+
+  RETURN new_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION snapshot_offer_version(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION publish_offer_version(offer_id uuid)
+RETURNS offer_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can publish offer versions' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN snapshot_offer_version(publish_offer_version.offer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION move_subscribers_to_version(version_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target offer_versions;
+  sub record;
+  moved integer := 0;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can move subscribers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target FROM offer_versions WHERE id = move_subscribers_to_version.version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer version not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR sub IN
+    SELECT user_subscriptions.id, user_subscriptions.status, offer_versions.version AS from_version
+    FROM user_subscriptions
+    LEFT JOIN offer_versions ON offer_versions.id = user_subscriptions.offer_version_id
+    WHERE user_subscriptions.offer_id = target.offer_id
+    AND user_subscriptions.offer_version_id IS DISTINCT FROM target.id
+    AND user_subscriptions.status NOT IN ('cancelled', 'expired')
+    AND version_price(target.id, user_subscriptions.currency, 'monthly') IS NOT NULL
+    FOR UPDATE OF user_subscriptions
+  LOOP
+    UPDATE user_subscriptions SET offer_version_id = target.id WHERE id = sub.id;
+
+    INSERT INTO subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      sub.id, 'version_changed', sub.status, sub.status, auth.uid(),
+      'Moved from version ' || COALESCE(sub.from_version::text, 'none') || ' to version ' || target.version
+    );
+    moved := moved + 1;
+  END LOOP;
+
+  RETURN moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_offer_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  version_id uuid;
+BEGIN
+  -- A reactivated subscription is sold again, at today's version
+  IF TG_OP = 'UPDATE' AND NEW.offer_id = OLD.offer_id
+    AND NOT (OLD.status = 'cancelled' AND NEW.status = 'pending') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT current_version_id INTO version_id FROM service_offers WHERE id = NEW.offer_id;
+  -- Offers created outside the admin screens have not been snapshotted yet
+  IF version_id IS NULL THEN
+    version_id := (snapshot_offer_version(NEW.offer_id)).id;
+  END IF;
+
+  NEW.offer_version_id := version_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_offer_version ON user_subscriptions;
+CREATE TRIGGER apply_offer_version
+  BEFORE INSERT OR UPDATE OF offer_id, status ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_offer_version();
+
+-- Version 1 of every existing offer, with its subscriptions pointed at it
+INSERT INTO offer_versions (offer_id, version, title, description, features, currency, price_monthly, price_yearly)
+SELECT id, 1, title, description, features, currency, price_monthly, price_yearly
+FROM service_offers
+WHERE current_version_id IS NULL
+AND NOT EXISTS (SELECT 1 FROM offer_versions WHERE offer_versions.offer_id = service_offers.id);
+
+INSERT INTO offer_version_prices (version_id, currency, price_monthly, price_yearly)
+SELECT offer_versions.id, offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+FROM offer_versions
+JOIN offer_prices ON offer_prices.offer_id = offer_versions.offer_id
+WHERE offer_versions.version = 1
+ON CONFLICT (version_id, currency) DO NOTHING;
+
+UPDATE service_offers
+SET current_version_id = offer_versions.id
+FROM offer_versions
+WHERE offer_versions.offer_id = service_offers.id
+AND offer_versions.version = 1
+AND service_offers.current_version_id IS NULL;
+
+UPDATE user_subscriptions
+SET offer_version_id = service_offers.current_version_id
+FROM service_offers
+WHERE service_offers.id = user_subscriptions.offer_id
+AND user_subscriptions.offer_version_id IS NULL;
+
+CREATE OR REPLACE FUNCTION apply_subscription_coupon()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon coupons;
+  reason text;
+  remaining_months integer;
+BEGIN
+  IF NEW.coupon_id IS NULL THEN
+    NEW.discounted_price := NULL;
+    NEW.discount_periods_remaining := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.coupon_id IS NOT DISTINCT FROM OLD.coupon_id
+    AND NEW.offer_id = OLD.offer_id AND NEW.billing_cycle = OLD.billing_cycle
+    AND NEW.offer_version_id IS NOT DISTINCT FROM OLD.offer_version_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.coupon_id IS DISTINCT FROM OLD.coupon_id THEN
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id FOR UPDATE;
+
+    reason := coupon_redemption_error(coupon, NEW.offer_id, NEW.currency);
+    IF reason IS NOT NULL THEN
+      RAISE EXCEPTION '%', reason USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE coupons SET times_redeemed = times_redeemed + 1 WHERE id = coupon.id;
+    NEW.discount_periods_remaining := coupon_period_count(coupon, NEW.billing_cycle);
+  ELSE
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id;
+
+    -- A plan change keeps the discount only if the new offer is covered
+    IF NOT coupon_applies_to_offer(coupon.id, NEW.offer_id) THEN
+      NEW.coupon_id := NULL;
+      NEW.discounted_price := NULL;
+      NEW.discount_periods_remaining := NULL;
+      RETURN NEW;
+    END IF;
+
+    -- Carry the remaining discount time over to the new billing cycle
+    IF NEW.billing_cycle <> OLD.billing_cycle AND OLD.discount_periods_remaining IS NOT NULL THEN
+      remaining_months := OLD.discount_periods_remaining * CASE OLD.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END;
+      NEW.discount_periods_remaining := ceil(
+        remaining_months::numeric / CASE NEW.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END
+      )::integer;
+    END IF;
+  END IF;
+
+  NEW.discounted_price := coupon_discounted_price(
+    coupon,
+    version_price(NEW.offer_version_id, NEW.currency, NEW.billing_cycle)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_subscription_billing_cycle(subscription_id uuid, new_cycle text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  yearly_price numeric;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  yearly_price := version_price(sub.offer_version_id, sub.currency, 'yearly');
+  IF new_cycle = 'yearly' AND COALESCE(yearly_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Nothing has been billed yet, so switch straight away
+  IF sub.status IN ('pending', 'trialing') THEN
+    UPDATE user_subscriptions SET billing_cycle = new_cycle WHERE id = sub.id;
+  ELSIF sub.status IN ('active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Undo the scheduled cancellation before changing billing' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Choosing the current cycle withdraws a scheduled switch
+    UPDATE user_subscriptions
+    SET pending_billing_cycle = NULLIF(new_cycle, sub.billing_cycle)
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'Billing cannot be changed on a % subscription', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+-- Mirrors calculateProration() in src/lib/proration.ts, at the prices of the
+-- subscription's offer version
+CREATE OR REPLACE FUNCTION change_subscription_plan(subscription_id uuid, new_offer_id uuid, new_cycle text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET timezone = 'UTC'
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  current_offer service_offers;
+  new_offer service_offers;
+  new_version_id uuid;
+  change_at timestamptz := now();
+  anchor timestamptz := COALESCE(sub.billing_anchor_at, sub.started_at);
+  current_step interval;
+  periods integer := 0;
+  period_start timestamptz;
+  period_end timestamptz;
+  period_days integer;
+  unused_days integer;
+  current_price numeric;
+  current_discount numeric;
+  new_price numeric;
+  credit numeric;
+  charge numeric;
+  carried numeric := 0;
+  net numeric;
+  new_anchor timestamptz;
+  new_period_end timestamptz;
+  customer_tax tax_rates;
+  last_tax_label text := 'Tax';
+  last_tax_rate numeric := 0;
+  tax numeric;
+  new_invoice_id uuid;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active subscriptions can change plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.cancel_at_period_end THEN
+    RAISE EXCEPTION 'Undo the scheduled cancellation before changing plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.next_billing_date IS NULL OR sub.next_billing_date <= change_at THEN
+    RAISE EXCEPTION 'Your current billing period has not been invoiced yet. Please try again later.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_offer_id = sub.offer_id AND new_cycle = sub.billing_cycle THEN
+    RAISE EXCEPTION 'You are already on this plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO current_offer FROM service_offers WHERE id = sub.offer_id;
+  SELECT * INTO new_offer FROM service_offers WHERE id = new_offer_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This service is no longer offered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Changing only the cycle keeps the version the subscription was sold under
+  new_version_id := CASE WHEN new_offer.id = sub.offer_id THEN sub.offer_version_id ELSE new_offer.current_version_id END;
+
+  -- The subscription keeps the currency it was sold in
+  new_price := version_price(new_version_id, sub.currency, new_cycle);
+  IF version_price(new_version_id, sub.currency, 'monthly') IS NULL THEN
+    RAISE EXCEPTION 'This service is not offered in %', sub.currency USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_cycle = 'yearly' AND COALESCE(new_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Month arithmetic from the anchor clamps to month end like addMonthsClamped()
+  current_step := CASE sub.billing_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  WHILE anchor + (periods + 1) * current_step <= change_at LOOP
+    periods := periods + 1;
+  END LOOP;
+  period_start := anchor + periods * current_step;
+  period_end := anchor + (periods + 1) * current_step;
+
+  period_days := period_end::date - period_start::date;
+  unused_days := GREATEST(0, period_end::date - change_at::date);
+
+  SELECT discount_amount INTO current_discount
+  FROM invoices
+  WHERE invoices.subscription_id = sub.id
+  AND status <> 'void'
+  AND invoices.period_start <= change_at
+  AND invoices.period_end > change_at
+  ORDER BY invoices.period_start DESC
+  LIMIT 1;
+
+  current_price := version_price(sub.offer_version_id, sub.currency, sub.billing_cycle) - COALESCE(current_discount, 0);
+
+  credit := CASE WHEN period_days > 0 THEN round(current_price * unused_days / period_days, 2) ELSE 0 END;
+
+  IF new_cycle = sub.billing_cycle THEN
+    charge := CASE WHEN period_days > 0 THEN round(new_price * unused_days / period_days, 2) ELSE 0 END;
+    new_anchor := sub.billing_anchor_at;
+    new_period_end := period_end;
+  ELSE
+    charge := round(new_price, 2);
+    new_anchor := change_at;
+    new_period_end := change_at + CASE new_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  END IF;
+
+  net := charge - credit;
+  IF net < 0 THEN
+    carried := -net;
+    net := 0;
+  END IF;
+
+  customer_tax := customer_tax_rate(sub.user_id);
+  IF customer_tax.id IS NOT NULL THEN
+    last_tax_label := customer_tax.label;
+    last_tax_rate := customer_tax.rate;
+  ELSE
+    SELECT tax_label, tax_rate INTO last_tax_label, last_tax_rate
+    FROM invoices
+    WHERE invoices.subscription_id = sub.id AND status <> 'void'
+    ORDER BY invoices.period_start DESC
+    LIMIT 1;
+    last_tax_label := COALESCE(last_tax_label, 'Tax');
+    last_tax_rate := COALESCE(last_tax_rate, 0);
+  END IF;
+  tax := round(net * last_tax_rate / 100, 2);
+
+  INSERT INTO invoices (
+    subscription_id, user_id, status, currency, period_start, period_end, subtotal,
+    tax_label, tax_rate, tax_amount, total, due_at, paid_at
+  )
+  VALUES (
+    sub.id, sub.user_id,
+    CASE WHEN net + tax > 0 THEN 'open' ELSE 'paid' END,
+    sub.currency,
+    change_at, new_period_end, net,
+    last_tax_label, last_tax_rate, tax, net + tax,
+    change_at + interval '14 days',
+    CASE WHEN net + tax > 0 THEN NULL ELSE change_at END
+  )
+  RETURNING id INTO new_invoice_id;
+
+  IF credit > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (
+      new_invoice_id,
+      'Unused time on ' || current_offer.title || ' (' || initcap(sub.billing_cycle) || ', '
+        || unused_days || ' of ' || period_days || ' days)',
+      1, -credit, -credit
+    );
+  END IF;
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  VALUES (
+    new_invoice_id,
+    new_offer.title || ' (' || initcap(new_cycle) || ') from ' || to_char(change_at, 'YYYY-MM-DD'),
+    1, charge, charge
+  );
+
+  IF carried > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (new_invoice_id, 'Credit carried to your next invoice', 1, carried, carried);
+  END IF;
+
+  PERFORM set_config(
+    'app.subscription_event_note',
+    current_offer.title || ' (' || sub.billing_cycle || ') to ' || new_offer.title || ' (' || new_cycle
+      || '): credit ' || to_char(credit, 'FM999999990.00') || ', charge ' || to_char(charge, 'FM999999990.00'),
+    true
+  );
+  UPDATE user_subscriptions
+  SET offer_id = new_offer.id,
+      offer_version_id = new_version_id,
+      billing_cycle = new_cycle,
+      billing_anchor_at = new_anchor,
+      next_billing_date = new_period_end,
+      pending_billing_cycle = NULL,
+      coupon_id = NULL,
+      credit_balance = credit_balance + carried
+  WHERE id = sub.id;
+  PERFORM set_config('app.subscription_event_note', '', true);
+
+  RETURN new_invoice_id;
+END;
+$$;
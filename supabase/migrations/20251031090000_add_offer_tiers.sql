@@ -0,0 +1,657 @@
+/*
+  # Offer Tiers
+
+  ## Overview
+  An offer can now be sold in several tiers, e.g. Basic, Pro and Enterprise,
+  each with its own description, features, limits and prices, instead of as
+  near-duplicate offers. A subscription to a tiered offer records the tier it
+  was sold in and is billed at that tier's price. Tiers are part of the offer
+  version, so existing subscribers keep their tier's price when it changes
+  unless they are moved to the new version. An offer without tiers is priced
+  as before; a tiered offer's own price mirrors its first tier.
+
+  ## New Tables
+
+  ### `offer_tiers`
+  - `id` (uuid, primary key)
+  - `offer_id` (uuid) - References service_offers
+  - `name` (text) - e.g. 'Pro'
+  - `description` (text)
+  - `features` (jsonb) - Feature list, like service_offers.features
+  - `limits` (jsonb) - Named limits, e.g. [{"name": "Seats", "value": "5"}]
+  - `price_monthly`, `price_yearly` (numeric) - Prices in the offer's currency
+  - `sort_order` (integer)
+  - `created_at` (timestamptz)
+
+  ### `offer_tier_prices`
+  Tier prices in the offer's other currencies
+  - `id` (uuid, primary key)
+  - `tier_id` (uuid) - References offer_tiers
+  - `currency` (text) - ISO 4217 code
+  - `price_monthly`, `price_yearly` (numeric)
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### offer_versions table
+  - `tiers` (jsonb) - Snapshot of the offer's tiers with their prices
+
+  ### user_subscriptions table
+  - `tier_id` (uuid) - Tier the subscription was sold in; null for offers
+    without tiers. A tier with subscriptions cannot be deleted
+
+  ## New Functions
+  - `offer_tiers_snapshot(offer_id)` - The offer's tiers as stored on a version
+  - `version_tier_price(version_id, tier_id, price_currency, cycle)` - Price of
+    a tier of a version in a currency, or of the version itself when
+    `tier_id` is null
+  - Trigger `check_subscription_tier` requires a tier of the subscription's
+    offer when the offer has tiers, priced in the subscription's currency
+
+  ## Updated Functions
+  - `snapshot_offer_version()` also versions the tiers
+  - `apply_subscription_coupon()`, `change_subscription_billing_cycle()` and
+    `move_subscribers_to_version()` price the subscription from its tier
+  - `change_subscription_plan(subscription_id, new_offer_id, new_cycle, new_tier_id)`
+    also switches tier; changing tier sells the offer's current version
+
+  ## Security
+  - Authenticated users can view tiers and their prices
+  - Only admins can manage tiers
+*/
+
+CREATE TABLE IF NOT EXISTS offer_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (name <> ''),
+  description text NOT NULL DEFAULT '',
+  features jsonb NOT NULL DEFAULT '[]'::jsonb,
+  limits jsonb NOT NULL DEFAULT '[]'::jsonb,
+  price_monthly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_monthly >= 0),
+  price_yearly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_yearly >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS offer_tier_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tier_id uuid REFERENCES offer_tiers(id) ON DELETE CASCADE NOT NULL,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  price_monthly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_monthly >= 0),
+  price_yearly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_yearly >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (tier_id, currency)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'offer_versions' AND column_name = 'tiers'
+  ) THEN
+    ALTER TABLE offer_versions ADD COLUMN tiers jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'tier_id'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN tier_id uuid REFERENCES offer_tiers(id) ON DELETE RESTRICT;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_offer_tiers_offer_id ON offer_tiers(offer_id);
+CREATE INDEX IF NOT EXISTS idx_user_subscriptions_tier_id ON user_subscriptions(tier_id);
+
+ALTER TABLE offer_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE offer_tier_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view offer tiers"
+  ON offer_tiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer tiers"
+  ON offer_tiers FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Anyone can view offer tier prices"
+  ON offer_tier_prices FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer tier prices"
+  ON offer_tier_prices FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION offer_tiers_snapshot(offer_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'id', offer_tiers.id,
+        'name', offer_tiers.name,
+        'description', offer_tiers.description,
+        'features', offer_tiers.features,
+        'limits', offer_tiers.limits,
+        'price_monthly', offer_tiers.price_monthly,
+        'price_yearly', offer_tiers.price_yearly,
+        'prices', (
+          SELECT COALESCE(
+            jsonb_agg(
+              jsonb_build_object(
+                'currency', offer_tier_prices.currency,
+                'price_monthly', offer_tier_prices.price_monthly,
+                'price_yearly', offer_tier_prices.price_yearly
+              )
+              ORDER BY offer_tier_prices.currency
+            ),
+            '[]'::jsonb
+          )
+          FROM offer_tier_prices
+          WHERE offer_tier_prices.tier_id = offer_tiers.id
+        )
+      )
+      ORDER BY offer_tiers.sort_order, offer_tiers.created_at
+    ),
+    '[]'::jsonb
+  )
+  FROM offer_tiers
+  WHERE offer_tiers.offer_id = offer_tiers_snapshot.offer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION version_tier_price(version_id uuid, tier_id uuid, price_currency text, cycle text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT version_price(version_tier_price.version_id, price_currency, cycle)
+  WHERE version_tier_price.tier_id IS NULL
+  UNION ALL
+  -- The tier's own prices are in the version's currency, the rest are listed under 'prices'
+  SELECT (price ->> CASE cycle WHEN 'monthly' THEN 'price_monthly' ELSE 'price_yearly' END)::numeric
+  FROM offer_versions
+  CROSS JOIN jsonb_array_elements(offer_versions.tiers) AS tier
+  CROSS JOIN jsonb_array_elements(
+    jsonb_build_array(tier || jsonb_build_object('currency', offer_versions.currency)) || (tier -> 'prices')
+  ) AS price
+  WHERE offer_versions.id = version_tier_price.version_id
+  AND tier ->> 'id' = version_tier_price.tier_id::text
+  AND price ->> 'currency' = price_currency
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION check_subscription_tier()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.tier_id IS NULL THEN
+    -- Subscriptions from before the offer had tiers keep their plain price
+    IF (TG_OP = 'INSERT' OR NEW.offer_id <> OLD.offer_id)
+      AND EXISTS (SELECT 1 FROM offer_tiers WHERE offer_id = NEW.offer_id) THEN
+      RAISE EXCEPTION 'Choose a tier of this service' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM offer_tiers WHERE id = NEW.tier_id AND offer_id = NEW.offer_id) THEN
+    RAISE EXCEPTION 'This tier does not belong to the selected service' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF version_tier_price(NEW.offer_version_id, NEW.tier_id, NEW.currency, 'monthly') IS NULL THEN
+    RAISE EXCEPTION 'This tier is not offered in %', NEW.currency USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_subscription_tier ON user_subscriptions;
+CREATE TRIGGER check_subscription_tier
+  BEFORE INSERT OR UPDATE OF offer_id, tier_id ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_subscription_tier();
+
+CREATE OR REPLACE FUNCTION snapshot_offer_version(offer_id uuid)
+RETURNS offer_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer service_offers;
+  current_version offer_versions;
+  new_version offer_versions;
+BEGIN
+  SELECT * INTO offer FROM service_offers WHERE id = snapshot_offer_version.offer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO current_version FROM offer_versions WHERE id = offer.current_version_id;
+
+  IF current_version.id IS NOT NULL
+    AND current_version.title = offer.title
+    AND current_version.description IS NOT DISTINCT FROM offer.description
+    AND current_version.features IS NOT DISTINCT FROM offer.features
+    AND current_version.currency = offer.currency
+    AND current_version.price_monthly = offer.price_monthly
+    AND current_version.price_yearly = offer.price_yearly
+    AND current_version.tiers = offer_tiers_snapshot(offer.id)
+    AND NOT EXISTS (
+      (
+        SELECT offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+        FROM offer_prices WHERE offer_prices.offer_id = offer.id
+        EXCEPT
+        SELECT offer_version_prices.currency, offer_version_prices.price_monthly, offer_version_prices.price_yearly
+        FROM offer_version_prices WHERE offer_version_prices.version_id = current_version.id
+      )
+      UNION ALL
+      (
+        SELECT offer_version_prices.currency, offer_version_prices.price_monthly, offer_version_prices.price_yearly
+        FROM offer_version_prices WHERE offer_version_prices.version_id = current_version.id
+        EXCEPT
+        SELECT offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+        FROM offer_prices WHERE offer_prices.offer_id = offer.id
+      )
+    )
+  THEN
+    RETURN current_version;
+  END IF;
+
+  INSERT INTO offer_versions (
+    offer_id, version, title, description, features, currency, price_monthly, price_yearly, tiers, created_by
+  )
+  SELECT
+    offer.id,
+    COALESCE(MAX(offer_versions.version), 0) + 1,
+    offer.title, offer.description, offer.features, offer.currency, offer.price_monthly, offer.price_yearly,
+    offer_tiers_snapshot(offer.id), auth.uid()
+  FROM offer_versions
+  WHERE offer_versions.offer_id = offer.id
+  RETURNING * INTO new_version;
+
+  INSERT INTO offer_version_prices (version_id, currency, price_monthly, price_yearly)
+  SELECT new_version.id, offer_prices.currency, offer_prices.price_monthly, offer_prices.price_yearly
+  FROM offer_prices
+  WHERE offer_prices.offer_id = offer.id;
+
+  UPDATE service_offers SET current_version_id = new_version.id WHERE id = offer.id;
+
+  RETURN new_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION move_subscribers_to_version(version_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target offer_versions;
+  sub record;
+  moved integer := 0;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can move subscribers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target FROM offer_versions WHERE id = move_subscribers_to_version.version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer version not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR sub IN
+    SELECT user_subscriptions.id, user_subscriptions.status, offer_versions.version AS from_version
+    FROM user_subscriptions
+    LEFT JOIN offer_versions ON offer_versions.id = user_subscriptions.offer_version_id
+    WHERE user_subscriptions.offer_id = target.offer_id
+    AND user_subscriptions.offer_version_id IS DISTINCT FROM target.id
+    AND user_subscriptions.status NOT IN ('cancelled', 'expired')
+    AND version_tier_price(target.id, user_subscriptions.tier_id, user_subscriptions.currency, 'monthly') IS NOT NULL
+    FOR UPDATE OF user_subscriptions
+  LOOP
+    UPDATE user_subscriptions SET offer_version_id = target.id WHERE id = sub.id;
+
+    INSERT INTO subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      sub.id, 'version_changed', sub.status, sub.status, auth.uid(),
+      'Moved from version ' || COALESCE(sub.from_version::text, 'none') || ' to version ' || target.version
+    );
+    moved := moved + 1;
+  END LOOP;
+
+  RETURN moved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_subscription_coupon()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon coupons;
+  reason text;
+  remaining_months integer;
+BEGIN
+  IF NEW.coupon_id IS NULL THEN
+    NEW.discounted_price := NULL;
+    NEW.discount_periods_remaining := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.coupon_id IS NOT DISTINCT FROM OLD.coupon_id
+    AND NEW.offer_id = OLD.offer_id AND NEW.billing_cycle = OLD.billing_cycle
+    AND NEW.offer_version_id IS NOT DISTINCT FROM OLD.offer_version_id
+    AND NEW.tier_id IS NOT DISTINCT FROM OLD.tier_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.coupon_id IS DISTINCT FROM OLD.coupon_id THEN
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id FOR UPDATE;
+
+    reason := coupon_redemption_error(coupon, NEW.offer_id, NEW.currency);
+    IF reason IS NOT NULL THEN
+      RAISE EXCEPTION '%', reason USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE coupons SET times_redeemed = times_redeemed + 1 WHERE id = coupon.id;
+    NEW.discount_periods_remaining := coupon_period_count(coupon, NEW.billing_cycle);
+  ELSE
+    SELECT * INTO coupon FROM coupons WHERE id = NEW.coupon_id;
+
+    -- A plan change keeps the discount only if the new offer is covered
+    IF NOT coupon_applies_to_offer(coupon.id, NEW.offer_id) THEN
+      NEW.coupon_id := NULL;
+      NEW.discounted_price := NULL;
+      NEW.discount_periods_remaining := NULL;
+      RETURN NEW;
+    END IF;
+
+    -- Carry the remaining discount time over to the new billing cycle
+    IF NEW.billing_cycle <> OLD.billing_cycle AND OLD.discount_periods_remaining IS NOT NULL THEN
+      remaining_months := OLD.discount_periods_remaining * CASE OLD.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END;
+      NEW.discount_periods_remaining := ceil(
+        remaining_months::numeric / CASE NEW.billing_cycle WHEN 'monthly' THEN 1 ELSE 12 END
+      )::integer;
+    END IF;
+  END IF;
+
+  NEW.discounted_price := coupon_discounted_price(
+    coupon,
+    version_tier_price(NEW.offer_version_id, NEW.tier_id, NEW.currency, NEW.billing_cycle)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_subscription_billing_cycle(subscription_id uuid, new_cycle text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  yearly_price numeric;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  yearly_price := version_tier_price(sub.offer_version_id, sub.tier_id, sub.currency, 'yearly');
+  IF new_cycle = 'yearly' AND COALESCE(yearly_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Nothing has been billed yet, so switch straight away
+  IF sub.status IN ('pending', 'trialing') THEN
+    UPDATE user_subscriptions SET billing_cycle = new_cycle WHERE id = sub.id;
+  ELSIF sub.status IN ('active', 'past_due', 'paused') THEN
+    IF sub.cancel_at_period_end THEN
+      RAISE EXCEPTION 'Undo the scheduled cancellation before changing billing' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Choosing the current cycle withdraws a scheduled switch
+    UPDATE user_subscriptions
+    SET pending_billing_cycle = NULLIF(new_cycle, sub.billing_cycle)
+    WHERE id = sub.id;
+  ELSE
+    RAISE EXCEPTION 'Billing cannot be changed on a % subscription', sub.status USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS change_subscription_plan(uuid, uuid, text);
+
+-- Mirrors calculateProration() in src/lib/proration.ts, at the prices of the
+-- subscription's offer version and tier
+CREATE OR REPLACE FUNCTION change_subscription_plan(
+  subscription_id uuid,
+  new_offer_id uuid,
+  new_cycle text,
+  new_tier_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET timezone = 'UTC'
+AS $$
+DECLARE
+  sub user_subscriptions := get_own_subscription_for_update(subscription_id);
+  current_offer service_offers;
+  new_offer service_offers;
+  current_title text;
+  new_title text;
+  new_version_id uuid;
+  change_at timestamptz := now();
+  anchor timestamptz := COALESCE(sub.billing_anchor_at, sub.started_at);
+  current_step interval;
+  periods integer := 0;
+  period_start timestamptz;
+  period_end timestamptz;
+  period_days integer;
+  unused_days integer;
+  current_price numeric;
+  current_discount numeric;
+  new_price numeric;
+  credit numeric;
+  charge numeric;
+  carried numeric := 0;
+  net numeric;
+  new_anchor timestamptz;
+  new_period_end timestamptz;
+  customer_tax tax_rates;
+  last_tax_label text := 'Tax';
+  last_tax_rate numeric := 0;
+  tax numeric;
+  new_invoice_id uuid;
+BEGIN
+  IF new_cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', new_cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active subscriptions can change plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.cancel_at_period_end THEN
+    RAISE EXCEPTION 'Undo the scheduled cancellation before changing plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF sub.next_billing_date IS NULL OR sub.next_billing_date <= change_at THEN
+    RAISE EXCEPTION 'Your current billing period has not been invoiced yet. Please try again later.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_offer_id = sub.offer_id AND new_tier_id IS NOT DISTINCT FROM sub.tier_id AND new_cycle = sub.billing_cycle THEN
+    RAISE EXCEPTION 'You are already on this plan' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO current_offer FROM service_offers WHERE id = sub.offer_id;
+  SELECT * INTO new_offer FROM service_offers WHERE id = new_offer_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This service is no longer offered' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_tier_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM offer_tiers WHERE offer_id = new_offer.id) THEN
+      RAISE EXCEPTION 'Choose a tier of this service' USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM offer_tiers WHERE id = new_tier_id AND offer_id = new_offer.id) THEN
+    RAISE EXCEPTION 'This tier does not belong to the selected service' USING ERRCODE = 'check_violation';
+  END IF;
+
+  current_title := current_offer.title || COALESCE(' - ' || (SELECT name FROM offer_tiers WHERE id = sub.tier_id), '');
+  new_title := new_offer.title || COALESCE(' - ' || (SELECT name FROM offer_tiers WHERE id = new_tier_id), '');
+
+  -- Changing only the cycle keeps the version the subscription was sold under
+  new_version_id := CASE
+    WHEN new_offer.id = sub.offer_id AND new_tier_id IS NOT DISTINCT FROM sub.tier_id THEN sub.offer_version_id
+    ELSE new_offer.current_version_id
+  END;
+
+  -- The subscription keeps the currency it was sold in
+  new_price := version_tier_price(new_version_id, new_tier_id, sub.currency, new_cycle);
+  IF version_tier_price(new_version_id, new_tier_id, sub.currency, 'monthly') IS NULL THEN
+    RAISE EXCEPTION 'This service is not offered in %', sub.currency USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF new_cycle = 'yearly' AND COALESCE(new_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This service is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Month arithmetic from the anchor clamps to month end like addMonthsClamped()
+  current_step := CASE sub.billing_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  WHILE anchor + (periods + 1) * current_step <= change_at LOOP
+    periods := periods + 1;
+  END LOOP;
+  period_start := anchor + periods * current_step;
+  period_end := anchor + (periods + 1) * current_step;
+
+  period_days := period_end::date - period_start::date;
+  unused_days := GREATEST(0, period_end::date - change_at::date);
+
+  SELECT discount_amount INTO current_discount
+  FROM invoices
+  WHERE invoices.subscription_id = sub.id
+  AND status <> 'void'
+  AND invoices.period_start <= change_at
+  AND invoices.period_end > change_at
+  ORDER BY invoices.period_start DESC
+  LIMIT 1;
+
+  current_price := version_tier_price(sub.offer_version_id, sub.tier_id, sub.currency, sub.billing_cycle)
+    - COALESCE(current_discount, 0);
+
+  credit := CASE WHEN period_days > 0 THEN round(current_price * unused_days / period_days, 2) ELSE 0 END;
+
+  IF new_cycle = sub.billing_cycle THEN
+    charge := CASE WHEN period_days > 0 THEN round(new_price * unused_days / period_days, 2) ELSE 0 END;
+    new_anchor := sub.billing_anchor_at;
+    new_period_end := period_end;
+  ELSE
+    charge := round(new_price, 2);
+    new_anchor := change_at;
+    new_period_end := change_at + CASE new_cycle WHEN 'monthly' THEN interval '1 month' ELSE interval '1 year' END;
+  END IF;
+
+  net := charge - credit;
+  IF net < 0 THEN
+    carried := -net;
+    net := 0;
+  END IF;
+
+  customer_tax := customer_tax_rate(sub.user_id);
+  IF customer_tax.id IS NOT NULL THEN
+    last_tax_label := customer_tax.label;
+    last_tax_rate := customer_tax.rate;
+  ELSE
+    SELECT tax_label, tax_rate INTO last_tax_label, last_tax_rate
+    FROM invoices
+    WHERE invoices.subscription_id = sub.id AND status <> 'void'
+    ORDER BY invoices.period_start DESC
+    LIMIT 1;
+    last_tax_label := COALESCE(last_tax_label, 'Tax');
+    last_tax_rate := COALESCE(last_tax_rate, 0);
+  END IF;
+  tax := round(net * last_tax_rate / 100, 2);
+
+  INSERT INTO invoices (
+    subscription_id, user_id, status, currency, period_start, period_end, subtotal,
+    tax_label, tax_rate, tax_amount, total, due_at, paid_at
+  )
+  VALUES (
+    sub.id, sub.user_id,
+    CASE WHEN net + tax > 0 THEN 'open' ELSE 'paid' END,
+    sub.currency,
+    change_at, new_period_end, net,
+    last_tax_label, last_tax_rate, tax, net + tax,
+    change_at + interval '14 days',
+    CASE WHEN net + tax > 0 THEN NULL ELSE change_at END
+  )
+  RETURNING id INTO new_invoice_id;
+
+  IF credit > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (
+      new_invoice_id,
+      'Unused time on ' || current_title || ' (' || initcap(sub.billing_cycle) || ', '
+        || unused_days || ' of ' || period_days || ' days)',
+      1, -credit, -credit
+    );
+  END IF;
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  VALUES (
+    new_invoice_id,
+    new_title || ' (' || initcap(new_cycle) || ') from ' || to_char(change_at, 'YYYY-MM-DD'),
+    1, charge, charge
+  );
+
+  IF carried > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (new_invoice_id, 'Credit carried to your next invoice', 1, carried, carried);
+  END IF;
+
+  PERFORM set_config(
+    'app.subscription_event_note',
+    current_title || ' (' || sub.billing_cycle || ') to ' || new_title || ' (' || new_cycle
+      || '): credit ' || to_char(credit, 'FM999999990.00') || ', charge ' || to_char(charge, 'FM999999990.00'),
+    true
+  );
+  UPDATE user_subscriptions
+  SET offer_id = new_offer.id,
+      offer_version_id = new_version_id,
+      tier_id = new_tier_id,
+      billing_cycle = new_cycle,
+      billing_anchor_at = new_anchor,
+      next_billing_date = new_period_end,
+      pending_billing_cycle = NULL,
+      coupon_id = NULL,
+      credit_balance = credit_balance + carried
+  WHERE id = sub.id;
+  PERFORM set_config('app.subscription_event_note', '', true);
+
+  RETURN new_invoice_id;
+END;
+$$;
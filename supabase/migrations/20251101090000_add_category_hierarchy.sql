@@ -0,0 +1,121 @@
+/*
+  # Category Hierarchy, Ordering and Appearance
+
+  ## Overview
+  Admins manage service categories from the dashboard. Categories can be
+  nested under a parent, are shown in an order the admin chooses, and carry an
+  icon and a colour for their badges.
+
+  ## Changes
+
+  ### service_categories table
+  - `parent_id` (uuid) - References service_categories; null for top level
+    categories. Deleting a category moves its sub-categories up to the top level
+  - `sort_order` (integer) - Display order among categories with the same parent
+  - `icon` (text) - Name of the icon shown on the category's badge
+  - `color` (text) - Hex colour of the category's badge, e.g. '#2563eb'
+
+  ## New Functions
+  - `reorder_categories(category_ids uuid[])` - Sets `sort_order` to each
+    category's position in the array
+  - Trigger `check_category_parent` rejects a parent that is the category
+    itself or one of its own sub-categories
+
+  ## Security
+  - Only admins can reorder categories
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_categories' AND column_name = 'parent_id'
+  ) THEN
+    ALTER TABLE service_categories ADD COLUMN parent_id uuid REFERENCES service_categories(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_categories' AND column_name = 'sort_order'
+  ) THEN
+    ALTER TABLE service_categories ADD COLUMN sort_order integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_categories' AND column_name = 'icon'
+  ) THEN
+    ALTER TABLE service_categories ADD COLUMN icon text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_categories' AND column_name = 'color'
+  ) THEN
+    ALTER TABLE service_categories ADD COLUMN color text CHECK (color ~ '^#[0-9a-f]{6}$');
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS service_categories_parent_id_idx ON service_categories(parent_id);
+
+-- Existing categories keep their alphabetical order
+UPDATE service_categories
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (ORDER BY name) AS position FROM service_categories
+) AS ordered
+WHERE service_categories.id = ordered.id
+AND service_categories.sort_order = 0;
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM service_categories WHERE id = NEW.parent_id
+      UNION
+      SELECT service_categories.id, service_categories.parent_id
+      FROM service_categories
+      JOIN ancestors ON service_categories.id = ancestors.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be placed inside itself or one of its sub-categories'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_category_parent ON service_categories;
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON service_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION check_category_parent();
+
+CREATE OR REPLACE FUNCTION reorder_categories(category_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can reorder categories' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE service_categories
+  SET sort_order = ordered.position
+  FROM unnest(reorder_categories.category_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE service_categories.id = ordered.id;
+END;
+$$;
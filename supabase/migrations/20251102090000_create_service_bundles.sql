@@ -0,0 +1,388 @@
+/*
+  # Service Bundles
+
+  ## Overview
+  A bundle packages several offers, e.g. a launch package of funding prep, a
+  website and marketing, at a single package price. Subscribing to a bundle
+  creates one subscription per offer in it, so each service is still tracked
+  and delivered on its own. The package price is split across those
+  subscriptions in proportion to the offers' own prices, and each invoice
+  shows the offer's price less its share of the bundle discount.
+
+  Services in a bundle keep the bundle's billing cycle and plan, take no
+  coupon or free trial, and are checked out together.
+
+  ## New Tables
+
+  ### `service_bundles`
+  - `id` (uuid, primary key)
+  - `title`, `description` (text)
+  - `currency` (text) - ISO 4217 code the bundle is priced and billed in
+  - `price_monthly`, `price_yearly` (numeric) - Package prices; a yearly price
+    of 0 means the bundle is only sold monthly
+  - `is_active` (boolean)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### `bundle_offers`
+  - `id` (uuid, primary key)
+  - `bundle_id` (uuid) - References service_bundles
+  - `offer_id` (uuid) - References service_offers; an offer in a bundle
+    cannot be deleted
+  - `tier_id` (uuid) - Tier of a tiered offer the bundle includes
+  - `sort_order` (integer)
+  - `created_at` (timestamptz)
+
+  ### `subscription_bundles`
+  A customer's purchase of a bundle
+  - `id` (uuid, primary key)
+  - `bundle_id` (uuid) - References service_bundles
+  - `user_id` (uuid) - References profiles
+  - `billing_cycle` (text)
+  - `currency` (text)
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  ### user_subscriptions table
+  - `subscription_bundle_id` (uuid) - The bundle purchase that created the
+    subscription; null for offers subscribed to on their own
+  - `bundle_price` (numeric) - The subscription's share of the bundle price
+    per billing period, charged instead of the offer's price
+
+  ## New Functions
+  - `subscribe_to_bundle(bundle_id, cycle)` - Creates the purchase and a
+    pending subscription for each offer in the bundle, reactivating the
+    customer's cancelled subscriptions to those offers
+  - `get_own_offer_subscription(offer_id)` - The caller's subscription to an
+    offer in any state, used by `subscribe_to_bundle()`
+  - Trigger `check_bundle_subscription` keeps the plan and billing cycle of
+    services in a bundle fixed, rejects coupons on them and stops customers
+    inserting them directly
+
+  ## Updated Functions
+  - `apply_customer_currency()` bills services in a bundle in its currency
+  - `start_subscription_trial()` skips services in a bundle
+
+  ## Security
+  - Authenticated users can view active bundles and the offers in them
+  - Customers can view their own bundle purchases
+  - Only admins can manage bundles
+*/
+
+CREATE TABLE IF NOT EXISTS service_bundles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL CHECK (title <> ''),
+  description text NOT NULL DEFAULT '',
+  currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  price_monthly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_monthly >= 0),
+  price_yearly numeric(10,2) NOT NULL DEFAULT 0 CHECK (price_yearly >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bundle_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id uuid REFERENCES service_bundles(id) ON DELETE CASCADE NOT NULL,
+  offer_id uuid REFERENCES service_offers(id) ON DELETE RESTRICT NOT NULL,
+  tier_id uuid REFERENCES offer_tiers(id) ON DELETE RESTRICT,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (bundle_id, offer_id)
+);
+
+CREATE TABLE IF NOT EXISTS subscription_bundles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bundle_id uuid REFERENCES service_bundles(id) ON DELETE RESTRICT NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  billing_cycle text NOT NULL CHECK (billing_cycle IN ('monthly', 'yearly')),
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS bundle_offers_bundle_id_idx ON bundle_offers(bundle_id);
+CREATE INDEX IF NOT EXISTS subscription_bundles_user_id_idx ON subscription_bundles(user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'subscription_bundle_id'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN subscription_bundle_id uuid REFERENCES subscription_bundles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'bundle_price'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN bundle_price numeric(10,2) CHECK (bundle_price >= 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS user_subscriptions_subscription_bundle_id_idx ON user_subscriptions(subscription_bundle_id);
+
+ALTER TABLE service_bundles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE subscription_bundles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view active bundles"
+  ON service_bundles FOR SELECT
+  TO authenticated
+  USING (is_active = true OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage bundles"
+  ON service_bundles FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Anyone can view bundle offers"
+  ON bundle_offers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage bundle offers"
+  ON bundle_offers FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Users can view own bundle subscriptions"
+  ON subscription_bundles FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage bundle subscriptions"
+  ON subscription_bundles FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION apply_customer_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subscription_bundle_id IS NOT NULL THEN
+    SELECT currency INTO NEW.currency FROM subscription_bundles WHERE id = NEW.subscription_bundle_id;
+  ELSE
+    NEW.currency := customer_currency(NEW.user_id, NEW.offer_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION start_subscription_trial()
+RETURNS TRIGGER AS $$
+DECLARE
+  trial_length integer;
+BEGIN
+  -- Bundles are sold at their package price from the start
+  IF NEW.status <> 'pending' OR NEW.subscription_bundle_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT trial_days INTO trial_length FROM service_offers WHERE id = NEW.offer_id;
+
+  -- One trial per customer and offer
+  IF COALESCE(trial_length, 0) > 0 AND NOT EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE user_id = NEW.user_id AND offer_id = NEW.offer_id AND trial_ends_at IS NOT NULL
+  ) THEN
+    NEW.status := 'trialing';
+    NEW.trial_ends_at := now() + make_interval(days => trial_length);
+    NEW.next_billing_date := NEW.trial_ends_at;
+    NEW.billing_anchor_at := NEW.trial_ends_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Not SECURITY DEFINER, so current_user tells customers apart from
+-- subscribe_to_bundle()
+CREATE OR REPLACE FUNCTION check_bundle_subscription()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.subscription_bundle_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND current_user IN ('authenticated', 'anon') AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Bundles must be subscribed to as a whole' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.coupon_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Coupons cannot be used on services in a bundle' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.offer_id IS DISTINCT FROM OLD.offer_id
+    OR NEW.tier_id IS DISTINCT FROM OLD.tier_id
+    OR NEW.billing_cycle IS DISTINCT FROM OLD.billing_cycle
+    OR NEW.pending_billing_cycle IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Services in a bundle keep the plan and billing cycle of the bundle'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_bundle_subscription ON user_subscriptions;
+CREATE TRIGGER check_bundle_subscription
+  BEFORE INSERT OR UPDATE OF offer_id, tier_id, billing_cycle, pending_billing_cycle, coupon_id, subscription_bundle_id, bundle_price ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_bundle_subscription();
+
+-- The caller's subscription to an offer, in any state; there is at most one
+CREATE OR REPLACE FUNCTION get_own_offer_subscription(offer_id uuid)
+RETURNS user_subscriptions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM user_subscriptions
+  WHERE user_subscriptions.offer_id = get_own_offer_subscription.offer_id
+  AND user_subscriptions.user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_own_offer_subscription(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION subscribe_to_bundle(bundle_id uuid, cycle text)
+RETURNS subscription_bundles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  bundle service_bundles;
+  purchase subscription_bundles;
+  existing user_subscriptions;
+  item record;
+  bundle_total numeric;
+  list_total numeric := 0;
+  item_count integer := 0;
+  allocated numeric := 0;
+  share numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF cycle NOT IN ('monthly', 'yearly') THEN
+    RAISE EXCEPTION 'Unknown billing cycle %', cycle USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO bundle FROM service_bundles
+  WHERE id = subscribe_to_bundle.bundle_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This bundle is no longer offered' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  bundle_total := CASE cycle WHEN 'monthly' THEN bundle.price_monthly ELSE bundle.price_yearly END;
+  IF cycle = 'yearly' AND bundle_total <= 0 THEN
+    RAISE EXCEPTION 'This bundle is not offered with yearly billing' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Each service is subscribed to once; cancelled subscriptions are reactivated below
+  FOR item IN
+    SELECT service_offers.title, existing_subscription.status
+    FROM bundle_offers
+    JOIN service_offers ON service_offers.id = bundle_offers.offer_id
+    CROSS JOIN LATERAL get_own_offer_subscription(bundle_offers.offer_id) AS existing_subscription
+    WHERE bundle_offers.bundle_id = bundle.id
+    AND existing_subscription.status <> 'cancelled'
+  LOOP
+    IF item.status = 'expired' THEN
+      RAISE EXCEPTION 'Your subscription to % has expired; contact us to renew it', item.title
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RAISE EXCEPTION 'You already subscribe to %, which is in this bundle', item.title
+      USING ERRCODE = 'check_violation';
+  END LOOP;
+
+  -- Every service must still be sold, in the bundle's currency and cycle
+  FOR item IN
+    SELECT service_offers.title, service_offers.is_active,
+      version_tier_price(service_offers.current_version_id, bundle_offers.tier_id, bundle.currency, cycle) AS list_price
+    FROM bundle_offers
+    JOIN service_offers ON service_offers.id = bundle_offers.offer_id
+    WHERE bundle_offers.bundle_id = bundle.id
+  LOOP
+    IF NOT item.is_active THEN
+      RAISE EXCEPTION '% is no longer offered', item.title USING ERRCODE = 'check_violation';
+    END IF;
+    IF item.list_price IS NULL THEN
+      RAISE EXCEPTION '% is not offered in %', item.title, bundle.currency USING ERRCODE = 'check_violation';
+    END IF;
+    list_total := list_total + item.list_price;
+    item_count := item_count + 1;
+  END LOOP;
+
+  IF item_count = 0 THEN
+    RAISE EXCEPTION 'This bundle has no services' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO subscription_bundles (bundle_id, user_id, billing_cycle, currency)
+  VALUES (bundle.id, auth.uid(), cycle, bundle.currency)
+  RETURNING * INTO purchase;
+
+  -- Split the package price in proportion to the services' own prices; the
+  -- last service takes the rounding remainder so the shares add up exactly
+  FOR item IN
+    SELECT bundle_offers.offer_id, bundle_offers.tier_id,
+      version_tier_price(service_offers.current_version_id, bundle_offers.tier_id, bundle.currency, cycle) AS list_price
+    FROM bundle_offers
+    JOIN service_offers ON service_offers.id = bundle_offers.offer_id
+    WHERE bundle_offers.bundle_id = bundle.id
+    ORDER BY bundle_offers.sort_order, bundle_offers.created_at
+  LOOP
+    item_count := item_count - 1;
+    IF item_count = 0 THEN
+      share := bundle_total - allocated;
+    ELSIF list_total > 0 THEN
+      share := round(bundle_total * item.list_price / list_total, 2);
+    ELSE
+      share := round((bundle_total - allocated) / (item_count + 1), 2);
+    END IF;
+    allocated := allocated + share;
+
+    existing := get_own_offer_subscription(item.offer_id);
+    IF existing.id IS NULL THEN
+      INSERT INTO user_subscriptions (user_id, offer_id, tier_id, billing_cycle, status, subscription_bundle_id, bundle_price)
+      VALUES (auth.uid(), item.offer_id, item.tier_id, cycle, 'pending', purchase.id, share);
+    ELSE
+      PERFORM set_config('app.subscription_event_note', 'Reactivated with bundle ' || bundle.title, true);
+      UPDATE user_subscriptions
+      SET status = 'pending',
+          tier_id = item.tier_id,
+          billing_cycle = cycle,
+          currency = bundle.currency,
+          coupon_id = NULL,
+          subscription_bundle_id = NULL,
+          bundle_price = NULL,
+          next_billing_date = NULL,
+          billing_anchor_at = NULL,
+          cancel_at_period_end = false,
+          cancel_requested_at = NULL,
+          pending_billing_cycle = NULL,
+          payment_error = NULL
+      WHERE id = existing.id;
+      -- Joined to the bundle only once it has the bundle's plan and cycle,
+      -- which check_bundle_subscription() then keeps fixed
+      UPDATE user_subscriptions
+      SET subscription_bundle_id = purchase.id, bundle_price = share
+      WHERE id = existing.id;
+      PERFORM set_config('app.subscription_event_note', '', true);
+    END IF;
+  END LOOP;
+
+  RETURN purchase;
+END;
+$$;
@@ -0,0 +1,153 @@
+/*
+  # Offer Prerequisites and Add-ons
+
+  ## Overview
+  Some services only make sense on top of another one. An offer can require
+  other offers, which the customer must already be subscribed to, and can
+  suggest optional add-ons that are offered alongside it.
+
+  ## New Tables
+
+  ### offer_relations
+  - `id` (uuid, primary key)
+  - `offer_id` (uuid) - The offer declaring the relation
+  - `related_offer_id` (uuid) - The offer it relates to
+  - `kind` (text) - 'prerequisite' when `offer_id` can only be subscribed to
+    alongside `related_offer_id`; 'addon' when `related_offer_id` is an
+    optional add-on suggested with `offer_id`
+  - `created_at` (timestamptz)
+  - An offer relates to another offer at most once, and never to itself
+
+  ## New Functions
+  - Trigger `check_offer_relation` rejects prerequisites that would make two
+    offers require each other
+  - Trigger `check_subscription_prerequisites` rejects a subscription, a plan
+    change to another offer or the reactivation of a subscription, unless the
+    customer is trialing, active or past due on every offer it requires. The
+    subscription being changed does not count towards its new offer's
+    prerequisites; services bought in the same bundle do. Admins can subscribe
+    customers regardless
+
+  ## Security
+  - Authenticated users can view offer relations
+  - Only admins can manage offer relations
+*/
+
+CREATE TABLE IF NOT EXISTS offer_relations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  related_offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('prerequisite', 'addon')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (offer_id, related_offer_id),
+  CHECK (offer_id <> related_offer_id)
+);
+
+CREATE INDEX IF NOT EXISTS offer_relations_offer_id_idx ON offer_relations(offer_id);
+CREATE INDEX IF NOT EXISTS offer_relations_related_offer_id_idx ON offer_relations(related_offer_id);
+
+ALTER TABLE offer_relations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view offer relations"
+  ON offer_relations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage offer relations"
+  ON offer_relations FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION check_offer_relation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind <> 'prerequisite' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE required AS (
+      SELECT related_offer_id FROM offer_relations
+      WHERE offer_id = NEW.related_offer_id AND kind = 'prerequisite' AND id <> NEW.id
+      UNION
+      SELECT offer_relations.related_offer_id
+      FROM offer_relations
+      JOIN required ON offer_relations.offer_id = required.related_offer_id
+      WHERE offer_relations.kind = 'prerequisite' AND offer_relations.id <> NEW.id
+    )
+    SELECT 1 FROM required WHERE related_offer_id = NEW.offer_id
+  ) THEN
+    RAISE EXCEPTION 'Two offers cannot require each other' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_offer_relation ON offer_relations;
+CREATE TRIGGER check_offer_relation
+  BEFORE INSERT OR UPDATE ON offer_relations
+  FOR EACH ROW
+  EXECUTE FUNCTION check_offer_relation();
+
+CREATE OR REPLACE FUNCTION check_subscription_prerequisites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  missing_title text;
+BEGIN
+  -- Only new subscriptions, plan changes to another offer and reactivated ones are checked
+  IF TG_OP = 'UPDATE'
+    AND NEW.offer_id = OLD.offer_id
+    AND NOT (OLD.status IN ('cancelled', 'expired') AND NEW.status NOT IN ('cancelled', 'expired'))
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT service_offers.title INTO missing_title
+  FROM offer_relations
+  JOIN service_offers ON service_offers.id = offer_relations.related_offer_id
+  WHERE offer_relations.offer_id = NEW.offer_id
+    AND offer_relations.kind = 'prerequisite'
+    AND NOT EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.user_id = NEW.user_id
+        AND user_subscriptions.id <> NEW.id
+        AND user_subscriptions.offer_id = offer_relations.related_offer_id
+        AND user_subscriptions.status IN ('trialing', 'active', 'past_due')
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM subscription_bundles
+      JOIN bundle_offers ON bundle_offers.bundle_id = subscription_bundles.bundle_id
+      WHERE subscription_bundles.id = NEW.subscription_bundle_id
+        AND bundle_offers.offer_id = offer_relations.related_offer_id
+    )
+  ORDER BY service_offers.title
+  LIMIT 1;
+
+  IF missing_title IS NOT NULL THEN
+    RAISE EXCEPTION 'This service requires an active % subscription', missing_title
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_subscription_prerequisites ON user_subscriptions;
+CREATE TRIGGER check_subscription_prerequisites
+  BEFORE INSERT OR UPDATE OF offer_id, status ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_subscription_prerequisites();
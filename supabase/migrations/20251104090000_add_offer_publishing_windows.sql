@@ -0,0 +1,100 @@
+/*
+  # Scheduled Publishing Windows for Offers
+
+  ## Overview
+  Offers can be scheduled to appear and disappear at set times, so seasonal
+  promotions no longer need an admin to switch them on and off by hand. An
+  offer is published while it is active and inside its window.
+
+  ## Changes
+
+  ### service_offers table
+  - `publish_at` (timestamptz) - When the offer becomes visible to customers;
+    null to publish straight away
+  - `unpublish_at` (timestamptz) - When the offer is hidden again; null to keep
+    it published. Must be after `publish_at`
+
+  ## New Functions
+  - `is_offer_published(offer service_offers)` - Whether the offer is active and
+    inside its publishing window
+  - Trigger `check_subscription_offer` rejects customer subscriptions, plan
+    changes and reactivations for offers that are not published
+
+  ## Security
+  - "Users can view active offers" now only shows published offers to
+    customers. Admins still see every offer
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'publish_at'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN publish_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'unpublish_at'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN unpublish_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE service_offers DROP CONSTRAINT IF EXISTS service_offers_publishing_window_check;
+ALTER TABLE service_offers ADD CONSTRAINT service_offers_publishing_window_check
+  CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+CREATE OR REPLACE FUNCTION is_offer_published(offer service_offers)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT offer.is_active = true
+    AND (offer.publish_at IS NULL OR offer.publish_at <= now())
+    AND (offer.unpublish_at IS NULL OR offer.unpublish_at > now());
+$$;
+
+DROP POLICY IF EXISTS "Users can view active offers" ON service_offers;
+CREATE POLICY "Users can view active offers"
+  ON service_offers FOR SELECT
+  TO authenticated
+  USING (is_offer_published(service_offers) OR is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION check_subscription_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Scheduled plan changes are applied by billing, outside a customer session
+  IF auth.uid() IS NULL OR is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.offer_id = OLD.offer_id
+    AND NOT (OLD.status IN ('cancelled', 'expired') AND NEW.status NOT IN ('cancelled', 'expired'))
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM service_offers
+    WHERE id = NEW.offer_id AND is_offer_published(service_offers)
+  ) THEN
+    RAISE EXCEPTION 'This service is not currently available' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_subscription_offer ON user_subscriptions;
+CREATE TRIGGER check_subscription_offer
+  BEFORE INSERT OR UPDATE OF offer_id, status ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_subscription_offer();
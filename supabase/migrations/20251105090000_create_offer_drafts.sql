@@ -0,0 +1,186 @@
+/*
+  # Offer Drafts and Review
+
+  ## Overview
+  Changes to the catalog no longer go live as soon as an admin saves them. New
+  offers and edits to published offers are saved as drafts, submitted for
+  review, and approved by a second admin before they are published.
+
+  ## New Tables
+
+  ### offer_drafts
+  - `id` (uuid, primary key)
+  - `offer_id` (uuid) - The published offer the draft changes; null for a new
+    offer. An offer has at most one draft
+  - `form` (jsonb) - The offer as entered in the offer form
+  - `move_subscribers` (boolean) - Whether existing subscribers move to the
+    version published from the draft
+  - `status` (text) - 'draft', 'in_review' or 'approved'
+  - `author_id` (uuid) - The admin who last saved or submitted the draft
+  - `submitted_at` (timestamptz) - When the draft was last submitted for review
+  - `reviewed_by` (uuid) - The admin who last approved or rejected the draft
+  - `reviewed_at` (timestamptz)
+  - `review_note` (text) - Why the draft was sent back, if it was
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## New Functions
+  - `submit_offer_draft(draft_id)` - Sends a draft for review
+  - `approve_offer_draft(draft_id)` - Approves a draft in review for
+    publication. The author of a draft cannot approve it
+  - `reject_offer_draft(draft_id, note)` - Sends a draft in review back to its
+    author with a note
+  - Trigger `protect_offer_draft_review` keeps the review columns for the
+    functions above, and sends an edited draft back to 'draft' so a changed
+    form is always reviewed again
+
+  ## Security
+  - Only admins can view and manage drafts
+*/
+
+CREATE TABLE IF NOT EXISTS offer_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid REFERENCES service_offers(id) ON DELETE CASCADE,
+  form jsonb NOT NULL,
+  move_subscribers boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'in_review', 'approved')),
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  submitted_at timestamptz,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_note text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS offer_drafts_offer_id_key ON offer_drafts(offer_id) WHERE offer_id IS NOT NULL;
+
+ALTER TABLE offer_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage offer drafts"
+  ON offer_drafts FOR ALL
+  TO authenticated
+  USING (is_admin(auth.uid()))
+  WITH CHECK (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION protect_offer_draft_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'draft';
+    NEW.submitted_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.review_note := '';
+  ELSE
+    NEW.status := OLD.status;
+    NEW.submitted_at := OLD.submitted_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.review_note := OLD.review_note;
+    NEW.offer_id := OLD.offer_id;
+
+    IF NEW.form IS DISTINCT FROM OLD.form OR NEW.move_subscribers IS DISTINCT FROM OLD.move_subscribers THEN
+      NEW.status := 'draft';
+    END IF;
+  END IF;
+
+  NEW.author_id := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_offer_draft_review ON offer_drafts;
+CREATE TRIGGER protect_offer_draft_review
+  BEFORE INSERT OR UPDATE ON offer_drafts
+  FOR EACH ROW EXECUTE FUNCTION protect_offer_draft_review();
+
+CREATE OR REPLACE FUNCTION submit_offer_draft(draft_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can submit offers for review' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE offer_drafts
+  SET status = 'in_review',
+      author_id = auth.uid(),
+      submitted_at = now(),
+      updated_at = now()
+  WHERE id = submit_offer_draft.draft_id AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only drafts can be submitted for review' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_offer_draft(draft_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft offer_drafts;
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can approve offers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO draft FROM offer_drafts WHERE id = approve_offer_draft.draft_id FOR UPDATE;
+
+  IF draft.id IS NULL THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF draft.status <> 'in_review' THEN
+    RAISE EXCEPTION 'Only drafts in review can be approved' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF draft.author_id = auth.uid() THEN
+    RAISE EXCEPTION 'Changes must be approved by a different administrator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE offer_drafts
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = '',
+      updated_at = now()
+  WHERE id = draft.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_offer_draft(draft_id uuid, note text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can review offers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE offer_drafts
+  SET status = 'draft',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = reject_offer_draft.note,
+      updated_at = now()
+  WHERE id = reject_offer_draft.draft_id AND status = 'in_review';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only drafts in review can be sent back' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
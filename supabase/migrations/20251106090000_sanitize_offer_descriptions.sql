@@ -0,0 +1,68 @@
+/*
+  # Sanitize Offer Descriptions
+
+  ## Overview
+  Offer descriptions and features are written in Markdown and rendered as
+  formatted text to admins and customers. The renderer never outputs HTML,
+  and HTML tags are also removed here whenever an offer or tier is saved, so
+  that no markup reaches the catalog whichever client writes it.
+
+  ## New Functions
+  - `strip_html(source)` - The text with HTML tags removed. Only "<" followed
+    by a letter, "/" or "!" starts a tag, so text such as "< 1 hour" is kept
+  - `strip_html_lines(lines)` - `strip_html` applied to each line of a jsonb
+    array of strings, such as features
+  - Triggers `sanitize_service_offer` and `sanitize_offer_tier` strip tags
+    from descriptions and features before offers and tiers are saved
+
+  ## Changes
+  - Existing offers and tiers are sanitized
+*/
+
+CREATE OR REPLACE FUNCTION strip_html(source text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(source, '</?[a-zA-Z!][^>]*>', '', 'g');
+$$;
+
+CREATE OR REPLACE FUNCTION strip_html_lines(lines jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(strip_html(line) ORDER BY position), '[]'::jsonb)
+  FROM jsonb_array_elements_text(lines) WITH ORDINALITY AS lines_list(line, position);
+$$;
+
+CREATE OR REPLACE FUNCTION sanitize_offer_text()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.description := strip_html(NEW.description);
+  IF jsonb_typeof(NEW.features) = 'array' THEN
+    NEW.features := strip_html_lines(NEW.features);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sanitize_service_offer ON service_offers;
+CREATE TRIGGER sanitize_service_offer
+  BEFORE INSERT OR UPDATE OF description, features ON service_offers
+  FOR EACH ROW EXECUTE FUNCTION sanitize_offer_text();
+
+DROP TRIGGER IF EXISTS sanitize_offer_tier ON offer_tiers;
+CREATE TRIGGER sanitize_offer_tier
+  BEFORE INSERT OR UPDATE OF description, features ON offer_tiers
+  FOR EACH ROW EXECUTE FUNCTION sanitize_offer_text();
+
+UPDATE service_offers
+SET description = strip_html(description),
+    features = strip_html_lines(features)
+WHERE description ~ '</?[a-zA-Z!][^>]*>' OR features::text ~ '</?[a-zA-Z!][^>]*>';
+
+UPDATE offer_tiers
+SET description = strip_html(description),
+    features = strip_html_lines(features)
+WHERE description ~ '</?[a-zA-Z!][^>]*>' OR features::text ~ '</?[a-zA-Z!][^>]*>';
@@ -0,0 +1,130 @@
+/*
+  # Public Catalog
+
+  ## Overview
+  Visitors who have not signed in can browse the catalog and open a landing
+  page per offer at /offers/<slug>, so offers can be linked from marketing
+  emails. Anonymous visitors get read-only access to published offers and
+  the prices, tiers and meters that belong to them, and nothing else.
+
+  ## Changes
+
+  ### service_offers
+  - `slug` (text, unique) - The offer's address in the public catalog.
+    Generated from the title when an offer is created without one, and kept
+    when the title changes so that shared links keep working
+
+  ## New Functions
+  - `slugify(value)` - Lowercase letters and digits separated by hyphens
+  - Trigger `set_offer_slug` fills in a free slug from the title when none is
+    given, and normalizes the ones admins enter
+
+  ## Security
+  - anon can view published offers (see `is_offer_published`), all
+    categories, and the prices, tiers, tier prices, meters and meter prices
+    of published offers
+*/
+
+CREATE OR REPLACE FUNCTION slugify(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(both '-' FROM regexp_replace(lower(value), '[^a-z0-9]+', '-', 'g'));
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'service_offers' AND column_name = 'slug'
+  ) THEN
+    ALTER TABLE service_offers ADD COLUMN slug text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION set_offer_slug()
+RETURNS TRIGGER AS $$
+DECLARE
+  base text;
+  candidate text;
+  suffix integer := 1;
+BEGIN
+  IF NEW.slug IS NOT NULL AND slugify(NEW.slug) <> '' THEN
+    NEW.slug := slugify(NEW.slug);
+    RETURN NEW;
+  END IF;
+
+  base := COALESCE(NULLIF(slugify(NEW.title), ''), 'offer');
+  candidate := base;
+
+  WHILE EXISTS (SELECT 1 FROM service_offers WHERE slug = candidate AND id <> NEW.id) LOOP
+    suffix := suffix + 1;
+    candidate := base || '-' || suffix;
+  END LOOP;
+
+  NEW.slug := candidate;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_offer_slug ON service_offers;
+CREATE TRIGGER set_offer_slug
+  BEFORE INSERT OR UPDATE OF slug ON service_offers
+  FOR EACH ROW EXECUTE FUNCTION set_offer_slug();
+
+-- Oldest offers get the plain slug when titles collide
+DO $$
+DECLARE
+  offer_id uuid;
+BEGIN
+  FOR offer_id IN SELECT id FROM service_offers WHERE slug IS NULL ORDER BY created_at LOOP
+    UPDATE service_offers SET slug = NULL WHERE id = offer_id;
+  END LOOP;
+END $$;
+
+ALTER TABLE service_offers ALTER COLUMN slug SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'service_offers_slug_key') THEN
+    ALTER TABLE service_offers ADD CONSTRAINT service_offers_slug_key UNIQUE (slug);
+  END IF;
+END $$;
+
+CREATE POLICY "Visitors can view published offers"
+  ON service_offers FOR SELECT
+  TO anon
+  USING (is_offer_published(service_offers));
+
+CREATE POLICY "Visitors can view categories"
+  ON service_categories FOR SELECT
+  TO anon
+  USING (true);
+
+-- Parent offers, tiers and meters are only visible to anon while published,
+-- so the EXISTS checks below limit anon to rows of published offers
+CREATE POLICY "Visitors can view published offer prices"
+  ON offer_prices FOR SELECT
+  TO anon
+  USING (EXISTS (SELECT 1 FROM service_offers WHERE service_offers.id = offer_prices.offer_id));
+
+CREATE POLICY "Visitors can view published offer tiers"
+  ON offer_tiers FOR SELECT
+  TO anon
+  USING (EXISTS (SELECT 1 FROM service_offers WHERE service_offers.id = offer_tiers.offer_id));
+
+CREATE POLICY "Visitors can view published offer tier prices"
+  ON offer_tier_prices FOR SELECT
+  TO anon
+  USING (EXISTS (SELECT 1 FROM offer_tiers WHERE offer_tiers.id = offer_tier_prices.tier_id));
+
+CREATE POLICY "Visitors can view published offer meters"
+  ON offer_meters FOR SELECT
+  TO anon
+  USING (EXISTS (SELECT 1 FROM service_offers WHERE service_offers.id = offer_meters.offer_id));
+
+CREATE POLICY "Visitors can view published offer meter prices"
+  ON offer_meter_prices FOR SELECT
+  TO anon
+  USING (EXISTS (SELECT 1 FROM offer_meters WHERE offer_meters.id = offer_meter_prices.meter_id));
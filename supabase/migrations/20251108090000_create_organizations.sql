@@ -0,0 +1,807 @@
+/*
+  # Organizations and Team Seats
+
+  ## Overview
+  Customers used to be single accounts with a free-text company name, so two
+  people from the same client were unrelated and each had their own services.
+  Customers now belong to an organization. Subscriptions, bundle purchases and
+  invoices belong to the organization, and every member sees its services.
+  What a member can do depends on their role:
+  - `owner` - Everything, and manages the organization and its members
+  - `billing` - Subscribes, changes and cancels services, and sees invoices
+  - `member` - Sees the organization's services
+
+  Everyone belongs to exactly one organization. Signing up creates one named
+  after the company entered at sign-up, with the new customer as its owner.
+  Joining another organization through an invitation leaves the current one.
+
+  ## New Tables
+
+  ### organizations
+  - `id` (uuid, primary key)
+  - `name` (text)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### organization_members
+  - `organization_id` (uuid) - References organizations
+  - `user_id` (uuid) - References profiles; unique, as a customer belongs to
+    one organization
+  - `role` (text) - 'owner', 'billing' or 'member'
+  - `created_at` (timestamptz)
+
+  ### organization_invitations
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid) - References organizations
+  - `email` (text) - Lowercased address of the person invited; they accept
+    after signing in with it
+  - `role` (text) - Role they join with
+  - `invited_by` (uuid) - References profiles
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - `user_subscriptions.organization_id`, `subscription_bundles.organization_id`
+    and `invoices.organization_id` (uuid) - The organization a service, bundle
+    purchase or invoice belongs to. Set from the subscriber's organization, and
+    for invoices from the subscription's. `user_id` stays the member who
+    subscribed
+  - A service can be subscribed to once per organization instead of once per
+    customer, and free trials, prerequisites and bundle purchases count per
+    organization
+  - Existing customers each get an organization named after their company, so
+    nobody is merged with an account they did not know about
+  - `profiles.company_name` is no longer written; the organization's name is used
+
+  ## New Functions
+  - `organization_role(organization_id, member_id)` - A member's role, or null
+  - `invite_organization_member(organization_id, email, role)` - Owners invite
+    someone by email, or change the role of a pending invitation
+  - `accept_organization_invitation(invitation_id)` - Joins the organization,
+    leaving the current one. An organization left empty with no services is
+    deleted; the last owner of a team cannot leave it
+  - `decline_organization_invitation(invitation_id)`
+  - `change_organization_member_role(organization_id, member_id, new_role)` -
+    Owners change roles; an organization always keeps an owner
+  - `remove_organization_member(organization_id, member_id)` - Owners remove a
+    member, and anyone can leave. Whoever leaves gets an organization of their own
+
+  ## Security
+  - Members can view their organization, its members and their profiles, and its
+    services, usage and history. Invoices and payments are for owners and billing
+  - Only owners and billing can subscribe or change a subscription, including
+    through the self-service functions and bundles
+  - Owners can rename the organization and cancel invitations. Invitees can
+    view invitations sent to their email address
+  - Admins can view all organizations
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'billing', 'member')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL CHECK (email = lower(trim(email)) AND email LIKE '%@%'),
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'billing', 'member')),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(email);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_subscriptions' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE user_subscriptions ADD COLUMN organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'subscription_bundles' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE subscription_bundles ADD COLUMN organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'invoices' AND column_name = 'organization_id'
+  ) THEN
+    ALTER TABLE invoices ADD COLUMN organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_organization_id ON user_subscriptions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_bundles_organization_id ON subscription_bundles(organization_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_organization_id ON invoices(organization_id);
+
+-- A member's role in an organization, or null; used by policies, so it must
+-- not go through the policies on organization_members itself
+CREATE OR REPLACE FUNCTION organization_role(organization_id uuid, member_id uuid)
+RETURNS text
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT role FROM organization_members
+  WHERE organization_members.organization_id = organization_role.organization_id
+  AND organization_members.user_id = organization_role.member_id;
+$$;
+
+-- Creates an organization with the customer as its only member and owner
+CREATE OR REPLACE FUNCTION create_own_organization(member_id uuid, organization_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_organization_id uuid;
+BEGIN
+  INSERT INTO organizations (name)
+  VALUES (COALESCE(NULLIF(trim(organization_name), ''), 'My organization'))
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (new_organization_id, member_id, 'owner');
+
+  RETURN new_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_own_organization(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- New customers start in an organization named after their company
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data->>'full_name', ''));
+
+  PERFORM public.create_own_organization(
+    NEW.id,
+    COALESCE(
+      NULLIF(trim(NEW.raw_user_meta_data->>'company_name'), ''),
+      NULLIF(trim(NEW.raw_user_meta_data->>'full_name'), ''),
+      NEW.email
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing customers each get their own organization
+DO $$
+DECLARE
+  customer record;
+BEGIN
+  FOR customer IN
+    SELECT profiles.* FROM profiles
+    WHERE NOT EXISTS (SELECT 1 FROM organization_members WHERE organization_members.user_id = profiles.id)
+    ORDER BY profiles.created_at
+  LOOP
+    PERFORM create_own_organization(
+      customer.id,
+      COALESCE(NULLIF(trim(customer.company_name), ''), NULLIF(trim(customer.full_name), ''), customer.email)
+    );
+  END LOOP;
+END $$;
+
+UPDATE user_subscriptions
+SET organization_id = organization_members.organization_id
+FROM organization_members
+WHERE organization_members.user_id = user_subscriptions.user_id
+AND user_subscriptions.organization_id IS NULL;
+
+UPDATE subscription_bundles
+SET organization_id = organization_members.organization_id
+FROM organization_members
+WHERE organization_members.user_id = subscription_bundles.user_id
+AND subscription_bundles.organization_id IS NULL;
+
+UPDATE invoices
+SET organization_id = user_subscriptions.organization_id
+FROM user_subscriptions
+WHERE user_subscriptions.id = invoices.subscription_id
+AND invoices.organization_id IS NULL;
+
+ALTER TABLE user_subscriptions ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE subscription_bundles ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE invoices ALTER COLUMN organization_id SET NOT NULL;
+
+-- A service is subscribed to once per organization
+ALTER TABLE user_subscriptions DROP CONSTRAINT IF EXISTS user_subscriptions_user_id_offer_id_key;
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'user_subscriptions_organization_id_offer_id_key'
+  ) THEN
+    ALTER TABLE user_subscriptions
+      ADD CONSTRAINT user_subscriptions_organization_id_offer_id_key UNIQUE (organization_id, offer_id);
+  END IF;
+END $$;
+
+-- Subscriptions and bundle purchases belong to the subscriber's organization,
+-- and only its owners and billing contacts can take them out
+CREATE OR REPLACE FUNCTION assign_customer_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM organization_members
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT is_admin(auth.uid())
+    AND COALESCE(organization_role(NEW.organization_id, auth.uid()), 'member') NOT IN ('owner', 'billing')
+  THEN
+    RAISE EXCEPTION 'Only owners and billing contacts can subscribe for your organization'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_subscription_organization ON user_subscriptions;
+CREATE TRIGGER assign_subscription_organization
+  BEFORE INSERT ON user_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_customer_organization();
+
+DROP TRIGGER IF EXISTS assign_bundle_organization ON subscription_bundles;
+CREATE TRIGGER assign_bundle_organization
+  BEFORE INSERT ON subscription_bundles
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_customer_organization();
+
+-- Invoices are billed to the subscription's organization
+CREATE OR REPLACE FUNCTION assign_invoice_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM user_subscriptions
+    WHERE id = NEW.subscription_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_invoice_organization ON invoices;
+CREATE TRIGGER assign_invoice_organization
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_organization();
+
+-- Self-service actions are open to the organization's owners and billing contacts
+CREATE OR REPLACE FUNCTION get_own_subscription_for_update(subscription_id uuid)
+RETURNS user_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions;
+BEGIN
+  SELECT * INTO sub
+  FROM user_subscriptions
+  WHERE id = get_own_subscription_for_update.subscription_id
+  AND organization_role(organization_id, auth.uid()) IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF organization_role(sub.organization_id, auth.uid()) NOT IN ('owner', 'billing') THEN
+    RAISE EXCEPTION 'Only owners and billing contacts can change your organization''s services'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN sub;
+END;
+$$;
+
+-- Bundles reactivate the organization's cancelled subscription to an offer;
+-- a customer without an organization only has their own
+CREATE OR REPLACE FUNCTION get_own_offer_subscription(offer_id uuid)
+RETURNS user_subscriptions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_subscriptions.* FROM user_subscriptions
+  LEFT JOIN organization_members ON organization_members.user_id = auth.uid()
+  WHERE user_subscriptions.offer_id = get_own_offer_subscription.offer_id
+  AND (
+    user_subscriptions.organization_id = organization_members.organization_id
+    OR (organization_members.organization_id IS NULL AND user_subscriptions.user_id = auth.uid())
+  );
+$$;
+
+-- One trial per organization and offer
+CREATE OR REPLACE FUNCTION start_subscription_trial()
+RETURNS TRIGGER AS $$
+DECLARE
+  trial_length integer;
+BEGIN
+  -- Bundles are sold at their package price from the start
+  IF NEW.status <> 'pending' OR NEW.subscription_bundle_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT trial_days INTO trial_length FROM service_offers WHERE id = NEW.offer_id;
+
+  IF COALESCE(trial_length, 0) > 0 AND NOT EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE organization_id = NEW.organization_id AND offer_id = NEW.offer_id AND trial_ends_at IS NOT NULL
+  ) THEN
+    NEW.status := 'trialing';
+    NEW.trial_ends_at := now() + make_interval(days => trial_length);
+    NEW.next_billing_date := NEW.trial_ends_at;
+    NEW.billing_anchor_at := NEW.trial_ends_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Prerequisites are met by any of the organization's services
+CREATE OR REPLACE FUNCTION check_subscription_prerequisites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  missing_title text;
+BEGIN
+  -- Only new subscriptions, plan changes to another offer and reactivated ones are checked
+  IF TG_OP = 'UPDATE'
+    AND NEW.offer_id = OLD.offer_id
+    AND NOT (OLD.status IN ('cancelled', 'expired') AND NEW.status NOT IN ('cancelled', 'expired'))
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF is_admin(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT service_offers.title INTO missing_title
+  FROM offer_relations
+  JOIN service_offers ON service_offers.id = offer_relations.related_offer_id
+  WHERE offer_relations.offer_id = NEW.offer_id
+    AND offer_relations.kind = 'prerequisite'
+    AND NOT EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.organization_id = NEW.organization_id
+        AND user_subscriptions.id <> NEW.id
+        AND user_subscriptions.offer_id = offer_relations.related_offer_id
+        AND user_subscriptions.status IN ('trialing', 'active', 'past_due')
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM subscription_bundles
+      JOIN bundle_offers ON bundle_offers.bundle_id = subscription_bundles.bundle_id
+      WHERE subscription_bundles.id = NEW.subscription_bundle_id
+        AND bundle_offers.offer_id = offer_relations.related_offer_id
+    )
+  ORDER BY service_offers.title
+  LIMIT 1;
+
+  IF missing_title IS NOT NULL THEN
+    RAISE EXCEPTION 'This service requires an active % subscription', missing_title
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Owners invite by email; inviting again changes the role offered
+CREATE OR REPLACE FUNCTION invite_organization_member(organization_id uuid, email text, role text)
+RETURNS organization_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitee_email text := lower(trim(invite_organization_member.email));
+  invitation organization_invitations;
+BEGIN
+  IF organization_role(invite_organization_member.organization_id, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can invite members' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF invite_organization_member.role NOT IN ('owner', 'billing', 'member') THEN
+    RAISE EXCEPTION 'Unknown role %', invite_organization_member.role USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF invitee_email NOT LIKE '%@%' THEN
+    RAISE EXCEPTION 'Enter a valid email address' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_members
+    JOIN auth.users ON auth.users.id = organization_members.user_id
+    WHERE organization_members.organization_id = invite_organization_member.organization_id
+    AND lower(auth.users.email) = invitee_email
+  ) THEN
+    RAISE EXCEPTION '% is already a member', invitee_email USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO organization_invitations (organization_id, email, role, invited_by)
+  VALUES (invite_organization_member.organization_id, invitee_email, invite_organization_member.role, auth.uid())
+  ON CONFLICT ON CONSTRAINT organization_invitations_organization_id_email_key
+  DO UPDATE SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, created_at = now()
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+-- Loads an invitation sent to the address the caller signs in with. The
+-- profile's email is editable by its owner, so it cannot prove who they are
+CREATE OR REPLACE FUNCTION get_own_invitation(invitation_id uuid)
+RETURNS organization_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation organization_invitations;
+BEGIN
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE id = get_own_invitation.invitation_id
+  AND email = lower(auth.email());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN invitation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_own_invitation(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Leaves the caller's current organization, deleting it when nobody and
+-- nothing is left in it
+CREATE OR REPLACE FUNCTION leave_current_organization(member_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  membership organization_members;
+  has_others boolean;
+BEGIN
+  SELECT * INTO membership FROM organization_members WHERE user_id = member_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = membership.organization_id AND user_id <> member_id
+  ) INTO has_others;
+
+  IF has_others THEN
+    IF membership.role = 'owner' AND NOT EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = membership.organization_id AND user_id <> member_id AND role = 'owner'
+    ) THEN
+      RAISE EXCEPTION 'Make another member an owner before leaving your organization'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    DELETE FROM organization_members WHERE user_id = member_id;
+  ELSIF EXISTS (SELECT 1 FROM user_subscriptions WHERE organization_id = membership.organization_id)
+    OR EXISTS (SELECT 1 FROM invoices WHERE organization_id = membership.organization_id)
+  THEN
+    RAISE EXCEPTION 'Your organization has services of its own; invite the other team to it, or contact us to move them'
+      USING ERRCODE = 'check_violation';
+  ELSE
+    DELETE FROM organizations WHERE id = membership.organization_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION leave_current_organization(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION accept_organization_invitation(invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation organization_invitations := get_own_invitation(invitation_id);
+BEGIN
+  IF organization_role(invitation.organization_id, auth.uid()) IS NULL THEN
+    PERFORM leave_current_organization(auth.uid());
+    INSERT INTO organization_members (organization_id, user_id, role)
+    VALUES (invitation.organization_id, auth.uid(), invitation.role);
+  END IF;
+
+  DELETE FROM organization_invitations WHERE id = invitation.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_organization_invitation(invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation organization_invitations := get_own_invitation(invitation_id);
+BEGIN
+  DELETE FROM organization_invitations WHERE id = invitation.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_organization_member_role(organization_id uuid, member_id uuid, new_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_role_name text := organization_role(change_organization_member_role.organization_id, member_id);
+BEGIN
+  IF organization_role(change_organization_member_role.organization_id, auth.uid()) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only owners can change roles' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF new_role NOT IN ('owner', 'billing', 'member') THEN
+    RAISE EXCEPTION 'Unknown role %', new_role USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF current_role_name IS NULL THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF current_role_name = 'owner' AND new_role <> 'owner' AND NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = change_organization_member_role.organization_id
+    AND user_id <> member_id AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'Your organization needs at least one owner' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE organization_members
+  SET role = new_role
+  WHERE organization_members.organization_id = change_organization_member_role.organization_id
+  AND user_id = member_id;
+END;
+$$;
+
+-- Owners remove members and anyone can leave; they continue in an
+-- organization of their own, while the services stay with the team
+CREATE OR REPLACE FUNCTION remove_organization_member(organization_id uuid, member_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member profiles;
+BEGIN
+  IF member_id <> auth.uid()
+    AND organization_role(remove_organization_member.organization_id, auth.uid()) IS DISTINCT FROM 'owner'
+  THEN
+    RAISE EXCEPTION 'Only owners can remove members' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF organization_role(remove_organization_member.organization_id, member_id) IS NULL THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = remove_organization_member.organization_id
+    AND user_id <> member_id
+  ) THEN
+    RAISE EXCEPTION 'You are the only member of your organization' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM leave_current_organization(member_id);
+
+  SELECT * INTO member FROM profiles WHERE id = member_id;
+  PERFORM create_own_organization(member_id, COALESCE(NULLIF(trim(member.full_name), ''), member.email));
+END;
+$$;
+
+-- Row Level Security
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (
+    organization_role(id, auth.uid()) IS NOT NULL
+    OR is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM organization_invitations
+      WHERE organization_invitations.organization_id = organizations.id
+      AND organization_invitations.email = lower(auth.email())
+    )
+  );
+
+CREATE POLICY "Owners can rename their organization"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (organization_role(id, auth.uid()) = 'owner')
+  WITH CHECK (organization_role(id, auth.uid()) = 'owner');
+
+CREATE POLICY "Members can view their organization's members"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id, auth.uid()) IS NOT NULL OR is_admin(auth.uid()));
+
+CREATE POLICY "Owners and invitees can view invitations"
+  ON organization_invitations FOR SELECT
+  TO authenticated
+  USING (
+    organization_role(organization_id, auth.uid()) = 'owner'
+    OR email = lower(auth.email())
+    OR is_admin(auth.uid())
+  );
+
+CREATE POLICY "Owners can cancel invitations"
+  ON organization_invitations FOR DELETE
+  TO authenticated
+  USING (organization_role(organization_id, auth.uid()) = 'owner');
+
+CREATE POLICY "Members can view their colleagues' profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.user_id = profiles.id
+      AND organization_role(organization_members.organization_id, auth.uid()) IS NOT NULL
+    )
+  );
+
+-- Subscriptions belong to the organization
+DROP POLICY IF EXISTS "Users can view own subscriptions" ON user_subscriptions;
+DROP POLICY IF EXISTS "Users can create own subscriptions" ON user_subscriptions;
+DROP POLICY IF EXISTS "Users can update own subscriptions" ON user_subscriptions;
+
+CREATE POLICY "Members can view organization subscriptions"
+  ON user_subscriptions FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id, auth.uid()) IS NOT NULL OR is_admin(auth.uid()));
+
+CREATE POLICY "Billing contacts can create subscriptions"
+  ON user_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND organization_role(organization_id, auth.uid()) IN ('owner', 'billing'));
+
+CREATE POLICY "Billing contacts can update subscriptions"
+  ON user_subscriptions FOR UPDATE
+  TO authenticated
+  USING (organization_role(organization_id, auth.uid()) IN ('owner', 'billing'))
+  WITH CHECK (organization_role(organization_id, auth.uid()) IN ('owner', 'billing'));
+
+DROP POLICY IF EXISTS "Users can view own subscription events" ON subscription_events;
+CREATE POLICY "Members can view organization subscription events"
+  ON subscription_events FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.id = subscription_events.subscription_id
+      AND organization_role(user_subscriptions.organization_id, auth.uid()) IS NOT NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view coupons on own subscriptions" ON coupons;
+CREATE POLICY "Members can view coupons on organization subscriptions"
+  ON coupons FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.coupon_id = coupons.id
+      AND organization_role(user_subscriptions.organization_id, auth.uid()) IS NOT NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view coupon offers on own subscriptions" ON coupon_offers;
+CREATE POLICY "Members can view coupon offers on organization subscriptions"
+  ON coupon_offers FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.coupon_id = coupon_offers.coupon_id
+      AND organization_role(user_subscriptions.organization_id, auth.uid()) IS NOT NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own usage" ON usage_records;
+CREATE POLICY "Members can view organization usage"
+  ON usage_records FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_subscriptions
+      WHERE user_subscriptions.id = usage_records.subscription_id
+      AND organization_role(user_subscriptions.organization_id, auth.uid()) IS NOT NULL
+    )
+    OR is_admin(auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can view own bundle subscriptions" ON subscription_bundles;
+CREATE POLICY "Members can view organization bundle subscriptions"
+  ON subscription_bundles FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id, auth.uid()) IS NOT NULL OR is_admin(auth.uid()));
+
+-- Invoices and payments are for owners and billing contacts
+DROP POLICY IF EXISTS "Users can view own invoices" ON invoices;
+CREATE POLICY "Billing contacts can view organization invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id, auth.uid()) IN ('owner', 'billing') OR is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view own invoice line items" ON invoice_line_items;
+CREATE POLICY "Billing contacts can view organization invoice line items"
+  ON invoice_line_items FOR SELECT
+  TO authenticated
+  USING (
+    is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_line_items.invoice_id
+      AND organization_role(invoices.organization_id, auth.uid()) IN ('owner', 'billing')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own payments" ON payments;
+CREATE POLICY "Billing contacts can view organization payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR is_admin(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = payments.invoice_id
+      AND organization_role(invoices.organization_id, auth.uid()) IN ('owner', 'billing')
+    )
+  );
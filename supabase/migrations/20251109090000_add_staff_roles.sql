@@ -0,0 +1,673 @@
+/*
+  # Staff Roles
+
+  ## Overview
+  Staff access used to be the single `profiles.is_admin` flag, so everyone on
+  the team could do everything, including support staff deleting offers and
+  media. Staff now have a role, and each role grants a set of permissions:
+  - `owner` - Everything, and assigns staff roles
+  - `catalog_editor` - Categories, offers and their prices, tiers, meters and
+    versions, bundles, coupons, offer drafts and media
+  - `billing` - Invoices, payments, refunds, tax rates, usage and subscriptions
+  - `support` - Changes subscription statuses and notes
+  - `read_only` - Sees everything and changes nothing
+
+  Every role can view the whole portal, so `is_admin` keeps meaning "staff"
+  and the dashboard and policies that only read keep working unchanged.
+
+  ## Changes
+  - `profiles.staff_role` (text, nullable) - The staff member's role; null for
+    customers. Existing admins become owners
+  - `profiles.is_admin` is kept in sync with `staff_role` and can no longer be
+    changed by the profile's owner. Setting it directly from the SQL editor
+    still grants or revokes the owner role
+
+  ## New Functions
+  - `staff_can(member_id, permission)` - Whether a staff member's role grants
+    'catalog', 'billing', 'subscriptions' or 'staff'
+  - `set_staff_role(member_id, new_role)` - Owners assign a role, or remove
+    someone from the staff with a null role; the team always keeps an owner
+  - `set_subscription_notes(subscription_id, notes)` - Staff who manage
+    subscriptions change the admin notes
+
+  ## Security
+  - Every "Admins can manage" policy is split into a policy letting all staff
+    view the table and one letting the staff with the permission change it
+  - Only billing can write subscriptions directly. Support changes a
+    subscription's status and notes through `change_subscription_status` and
+    `set_subscription_notes`, which now run with the function owner's rights
+    and check the permission themselves
+  - Uploading and deleting media requires the catalog permission
+  - Publishing versions, moving subscribers, reordering categories and
+    reviewing offer drafts require the catalog permission
+  - Customers can no longer make themselves staff by updating their profile
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'staff_role'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN staff_role text
+      CHECK (staff_role IN ('owner', 'catalog_editor', 'billing', 'support', 'read_only'));
+  END IF;
+END $$;
+
+UPDATE profiles SET staff_role = 'owner' WHERE is_admin AND staff_role IS NULL;
+
+-- Customers cannot change their own staff role; is_admin follows the role
+CREATE OR REPLACE FUNCTION protect_staff_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.staff_role := NULL;
+    ELSE
+      NEW.staff_role := OLD.staff_role;
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    IF NEW.is_admin AND NEW.staff_role IS NULL THEN
+      NEW.staff_role := 'owner';
+    END IF;
+  ELSIF NEW.staff_role IS NOT DISTINCT FROM OLD.staff_role AND NEW.is_admin IS DISTINCT FROM OLD.is_admin THEN
+    NEW.staff_role := CASE WHEN NEW.is_admin THEN 'owner' END;
+  END IF;
+
+  NEW.is_admin := NEW.staff_role IS NOT NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_staff_role ON profiles;
+CREATE TRIGGER protect_staff_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_staff_role();
+
+-- Whether a staff member's role grants a permission; used by policies, so it
+-- must not go through the policies on profiles itself
+CREATE OR REPLACE FUNCTION staff_can(member_id uuid, permission text)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE staff_can.permission
+        WHEN 'catalog' THEN staff_role IN ('owner', 'catalog_editor')
+        WHEN 'billing' THEN staff_role IN ('owner', 'billing')
+        WHEN 'subscriptions' THEN staff_role IN ('owner', 'billing', 'support')
+        WHEN 'staff' THEN staff_role = 'owner'
+        ELSE false
+      END
+      FROM profiles WHERE id = staff_can.member_id
+    ),
+    false
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION set_staff_role(member_id uuid, new_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member profiles;
+BEGIN
+  IF NOT staff_can(auth.uid(), 'staff') THEN
+    RAISE EXCEPTION 'Only owners can assign staff roles' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF new_role IS NOT NULL AND new_role NOT IN ('owner', 'catalog_editor', 'billing', 'support', 'read_only') THEN
+    RAISE EXCEPTION 'Unknown role %', new_role USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO member FROM profiles WHERE id = set_staff_role.member_id FOR UPDATE;
+  IF member.id IS NULL THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF member.staff_role = 'owner' AND new_role IS DISTINCT FROM 'owner' AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE staff_role = 'owner' AND id <> member.id
+  ) THEN
+    RAISE EXCEPTION 'The staff needs at least one owner' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE profiles
+  SET staff_role = new_role,
+      updated_at = now()
+  WHERE id = member.id;
+END;
+$$;
+
+-- Staff bypass the customer column checks only if they may write every
+-- subscription column; support goes through the functions below
+CREATE OR REPLACE FUNCTION protect_subscription_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  customer_columns text[] := ARRAY['customer_notes', 'cancel_requested_at', 'updated_at'];
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR auth.uid() IS NULL OR staff_can(auth.uid(), 'billing') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New subscriptions must start as pending'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    NEW.notes := '';
+    NEW.started_at := now();
+    NEW.next_billing_date := NULL;
+    NEW.cancel_requested_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - customer_columns) IS DISTINCT FROM (to_jsonb(OLD) - customer_columns) THEN
+    RAISE EXCEPTION 'Only administrators can change this subscription field'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Catalog
+DROP POLICY IF EXISTS "Admins can manage categories" ON service_categories;
+CREATE POLICY "Staff can view categories"
+  ON service_categories FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage categories"
+  ON service_categories FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offers" ON service_offers;
+CREATE POLICY "Staff can view offers"
+  ON service_offers FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offers"
+  ON service_offers FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer prices" ON offer_prices;
+CREATE POLICY "Staff can view offer prices"
+  ON offer_prices FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer prices"
+  ON offer_prices FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer meters" ON offer_meters;
+CREATE POLICY "Staff can view offer meters"
+  ON offer_meters FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer meters"
+  ON offer_meters FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer meter prices" ON offer_meter_prices;
+CREATE POLICY "Staff can view offer meter prices"
+  ON offer_meter_prices FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer meter prices"
+  ON offer_meter_prices FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer versions" ON offer_versions;
+CREATE POLICY "Staff can view offer versions"
+  ON offer_versions FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer versions"
+  ON offer_versions FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer version prices" ON offer_version_prices;
+CREATE POLICY "Staff can view offer version prices"
+  ON offer_version_prices FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer version prices"
+  ON offer_version_prices FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer tiers" ON offer_tiers;
+CREATE POLICY "Staff can view offer tiers"
+  ON offer_tiers FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer tiers"
+  ON offer_tiers FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer tier prices" ON offer_tier_prices;
+CREATE POLICY "Staff can view offer tier prices"
+  ON offer_tier_prices FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer tier prices"
+  ON offer_tier_prices FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer relations" ON offer_relations;
+CREATE POLICY "Staff can view offer relations"
+  ON offer_relations FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer relations"
+  ON offer_relations FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage offer drafts" ON offer_drafts;
+CREATE POLICY "Staff can view offer drafts"
+  ON offer_drafts FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage offer drafts"
+  ON offer_drafts FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage bundles" ON service_bundles;
+CREATE POLICY "Staff can view bundles"
+  ON service_bundles FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage bundles"
+  ON service_bundles FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage bundle offers" ON bundle_offers;
+CREATE POLICY "Staff can view bundle offers"
+  ON bundle_offers FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage bundle offers"
+  ON bundle_offers FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage coupons" ON coupons;
+CREATE POLICY "Staff can view coupons"
+  ON coupons FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage coupons"
+  ON coupons FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Admins can manage coupon offers" ON coupon_offers;
+CREATE POLICY "Staff can view coupon offers"
+  ON coupon_offers FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Catalog editors can manage coupon offers"
+  ON coupon_offers FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'))
+  WITH CHECK (staff_can(auth.uid(), 'catalog'));
+
+-- Billing
+DROP POLICY IF EXISTS "Admins can manage invoices" ON invoices;
+CREATE POLICY "Staff can view invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Billing staff can manage invoices"
+  ON invoices FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+
+DROP POLICY IF EXISTS "Admins can manage invoice line items" ON invoice_line_items;
+CREATE POLICY "Staff can view invoice line items"
+  ON invoice_line_items FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Billing staff can manage invoice line items"
+  ON invoice_line_items FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+
+DROP POLICY IF EXISTS "Admins can update payments" ON payments;
+CREATE POLICY "Billing staff can update payments"
+  ON payments FOR UPDATE
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+
+DROP POLICY IF EXISTS "Admins can manage tax rates" ON tax_rates;
+CREATE POLICY "Staff can view tax rates"
+  ON tax_rates FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Billing staff can manage tax rates"
+  ON tax_rates FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+
+DROP POLICY IF EXISTS "Admins can manage usage" ON usage_records;
+CREATE POLICY "Billing staff can manage usage"
+  ON usage_records FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+
+DROP POLICY IF EXISTS "Admins can manage bundle subscriptions" ON subscription_bundles;
+CREATE POLICY "Staff can view bundle subscriptions"
+  ON subscription_bundles FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Billing staff can manage bundle subscriptions"
+  ON subscription_bundles FOR ALL
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+
+-- Subscriptions
+DROP POLICY IF EXISTS "Admins can manage subscriptions" ON user_subscriptions;
+CREATE POLICY "Staff can view subscriptions"
+  ON user_subscriptions FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+CREATE POLICY "Billing staff can update subscriptions"
+  ON user_subscriptions FOR UPDATE
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'))
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+CREATE POLICY "Billing staff can create subscriptions"
+  ON user_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (staff_can(auth.uid(), 'billing'));
+CREATE POLICY "Billing staff can delete subscriptions"
+  ON user_subscriptions FOR DELETE
+  TO authenticated
+  USING (staff_can(auth.uid(), 'billing'));
+
+-- Media
+DROP POLICY IF EXISTS "Authenticated users can upload images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload videos" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete videos" ON storage.objects;
+
+CREATE POLICY "Catalog editors can upload images"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'product-images' AND public.staff_can(auth.uid(), 'catalog'));
+
+CREATE POLICY "Catalog editors can upload videos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'product-videos' AND public.staff_can(auth.uid(), 'catalog'));
+
+CREATE POLICY "Catalog editors can delete images"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'product-images' AND public.staff_can(auth.uid(), 'catalog'));
+
+CREATE POLICY "Catalog editors can delete videos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'product-videos' AND public.staff_can(auth.uid(), 'catalog'));
+
+-- Functions that check the permission themselves
+CREATE OR REPLACE FUNCTION publish_offer_version(offer_id uuid)
+RETURNS offer_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can publish offer versions' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN snapshot_offer_version(publish_offer_version.offer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION move_subscribers_to_version(version_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target offer_versions;
+  sub record;
+  moved integer := 0;
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can move subscribers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO target FROM offer_versions WHERE id = move_subscribers_to_version.version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer version not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR sub IN
+    SELECT user_subscriptions.id, user_subscriptions.status, offer_versions.version AS from_version
+    FROM user_subscriptions
+    LEFT JOIN offer_versions ON offer_versions.id = user_subscriptions.offer_version_id
+    WHERE user_subscriptions.offer_id = target.offer_id
+    AND user_subscriptions.offer_version_id IS DISTINCT FROM target.id
+    AND user_subscriptions.status NOT IN ('cancelled', 'expired')
+    AND version_tier_price(target.id, user_subscriptions.tier_id, user_subscriptions.currency, 'monthly') IS NOT NULL
+    FOR UPDATE OF user_subscriptions
+  LOOP
+    UPDATE user_subscriptions SET offer_version_id = target.id WHERE id = sub.id;
+
+    INSERT INTO subscription_events (subscription_id, event_type, from_status, to_status, changed_by, note)
+    VALUES (
+      sub.id, 'version_changed', sub.status, sub.status, auth.uid(),
+      'Moved from version ' || COALESCE(sub.from_version::text, 'none') || ' to version ' || target.version
+    );
+    moved := moved + 1;
+  END LOOP;
+
+  RETURN moved;
+END;
+$$;
+
+-- Server-side code, such as the checkout function, calls this without a user
+CREATE OR REPLACE FUNCTION change_subscription_status(
+  subscription_id uuid,
+  new_status text,
+  note text DEFAULT ''
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT staff_can(auth.uid(), 'subscriptions') THEN
+    RAISE EXCEPTION 'Only staff who manage subscriptions can change their status'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM set_config('app.subscription_event_note', COALESCE(note, ''), true);
+
+  UPDATE user_subscriptions
+  SET status = new_status
+  WHERE id = change_subscription_status.subscription_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('app.subscription_event_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION change_subscription_status(uuid, text, text) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION set_subscription_notes(subscription_id uuid, notes text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT staff_can(auth.uid(), 'subscriptions') THEN
+    RAISE EXCEPTION 'Only staff who manage subscriptions can change their notes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE user_subscriptions
+  SET notes = COALESCE(set_subscription_notes.notes, ''),
+      updated_at = now()
+  WHERE id = set_subscription_notes.subscription_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reorder_categories(category_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can reorder categories' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE service_categories
+  SET sort_order = ordered.position
+  FROM unnest(reorder_categories.category_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE service_categories.id = ordered.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_offer_draft(draft_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can submit offers for review' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE offer_drafts
+  SET status = 'in_review',
+      author_id = auth.uid(),
+      submitted_at = now(),
+      updated_at = now()
+  WHERE id = submit_offer_draft.draft_id AND status = 'draft';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only drafts can be submitted for review' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_offer_draft(draft_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft offer_drafts;
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can approve offers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO draft FROM offer_drafts WHERE id = approve_offer_draft.draft_id FOR UPDATE;
+
+  IF draft.id IS NULL THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF draft.status <> 'in_review' THEN
+    RAISE EXCEPTION 'Only drafts in review can be approved' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF draft.author_id = auth.uid() THEN
+    RAISE EXCEPTION 'Changes must be approved by a different administrator'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE offer_drafts
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = '',
+      updated_at = now()
+  WHERE id = draft.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_offer_draft(draft_id uuid, note text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can review offers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE offer_drafts
+  SET status = 'draft',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = reject_offer_draft.note,
+      updated_at = now()
+  WHERE id = reject_offer_draft.draft_id AND status = 'in_review';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only drafts in review can be sent back' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
@@ -0,0 +1,332 @@
+/*
+  # Publish Offer Drafts in the Database
+
+  ## Overview
+  An approved draft used to be published from the browser, one write at a
+  time to the offer, its prices, meters, tiers and related services. A
+  failure partway left the live offer half changed, and since catalog editors
+  could write those tables directly, nothing stopped them from changing a
+  live offer without a reviewed draft. Approved drafts are now published by
+  `publish_offer_draft`, in a single transaction, and that function is the
+  only way to create or change a live offer.
+
+  ## New Functions
+  - `publish_offer_draft(draft_id)` - Writes an approved draft to the live
+    offer, or creates the offer for a draft of a new one, publishes it as a
+    new version, moves subscribers to that version when the draft asks to and
+    removes the draft. Returns the offer's id
+  - `normalize_offer_features(lines)` - Trims features and drops empty
+    features and unnamed groups; mirrors normalizeFeatures() in
+    src/lib/offer-features.ts
+  - `parse_form_lines(source)` - The non-empty, trimmed lines of a text area
+  - `parse_form_limits(source)` - Tier limits entered as "Name: value" lines
+
+  ## Security
+  - Catalog editors can no longer insert or update offers, or write their
+    prices, meters, meter prices, tiers, tier prices or related services.
+    They can still delete an offer
+  - `publish_offer_draft` requires the catalog permission and an approved
+    draft
+*/
+
+CREATE OR REPLACE FUNCTION normalize_offer_features(lines jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(feature ORDER BY position), '[]'::jsonb)
+  FROM (
+    SELECT
+      position,
+      CASE
+        WHEN line LIKE '## %' THEN NULLIF('## ' || trim(substr(line, 4)), '## ')
+        WHEN trim(split_part(line, ' :: ', 1)) = '' THEN NULL
+        WHEN strpos(line, ' :: ') > 0 AND trim(substr(line, strpos(line, ' :: ') + 4)) <> ''
+          THEN trim(split_part(line, ' :: ', 1)) || ' :: ' || trim(substr(line, strpos(line, ' :: ') + 4))
+        ELSE trim(split_part(line, ' :: ', 1))
+      END AS feature
+    FROM jsonb_array_elements_text(lines) WITH ORDINALITY AS lines_list(line, position)
+  ) AS features_list
+  WHERE feature IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION parse_form_lines(source text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(trim(line) ORDER BY position), '[]'::jsonb)
+  FROM unnest(string_to_array(COALESCE(source, ''), E'\n')) WITH ORDINALITY AS lines_list(line, position)
+  WHERE trim(line) <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION parse_form_limits(source text)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'name', trim(split_part(line, ':', 1)),
+        'value', CASE WHEN strpos(line, ':') > 0 THEN trim(substr(line, strpos(line, ':') + 1)) ELSE '' END
+      )
+      ORDER BY position
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements_text(parse_form_lines(source)) WITH ORDINALITY AS lines_list(line, position);
+$$;
+
+CREATE OR REPLACE FUNCTION publish_offer_draft(draft_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft offer_drafts;
+  form jsonb;
+  first_tier jsonb;
+  new_slug text;
+  saved_id uuid;
+  currencies text[];
+  item jsonb;
+  item_position bigint;
+  item_id uuid;
+  removed record;
+  published offer_versions;
+BEGIN
+  IF NOT staff_can(auth.uid(), 'catalog') THEN
+    RAISE EXCEPTION 'Only catalog editors can publish offers' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO draft FROM offer_drafts WHERE id = publish_offer_draft.draft_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Draft not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF draft.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved drafts can be published' USING ERRCODE = 'check_violation';
+  END IF;
+
+  form := draft.form;
+  -- A tiered offer's own price is its first tier's
+  first_tier := form->'tiers'->0;
+  new_slug := slugify(COALESCE(form->>'slug', ''));
+
+  IF new_slug <> '' AND EXISTS (
+    SELECT 1 FROM service_offers WHERE slug = new_slug AND id IS DISTINCT FROM draft.offer_id
+  ) THEN
+    RAISE EXCEPTION 'Another offer already uses this page address' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF draft.offer_id IS NULL THEN
+    INSERT INTO service_offers (
+      title, slug, description, category_id, price_monthly, price_yearly, currency, trial_days,
+      trial_end_behavior, is_active, publish_at, unpublish_at, features, product_link, product_image,
+      product_video
+    )
+    VALUES (
+      form->>'title',
+      -- Left empty so that set_offer_slug() makes one from the title
+      NULLIF(new_slug, ''),
+      form->>'description',
+      NULLIF(form->>'category_id', '')::uuid,
+      COALESCE(first_tier->>'price_monthly', form->>'price_monthly')::numeric,
+      COALESCE(first_tier->>'price_yearly', form->>'price_yearly')::numeric,
+      form->>'currency',
+      (form->>'trial_days')::integer,
+      form->>'trial_end_behavior',
+      (form->>'is_active')::boolean,
+      (form->>'publish_at')::timestamptz,
+      (form->>'unpublish_at')::timestamptz,
+      normalize_offer_features(strip_html_lines(form->'features')),
+      NULLIF(trim(form->>'product_link'), ''),
+      NULLIF(trim(form->>'product_image'), ''),
+      NULLIF(trim(form->>'product_video'), '')
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE service_offers
+    SET
+      title = form->>'title',
+      slug = COALESCE(NULLIF(new_slug, ''), slug),
+      description = form->>'description',
+      category_id = NULLIF(form->>'category_id', '')::uuid,
+      price_monthly = COALESCE(first_tier->>'price_monthly', form->>'price_monthly')::numeric,
+      price_yearly = COALESCE(first_tier->>'price_yearly', form->>'price_yearly')::numeric,
+      currency = form->>'currency',
+      trial_days = (form->>'trial_days')::integer,
+      trial_end_behavior = form->>'trial_end_behavior',
+      is_active = (form->>'is_active')::boolean,
+      publish_at = (form->>'publish_at')::timestamptz,
+      unpublish_at = (form->>'unpublish_at')::timestamptz,
+      features = normalize_offer_features(strip_html_lines(form->'features')),
+      product_link = NULLIF(trim(form->>'product_link'), ''),
+      product_image = NULLIF(trim(form->>'product_image'), ''),
+      product_video = NULLIF(trim(form->>'product_video'), '')
+    WHERE id = draft.offer_id
+    RETURNING id INTO saved_id;
+  END IF;
+
+  -- The base currency is priced on the offer itself
+  currencies := ARRAY(
+    SELECT price->>'currency'
+    FROM jsonb_array_elements(form->'prices') WITH ORDINALITY AS prices_list(price, position)
+    WHERE price->>'currency' <> form->>'currency'
+    ORDER BY position
+  );
+
+  DELETE FROM offer_prices WHERE offer_id = saved_id;
+  INSERT INTO offer_prices (offer_id, currency, price_monthly, price_yearly)
+  SELECT
+    saved_id,
+    price->>'currency',
+    CASE
+      WHEN first_tier IS NULL THEN (price->>'price_monthly')::numeric
+      ELSE COALESCE((first_tier->'prices'->(price->>'currency')->>'price_monthly')::numeric, 0)
+    END,
+    CASE
+      WHEN first_tier IS NULL THEN (price->>'price_yearly')::numeric
+      ELSE COALESCE((first_tier->'prices'->(price->>'currency')->>'price_yearly')::numeric, 0)
+    END
+  FROM jsonb_array_elements(form->'prices') AS prices_list(price)
+  WHERE price->>'currency' <> form->>'currency';
+
+  -- Meters and tiers are updated in place rather than replaced, since
+  -- recorded usage and subscriptions reference them
+  FOR removed IN
+    SELECT id, name FROM offer_meters
+    WHERE offer_id = saved_id
+    AND id::text NOT IN (
+      SELECT meter->>'id' FROM jsonb_array_elements(form->'meters') AS meters_list(meter)
+      WHERE meter->>'id' IS NOT NULL
+    )
+  LOOP
+    BEGIN
+      DELETE FROM offer_meters WHERE id = removed.id;
+    EXCEPTION WHEN foreign_key_violation THEN
+      RAISE EXCEPTION '% has recorded usage and cannot be removed', removed.name USING ERRCODE = 'foreign_key_violation';
+    END;
+  END LOOP;
+
+  FOR item, item_position IN
+    SELECT meter, position FROM jsonb_array_elements(form->'meters') WITH ORDINALITY AS meters_list(meter, position)
+  LOOP
+    UPDATE offer_meters
+    SET
+      name = trim(item->>'name'),
+      unit = trim(item->>'unit'),
+      included_units = (item->>'included_units')::numeric,
+      unit_price = (item->>'unit_price')::numeric,
+      sort_order = item_position - 1
+    WHERE id = (item->>'id')::uuid AND offer_id = saved_id
+    RETURNING id INTO item_id;
+
+    IF item_id IS NULL THEN
+      INSERT INTO offer_meters (offer_id, name, unit, included_units, unit_price, sort_order)
+      VALUES (
+        saved_id,
+        trim(item->>'name'),
+        trim(item->>'unit'),
+        (item->>'included_units')::numeric,
+        (item->>'unit_price')::numeric,
+        item_position - 1
+      )
+      RETURNING id INTO item_id;
+    END IF;
+
+    DELETE FROM offer_meter_prices WHERE meter_id = item_id;
+    INSERT INTO offer_meter_prices (meter_id, currency, unit_price)
+    SELECT item_id, price_currency, COALESCE((item->'prices'->>price_currency)::numeric, 0)
+    FROM unnest(currencies) AS price_currency;
+  END LOOP;
+
+  FOR removed IN
+    SELECT id, name FROM offer_tiers
+    WHERE offer_id = saved_id
+    AND id::text NOT IN (
+      SELECT tier->>'id' FROM jsonb_array_elements(form->'tiers') AS tiers_list(tier)
+      WHERE tier->>'id' IS NOT NULL
+    )
+  LOOP
+    BEGIN
+      DELETE FROM offer_tiers WHERE id = removed.id;
+    EXCEPTION WHEN foreign_key_violation THEN
+      RAISE EXCEPTION '% has subscribers and cannot be removed', removed.name USING ERRCODE = 'foreign_key_violation';
+    END;
+  END LOOP;
+
+  FOR item, item_position IN
+    SELECT tier, position FROM jsonb_array_elements(form->'tiers') WITH ORDINALITY AS tiers_list(tier, position)
+  LOOP
+    UPDATE offer_tiers
+    SET
+      name = trim(item->>'name'),
+      description = trim(strip_html(item->>'description')),
+      features = parse_form_lines(item->>'features'),
+      limits = parse_form_limits(item->>'limits'),
+      price_monthly = (item->>'price_monthly')::numeric,
+      price_yearly = (item->>'price_yearly')::numeric,
+      sort_order = item_position - 1
+    WHERE id = (item->>'id')::uuid AND offer_id = saved_id
+    RETURNING id INTO item_id;
+
+    IF item_id IS NULL THEN
+      INSERT INTO offer_tiers (offer_id, name, description, features, limits, price_monthly, price_yearly, sort_order)
+      VALUES (
+        saved_id,
+        trim(item->>'name'),
+        trim(strip_html(item->>'description')),
+        parse_form_lines(item->>'features'),
+        parse_form_limits(item->>'limits'),
+        (item->>'price_monthly')::numeric,
+        (item->>'price_yearly')::numeric,
+        item_position - 1
+      )
+      RETURNING id INTO item_id;
+    END IF;
+
+    DELETE FROM offer_tier_prices WHERE tier_id = item_id;
+    INSERT INTO offer_tier_prices (tier_id, currency, price_monthly, price_yearly)
+    SELECT
+      item_id,
+      price_currency,
+      COALESCE((item->'prices'->price_currency->>'price_monthly')::numeric, 0),
+      COALESCE((item->'prices'->price_currency->>'price_yearly')::numeric, 0)
+    FROM unnest(currencies) AS price_currency;
+  END LOOP;
+
+  DELETE FROM offer_relations WHERE offer_id = saved_id;
+  INSERT INTO offer_relations (offer_id, related_offer_id, kind)
+  SELECT saved_id, related_id::uuid, 'prerequisite'
+  FROM jsonb_array_elements_text(form->'prerequisites') AS prerequisites_list(related_id)
+  UNION ALL
+  SELECT saved_id, related_id::uuid, 'addon'
+  FROM jsonb_array_elements_text(form->'addons') AS addons_list(related_id);
+
+  published := snapshot_offer_version(saved_id);
+  IF draft.move_subscribers THEN
+    PERFORM move_subscribers_to_version(published.id);
+  END IF;
+
+  DELETE FROM offer_drafts WHERE id = draft.id;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- Live offers change only through publish_offer_draft()
+DROP POLICY IF EXISTS "Catalog editors can manage offers" ON service_offers;
+CREATE POLICY "Catalog editors can delete offers"
+  ON service_offers FOR DELETE
+  TO authenticated
+  USING (staff_can(auth.uid(), 'catalog'));
+
+DROP POLICY IF EXISTS "Catalog editors can manage offer prices" ON offer_prices;
+DROP POLICY IF EXISTS "Catalog editors can manage offer meters" ON offer_meters;
+DROP POLICY IF EXISTS "Catalog editors can manage offer meter prices" ON offer_meter_prices;
+DROP POLICY IF EXISTS "Catalog editors can manage offer tiers" ON offer_tiers;
+DROP POLICY IF EXISTS "Catalog editors can manage offer tier prices" ON offer_tier_prices;
+DROP POLICY IF EXISTS "Catalog editors can manage offer relations" ON offer_relations;
@@ -0,0 +1,165 @@
+/*
+  # Create Invoices in One Transaction
+
+  ## Overview
+  The billing engine in `src/lib/billing.ts` wrote each invoice as a series of
+  separate requests: the invoice, its line items, the usage it bills, the
+  credit and coupon periods it uses up and the checkout payment that settles
+  it. A request failing partway left an invoice without lines, or credit that
+  was never used up, and since a period that has an invoice is skipped, the
+  next run did not repair it. The billing engine still prices each period,
+  and `create_invoice` now writes it in a single transaction.
+
+  ## New Functions
+  - `create_invoice(...)` - Writes the invoice for one billing period of a
+    subscription with its line items, marks the usage it bills as invoiced,
+    uses up the account credit and coupon period it applies, and settles it
+    with an unapplied checkout payment that covers it, or marks it paid when
+    nothing is owed. Returns the invoice, or nothing when the period already
+    has one
+
+  ## Security
+  - `create_invoice` requires the billing permission; server-side code
+    without a user may call it too
+*/
+
+CREATE OR REPLACE FUNCTION create_invoice(
+  subscription_id uuid,
+  period_start timestamptz,
+  period_end timestamptz,
+  description text,
+  list_price numeric,
+  price numeric,
+  discount_description text,
+  usage_lines jsonb,
+  usage_record_ids uuid[],
+  tax_label text,
+  tax_rate numeric
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sub user_subscriptions;
+  invoice invoices;
+  payment payments;
+  invoice_discount numeric;
+  usage_amount numeric;
+  charges numeric;
+  credit_applied numeric;
+  invoice_subtotal numeric;
+  invoice_tax numeric;
+  invoice_total numeric;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT staff_can(auth.uid(), 'billing') THEN
+    RAISE EXCEPTION 'Only billing staff can create invoices' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO sub FROM user_subscriptions WHERE id = create_invoice.subscription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  invoice_discount := round(create_invoice.list_price - create_invoice.price, 2);
+  SELECT round(COALESCE(sum((line->>'amount')::numeric), 0), 2) INTO usage_amount
+  FROM jsonb_array_elements(create_invoice.usage_lines) AS lines_list(line);
+  charges := round(create_invoice.price + usage_amount, 2);
+  credit_applied := round(LEAST(sub.credit_balance, charges), 2);
+  invoice_subtotal := charges - credit_applied;
+  invoice_tax := round(invoice_subtotal * create_invoice.tax_rate / 100, 2);
+  invoice_total := invoice_subtotal + invoice_tax;
+
+  INSERT INTO invoices (
+    subscription_id, user_id, currency, period_start, period_end, subtotal, discount_amount, tax_label,
+    tax_rate, tax_amount, total, due_at
+  )
+  VALUES (
+    sub.id,
+    sub.user_id,
+    sub.currency,
+    create_invoice.period_start,
+    create_invoice.period_end,
+    invoice_subtotal,
+    invoice_discount,
+    create_invoice.tax_label,
+    create_invoice.tax_rate,
+    invoice_tax,
+    invoice_total,
+    -- Payment terms
+    create_invoice.period_start + interval '14 days'
+  )
+  ON CONFLICT ON CONSTRAINT invoices_subscription_id_period_start_key DO NOTHING
+  RETURNING * INTO invoice;
+
+  -- Already invoiced by an earlier run
+  IF invoice.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  VALUES (invoice.id, create_invoice.description, 1, create_invoice.list_price, create_invoice.list_price);
+
+  INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+  SELECT
+    invoice.id,
+    line->>'description',
+    (line->>'quantity')::numeric,
+    (line->>'unit_price')::numeric,
+    (line->>'amount')::numeric
+  FROM jsonb_array_elements(create_invoice.usage_lines) WITH ORDINALITY AS lines_list(line, position)
+  ORDER BY position;
+
+  IF invoice_discount > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (invoice.id, create_invoice.discount_description, 1, -invoice_discount, -invoice_discount);
+  END IF;
+
+  IF credit_applied > 0 THEN
+    INSERT INTO invoice_line_items (invoice_id, description, quantity, unit_price, amount)
+    VALUES (invoice.id, 'Account credit', 1, -credit_applied, -credit_applied);
+  END IF;
+
+  UPDATE usage_records
+  SET invoice_id = invoice.id
+  WHERE usage_records.id = ANY(create_invoice.usage_record_ids)
+  AND usage_records.subscription_id = sub.id
+  AND usage_records.invoice_id IS NULL;
+
+  IF credit_applied > 0 OR (invoice_discount > 0 AND sub.discount_periods_remaining IS NOT NULL) THEN
+    UPDATE user_subscriptions
+    SET credit_balance = credit_balance - credit_applied,
+        discount_periods_remaining = CASE
+          WHEN invoice_discount > 0 THEN discount_periods_remaining - 1
+          ELSE discount_periods_remaining
+        END
+    WHERE id = sub.id;
+  END IF;
+
+  -- A checkout payment settles the first invoice it covers, so the period
+  -- paid for at checkout is not billed twice
+  IF invoice_total > 0 THEN
+    SELECT * INTO payment FROM payments
+    WHERE payments.subscription_id = sub.id
+    AND payments.status = 'succeeded'
+    AND payments.invoice_id IS NULL
+    AND payments.amount >= invoice_total
+    ORDER BY payments.created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF payment.id IS NOT NULL THEN
+      UPDATE payments SET invoice_id = invoice.id WHERE id = payment.id;
+      UPDATE invoices SET status = 'paid', paid_at = payment.created_at WHERE id = invoice.id;
+    END IF;
+  ELSE
+    UPDATE invoices SET status = 'paid', paid_at = now() WHERE id = invoice.id;
+  END IF;
+
+  SELECT * INTO invoice FROM invoices WHERE id = invoice.id;
+  RETURN invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_invoice(uuid, timestamptz, timestamptz, text, numeric, numeric, text, jsonb, uuid[], text, numeric) FROM PUBLIC, anon;
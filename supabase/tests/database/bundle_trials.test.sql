@@ -0,0 +1,55 @@
+-- Services bought as a bundle are billed at the package price from the start,
+-- even when their offer has a free trial.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+-- Fixtures, created as the migration owner
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('00000000-0000-0000-0000-0000000000c1', 'customer@example.com', '{"full_name": "Customer"}');
+
+INSERT INTO service_offers (id, title, price_monthly, price_yearly, trial_days)
+VALUES
+  ('00000000-0000-0000-0000-00000000000f', 'Managed Backups', 50, 500, 14),
+  ('00000000-0000-0000-0000-0000000000f2', 'Monitoring', 20, 200, 0),
+  ('00000000-0000-0000-0000-0000000000f3', 'Log Search', 30, 300, 14);
+
+SELECT snapshot_offer_version(id) FROM service_offers;
+
+INSERT INTO service_bundles (id, title, price_monthly, price_yearly)
+VALUES ('00000000-0000-0000-0000-0000000000e1', 'Operations Pack', 60, 600);
+
+INSERT INTO bundle_offers (bundle_id, offer_id, sort_order)
+VALUES
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000f', 0),
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000f2', 1);
+
+-- A signed-in customer
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ SELECT subscribe_to_bundle('00000000-0000-0000-0000-0000000000e1', 'monthly') $$,
+  'customers can subscribe to a bundle'
+);
+
+SELECT results_eq(
+  $$ SELECT status, trial_ends_at FROM user_subscriptions
+     WHERE offer_id = '00000000-0000-0000-0000-00000000000f' $$,
+  $$ VALUES ('pending'::text, NULL::timestamptz) $$,
+  'a bundled service whose offer has a trial does not start a trial'
+);
+
+INSERT INTO user_subscriptions (user_id, offer_id)
+VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000f3');
+
+SELECT is(
+  (SELECT status FROM user_subscriptions WHERE offer_id = '00000000-0000-0000-0000-0000000000f3'),
+  'trialing',
+  'a service with a trial bought on its own still starts one'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,184 @@
+-- Customers may only write their own request fields on a subscription and
+-- support staff only its status and notes; admins, SECURITY DEFINER functions
+-- and server-side code keep full access.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(21);
+
+-- Fixtures, created as the migration owner
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES
+  ('00000000-0000-0000-0000-0000000000c1', 'customer@example.com', '{"full_name": "Customer"}'),
+  ('00000000-0000-0000-0000-0000000000a1', 'admin@example.com', '{"full_name": "Admin"}'),
+  ('00000000-0000-0000-0000-0000000000a2', 'support@example.com', '{"full_name": "Support"}');
+
+UPDATE profiles SET is_admin = true WHERE id = '00000000-0000-0000-0000-0000000000a1';
+UPDATE profiles SET staff_role = 'support' WHERE id = '00000000-0000-0000-0000-0000000000a2';
+
+INSERT INTO service_offers (id, title, price_monthly, price_yearly)
+VALUES
+  ('00000000-0000-0000-0000-00000000000f', 'Managed Backups', 50, 500),
+  ('00000000-0000-0000-0000-0000000000f2', 'Monitoring', 20, 200);
+
+INSERT INTO user_subscriptions (id, user_id, offer_id, status, next_billing_date, notes)
+VALUES (
+  '00000000-0000-0000-0000-0000000000b1',
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-00000000000f',
+  'active',
+  '2030-01-01',
+  'Set up by sales'
+);
+
+-- A signed-in customer
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE user_subscriptions SET status = 'paused' WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  '42501',
+  'Only administrators can change this subscription field',
+  'customers cannot change the status'
+);
+
+SELECT throws_ok(
+  $$ UPDATE user_subscriptions SET notes = 'Approved' WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  '42501',
+  'Only administrators can change this subscription field',
+  'customers cannot change admin notes'
+);
+
+SELECT throws_ok(
+  $$ UPDATE user_subscriptions SET next_billing_date = '2040-01-01' WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  '42501',
+  'Only administrators can change this subscription field',
+  'customers cannot move the next billing date'
+);
+
+SELECT throws_ok(
+  $$ UPDATE user_subscriptions SET credit_balance = 1000 WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  '42501',
+  'Only administrators can change this subscription field',
+  'customers cannot give themselves credit'
+);
+
+SELECT throws_ok(
+  $$ UPDATE user_subscriptions SET discounted_price = 0 WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  '42501',
+  'Only administrators can change this subscription field',
+  'customers cannot set a discounted price'
+);
+
+SELECT lives_ok(
+  $$ UPDATE user_subscriptions SET customer_notes = 'Please call first' WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  'customers can change their own notes'
+);
+
+SELECT throws_ok(
+  $$ SELECT set_subscription_notes('00000000-0000-0000-0000-0000000000b1', 'Approved') $$,
+  '42501',
+  'Only staff who manage subscriptions can change their notes',
+  'customers cannot change admin notes through set_subscription_notes()'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO user_subscriptions (user_id, offer_id, status)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000f2', 'active') $$,
+  '42501',
+  'New subscriptions must start as pending',
+  'customers cannot create an active subscription'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO user_subscriptions (user_id, offer_id, notes, next_billing_date)
+     VALUES ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000f2', 'Approved', '2040-01-01') $$,
+  'customers can request a subscription'
+);
+
+SELECT results_eq(
+  $$ SELECT status, notes, next_billing_date FROM user_subscriptions
+     WHERE offer_id = '00000000-0000-0000-0000-0000000000f2' $$,
+  $$ VALUES ('pending'::text, ''::text, NULL::timestamptz) $$,
+  'admin fields on a requested subscription are reset'
+);
+
+-- SECURITY DEFINER functions write the protected columns for the customer
+SELECT lives_ok(
+  $$ SELECT cancel_subscription('00000000-0000-0000-0000-0000000000b1') $$,
+  'customers can schedule a cancellation through cancel_subscription()'
+);
+
+SELECT is(
+  (SELECT cancel_at_period_end FROM user_subscriptions WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  true,
+  'cancel_subscription() set cancel_at_period_end'
+);
+
+-- A signed-in admin
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE user_subscriptions
+     SET status = 'paused', notes = 'Paused on request', next_billing_date = '2031-01-01'
+     WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  'admins can change the status, notes and billing date'
+);
+
+SELECT results_eq(
+  $$ SELECT status, notes, next_billing_date FROM user_subscriptions
+     WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  $$ VALUES ('paused'::text, 'Paused on request'::text, '2031-01-01'::timestamptz) $$,
+  'the admin changes were saved'
+);
+
+SELECT lives_ok(
+  $$ UPDATE user_subscriptions SET status = 'active', notes = 'Approved'
+     WHERE offer_id = '00000000-0000-0000-0000-0000000000f2' $$,
+  'admins can approve a requested subscription'
+);
+
+-- A signed-in support agent
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE user_subscriptions SET next_billing_date = '2040-01-01'
+     WHERE id = '00000000-0000-0000-0000-0000000000b1' RETURNING id $$,
+  'support cannot update subscriptions directly'
+);
+
+SELECT lives_ok(
+  $$ SELECT change_subscription_status('00000000-0000-0000-0000-0000000000b1', 'active', 'Resumed on request') $$,
+  'support can change the status through change_subscription_status()'
+);
+
+SELECT lives_ok(
+  $$ SELECT set_subscription_notes('00000000-0000-0000-0000-0000000000b1', 'Resumed by support') $$,
+  'support can change the notes through set_subscription_notes()'
+);
+
+SELECT results_eq(
+  $$ SELECT status, notes, next_billing_date FROM user_subscriptions
+     WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  $$ VALUES ('active'::text, 'Resumed by support'::text, '2031-01-01'::timestamptz) $$,
+  'support changed the status and notes and nothing else'
+);
+
+-- Server-side code, such as the billing job, runs without a user
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+
+SELECT lives_ok(
+  $$ UPDATE user_subscriptions SET credit_balance = 25 WHERE id = '00000000-0000-0000-0000-0000000000b1' $$,
+  'server-side code can change billing columns'
+);
+
+SELECT is(
+  (SELECT credit_balance FROM user_subscriptions WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  25.00,
+  'the server-side change was saved'
+);
+
+SELECT * FROM finish();
+ROLLBACK;